@@ -0,0 +1,85 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "./interfaces/IInterestRateModel.sol";
+
+contract KinkInterestRateModel is IInterestRateModel {
+    uint256 public constant SECONDS_PER_YEAR = 365 days;
+    uint256 public constant RATE_PRECISION = 1e18;
+
+    // Rates per second scaled by RATE_PRECISION
+    uint256 public immutable baseRatePerSecond;
+    uint256 public immutable multiplierPerSecond;
+    uint256 public immutable jumpMultiplierPerSecond;
+    uint256 public immutable kink; // Utilization where the jump multiplier starts
+
+    error InvalidKink(uint256 kink);
+
+    /**
+     * @dev Rates are given per year and scaled by RATE_PRECISION (0.05e18 == 5%)
+     * @param baseRatePerYear Rate at 0% utilization
+     * @param multiplierPerYear Rate increase per 100% utilization below the kink
+     * @param jumpMultiplierPerYear Rate increase per 100% utilization above the kink
+     * @param _kink Utilization threshold scaled by RATE_PRECISION
+     */
+    constructor(
+        uint256 baseRatePerYear,
+        uint256 multiplierPerYear,
+        uint256 jumpMultiplierPerYear,
+        uint256 _kink
+    ) {
+        if (_kink > RATE_PRECISION) {
+            revert InvalidKink(_kink);
+        }
+
+        baseRatePerSecond = baseRatePerYear / SECONDS_PER_YEAR;
+        multiplierPerSecond = multiplierPerYear / SECONDS_PER_YEAR;
+        jumpMultiplierPerSecond = jumpMultiplierPerYear / SECONDS_PER_YEAR;
+        kink = _kink;
+    }
+
+    /**
+     * @dev Get the share of the pool that is borrowed
+     * @param cash Loan tokens available in the pool
+     * @param borrows Loan tokens currently borrowed
+     * @return Utilization scaled by RATE_PRECISION
+     */
+    function utilizationRate(
+        uint256 cash,
+        uint256 borrows
+    ) public pure returns (uint256) {
+        if (borrows == 0) {
+            return 0;
+        }
+
+        return (borrows * RATE_PRECISION) / (cash + borrows);
+    }
+
+    /**
+     * @dev Get the borrow rate per second for the current utilization
+     * @param cash Loan tokens available in the pool
+     * @param borrows Loan tokens currently borrowed
+     */
+    function getBorrowRate(
+        uint256 cash,
+        uint256 borrows
+    ) external view override returns (uint256) {
+        uint256 utilization = utilizationRate(cash, borrows);
+
+        if (utilization <= kink) {
+            return
+                baseRatePerSecond +
+                (utilization * multiplierPerSecond) /
+                RATE_PRECISION;
+        }
+
+        uint256 normalRate = baseRatePerSecond +
+            (kink * multiplierPerSecond) /
+            RATE_PRECISION;
+        uint256 excessUtilization = utilization - kink;
+        return
+            normalRate +
+            (excessUtilization * jumpMultiplierPerSecond) /
+            RATE_PRECISION;
+    }
+}
@@ -2,231 +2,1212 @@
 pragma solidity ^0.8.28;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/interfaces/IERC3156FlashLender.sol";
+import "./interfaces/IPriceOracle.sol";
+import "./interfaces/IInterestRateModel.sol";
+import "./ShareToken.sol";
+
+contract LendingProtocol is Ownable, ReentrancyGuard, IERC3156FlashLender {
+    using SafeERC20 for IERC20;
 
-contract LendingProtocol is Ownable, ReentrancyGuard {
-    IERC20 public immutable collateralToken; // cUSD
     IERC20 public immutable loanToken; // dDAI
+    IPriceOracle public priceOracle; // Price feed for the loan token
+    uint256 public maxPriceAge = 1 days; // Prices older than this are rejected
+    IInterestRateModel public interestRateModel;
+    ShareToken public immutable shareToken; // ldDAI, minted to suppliers
+    address public treasury; // Receives withdrawn reserves
+    uint256 public reserveFactor; // Share of interest kept as reserves (10 == 10%)
+    uint256 public flashLoanFee; // Fee on flash loans in basis points (9 == 0.09%)
+
+    // Global interest accounting
+    uint256 public borrowIndex = INDEX_PRECISION; // Grows with compounded borrow interest
+    uint256 public lastAccrualTimestamp;
+    uint256 public totalBorrows; // Outstanding debt including interest
+    uint256 public totalSupplyAssets; // Loan tokens owed to suppliers including interest
+    uint256 public totalReserves; // Protocol share of interest, owed to the treasury
 
     // Constants
-    uint256 public constant COLLATERALIZATION_RATIO = 150; // 150% collateralization
-    uint256 public constant INTEREST_RATE = 5; // 5% weekly interest
     uint256 public constant PRECISION = 100;
+    uint256 public constant LIQUIDATION_BONUS = 5; // 5% bonus on seized collateral
+    uint256 public constant CLOSE_FACTOR = 50; // Max 50% of debt repaid per liquidation
+    uint256 public constant HEALTH_FACTOR_PRECISION = 1e18; // 1.0 health factor
+    uint256 public constant PRICE_PRECISION = 1e18; // Oracle prices use 18 decimals
+    uint256 public constant INDEX_PRECISION = 1e18;
+    uint256 public constant MAX_BORROW_RATE = 0.0005e16; // Max rate per second, caps the model
+    uint256 public constant MAX_COLLATERAL_ASSETS = 10; // Bounds position loops
+    uint256 public constant MAX_RESERVE_FACTOR = 50; // Max 50% of interest to reserves
+    uint256 public constant FLASH_LOAN_FEE_PRECISION = 10000;
+    uint256 public constant MAX_FLASH_LOAN_FEE = 100; // Max 1% per flash loan
+    bytes32 public constant CALLBACK_SUCCESS =
+        keccak256("ERC3156FlashBorrower.onFlashLoan");
+
+    // User actions that guardians can pause
+    enum Action {
+        Deposit,
+        Borrow,
+        Repay,
+        Withdraw,
+        Liquidate,
+        FlashLoan
+    }
+
+    // Collateral asset configuration
+    struct CollateralConfig {
+        bool listed;
+        IPriceOracle oracle; // Price feed for this asset
+        uint256 collateralizationRatio; // 150 == 150%, borrow up to 66.67% of value
+        uint256 depositCap; // Max total deposits of this asset
+        uint256 totalDeposits;
+    }
 
     // User data structure
     struct UserPosition {
-        uint256 collateralAmount;
         uint256 loanAmount;
-        uint256 lastInterestUpdate;
+        uint256 interestIndex; // borrowIndex at the last interest update
         uint256 accumulatedInterest;
     }
 
+    // Per-asset view of a position, values in USD with 18 decimals
+    struct CollateralSnapshot {
+        address asset;
+        uint256 amount;
+        uint256 price; // As reported by the asset's oracle, may be stale
+        uint256 value;
+        uint256 borrowCapacity; // Value that can be borrowed against this asset
+    }
+
+    // Account-wide view of a position, values in USD with 18 decimals
+    struct AccountSnapshot {
+        CollateralSnapshot[] collaterals;
+        uint256 debt;
+        uint256 interest;
+        uint256 collateralValue;
+        uint256 borrowCapacity;
+        uint256 debtValue;
+        uint256 healthFactor;
+    }
+
+    mapping(address => CollateralConfig) public collateralConfigs;
+    address[] public collateralAssets;
     mapping(address => UserPosition) public userPositions;
+    mapping(address => mapping(address => uint256)) public collateralBalances; // user => asset => amount
+    mapping(address => bool) public guardians; // Can pause actions, only the owner unpauses
+    mapping(Action => bool) public paused;
 
     // Events
-    event CollateralDeposited(address indexed user, uint256 amount);
+    event CollateralDeposited(
+        address indexed user,
+        address indexed asset,
+        uint256 amount
+    );
     event LoanBorrowed(address indexed user, uint256 amount);
     event LoanRepaid(address indexed user, uint256 amount, uint256 interest);
-    event CollateralWithdrawn(address indexed user, uint256 amount);
+    event CollateralWithdrawn(
+        address indexed user,
+        address indexed asset,
+        uint256 amount
+    );
+    event Liquidated(
+        address indexed user,
+        address indexed liquidator,
+        address indexed collateralAsset,
+        uint256 repayAmount,
+        uint256 collateralSeized,
+        uint256 interestPaid // Part of repayAmount applied to interest
+    );
+    event CollateralConfigured(
+        address indexed asset,
+        address oracle,
+        uint256 collateralizationRatio,
+        uint256 depositCap
+    );
+    event PriceOracleUpdated(address indexed priceOracle);
+    event MaxPriceAgeUpdated(uint256 maxPriceAge);
+    event InterestAccrued(uint256 borrowIndex, uint256 totalBorrows);
+    event InterestRateModelUpdated(address indexed interestRateModel);
+    event LiquiditySupplied(
+        address indexed supplier,
+        uint256 amount,
+        uint256 shares
+    );
+    event LiquidityRedeemed(
+        address indexed supplier,
+        uint256 amount,
+        uint256 shares
+    );
+    event ReservesAdded(uint256 amount, uint256 totalReserves);
+    event ReservesWithdrawn(
+        address indexed treasury,
+        uint256 amount,
+        uint256 totalReserves
+    );
+    event ReserveFactorUpdated(uint256 reserveFactor);
+    event TreasuryUpdated(address indexed treasury);
+    event GuardianUpdated(address indexed guardian, bool enabled);
+    event ActionPauseUpdated(
+        Action indexed action,
+        bool paused,
+        address indexed account
+    );
+    event FlashLoan(
+        address indexed receiver,
+        address indexed initiator,
+        uint256 amount,
+        uint256 fee
+    );
+    event FlashLoanFeeUpdated(uint256 flashLoanFee);
+
+    // Errors, values in USD use 18 decimals
+    error ZeroAmount();
+    error ZeroAddress();
+    error AmountTooSmall();
+    error InsufficientShares(uint256 requested, uint256 balance);
+    error InsufficientLiquidity(uint256 requested, uint256 available);
+    error CollateralNotListed(address asset);
+    error DepositCapExceeded(
+        address asset,
+        uint256 requested,
+        uint256 available
+    );
+    error NoCollateralDeposited();
+    error ExceedsBorrowCapacity(uint256 debtValue, uint256 borrowCapacity);
+    error NoActiveLoan(address user);
+    error InsufficientCollateral(
+        address asset,
+        uint256 requested,
+        uint256 balance
+    );
+    error WithdrawalExceedsCollateralization(uint256 healthFactor);
+    error NoCollateralToSeize(address user, address asset);
+    error PositionHealthy(address user, uint256 healthFactor);
+    error ExceedsCloseFactor(uint256 repayAmount, uint256 maxRepayAmount);
+    error InvalidOraclePrice(address token);
+    error StaleOraclePrice(address token, uint256 updatedAt);
+    error InvalidAsset(address asset);
+    error InvalidCollateralizationRatio(uint256 collateralizationRatio);
+    error TooManyCollateralAssets();
+    error InvalidMaxPriceAge();
+    error InvalidReserveFactor(uint256 reserveFactor);
+    error ExceedsReserves(uint256 requested, uint256 reserves);
+    error ExceedsExcessLiquidity(uint256 requested, uint256 excess);
+    error ActionPaused(Action action);
+    error NotGuardian(address account);
+    error UnsupportedFlashLoanToken(address token);
+    error InvalidFlashLoanCallback(address receiver);
+    error InvalidFlashLoanFee(uint256 flashLoanFee);
+
+    modifier whenNotPaused(Action action) {
+        if (paused[action]) {
+            revert ActionPaused(action);
+        }
+        _;
+    }
 
     constructor(
-        address _collateralToken,
         address _loanToken,
+        address _priceOracle,
+        address _interestRateModel,
         address initialOwner
     ) Ownable(initialOwner) {
-        collateralToken = IERC20(_collateralToken);
         loanToken = IERC20(_loanToken);
+        priceOracle = IPriceOracle(_priceOracle);
+        interestRateModel = IInterestRateModel(_interestRateModel);
+        shareToken = new ShareToken(address(this));
+        treasury = initialOwner;
+        lastAccrualTimestamp = block.timestamp;
     }
 
     /**
-     * @dev Deposit collateral tokens (cUSD)
+     * @dev Supply loan tokens (dDAI) to the pool in exchange for shares (ldDAI)
+     * @param amount Amount of loan tokens to supply
+     */
+    function supply(uint256 amount) external nonReentrant {
+        _supply(amount);
+    }
+
+    /**
+     * @dev Burn shares (ldDAI) for the supplied loan tokens plus earned interest
+     * @param shares Amount of shares to redeem
+     */
+    function redeem(uint256 shares) external nonReentrant {
+        if (shares == 0) {
+            revert ZeroAmount();
+        }
+        uint256 shareBalance = shareToken.balanceOf(msg.sender);
+        if (shares > shareBalance) {
+            revert InsufficientShares(shares, shareBalance);
+        }
+
+        accrueInterest();
+
+        uint256 amount = (shares * totalSupplyAssets) /
+            shareToken.totalSupply();
+        uint256 liquidity = availableLiquidity();
+        if (amount > liquidity) {
+            revert InsufficientLiquidity(amount, liquidity);
+        }
+
+        shareToken.burn(msg.sender, shares);
+        totalSupplyAssets -= amount;
+
+        loanToken.safeTransfer(msg.sender, amount);
+
+        emit LiquidityRedeemed(msg.sender, amount, shares);
+    }
+
+    /**
+     * @dev Deposit a listed collateral token
+     * @param asset Collateral token address
      * @param amount Amount of collateral to deposit
      */
-    function depositCollateral(uint256 amount) external nonReentrant {
-        require(amount > 0, "Amount must be greater than 0");
+    function depositCollateral(
+        address asset,
+        uint256 amount
+    ) external nonReentrant whenNotPaused(Action.Deposit) {
+        if (amount == 0) {
+            revert ZeroAmount();
+        }
 
-        UserPosition storage position = userPositions[msg.sender];
+        CollateralConfig storage config = collateralConfigs[asset];
+        if (!config.listed) {
+            revert CollateralNotListed(asset);
+        }
+        if (config.totalDeposits + amount > config.depositCap) {
+            // The cap can be lowered below current deposits
+            uint256 available = config.depositCap > config.totalDeposits
+                ? config.depositCap - config.totalDeposits
+                : 0;
+            revert DepositCapExceeded(asset, amount, available);
+        }
 
         // Transfer collateral from user to contract
-        require(
-            collateralToken.transferFrom(msg.sender, address(this), amount),
-            "Collateral transfer failed"
-        );
+        IERC20(asset).safeTransferFrom(msg.sender, address(this), amount);
 
-        position.collateralAmount += amount;
+        collateralBalances[msg.sender][asset] += amount;
+        config.totalDeposits += amount;
 
-        emit CollateralDeposited(msg.sender, amount);
+        emit CollateralDeposited(msg.sender, asset, amount);
     }
 
     /**
      * @dev Borrow loan tokens (dDAI) against collateral
      * @param amount Amount to borrow
      */
-    function borrow(uint256 amount) external nonReentrant {
-        require(amount > 0, "Amount must be greater than 0");
+    function borrow(
+        uint256 amount
+    ) external nonReentrant whenNotPaused(Action.Borrow) {
+        if (amount == 0) {
+            revert ZeroAmount();
+        }
 
-        UserPosition storage position = userPositions[msg.sender];
-        require(position.collateralAmount > 0, "No collateral deposited");
+        // Calculate maximum borrowable value across all collateral assets
+        uint256 maxBorrowable = _borrowCapacity(msg.sender);
+        if (maxBorrowable == 0) {
+            revert NoCollateralDeposited();
+        }
 
         // Update interest before calculating new loan
         _updateInterest(msg.sender);
 
-        // Calculate maximum borrowable amount (66.67% of collateral due to 150% ratio)
-        uint256 maxBorrowable = (position.collateralAmount * PRECISION) /
-            COLLATERALIZATION_RATIO;
+        UserPosition storage position = userPositions[msg.sender];
         uint256 currentDebt = position.loanAmount +
             position.accumulatedInterest;
 
-        require(
-            currentDebt + amount <= maxBorrowable,
-            "Exceeds borrowing capacity"
-        );
+        uint256 debtValue = _debtValue(currentDebt + amount);
+        if (debtValue > maxBorrowable) {
+            revert ExceedsBorrowCapacity(debtValue, maxBorrowable);
+        }
 
-        // Check contract has enough loan tokens
-        require(
-            loanToken.balanceOf(address(this)) >= amount,
-            "Insufficient loan tokens in contract"
-        );
+        // Check suppliers have enough idle loan tokens
+        uint256 liquidity = availableLiquidity();
+        if (amount > liquidity) {
+            revert InsufficientLiquidity(amount, liquidity);
+        }
 
         position.loanAmount += amount;
-        position.lastInterestUpdate = block.timestamp;
+        totalBorrows += amount;
 
         // Transfer loan tokens to user
-        require(loanToken.transfer(msg.sender, amount), "Loan transfer failed");
+        loanToken.safeTransfer(msg.sender, amount);
 
         emit LoanBorrowed(msg.sender, amount);
     }
 
     /**
-     * @dev Repay loan with accumulated interest
+     * @dev Repay loan, applied to accumulated interest first and then principal
+     * @param amount Amount to repay (capped at the current debt)
      */
-    function repay() external nonReentrant {
+    function repay(
+        uint256 amount
+    ) external nonReentrant whenNotPaused(Action.Repay) {
+        if (amount == 0) {
+            revert ZeroAmount();
+        }
+
         UserPosition storage position = userPositions[msg.sender];
-        require(position.loanAmount > 0, "No active loan");
+        if (position.loanAmount == 0) {
+            revert NoActiveLoan(msg.sender);
+        }
 
         // Update interest
         _updateInterest(msg.sender);
 
         uint256 totalDebt = position.loanAmount + position.accumulatedInterest;
+        if (amount > totalDebt) {
+            amount = totalDebt;
+        }
 
         // Transfer repayment from user to contract
-        require(
-            loanToken.transferFrom(msg.sender, address(this), totalDebt),
-            "Repayment transfer failed"
-        );
+        loanToken.safeTransferFrom(msg.sender, address(this), amount);
 
-        emit LoanRepaid(
-            msg.sender,
-            position.loanAmount,
-            position.accumulatedInterest
+        (uint256 principalPaid, uint256 interestPaid) = _applyRepayment(
+            position,
+            amount
         );
 
-        // Reset loan position
-        position.loanAmount = 0;
-        position.accumulatedInterest = 0;
-        position.lastInterestUpdate = 0;
+        emit LoanRepaid(msg.sender, principalPaid, interestPaid);
     }
 
     /**
-     * @dev Withdraw collateral (only if no active debt)
+     * @dev Withdraw collateral while keeping the position above the collateralization ratio
+     * @param asset Collateral token address
+     * @param amount Amount of collateral to withdraw
      */
-    function withdrawCollateral() external nonReentrant {
-        UserPosition storage position = userPositions[msg.sender];
-        require(position.collateralAmount > 0, "No collateral to withdraw");
+    function withdrawCollateral(
+        address asset,
+        uint256 amount
+    ) external nonReentrant whenNotPaused(Action.Withdraw) {
+        if (amount == 0) {
+            revert ZeroAmount();
+        }
 
-        // Update interest to get current debt
-        if (position.loanAmount > 0) {
-            _updateInterest(msg.sender);
+        uint256 balance = collateralBalances[msg.sender][asset];
+        if (amount > balance) {
+            revert InsufficientCollateral(asset, amount, balance);
         }
 
+        // Update interest to get current debt
+        _updateInterest(msg.sender);
+
+        collateralBalances[msg.sender][asset] = balance - amount;
+        collateralConfigs[asset].totalDeposits -= amount;
+
+        UserPosition storage position = userPositions[msg.sender];
         uint256 currentDebt = position.loanAmount +
             position.accumulatedInterest;
-        require(currentDebt == 0, "Cannot withdraw with active debt");
 
-        uint256 collateralAmount = position.collateralAmount;
-        position.collateralAmount = 0;
+        if (currentDebt > 0) {
+            uint256 health = _healthFactor(msg.sender, currentDebt);
+            if (health < HEALTH_FACTOR_PRECISION) {
+                revert WithdrawalExceedsCollateralization(health);
+            }
+        }
 
         // Transfer collateral back to user
-        require(
-            collateralToken.transfer(msg.sender, collateralAmount),
-            "Collateral withdrawal failed"
+        IERC20(asset).safeTransfer(msg.sender, amount);
+
+        emit CollateralWithdrawn(msg.sender, asset, amount);
+    }
+
+    /**
+     * @dev Liquidate an undercollateralized position by repaying part of its debt
+     * @param user Address of the position to liquidate
+     * @param collateralAsset Collateral token to seize
+     * @param repayAmount Amount of debt to repay (capped by CLOSE_FACTOR)
+     */
+    function liquidate(
+        address user,
+        address collateralAsset,
+        uint256 repayAmount
+    ) external nonReentrant whenNotPaused(Action.Liquidate) {
+        if (repayAmount == 0) {
+            revert ZeroAmount();
+        }
+
+        UserPosition storage position = userPositions[user];
+        if (position.loanAmount == 0) {
+            revert NoActiveLoan(user);
+        }
+
+        uint256 collateralBalance = collateralBalances[user][collateralAsset];
+        if (collateralBalance == 0) {
+            revert NoCollateralToSeize(user, collateralAsset);
+        }
+
+        // Update interest so the health check uses the current debt
+        _updateInterest(user);
+
+        uint256 totalDebt = position.loanAmount + position.accumulatedInterest;
+        uint256 health = _healthFactor(user, totalDebt);
+        if (health >= HEALTH_FACTOR_PRECISION) {
+            revert PositionHealthy(user, health);
+        }
+        uint256 maxRepayAmount = (totalDebt * CLOSE_FACTOR) / PRECISION;
+        if (repayAmount > maxRepayAmount) {
+            revert ExceedsCloseFactor(repayAmount, maxRepayAmount);
+        }
+
+        // Seize collateral worth the repaid debt plus bonus, capped at what is left
+        uint256 collateralPrice = _getPrice(
+            collateralConfigs[collateralAsset].oracle,
+            collateralAsset
+        );
+        uint256 collateralSeized = (_debtValue(repayAmount) *
+            (PRECISION + LIQUIDATION_BONUS) *
+            PRICE_PRECISION) / (PRECISION * collateralPrice);
+        if (collateralSeized > collateralBalance) {
+            collateralSeized = collateralBalance;
+        }
+
+        // Transfer repayment from liquidator to contract
+        loanToken.safeTransferFrom(msg.sender, address(this), repayAmount);
+
+        // Apply repayment to interest first, then principal
+        (, uint256 interestPaid) = _applyRepayment(position, repayAmount);
+        collateralBalances[user][collateralAsset] =
+            collateralBalance -
+            collateralSeized;
+        collateralConfigs[collateralAsset].totalDeposits -= collateralSeized;
+
+        // Transfer seized collateral to liquidator
+        IERC20(collateralAsset).safeTransfer(msg.sender, collateralSeized);
+
+        emit Liquidated(
+            user,
+            msg.sender,
+            collateralAsset,
+            repayAmount,
+            collateralSeized,
+            interestPaid
+        );
+    }
+
+    /**
+     * @dev Lend idle loan tokens for the duration of a single transaction (ERC-3156)
+     * @param receiver Contract that receives the tokens and the onFlashLoan callback
+     * @param token Loan token address, the only token that can be flash borrowed
+     * @param amount Amount to lend, repaid with the fee before the call returns
+     * @param data Arbitrary data passed to the receiver
+     * @return True when the loan was repaid
+     */
+    function flashLoan(
+        IERC3156FlashBorrower receiver,
+        address token,
+        uint256 amount,
+        bytes calldata data
+    ) external nonReentrant whenNotPaused(Action.FlashLoan) returns (bool) {
+        if (amount == 0) {
+            revert ZeroAmount();
+        }
+        if (token != address(loanToken)) {
+            revert UnsupportedFlashLoanToken(token);
+        }
+
+        // Accrue first, so the callback cannot accrue at the drained utilization
+        accrueInterest();
+
+        uint256 liquidity = availableLiquidity();
+        if (amount > liquidity) {
+            revert InsufficientLiquidity(amount, liquidity);
+        }
+
+        uint256 fee = _flashFee(amount);
+        loanToken.safeTransfer(address(receiver), amount);
+
+        if (
+            receiver.onFlashLoan(msg.sender, token, amount, fee, data) !=
+            CALLBACK_SUCCESS
+        ) {
+            revert InvalidFlashLoanCallback(address(receiver));
+        }
+
+        // Pull the repayment, reverting the whole loan if it was not approved
+        loanToken.safeTransferFrom(
+            address(receiver),
+            address(this),
+            amount + fee
         );
 
-        emit CollateralWithdrawn(msg.sender, collateralAmount);
+        // Fees go to reserves, suppliers earn on borrows only
+        if (fee > 0) {
+            totalReserves += fee;
+            emit ReservesAdded(fee, totalReserves);
+        }
+
+        emit FlashLoan(address(receiver), msg.sender, amount, fee);
+        return true;
     }
 
     /**
-     * @dev Get user position data
+     * @dev Get the maximum amount that can be flash borrowed (ERC-3156)
+     * @param token Token to borrow
+     * @return Idle supplier liquidity for the loan token, 0 for any other token
+     */
+    function maxFlashLoan(address token) external view returns (uint256) {
+        if (token != address(loanToken) || paused[Action.FlashLoan]) {
+            return 0;
+        }
+
+        return availableLiquidity();
+    }
+
+    /**
+     * @dev Get the fee charged on a flash loan (ERC-3156)
+     * @param token Token to borrow, must be the loan token
+     * @param amount Amount to borrow
+     * @return Fee in loan tokens
+     */
+    function flashFee(
+        address token,
+        uint256 amount
+    ) external view returns (uint256) {
+        if (token != address(loanToken)) {
+            revert UnsupportedFlashLoanToken(token);
+        }
+
+        return _flashFee(amount);
+    }
+
+    /**
+     * @dev Get the health factor of a position (below 1e18 can be liquidated)
+     * @param user User address
+     * @return Health factor scaled by HEALTH_FACTOR_PRECISION
+     */
+    function healthFactor(address user) external view returns (uint256) {
+        UserPosition memory position = userPositions[user];
+        uint256 debt = position.loanAmount +
+            position.accumulatedInterest +
+            _pendingInterest(position, _currentBorrowIndex());
+        return _healthFactor(user, debt);
+    }
+
+    /**
+     * @dev Get a snapshot of a position with every listed collateral asset
      * @param user User address
-     * @return collateral Current collateral amount
-     * @return debt Current debt amount
-     * @return interest Current accumulated interest
+     * @return snapshot Collateral, debt and their USD values at reported prices
      */
-    function getUserData(
+    function getAccountSnapshot(
         address user
-    )
-        external
-        view
-        returns (uint256 collateral, uint256 debt, uint256 interest)
-    {
+    ) external view returns (AccountSnapshot memory snapshot) {
         UserPosition memory position = userPositions[user];
 
-        collateral = position.collateralAmount;
-        debt = position.loanAmount;
-        interest = position.accumulatedInterest;
+        snapshot.debt = position.loanAmount;
+        snapshot.interest =
+            position.accumulatedInterest +
+            _pendingInterest(position, _currentBorrowIndex());
 
-        // Calculate current interest if there's an active loan
-        if (position.loanAmount > 0 && position.lastInterestUpdate > 0) {
-            uint256 timeElapsed = block.timestamp - position.lastInterestUpdate;
-            uint256 weeksElapsed = timeElapsed / (7 * 24 * 60 * 60); // Convert to weeks
+        snapshot.collaterals = new CollateralSnapshot[](
+            collateralAssets.length
+        );
+        for (uint256 i = 0; i < collateralAssets.length; i++) {
+            CollateralSnapshot memory collateral = _collateralSnapshot(
+                user,
+                collateralAssets[i]
+            );
+            snapshot.collaterals[i] = collateral;
+            snapshot.collateralValue += collateral.value;
+            snapshot.borrowCapacity += collateral.borrowCapacity;
+        }
+
+        // Views report prices as-is, state changes reject stale ones
+        (uint256 loanPrice, ) = priceOracle.getPrice(address(loanToken));
+        snapshot.debtValue =
+            ((snapshot.debt + snapshot.interest) * loanPrice) /
+            PRICE_PRECISION;
+        snapshot.healthFactor = snapshot.debtValue == 0
+            ? type(uint256).max
+            : (snapshot.borrowCapacity * HEALTH_FACTOR_PRECISION) /
+                snapshot.debtValue;
+    }
+
+    /**
+     * @dev Get the listed collateral assets
+     * @return Collateral token addresses in listing order
+     */
+    function getCollateralAssets() external view returns (address[] memory) {
+        return collateralAssets;
+    }
 
-            if (weeksElapsed > 0) {
-                uint256 newInterest = (position.loanAmount *
-                    INTEREST_RATE *
-                    weeksElapsed) / PRECISION;
-                interest += newInterest;
+    /**
+     * @dev Accrue interest and return the up-to-date debt of a user
+     * @param user User address
+     * @return Total debt including interest
+     */
+    function borrowBalanceCurrent(
+        address user
+    ) external nonReentrant returns (uint256) {
+        _updateInterest(user);
+
+        UserPosition storage position = userPositions[user];
+        return position.loanAmount + position.accumulatedInterest;
+    }
+
+    /**
+     * @dev Get the current borrow rate
+     * @return Borrow rate per second scaled by INDEX_PRECISION, at most MAX_BORROW_RATE
+     */
+    function getBorrowRate() external view returns (uint256) {
+        return _borrowRate();
+    }
+
+    /**
+     * @dev Get the value of one share in loan tokens, including pending interest
+     * @return Exchange rate scaled by INDEX_PRECISION
+     */
+    function exchangeRate() external view returns (uint256) {
+        uint256 totalShares = shareToken.totalSupply();
+        if (totalShares == 0) {
+            return INDEX_PRECISION;
+        }
+
+        return (_currentSupplyAssets() * INDEX_PRECISION) / totalShares;
+    }
+
+    /**
+     * @dev Get the loan tokens a supplier can redeem, including pending interest
+     * @param supplier Supplier address
+     * @return Amount of loan tokens owed to the supplier
+     */
+    function supplyBalance(address supplier) external view returns (uint256) {
+        uint256 totalShares = shareToken.totalSupply();
+        if (totalShares == 0) {
+            return 0;
+        }
+
+        return
+            (shareToken.balanceOf(supplier) * _currentSupplyAssets()) /
+            totalShares;
+    }
+
+    /**
+     * @dev Get the supplied loan tokens that are not borrowed out
+     * @return Amount of loan tokens available to borrow or redeem
+     */
+    function availableLiquidity() public view returns (uint256) {
+        if (totalSupplyAssets <= totalBorrows) {
+            return 0;
+        }
+
+        // Rounding in repayments can leave totalBorrows a few wei low
+        uint256 liquidity = totalSupplyAssets - totalBorrows;
+        uint256 balance = loanToken.balanceOf(address(this));
+        return liquidity < balance ? liquidity : balance;
+    }
+
+    /**
+     * @dev Get the loan tokens held by the contract that no supplier owns
+     * @return Amount of loan tokens the owner can withdraw
+     */
+    function excessLiquidity() public view returns (uint256) {
+        uint256 assets = loanToken.balanceOf(address(this)) + totalBorrows;
+        uint256 owed = totalSupplyAssets + totalReserves;
+        if (assets <= owed) {
+            return 0;
+        }
+
+        return assets - owed;
+    }
+
+    /**
+     * @dev Accrue interest on total borrows up to the current timestamp
+     */
+    function accrueInterest() public {
+        if (block.timestamp == lastAccrualTimestamp) {
+            return;
+        }
+
+        uint256 newBorrowIndex = _currentBorrowIndex();
+        uint256 newTotalBorrows = (totalBorrows * newBorrowIndex) /
+            borrowIndex;
+
+        // Interest paid by borrowers is split between reserves and suppliers
+        uint256 interest = newTotalBorrows - totalBorrows;
+        uint256 reserves = (interest * reserveFactor) / PRECISION;
+        totalReserves += reserves;
+        totalSupplyAssets += interest - reserves;
+        totalBorrows = newTotalBorrows;
+        borrowIndex = newBorrowIndex;
+        lastAccrualTimestamp = block.timestamp;
+
+        emit InterestAccrued(newBorrowIndex, totalBorrows);
+        if (reserves > 0) {
+            emit ReservesAdded(reserves, totalReserves);
+        }
+    }
+
+    /**
+     * @dev Internal function to apply a repayment to interest first, then principal
+     * @param position Position being repaid
+     * @param amount Amount repaid (must not exceed the total debt)
+     * @return principalPaid Part of the amount applied to principal
+     * @return interestPaid Part of the amount applied to interest
+     */
+    function _applyRepayment(
+        UserPosition storage position,
+        uint256 amount
+    ) internal returns (uint256 principalPaid, uint256 interestPaid) {
+        if (amount <= position.accumulatedInterest) {
+            interestPaid = amount;
+        } else {
+            interestPaid = position.accumulatedInterest;
+            principalPaid = amount - interestPaid;
+        }
+
+        position.accumulatedInterest -= interestPaid;
+        position.loanAmount -= principalPaid;
+
+        // Per-user rounding can leave totalBorrows slightly below the sum of debts
+        totalBorrows = amount < totalBorrows ? totalBorrows - amount : 0;
+    }
+
+    /**
+     * @dev Internal function to compute the health factor of a position
+     * @param user User address
+     * @param debt Total debt including interest
+     */
+    function _healthFactor(
+        address user,
+        uint256 debt
+    ) internal view returns (uint256) {
+        if (debt == 0) {
+            return type(uint256).max;
+        }
+
+        return
+            (_borrowCapacity(user) * HEALTH_FACTOR_PRECISION) /
+            _debtValue(debt);
+    }
+
+    /**
+     * @dev Internal function to get the USD value a user can borrow against
+     * @param user User address
+     */
+    function _borrowCapacity(
+        address user
+    ) internal view returns (uint256 capacity) {
+        for (uint256 i = 0; i < collateralAssets.length; i++) {
+            address asset = collateralAssets[i];
+            uint256 amount = collateralBalances[user][asset];
+            if (amount == 0) {
+                continue;
             }
+
+            CollateralConfig storage config = collateralConfigs[asset];
+            uint256 value = (amount * _getPrice(config.oracle, asset)) /
+                PRICE_PRECISION;
+            capacity += (value * PRECISION) / config.collateralizationRatio;
         }
     }
 
+    /**
+     * @dev Internal function to build the snapshot of one collateral asset
+     * @param user User address
+     * @param asset Collateral token address
+     */
+    function _collateralSnapshot(
+        address user,
+        address asset
+    ) internal view returns (CollateralSnapshot memory collateral) {
+        CollateralConfig storage config = collateralConfigs[asset];
+        (uint256 price, ) = config.oracle.getPrice(asset);
+
+        collateral.asset = asset;
+        collateral.amount = collateralBalances[user][asset];
+        collateral.price = price;
+        collateral.value = (collateral.amount * price) / PRICE_PRECISION;
+        collateral.borrowCapacity =
+            (collateral.value * PRECISION) /
+            config.collateralizationRatio;
+    }
+
+    /**
+     * @dev Internal function to get a fresh oracle price
+     * @param oracle Price feed to query
+     * @param token Token to price
+     */
+    function _getPrice(
+        IPriceOracle oracle,
+        address token
+    ) internal view returns (uint256) {
+        (uint256 price, uint256 updatedAt) = oracle.getPrice(token);
+        if (price == 0) {
+            revert InvalidOraclePrice(token);
+        }
+        if (block.timestamp - updatedAt > maxPriceAge) {
+            revert StaleOraclePrice(token, updatedAt);
+        }
+        return price;
+    }
+
+    /**
+     * @dev Internal function to get the USD value of a debt amount
+     * @param amount Loan token amount
+     */
+    function _debtValue(uint256 amount) internal view returns (uint256) {
+        return
+            (amount * _getPrice(priceOracle, address(loanToken))) /
+            PRICE_PRECISION;
+    }
+
+    /**
+     * @dev Internal function to compute the borrow index at the current timestamp
+     */
+    function _currentBorrowIndex() internal view returns (uint256) {
+        uint256 timeElapsed = block.timestamp - lastAccrualTimestamp;
+        if (timeElapsed == 0 || totalBorrows == 0) {
+            return borrowIndex;
+        }
+
+        uint256 borrowRate = _borrowRate();
+
+        // Compound the per-second rate over the elapsed time
+        return
+            (borrowIndex * _rpow(INDEX_PRECISION + borrowRate, timeElapsed)) /
+            INDEX_PRECISION;
+    }
+
+    /**
+     * @dev Internal function to read the model's borrow rate, capped at
+     * MAX_BORROW_RATE so repay and liquidate keep working under a
+     * misconfigured model until the owner replaces it
+     */
+    function _borrowRate() internal view returns (uint256) {
+        uint256 borrowRate = interestRateModel.getBorrowRate(
+            availableLiquidity(),
+            totalBorrows
+        );
+        return borrowRate > MAX_BORROW_RATE ? MAX_BORROW_RATE : borrowRate;
+    }
+
+    /**
+     * @dev Internal function to compute supplier assets at the current timestamp
+     */
+    function _currentSupplyAssets() internal view returns (uint256) {
+        uint256 pendingInterest = (totalBorrows * _currentBorrowIndex()) /
+            borrowIndex -
+            totalBorrows;
+        uint256 pendingReserves = (pendingInterest * reserveFactor) / PRECISION;
+        return totalSupplyAssets + pendingInterest - pendingReserves;
+    }
+
+    /**
+     * @dev Internal function to compute the fee on a flash loan
+     * @param amount Amount borrowed
+     */
+    function _flashFee(uint256 amount) internal view returns (uint256) {
+        return (amount * flashLoanFee) / FLASH_LOAN_FEE_PRECISION;
+    }
+
+    /**
+     * @dev Internal function to supply loan tokens and mint shares to the sender
+     * @param amount Amount of loan tokens to supply
+     */
+    function _supply(uint256 amount) internal {
+        if (amount == 0) {
+            revert ZeroAmount();
+        }
+
+        accrueInterest();
+
+        // Supplier assets are tracked internally, so donations cannot move the rate
+        uint256 totalShares = shareToken.totalSupply();
+        uint256 shares = totalShares == 0
+            ? amount
+            : (amount * totalShares) / totalSupplyAssets;
+        if (shares == 0) {
+            revert AmountTooSmall();
+        }
+
+        loanToken.safeTransferFrom(msg.sender, address(this), amount);
+
+        totalSupplyAssets += amount;
+        shareToken.mint(msg.sender, shares);
+
+        emit LiquiditySupplied(msg.sender, amount, shares);
+    }
+
+    /**
+     * @dev Internal function to compute interest accrued since the last update
+     * @param position User position
+     * @param currentBorrowIndex Borrow index to accrue up to
+     */
+    function _pendingInterest(
+        UserPosition memory position,
+        uint256 currentBorrowIndex
+    ) internal pure returns (uint256) {
+        uint256 debt = position.loanAmount + position.accumulatedInterest;
+        if (debt == 0) {
+            return 0;
+        }
+
+        return (debt * currentBorrowIndex) / position.interestIndex - debt;
+    }
+
     /**
      * @dev Internal function to update accumulated interest
      * @param user User address
      */
     function _updateInterest(address user) internal {
+        accrueInterest();
+
         UserPosition storage position = userPositions[user];
+        position.accumulatedInterest += _pendingInterest(position, borrowIndex);
+        position.interestIndex = borrowIndex;
+    }
 
-        if (position.loanAmount > 0 && position.lastInterestUpdate > 0) {
-            uint256 timeElapsed = block.timestamp - position.lastInterestUpdate;
-            uint256 weeksElapsed = timeElapsed / (7 * 24 * 60 * 60); // Convert to weeks
+    /**
+     * @dev Internal function to raise a fixed point number to an integer power
+     * @param x Base scaled by INDEX_PRECISION
+     * @param n Exponent
+     */
+    function _rpow(uint256 x, uint256 n) internal pure returns (uint256 z) {
+        z = n % 2 != 0 ? x : INDEX_PRECISION;
+
+        for (n /= 2; n != 0; n /= 2) {
+            x = (x * x) / INDEX_PRECISION;
 
-            if (weeksElapsed > 0) {
-                uint256 newInterest = (position.loanAmount *
-                    INTEREST_RATE *
-                    weeksElapsed) / PRECISION;
-                position.accumulatedInterest += newInterest;
-                position.lastInterestUpdate = block.timestamp;
+            if (n % 2 != 0) {
+                z = (z * x) / INDEX_PRECISION;
             }
         }
     }
 
     /**
-     * @dev Owner function to fund the contract with loan tokens
-     * @param amount Amount of loan tokens to fund
+     * @dev Internal function to check the sender is a guardian or the owner
+     */
+    function _checkGuardian() internal view {
+        if (!guardians[msg.sender] && msg.sender != owner()) {
+            revert NotGuardian(msg.sender);
+        }
+    }
+
+    /**
+     * @dev Owner function to list a collateral asset or update its configuration
+     * @param asset Collateral token address
+     * @param oracle Price feed for the asset
+     * @param collateralizationRatio Required collateralization (150 == 150%)
+     * @param depositCap Max total deposits of the asset (0 disables deposits)
      */
-    function fundContract(uint256 amount) external onlyOwner {
-        require(
-            loanToken.transferFrom(msg.sender, address(this), amount),
-            "Funding transfer failed"
+    function setCollateralConfig(
+        address asset,
+        address oracle,
+        uint256 collateralizationRatio,
+        uint256 depositCap
+    ) external onlyOwner {
+        if (asset == address(0) || asset == address(loanToken)) {
+            revert InvalidAsset(asset);
+        }
+        if (oracle == address(0)) {
+            revert ZeroAddress();
+        }
+        if (collateralizationRatio <= PRECISION) {
+            revert InvalidCollateralizationRatio(collateralizationRatio);
+        }
+
+        CollateralConfig storage config = collateralConfigs[asset];
+        if (!config.listed) {
+            if (collateralAssets.length >= MAX_COLLATERAL_ASSETS) {
+                revert TooManyCollateralAssets();
+            }
+            config.listed = true;
+            collateralAssets.push(asset);
+        }
+
+        config.oracle = IPriceOracle(oracle);
+        config.collateralizationRatio = collateralizationRatio;
+        config.depositCap = depositCap;
+
+        emit CollateralConfigured(
+            asset,
+            oracle,
+            collateralizationRatio,
+            depositCap
         );
     }
 
     /**
-     * @dev Owner function to withdraw excess loan tokens
+     * @dev Owner function to set the loan token price oracle
+     * @param _priceOracle Address of the new oracle
+     */
+    function setPriceOracle(address _priceOracle) external onlyOwner {
+        if (_priceOracle == address(0)) {
+            revert ZeroAddress();
+        }
+        priceOracle = IPriceOracle(_priceOracle);
+
+        emit PriceOracleUpdated(_priceOracle);
+    }
+
+    /**
+     * @dev Owner function to set the maximum accepted price age
+     * @param _maxPriceAge Maximum age in seconds
+     */
+    function setMaxPriceAge(uint256 _maxPriceAge) external onlyOwner {
+        if (_maxPriceAge == 0) {
+            revert InvalidMaxPriceAge();
+        }
+        maxPriceAge = _maxPriceAge;
+
+        emit MaxPriceAgeUpdated(_maxPriceAge);
+    }
+
+    /**
+     * @dev Owner function to set the interest rate model
+     * @param _interestRateModel Address of the new model
+     */
+    function setInterestRateModel(
+        address _interestRateModel
+    ) external onlyOwner {
+        if (_interestRateModel == address(0)) {
+            revert ZeroAddress();
+        }
+
+        // Accrue with the old model up to now
+        accrueInterest();
+        interestRateModel = IInterestRateModel(_interestRateModel);
+
+        emit InterestRateModelUpdated(_interestRateModel);
+    }
+
+    /**
+     * @dev Owner function to set the share of interest kept as reserves
+     * @param _reserveFactor Reserve factor (10 == 10%)
+     */
+    function setReserveFactor(uint256 _reserveFactor) external onlyOwner {
+        if (_reserveFactor > MAX_RESERVE_FACTOR) {
+            revert InvalidReserveFactor(_reserveFactor);
+        }
+
+        // Accrue with the old factor up to now
+        accrueInterest();
+        reserveFactor = _reserveFactor;
+
+        emit ReserveFactorUpdated(_reserveFactor);
+    }
+
+    /**
+     * @dev Owner function to set the address that receives withdrawn reserves
+     * @param _treasury Address of the new treasury
+     */
+    function setTreasury(address _treasury) external onlyOwner {
+        if (_treasury == address(0)) {
+            revert ZeroAddress();
+        }
+        treasury = _treasury;
+
+        emit TreasuryUpdated(_treasury);
+    }
+
+    /**
+     * @dev Owner function to set the fee charged on flash loans
+     * @param _flashLoanFee Fee in basis points (9 == 0.09%)
+     */
+    function setFlashLoanFee(uint256 _flashLoanFee) external onlyOwner {
+        if (_flashLoanFee > MAX_FLASH_LOAN_FEE) {
+            revert InvalidFlashLoanFee(_flashLoanFee);
+        }
+        flashLoanFee = _flashLoanFee;
+
+        emit FlashLoanFeeUpdated(_flashLoanFee);
+    }
+
+    /**
+     * @dev Owner function to send reserves to the treasury
+     * @param amount Amount of reserves to withdraw
+     */
+    function withdrawReserves(uint256 amount) external onlyOwner nonReentrant {
+        if (amount == 0) {
+            revert ZeroAmount();
+        }
+
+        accrueInterest();
+        if (amount > totalReserves) {
+            revert ExceedsReserves(amount, totalReserves);
+        }
+
+        // Reserves still lent out to borrowers cannot be withdrawn yet
+        uint256 reserveCash = loanToken.balanceOf(address(this)) -
+            availableLiquidity();
+        if (amount > reserveCash) {
+            revert InsufficientLiquidity(amount, reserveCash);
+        }
+
+        totalReserves -= amount;
+        loanToken.safeTransfer(treasury, amount);
+
+        emit ReservesWithdrawn(treasury, amount, totalReserves);
+    }
+
+    /**
+     * @dev Owner function to allow or revoke an address as pause guardian
+     * @param guardian Guardian address
+     * @param enabled Whether the address can pause actions
+     */
+    function setGuardian(address guardian, bool enabled) external onlyOwner {
+        if (guardian == address(0)) {
+            revert ZeroAddress();
+        }
+        guardians[guardian] = enabled;
+
+        emit GuardianUpdated(guardian, enabled);
+    }
+
+    /**
+     * @dev Pause or unpause one action, guardians can only pause
+     * @param action Action to update
+     * @param _paused Whether the action is paused
+     */
+    function setActionPaused(Action action, bool _paused) external {
+        if (_paused) {
+            _checkGuardian();
+        } else {
+            _checkOwner();
+        }
+
+        paused[action] = _paused;
+
+        emit ActionPauseUpdated(action, _paused, msg.sender);
+    }
+
+    /**
+     * @dev Emergency pause of every action except repay, so borrowers can still reduce debt
+     */
+    function pauseAll() external {
+        _checkGuardian();
+
+        for (uint256 i = 0; i <= uint256(type(Action).max); i++) {
+            Action action = Action(i);
+            if (action == Action.Repay || paused[action]) {
+                continue;
+            }
+
+            paused[action] = true;
+            emit ActionPauseUpdated(action, true, msg.sender);
+        }
+    }
+
+    /**
+     * @dev Owner function to fund the contract with loan tokens, minting shares like supply
+     * @param amount Amount of loan tokens to fund
+     */
+    function fundContract(uint256 amount) external onlyOwner nonReentrant {
+        _supply(amount);
+    }
+
+    /**
+     * @dev Owner function to withdraw loan tokens that neither suppliers nor reserves own
      * @param amount Amount to withdraw
      */
-    function withdrawExcess(uint256 amount) external onlyOwner {
-        require(loanToken.transfer(msg.sender, amount), "Withdrawal failed");
+    function withdrawExcess(uint256 amount) external onlyOwner nonReentrant {
+        accrueInterest();
+        uint256 excess = excessLiquidity();
+        if (amount > excess) {
+            revert ExceedsExcessLiquidity(amount, excess);
+        }
+
+        loanToken.safeTransfer(msg.sender, amount);
     }
 }
@@ -0,0 +1,91 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/interfaces/IERC3156FlashLender.sol";
+
+contract MockFlashBorrower is IERC3156FlashBorrower {
+    // How the borrower behaves inside onFlashLoan
+    enum Mode {
+        Repay, // Approve the loan plus fee
+        NoRepay, // Keep the tokens without approving the repayment
+        WrongReturn, // Approve but return an invalid callback value
+        Reenter // Call the lender again before repaying
+    }
+
+    IERC3156FlashLender public immutable lender;
+    Mode public mode;
+    bytes public reentryCall; // Calldata sent to the lender in Reenter mode
+
+    // Values seen by the last callback
+    address public lastInitiator;
+    uint256 public lastAmount;
+    uint256 public lastFee;
+    uint256 public balanceDuringLoan;
+
+    error UntrustedLender(address lender);
+
+    constructor(address _lender) {
+        lender = IERC3156FlashLender(_lender);
+    }
+
+    /**
+     * @dev Set how the next callbacks behave
+     * @param _mode Callback behavior
+     * @param _reentryCall Calldata sent to the lender in Reenter mode
+     */
+    function setMode(Mode _mode, bytes calldata _reentryCall) external {
+        mode = _mode;
+        reentryCall = _reentryCall;
+    }
+
+    /**
+     * @dev Start a flash loan with this contract as receiver
+     * @param token Token to borrow
+     * @param amount Amount to borrow
+     */
+    function flashBorrow(address token, uint256 amount) external {
+        lender.flashLoan(this, token, amount, "");
+    }
+
+    /**
+     * @dev ERC-3156 callback, runs while the borrowed tokens are held
+     */
+    function onFlashLoan(
+        address initiator,
+        address token,
+        uint256 amount,
+        uint256 fee,
+        bytes calldata
+    ) external returns (bytes32) {
+        if (msg.sender != address(lender)) {
+            revert UntrustedLender(msg.sender);
+        }
+
+        lastInitiator = initiator;
+        lastAmount = amount;
+        lastFee = fee;
+        balanceDuringLoan = IERC20(token).balanceOf(address(this));
+
+        if (mode == Mode.Reenter) {
+            (bool success, bytes memory result) = address(lender).call(
+                reentryCall
+            );
+            if (!success) {
+                // Bubble up the lender's error
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+        }
+
+        if (mode != Mode.NoRepay) {
+            IERC20(token).approve(address(lender), amount + fee);
+        }
+
+        return
+            mode == Mode.WrongReturn
+                ? bytes32(0)
+                : keccak256("ERC3156FlashBorrower.onFlashLoan");
+    }
+}
@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./interfaces/IPriceOracle.sol";
+
+contract MockPriceOracle is IPriceOracle, Ownable {
+    struct PriceData {
+        uint256 price;
+        uint256 updatedAt;
+    }
+
+    mapping(address => PriceData) public prices;
+
+    event PriceUpdated(address indexed token, uint256 price, uint256 updatedAt);
+
+    constructor(address initialOwner) Ownable(initialOwner) {}
+
+    /**
+     * @dev Set the USD price of a token
+     * @param token Token address
+     * @param price Price with 18 decimals
+     */
+    function setPrice(address token, uint256 price) external onlyOwner {
+        prices[token] = PriceData({price: price, updatedAt: block.timestamp});
+
+        emit PriceUpdated(token, price, block.timestamp);
+    }
+
+    /**
+     * @dev Get the USD price of a token
+     * @param token Token address
+     */
+    function getPrice(
+        address token
+    ) external view override returns (uint256 price, uint256 updatedAt) {
+        PriceData memory data = prices[token];
+        return (data.price, data.updatedAt);
+    }
+}
@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @dev Local copy of the aggregate3 entry point of Multicall3, deployed at
+ * 0xcA11bde05977b3631167028862bE2a173976CA11 on public networks. Lets the
+ * Hardhat tests batch reads the same way the frontend does on Sepolia
+ */
+contract Multicall3 {
+    struct Call3 {
+        address target;
+        bool allowFailure;
+        bytes callData;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
+    error CallFailed(uint256 index);
+
+    /**
+     * @dev Run every call in order and return their results
+     * @param calls Target, calldata and whether a revert is allowed for each call
+     */
+    function aggregate3(
+        Call3[] calldata calls
+    ) external payable returns (Result[] memory returnData) {
+        returnData = new Result[](calls.length);
+
+        for (uint256 i = 0; i < calls.length; i++) {
+            Call3 calldata call = calls[i];
+            (returnData[i].success, returnData[i].returnData) = call
+                .target
+                .call(call.callData);
+
+            if (!returnData[i].success && !call.allowFailure) {
+                revert CallFailed(i);
+            }
+        }
+    }
+}
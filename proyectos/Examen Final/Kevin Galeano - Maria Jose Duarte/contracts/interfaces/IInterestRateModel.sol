@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+interface IInterestRateModel {
+    /**
+     * @dev Get the borrow rate for the current pool state
+     * @param cash Loan tokens available in the pool
+     * @param borrows Loan tokens currently borrowed
+     * @return Borrow rate per second scaled by 1e18
+     */
+    function getBorrowRate(
+        uint256 cash,
+        uint256 borrows
+    ) external view returns (uint256);
+}
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+interface IPriceOracle {
+    /**
+     * @dev Get the USD price of a token
+     * @param token Token address
+     * @return price Price of one whole token in USD with 18 decimals
+     * @return updatedAt Timestamp of the last price update
+     */
+    function getPrice(
+        address token
+    ) external view returns (uint256 price, uint256 updatedAt);
+}
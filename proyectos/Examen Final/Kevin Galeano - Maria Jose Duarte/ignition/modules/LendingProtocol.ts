@@ -0,0 +1,149 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { NamedArtifactContractDeploymentFuture } from "@nomicfoundation/ignition-core";
+import { parseEther } from "ethers";
+import * as fs from "fs";
+
+export interface CollateralAssetConfig {
+  symbol: string; // Also names the Ignition steps, letters, digits and _ only
+  contract?: string; // Token contract to deploy with the deployer as owner
+  address?: string; // Existing token, used when no contract is given
+  oracle?: string; // External price feed, defaults to the MockPriceOracle
+  price?: string; // Initial USD price on the MockPriceOracle
+  collateralizationRatio: number; // 150 == 150%
+  depositCap: string; // In whole tokens
+}
+
+export interface DeployConfig {
+  loanPrice: string;
+  reserveFactor: number; // 10 == 10% of interest kept as reserves
+  treasury?: string; // Receives reserves, defaults to the deployer
+  flashLoanFee: number; // 9 == 0.09% of each flash loan, added to reserves
+  fundAmount: string; // dDAI supplied by the deployer, in whole tokens
+  collaterals: CollateralAssetConfig[];
+}
+
+/**
+ * Read and validate the deploy config (DEPLOY_CONFIG or ./deploy-config.json)
+ */
+export function loadDeployConfig(
+  configPath = process.env.DEPLOY_CONFIG || "./deploy-config.json"
+): DeployConfig {
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Deploy config not found: ${configPath}`);
+  }
+  const config: DeployConfig = JSON.parse(fs.readFileSync(configPath, "utf8"));
+
+  for (const asset of config.collaterals) {
+    if (!/^\w+$/.test(asset.symbol)) {
+      throw new Error(`Invalid collateral symbol: ${asset.symbol}`);
+    }
+    if (!asset.contract && !asset.address) {
+      throw new Error(`Collateral ${asset.symbol} needs a contract or address`);
+    }
+    if (!asset.oracle && !asset.price) {
+      throw new Error(`Collateral ${asset.symbol} needs an oracle or price`);
+    }
+  }
+
+  return config;
+}
+
+export const deployConfig = loadDeployConfig();
+
+// Every step is recorded in ignition/deployments/chain-<id>, reruns skip completed ones
+const LendingProtocolModule = buildModule("LendingProtocolModule", (m) => {
+  const deployer = m.getAccount(0);
+
+  const loanToken = m.contract("LoanToken", [deployer]);
+  const priceOracle = m.contract("MockPriceOracle", [deployer]);
+
+  // 2% base, 20% up to 80% utilization, 300% above
+  const interestRateModel = m.contract("KinkInterestRateModel", [
+    parseEther("0.02"),
+    parseEther("0.2"),
+    parseEther("3"),
+    parseEther("0.8"),
+  ]);
+
+  const lendingProtocol = m.contract("LendingProtocol", [
+    loanToken,
+    priceOracle,
+    interestRateModel,
+    deployer,
+  ]);
+  const shareToken = m.contractAt(
+    "ShareToken",
+    m.staticCall(lendingProtocol, "shareToken")
+  );
+
+  // Protocol parameters
+  m.call(
+    priceOracle,
+    "setPrice",
+    [loanToken, parseEther(deployConfig.loanPrice)],
+    { id: "setLoanPrice" }
+  );
+  m.call(lendingProtocol, "setReserveFactor", [deployConfig.reserveFactor]);
+  if (deployConfig.treasury) {
+    m.call(lendingProtocol, "setTreasury", [deployConfig.treasury]);
+  }
+  m.call(lendingProtocol, "setFlashLoanFee", [deployConfig.flashLoanFee]);
+
+  // List every collateral asset, deploying its token when a contract is given
+  const collateralTokens: Record<
+    string,
+    NamedArtifactContractDeploymentFuture<string>
+  > = {};
+  for (const asset of deployConfig.collaterals) {
+    const tokenId = `${asset.symbol}Token`;
+    if (asset.contract) {
+      collateralTokens[tokenId] = m.contract(asset.contract, [deployer], {
+        id: tokenId,
+      });
+    }
+    const token = collateralTokens[tokenId] ?? asset.address!;
+
+    // Without an external feed, the asset is priced on the mock oracle
+    const oracle = asset.oracle ?? priceOracle;
+    if (!asset.oracle) {
+      m.call(priceOracle, "setPrice", [token, parseEther(asset.price!)], {
+        id: `set${asset.symbol}Price`,
+      });
+    }
+
+    m.call(
+      lendingProtocol,
+      "setCollateralConfig",
+      [
+        token,
+        oracle,
+        asset.collateralizationRatio,
+        parseEther(asset.depositCap),
+      ],
+      { id: `list${asset.symbol}` }
+    );
+  }
+
+  // Fund the pool, a failed step is retried on the next run
+  const fundAmount = parseEther(deployConfig.fundAmount);
+  const approveFunding = m.call(
+    loanToken,
+    "approve",
+    [lendingProtocol, fundAmount],
+    { id: "approveFunding" }
+  );
+  m.call(lendingProtocol, "fundContract", [fundAmount], {
+    after: [approveFunding],
+  });
+
+  return {
+    loanToken,
+    priceOracle,
+    interestRateModel,
+    lendingProtocol,
+    shareToken,
+    ...collateralTokens,
+  };
+});
+
+export default LendingProtocolModule;
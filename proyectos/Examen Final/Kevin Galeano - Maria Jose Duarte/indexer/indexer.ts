@@ -0,0 +1,254 @@
+import { Interface, Log, LogDescription, Provider } from "ethers";
+import * as path from "path";
+import { DeploymentRecord } from "../scripts/deployments";
+import {
+  IndexedBlock,
+  IndexerStore,
+  LendingEventName,
+  LendingEventRecord,
+} from "./store";
+
+// LendingProtocol events the indexer stores
+export const LENDING_EVENTS = new Interface([
+  "event CollateralDeposited(address indexed user, address indexed asset, uint256 amount)",
+  "event CollateralWithdrawn(address indexed user, address indexed asset, uint256 amount)",
+  "event LoanBorrowed(address indexed user, uint256 amount)",
+  "event LoanRepaid(address indexed user, uint256 amount, uint256 interest)",
+  "event Liquidated(address indexed user, address indexed liquidator, address indexed collateralAsset, uint256 repayAmount, uint256 collateralSeized, uint256 interestPaid)",
+  "event LiquiditySupplied(address indexed supplier, uint256 amount, uint256 shares)",
+  "event LiquidityRedeemed(address indexed supplier, uint256 amount, uint256 shares)",
+]);
+
+export interface IndexerOptions {
+  address: string; // LendingProtocol
+  startBlock: number; // Block the contract was deployed in
+  confirmations: number; // Blocks newer than head - confirmations are not indexed yet
+  batchSize: number; // Blocks per eth_getLogs request
+  pollInterval: number; // Ms between syncs when following
+  log: (message: string) => void;
+}
+
+const DEFAULT_OPTIONS = {
+  startBlock: 0,
+  confirmations: 12,
+  batchSize: 2000,
+  pollInterval: 4000,
+  log: console.log,
+};
+
+function toRecord(
+  parsed: LogDescription,
+  log: Log,
+  block: IndexedBlock
+): LendingEventRecord {
+  const record: LendingEventRecord = {
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    timestamp: block.timestamp,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+    event: parsed.name as LendingEventName,
+    user: parsed.args[0],
+    asset: null,
+    counterparty: null,
+    amount: 0n,
+    interest: null,
+    collateralSeized: null,
+    shares: null,
+  };
+
+  switch (record.event) {
+    case "CollateralDeposited":
+    case "CollateralWithdrawn":
+      record.asset = parsed.args.asset;
+      record.amount = parsed.args.amount;
+      break;
+    case "LoanBorrowed":
+      record.amount = parsed.args.amount;
+      break;
+    case "LoanRepaid":
+      record.amount = parsed.args.amount;
+      record.interest = parsed.args.interest;
+      break;
+    case "Liquidated":
+      record.asset = parsed.args.collateralAsset;
+      record.counterparty = parsed.args.liquidator;
+      record.amount = parsed.args.repayAmount;
+      record.collateralSeized = parsed.args.collateralSeized;
+      record.interest = parsed.args.interestPaid;
+      break;
+    case "LiquiditySupplied":
+    case "LiquidityRedeemed":
+      record.amount = parsed.args.amount;
+      record.shares = parsed.args.shares;
+      break;
+  }
+
+  return record;
+}
+
+/**
+ * Copies LendingProtocol events into an IndexerStore. Only blocks with enough
+ * confirmations are indexed, and blocks replaced by a deeper reorg are rolled
+ * back and indexed again
+ */
+export class LendingIndexer {
+  private readonly options: IndexerOptions;
+  private readonly topics: string[] = [];
+
+  constructor(
+    private readonly provider: Provider,
+    private readonly store: IndexerStore,
+    options: Partial<IndexerOptions> & { address: string }
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    LENDING_EVENTS.forEachEvent((event) => this.topics.push(event.topicHash));
+  }
+
+  private async getBlock(blockNumber: number): Promise<IndexedBlock> {
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block?.hash) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+    return {
+      number: block.number,
+      hash: block.hash,
+      timestamp: block.timestamp,
+    };
+  }
+
+  /**
+   * If the last indexed block is no longer on the chain, roll the store back
+   * to the newest stored block that still is
+   */
+  private async handleReorg() {
+    const cursor = this.store.getCursor();
+    if (cursor === null || cursor < this.options.startBlock) return;
+
+    const indexed = this.store.getBlock(cursor);
+    const current = await this.provider.getBlock(cursor);
+    if (indexed && current?.hash === indexed.hash) return;
+
+    let ancestor = this.options.startBlock - 1;
+    for (const block of this.store.getBlocksBefore(cursor)) {
+      const onChain = await this.provider.getBlock(block.number);
+      if (onChain?.hash === block.hash) {
+        ancestor = block.number;
+        break;
+      }
+    }
+
+    this.options.log(
+      `Reorg detected at block ${cursor}, rolling back to block ${ancestor}`
+    );
+    this.store.rollback(ancestor);
+  }
+
+  /**
+   * Index every confirmed block after the cursor.
+   * Returns the number of events stored
+   */
+  async sync(): Promise<number> {
+    const { chainId } = await this.provider.getNetwork();
+    this.store.bind(chainId, this.options.address);
+    await this.handleReorg();
+
+    const head = await this.provider.getBlockNumber();
+    const safeHead = head - this.options.confirmations;
+    let fromBlock = (this.store.getCursor() ?? this.options.startBlock - 1) + 1;
+    let stored = 0;
+
+    while (fromBlock <= safeHead) {
+      const toBlock = Math.min(
+        fromBlock + this.options.batchSize - 1,
+        safeHead
+      );
+      const logs = await this.provider.getLogs({
+        address: this.options.address,
+        fromBlock,
+        toBlock,
+        topics: [this.topics],
+      });
+
+      const blocks = new Map<number, IndexedBlock>();
+      const events: LendingEventRecord[] = [];
+      for (const log of logs) {
+        if (!blocks.has(log.blockNumber)) {
+          blocks.set(log.blockNumber, await this.getBlock(log.blockNumber));
+        }
+        const block = blocks.get(log.blockNumber)!;
+
+        // The block was replaced while this range was read, retry on the next sync
+        if (block.hash !== log.blockHash) {
+          this.options.log(`Block ${block.number} changed while indexing`);
+          return stored;
+        }
+
+        const parsed = LENDING_EVENTS.parseLog(log);
+        if (parsed) {
+          events.push(toRecord(parsed, log, block));
+        }
+      }
+
+      this.store.saveRange(
+        await this.getBlock(toBlock),
+        [...blocks.values()],
+        events
+      );
+      stored += events.length;
+      this.options.log(
+        `Indexed blocks ${fromBlock}-${toBlock}: ${events.length} events`
+      );
+      fromBlock = toBlock + 1;
+    }
+
+    return stored;
+  }
+
+  /**
+   * Sync every pollInterval until `signal` is aborted
+   */
+  async follow(signal?: AbortSignal) {
+    while (!signal?.aborted) {
+      await this.sync();
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.options.pollInterval)
+      );
+    }
+  }
+}
+
+/**
+ * Open the store and indexer of a deployment. The database defaults to
+ * data/lending-<chainId>.sqlite, set INDEXER_DB to use another file
+ */
+export function openIndexer(
+  provider: Provider,
+  deployment: DeploymentRecord,
+  options: Partial<IndexerOptions> = {}
+): { store: IndexerStore; indexer: LendingIndexer } {
+  const store = new IndexerStore(
+    process.env.INDEXER_DB ||
+      path.join("data", `lending-${deployment.chainId}.sqlite`)
+  );
+
+  // Start from the deployment transaction when the registry has it
+  const contract = Object.values(deployment.contracts ?? {}).find(
+    (record) =>
+      record.address.toLowerCase() === deployment.lendingProtocol.toLowerCase()
+  );
+
+  const indexer = new LendingIndexer(provider, store, {
+    address: deployment.lendingProtocol,
+    startBlock: contract?.blockNumber ?? 0,
+    // A local node does not reorg
+    confirmations: process.env.INDEXER_CONFIRMATIONS
+      ? Number(process.env.INDEXER_CONFIRMATIONS)
+      : deployment.chainId === 31337
+      ? 0
+      : 12,
+    ...options,
+  });
+
+  return { store, indexer };
+}
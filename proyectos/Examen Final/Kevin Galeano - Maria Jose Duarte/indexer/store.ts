@@ -0,0 +1,328 @@
+import Database from "better-sqlite3";
+import * as fs from "fs";
+import * as path from "path";
+
+export type LendingEventName =
+  | "CollateralDeposited"
+  | "CollateralWithdrawn"
+  | "LoanBorrowed"
+  | "LoanRepaid"
+  | "Liquidated"
+  | "LiquiditySupplied"
+  | "LiquidityRedeemed";
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface LendingEventRecord {
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+  event: LendingEventName;
+  user: string; // Borrower or supplier
+  asset: string | null; // Collateral asset, null for dDAI
+  counterparty: string | null; // Liquidator
+  amount: bigint; // Principal for repayments, repaid debt for liquidations
+  interest: bigint | null; // Interest part of a repayment or liquidation
+  collateralSeized: bigint | null;
+  shares: bigint | null; // ldDAI minted or burned
+}
+
+// Value locked after a block, from net deposits (accrued interest not included)
+export interface TvlPoint {
+  blockNumber: number;
+  timestamp: number;
+  supplied: bigint; // dDAI supplied minus redeemed
+  collateral: Record<string, bigint>; // Deposited minus withdrawn and seized, by asset
+}
+
+interface EventRow {
+  block_number: number;
+  block_hash: string;
+  timestamp: number;
+  tx_hash: string;
+  log_index: number;
+  event: LendingEventName;
+  user: string;
+  asset: string | null;
+  counterparty: string | null;
+  amount: string;
+  interest: string | null;
+  collateral_seized: string | null;
+  shares: string | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    event TEXT NOT NULL,
+    user TEXT NOT NULL,
+    asset TEXT,
+    counterparty TEXT,
+    amount TEXT NOT NULL,
+    interest TEXT,
+    collateral_seized TEXT,
+    shares TEXT,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_user ON events (user);
+  CREATE INDEX IF NOT EXISTS events_counterparty ON events (counterparty);
+`;
+
+// Amounts are stored as decimal strings, uint256 does not fit SQLite integers
+function toBigInt(value: string | null): bigint | null {
+  return value === null ? null : BigInt(value);
+}
+
+function toRecord(row: EventRow): LendingEventRecord {
+  return {
+    blockNumber: row.block_number,
+    blockHash: row.block_hash,
+    timestamp: row.timestamp,
+    transactionHash: row.tx_hash,
+    logIndex: row.log_index,
+    event: row.event,
+    user: row.user,
+    asset: row.asset,
+    counterparty: row.counterparty,
+    amount: BigInt(row.amount),
+    interest: toBigInt(row.interest),
+    collateralSeized: toBigInt(row.collateral_seized),
+    shares: toBigInt(row.shares),
+  };
+}
+
+/**
+ * SQLite store of the indexed events, the blocks they came from and the last
+ * indexed block
+ */
+export class IndexerStore {
+  private readonly db: Database.Database;
+
+  /**
+   * @param file Database file, created with its directory if missing, or ":memory:"
+   */
+  constructor(file: string) {
+    if (file !== ":memory:") {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+    }
+    this.db = new Database(file);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  /**
+   * Bind the store to a contract, throwing if it already indexes another one
+   */
+  bind(chainId: bigint, address: string) {
+    const key = `${chainId}:${address.toLowerCase()}`;
+    const row = this.db
+      .prepare("SELECT value FROM meta WHERE key = 'contract'")
+      .get() as { value: string } | undefined;
+
+    if (!row) {
+      this.db
+        .prepare("INSERT INTO meta (key, value) VALUES ('contract', ?)")
+        .run(key);
+    } else if (row.value !== key) {
+      throw new Error(
+        `Indexer store holds events of ${row.value}, not ${key}. Use another database file`
+      );
+    }
+  }
+
+  /**
+   * Last block whose events are stored, null before the first sync
+   */
+  getCursor(): number | null {
+    const row = this.db
+      .prepare("SELECT value FROM meta WHERE key = 'cursor'")
+      .get() as { value: string } | undefined;
+    return row ? Number(row.value) : null;
+  }
+
+  getBlock(blockNumber: number): IndexedBlock | undefined {
+    return this.db
+      .prepare("SELECT number, hash, timestamp FROM blocks WHERE number = ?")
+      .get(blockNumber) as IndexedBlock | undefined;
+  }
+
+  /**
+   * Stored blocks below `blockNumber`, newest first
+   */
+  getBlocksBefore(blockNumber: number): IndexedBlock[] {
+    return this.db
+      .prepare(
+        "SELECT number, hash, timestamp FROM blocks WHERE number < ? ORDER BY number DESC"
+      )
+      .all(blockNumber) as IndexedBlock[];
+  }
+
+  /**
+   * Store the events of a block range and move the cursor to its last block,
+   * all or nothing
+   */
+  saveRange(
+    end: IndexedBlock,
+    blocks: IndexedBlock[],
+    events: LendingEventRecord[]
+  ) {
+    const insertBlock = this.db.prepare(
+      "INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (@number, @hash, @timestamp)"
+    );
+    const insertEvent = this.db.prepare(`
+      INSERT OR REPLACE INTO events (
+        block_number, block_hash, timestamp, tx_hash, log_index, event, user,
+        asset, counterparty, amount, interest, collateral_seized, shares
+      ) VALUES (
+        @blockNumber, @blockHash, @timestamp, @transactionHash, @logIndex,
+        @event, @user, @asset, @counterparty, @amount, @interest,
+        @collateralSeized, @shares
+      )
+    `);
+    const setCursor = this.db.prepare(
+      "INSERT OR REPLACE INTO meta (key, value) VALUES ('cursor', ?)"
+    );
+
+    this.db.transaction(() => {
+      for (const block of [...blocks, end]) {
+        insertBlock.run(block);
+      }
+      for (const event of events) {
+        insertEvent.run({
+          ...event,
+          amount: event.amount.toString(),
+          interest: event.interest?.toString() ?? null,
+          collateralSeized: event.collateralSeized?.toString() ?? null,
+          shares: event.shares?.toString() ?? null,
+        });
+      }
+      setCursor.run(String(end.number));
+    })();
+  }
+
+  /**
+   * Forget every block after `blockNumber`, used when a reorg replaced them
+   */
+  rollback(blockNumber: number) {
+    this.db.transaction(() => {
+      this.db
+        .prepare("DELETE FROM events WHERE block_number > ?")
+        .run(blockNumber);
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+      this.db
+        .prepare(
+          "INSERT OR REPLACE INTO meta (key, value) VALUES ('cursor', ?)"
+        )
+        .run(String(blockNumber));
+    })();
+  }
+
+  /**
+   * Events where `user` is the borrower, supplier or liquidator, oldest first
+   */
+  getUserHistory(user: string): LendingEventRecord[] {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM events WHERE user = ? OR counterparty = ? ORDER BY block_number, log_index"
+      )
+      .all(user, user) as EventRow[];
+    return rows.map(toRecord);
+  }
+
+  /**
+   * Value locked after every block that changed it
+   */
+  getTvlHistory(): TvlPoint[] {
+    const rows = this.db
+      .prepare("SELECT * FROM events ORDER BY block_number, log_index")
+      .all() as EventRow[];
+
+    const points: TvlPoint[] = [];
+    let supplied = 0n;
+    const collateral: Record<string, bigint> = {};
+
+    for (const event of rows.map(toRecord)) {
+      const asset = event.asset!;
+      switch (event.event) {
+        case "CollateralDeposited":
+          collateral[asset] = (collateral[asset] ?? 0n) + event.amount;
+          break;
+        case "CollateralWithdrawn":
+          collateral[asset] = (collateral[asset] ?? 0n) - event.amount;
+          break;
+        case "Liquidated":
+          collateral[asset] =
+            (collateral[asset] ?? 0n) - event.collateralSeized!;
+          break;
+        case "LiquiditySupplied":
+          supplied += event.amount;
+          break;
+        case "LiquidityRedeemed":
+          supplied -= event.amount;
+          break;
+        default:
+          continue;
+      }
+
+      const point = {
+        blockNumber: event.blockNumber,
+        timestamp: event.timestamp,
+        supplied,
+        collateral: { ...collateral },
+      };
+      // One point per block, with the totals after its last event
+      if (points[points.length - 1]?.blockNumber === event.blockNumber) {
+        points[points.length - 1] = point;
+      } else {
+        points.push(point);
+      }
+    }
+
+    return points;
+  }
+
+  /**
+   * Interest repaid on the debt of `user`, or of every borrower when omitted,
+   * by the borrower or by liquidators
+   */
+  getInterestPaid(user?: string): bigint {
+    const rows = (
+      user
+        ? this.db
+            .prepare(
+              "SELECT interest FROM events WHERE event IN ('LoanRepaid', 'Liquidated') AND user = ?"
+            )
+            .all(user)
+        : this.db
+            .prepare(
+              "SELECT interest FROM events WHERE event IN ('LoanRepaid', 'Liquidated')"
+            )
+            .all()
+    ) as { interest: string }[];
+
+    return rows.reduce((total, row) => total + BigInt(row.interest), 0n);
+  }
+}
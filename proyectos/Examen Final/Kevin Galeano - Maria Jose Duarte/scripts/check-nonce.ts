@@ -1,26 +1,27 @@
 import { ethers } from "hardhat";
+import { cancelPendingTransactions, getNonces } from "./transactions";
 
 async function main() {
   const [deployer] = await ethers.getSigners();
 
   console.log("Account:", deployer.address);
 
-  // Get current nonce (next transaction number)
-  const currentNonce = await ethers.provider.getTransactionCount(
+  // Current nonce (next transaction number) and pending nonce (including mempool transactions)
+  const { latest: currentNonce, pending: pendingNonce } = await getNonces(
+    ethers.provider,
     deployer.address
   );
   console.log("Current nonce:", currentNonce);
-
-  // Get pending nonce (including mempool transactions)
-  const pendingNonce = await ethers.provider.getTransactionCount(
-    deployer.address,
-    "pending"
-  );
   console.log("Pending nonce:", pendingNonce);
 
   if (currentNonce !== pendingNonce) {
     console.log("WARNING: There are pending transactions!");
     console.log("Pending transactions:", pendingNonce - currentNonce);
+
+    // CANCEL=true replaces each stuck transaction with an empty self-transfer
+    if (process.env.CANCEL === "true") {
+      await cancelPendingTransactions(deployer);
+    }
   } else {
     console.log("No pending transactions.");
   }
@@ -1,195 +1,146 @@
-import { ethers } from "hardhat";
+import hre, { ethers } from "hardhat";
+import { BaseContract } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  TransactionStatus,
+  listTransactions,
+  status,
+  wipe,
+} from "@nomicfoundation/ignition-core";
+import { HardhatArtifactResolver } from "@nomicfoundation/hardhat-ignition/helpers";
+import LendingProtocolModule, {
+  deployConfig,
+} from "../ignition/modules/LendingProtocol";
+import {
+  ContractDeployment,
+  deploymentPath,
+  writeDeployment,
+} from "./deployments";
 
 async function main() {
   const [deployer] = await ethers.getSigners();
+  const { chainId, name } = await ethers.provider.getNetwork();
 
   console.log("Deploying contracts with account:", deployer.address);
   console.log(
     "Account balance:",
-    (await ethers.provider.getBalance(deployer.address)).toString()
+    ethers.formatEther(await ethers.provider.getBalance(deployer.address)),
+    "ETH"
   );
 
-  // Get initial nonce to avoid conflicts
-  const initialNonce = await ethers.provider.getTransactionCount(
-    deployer.address
-  );
-  console.log("Starting nonce:", initialNonce);
-
-  // Get gas price with a significant buffer for Ephemery testnet
-  const feeData = await ethers.provider.getFeeData();
-  const baseGasPrice = feeData.gasPrice || ethers.parseUnits("10", "gwei");
-  const safegasPrice = baseGasPrice * 5n; // 5x multiplier for safety
-
-  console.log(
-    "Base gas price:",
-    ethers.formatUnits(baseGasPrice, "gwei"),
-    "gwei"
-  );
-  console.log(
-    "Safe gas price:",
-    ethers.formatUnits(safegasPrice, "gwei"),
-    "gwei"
-  );
-
-  const deployOptions = {
-    gasPrice: safegasPrice,
-    gasLimit: 2000000,
-  };
-
-  // Deploy CollateralToken (cUSD)
-  console.log("\nDeploying CollateralToken...");
-  const CollateralToken = await ethers.getContractFactory("CollateralToken");
-  const collateralToken = await CollateralToken.deploy(deployer.address, {
-    ...deployOptions,
-    nonce: initialNonce,
-  });
-  await collateralToken.waitForDeployment();
-  const collateralAddress = await collateralToken.getAddress();
-  console.log("CollateralToken deployed to:", collateralAddress);
-
-  // Deploy LoanToken (dDAI)
-  console.log("\nDeploying LoanToken...");
-  const LoanToken = await ethers.getContractFactory("LoanToken");
-  const loanToken = await LoanToken.deploy(deployer.address, {
-    ...deployOptions,
-    nonce: initialNonce + 1,
-  });
-  await loanToken.waitForDeployment();
-  const loanAddress = await loanToken.getAddress();
-  console.log("LoanToken deployed to:", loanAddress);
-
-  // Deploy LendingProtocol
-  console.log("\nDeploying LendingProtocol...");
-  const LendingProtocol = await ethers.getContractFactory("LendingProtocol");
-  const lendingProtocol = await LendingProtocol.deploy(
-    collateralAddress,
-    loanAddress,
-    deployer.address,
-    {
-      ...deployOptions,
-      nonce: initialNonce + 2,
+  // Ignition keeps a journal per chain, the in-process network keeps none
+  const deploymentId = `chain-${chainId}`;
+  const deploymentDir =
+    hre.network.name === "hardhat"
+      ? undefined
+      : path.join(hre.config.paths.ignition, "deployments", deploymentId);
+  const artifactResolver = new HardhatArtifactResolver(hre);
+
+  // Reverted steps stay failed in the journal, clear them so this run retries them
+  if (
+    deploymentDir &&
+    fs.existsSync(path.join(deploymentDir, "journal.jsonl"))
+  ) {
+    const previous = await status(deploymentDir);
+    console.log(
+      `Resuming ${deploymentId}, ${previous.successful.length} steps already done`
+    );
+    for (const failed of previous.failed) {
+      console.log(`Retrying failed step ${failed.futureId}: ${failed.error}`);
+      await wipe(deploymentDir, artifactResolver, failed.futureId);
     }
-  );
-  await lendingProtocol.waitForDeployment();
-  const protocolAddress = await lendingProtocol.getAddress();
-  console.log("LendingProtocol deployed to:", protocolAddress);
-
-  // Fund the protocol with loan tokens for testing
-  console.log("\nFunding protocol with loan tokens...");
-  const fundAmount = ethers.parseEther("100000"); // 100k dDAI
-
-  // Wait a bit to ensure previous transactions are confirmed
-  console.log("Waiting for previous transactions to confirm...");
-  await new Promise((resolve) => setTimeout(resolve, 5000));
+  }
 
+  let contracts;
   try {
-    // Approve tokens first
-    console.log("Approving tokens...");
-    const approveOptions = {
-      gasPrice: safegasPrice,
-      gasLimit: 100000,
-    };
-
-    const approveTx = await loanToken.approve(
-      protocolAddress,
-      fundAmount,
-      approveOptions
+    contracts = await hre.ignition.deploy(LendingProtocolModule, {
+      deploymentId,
+      displayUi: true,
+    });
+  } catch (error) {
+    console.error("\nDeployment stopped:", (error as Error).message);
+    console.error(
+      "Completed steps are saved, run the deploy command again to resume."
     );
-    await approveTx.wait();
-    console.log("Approval confirmed");
-
-    // Fund the contract
-    console.log("Funding contract...");
-    const fundOptions = {
-      gasPrice: safegasPrice,
-      gasLimit: 200000,
-    };
-
-    const fundTx = await lendingProtocol.fundContract(fundAmount, fundOptions);
-    await fundTx.wait();
-    console.log("Protocol funded with", ethers.formatEther(fundAmount), "dDAI");
-  } catch (error: any) {
-    if (error.message.includes("replacement transaction underpriced")) {
-      console.log(
-        "Gas price issue detected, retrying with higher gas price..."
-      );
-
-      // Try again with even higher gas price
-      const higherGasPrice = safegasPrice * 2n;
-      console.log(
-        "Retrying with gas price:",
-        ethers.formatUnits(higherGasPrice, "gwei"),
-        "gwei"
-      );
-
-      const retryOptions = {
-        gasPrice: higherGasPrice,
-        gasLimit: 200000,
-      };
-
-      try {
-        const approveTx = await loanToken.approve(
-          protocolAddress,
-          fundAmount,
-          retryOptions
-        );
-        await approveTx.wait();
+    process.exit(1);
+  }
 
-        const fundTx = await lendingProtocol.fundContract(
-          fundAmount,
-          retryOptions
-        );
-        await fundTx.wait();
-        console.log(
-          "Protocol funded with",
-          ethers.formatEther(fundAmount),
-          "dDAI"
-        );
-      } catch (retryError) {
-        console.log(
-          "Funding failed, but contracts are deployed. You can fund manually later."
-        );
-        console.log("Retry error:", retryError);
-      }
-    } else {
-      console.log(
-        "Funding failed, but contracts are deployed. You can fund manually later."
-      );
-      console.log("Error:", error.message);
-    }
+  const loanToken = await contracts.loanToken.getAddress();
+  const priceOracle = await contracts.priceOracle.getAddress();
+  const collateralTokens: Record<string, BaseContract | undefined> = contracts;
+  const collaterals = [];
+  for (const asset of deployConfig.collaterals) {
+    const token = collateralTokens[`${asset.symbol}Token`];
+    collaterals.push({
+      symbol: asset.symbol,
+      address: token ? await token.getAddress() : asset.address!,
+      oracle: asset.oracle ?? priceOracle,
+    });
   }
 
   // Log deployment summary
   console.log("\n=== DEPLOYMENT SUMMARY ===");
-  console.log("CollateralToken (cUSD):", collateralAddress);
-  console.log("LoanToken (dDAI):", loanAddress);
-  console.log("LendingProtocol:", protocolAddress);
-  console.log("Network:", (await ethers.provider.getNetwork()).name);
+  for (const collateral of collaterals) {
+    console.log(`Collateral (${collateral.symbol}):`, collateral.address);
+  }
+  console.log("LoanToken (dDAI):", loanToken);
+  console.log("MockPriceOracle:", priceOracle);
+  console.log(
+    "KinkInterestRateModel:",
+    await contracts.interestRateModel.getAddress()
+  );
+  console.log("LendingProtocol:", await contracts.lendingProtocol.getAddress());
+  console.log("ShareToken (ldDAI):", await contracts.shareToken.getAddress());
+  console.log("Network:", name, `(chain ${chainId})`);
 
-  // Save addresses to file for frontend
-  const deploymentInfo = {
-    network: (await ethers.provider.getNetwork()).name,
-    collateralToken: collateralAddress,
-    loanToken: loanAddress,
-    lendingProtocol: protocolAddress,
-    deployer: deployer.address,
-  };
+  if (!deploymentDir) {
+    console.log("\nIn-process hardhat network, no deployment record written");
+    return;
+  }
 
-  const fs = require("fs");
-  fs.writeFileSync(
-    "./deployment-addresses.json",
-    JSON.stringify(deploymentInfo, null, 2)
-  );
-  console.log("\nDeployment addresses saved to deployment-addresses.json");
+  // Match every deployed contract with the transaction that created it
+  const deployed = await status(deploymentDir);
+  const transactions = await listTransactions(deploymentDir, artifactResolver);
+  const records: Record<string, ContractDeployment> = {};
+  for (const [futureId, contract] of Object.entries(deployed.contracts)) {
+    const tx = transactions.find(
+      (transaction) =>
+        transaction.status === TransactionStatus.SUCCESS &&
+        transaction.address?.toLowerCase() === contract.address.toLowerCase()
+    );
+    const receipt = tx
+      ? await ethers.provider.getTransactionReceipt(tx.txHash)
+      : null;
+
+    records[futureId] = {
+      contractName: contract.contractName,
+      address: contract.address,
+      transactionHash: tx?.txHash,
+      blockNumber: receipt?.blockNumber,
+      constructorArgs: tx?.params ?? [],
+    };
+  }
 
-  // Additional instructions for manual funding if needed
-  console.log("\n=== MANUAL FUNDING INSTRUCTIONS ===");
-  console.log("If funding failed, you can fund the contract manually:");
-  console.log("1. Get dDAI tokens by calling loanToken.mint()");
+  writeDeployment({
+    chainId: Number(chainId),
+    network: name,
+    deploymentId,
+    deployer: deployer.address,
+    updatedAt: new Date().toISOString(),
+    collateralToken: collaterals[0]?.address,
+    collaterals,
+    loanToken,
+    priceOracle,
+    interestRateModel: await contracts.interestRateModel.getAddress(),
+    lendingProtocol: await contracts.lendingProtocol.getAddress(),
+    shareToken: await contracts.shareToken.getAddress(),
+    contracts: records,
+  });
+  console.log("\nDeployment saved to", deploymentPath(chainId));
   console.log(
-    "2. Approve the protocol: loanToken.approve(protocolAddress, amount)"
+    "Oracle prices expire after maxPriceAge, refresh them with npm run prices:sepolia"
   );
-  console.log("3. Fund the protocol: lendingProtocol.fundContract(amount)");
 }
 
 main()
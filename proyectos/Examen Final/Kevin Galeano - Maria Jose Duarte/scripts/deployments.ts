@@ -0,0 +1,72 @@
+import { Provider } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+
+const DEPLOYMENTS_DIR = "./deployments";
+
+export interface ContractDeployment {
+  contractName: string;
+  address: string;
+  transactionHash?: string; // Unset for contracts created by another contract
+  blockNumber?: number;
+  constructorArgs: unknown[];
+}
+
+export interface CollateralDeployment {
+  symbol: string;
+  address: string;
+  oracle: string;
+}
+
+// One file per chain ID under deployments/, written by scripts/deploy.ts
+export interface DeploymentRecord {
+  chainId: number;
+  network: string;
+  deploymentId: string; // Ignition deployment in ignition/deployments
+  deployer: string;
+  updatedAt: string;
+  collateralToken: string; // First collateral, used by the frontend
+  collaterals: CollateralDeployment[];
+  loanToken: string;
+  priceOracle: string;
+  interestRateModel: string;
+  lendingProtocol: string;
+  shareToken: string;
+  contracts: Record<string, ContractDeployment>; // By Ignition future ID
+}
+
+export function deploymentPath(chainId: number | bigint): string {
+  return path.join(DEPLOYMENTS_DIR, `${chainId}.json`);
+}
+
+/**
+ * Read the deployment of the network `provider` is connected to, throwing if there is none
+ */
+export async function readDeployment(
+  provider: Pick<Provider, "getNetwork">
+): Promise<DeploymentRecord> {
+  const { chainId, name } = await provider.getNetwork();
+  const file = deploymentPath(chainId);
+
+  if (!fs.existsSync(file)) {
+    throw new Error(
+      `No deployment found for ${name} (chain ${chainId}). Please deploy contracts first.`
+    );
+  }
+
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+export function writeDeployment(record: DeploymentRecord) {
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+
+  // Constructor args may hold bigints
+  fs.writeFileSync(
+    deploymentPath(record.chainId),
+    JSON.stringify(
+      record,
+      (_, value) => (typeof value === "bigint" ? value.toString() : value),
+      2
+    ) + "\n"
+  );
+}
@@ -0,0 +1,26 @@
+import { ethers } from "hardhat";
+import { readDeployment } from "./deployments";
+import { openIndexer } from "../indexer/indexer";
+
+async function main() {
+  // Read the deployment of the connected network
+  const deploymentInfo = await readDeployment(ethers.provider);
+
+  console.log("Indexing LendingProtocol:", deploymentInfo.lendingProtocol);
+
+  const { store, indexer } = openIndexer(ethers.provider, deploymentInfo);
+
+  // Backfill, then follow new blocks until Ctrl+C
+  const controller = new AbortController();
+  process.on("SIGINT", () => controller.abort());
+  await indexer.follow(controller.signal);
+
+  store.close();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
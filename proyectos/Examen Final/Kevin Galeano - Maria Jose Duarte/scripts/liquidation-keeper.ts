@@ -0,0 +1,133 @@
+import { ethers } from "hardhat";
+import { readDeployment } from "./deployments";
+import { sendTransaction } from "./transactions";
+import { decodeLendingError } from "../src/utils/errors";
+
+// Same values as LendingProtocol.Action, which paused() is indexed by
+const Action = {
+  Deposit: 0,
+  Borrow: 1,
+  Repay: 2,
+  Withdraw: 3,
+  Liquidate: 4,
+  FlashLoan: 5,
+} as const;
+
+async function main() {
+  const [keeper] = await ethers.getSigners();
+
+  console.log("Running liquidation keeper with account:", keeper.address);
+
+  // Read the deployment of the connected network
+  const deploymentInfo = await readDeployment(ethers.provider);
+
+  console.log("LendingProtocol address:", deploymentInfo.lendingProtocol);
+
+  // Get contracts
+  const lendingProtocol = await ethers.getContractAt(
+    "LendingProtocol",
+    deploymentInfo.lendingProtocol
+  );
+  const loanToken = await ethers.getContractAt(
+    "LoanToken",
+    await lendingProtocol.loanToken()
+  );
+
+  // Every liquidation would revert while Action.Liquidate is paused
+  if (await lendingProtocol.paused(Action.Liquidate)) {
+    console.log("Liquidations are paused, nothing to do.");
+    return;
+  }
+
+  const healthFactorPrecision = await lendingProtocol.HEALTH_FACTOR_PRECISION();
+  const closeFactor = await lendingProtocol.CLOSE_FACTOR();
+  const precision = await lendingProtocol.PRECISION();
+
+  // Every position starts with a collateral deposit, so its events list all users
+  const fromBlock = Number(process.env.KEEPER_FROM_BLOCK || 0);
+  const deposits = await lendingProtocol.queryFilter(
+    lendingProtocol.filters.CollateralDeposited(),
+    fromBlock
+  );
+  const users = [...new Set(deposits.map((event) => event.args.user))];
+  console.log("Positions found:", users.length);
+
+  let liquidations = 0;
+
+  for (const user of users) {
+    const healthFactor = await lendingProtocol.healthFactor(user);
+    if (healthFactor >= healthFactorPrecision) {
+      continue;
+    }
+
+    const snapshot = await lendingProtocol.getAccountSnapshot(user);
+    const repayAmount =
+      ((snapshot.debt + snapshot.interest) * closeFactor) / precision;
+
+    // Seize the collateral asset with the highest value
+    const collateral = snapshot.collaterals.reduce((best, current) =>
+      current.value > best.value ? current : best
+    );
+
+    console.log(
+      `\nUnhealthy position ${user} (health factor ${ethers.formatEther(
+        healthFactor
+      )})`
+    );
+    console.log("Repaying:", ethers.formatEther(repayAmount), "dDAI");
+    console.log("Seizing collateral:", collateral.asset);
+
+    const keeperBalance = await loanToken.balanceOf(keeper.address);
+    if (keeperBalance < repayAmount) {
+      console.log(
+        "Insufficient dDAI balance, skipping. Balance:",
+        ethers.formatEther(keeperBalance)
+      );
+      continue;
+    }
+
+    try {
+      const allowance = await loanToken.allowance(
+        keeper.address,
+        deploymentInfo.lendingProtocol
+      );
+      if (allowance < repayAmount) {
+        await sendTransaction(
+          keeper,
+          await loanToken.approve.populateTransaction(
+            deploymentInfo.lendingProtocol,
+            repayAmount
+          ),
+          { label: "Approve dDAI" }
+        );
+      }
+
+      const receipt = await sendTransaction(
+        keeper,
+        await lendingProtocol.liquidate.populateTransaction(
+          user,
+          collateral.asset,
+          repayAmount
+        ),
+        { label: `Liquidate ${user}` }
+      );
+      if (!receipt) continue;
+      console.log("Liquidated in tx:", receipt.hash);
+      liquidations++;
+    } catch (error) {
+      const decoded = decodeLendingError(error);
+      console.error(`Liquidation failed (${decoded.name}):`, decoded.message);
+    }
+  }
+
+  console.log("\n=== KEEPER SUMMARY ===");
+  console.log("Positions scanned:", users.length);
+  console.log("Positions liquidated:", liquidations);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,100 @@
+import { ethers } from "hardhat";
+import { readDeployment } from "./deployments";
+import { sendTransaction } from "./transactions";
+
+// Same order as LendingProtocol.Action
+const ACTIONS = [
+  "deposit",
+  "borrow",
+  "repay",
+  "withdraw",
+  "liquidate",
+  "flashloan",
+];
+
+async function main() {
+  const [account] = await ethers.getSigners();
+
+  console.log("Updating pause state with account:", account.address);
+
+  // Read the deployment of the connected network
+  const deploymentInfo = await readDeployment(ethers.provider);
+
+  console.log("LendingProtocol address:", deploymentInfo.lendingProtocol);
+
+  const lendingProtocol = await ethers.getContractAt(
+    "LendingProtocol",
+    deploymentInfo.lendingProtocol
+  );
+
+  // Owner only: GUARDIAN=0x... adds a guardian, GUARDIAN_ENABLED=false revokes it
+  if (process.env.GUARDIAN) {
+    const enabled = process.env.GUARDIAN_ENABLED !== "false";
+    const receipt = await sendTransaction(
+      account,
+      await lendingProtocol.setGuardian.populateTransaction(
+        process.env.GUARDIAN,
+        enabled
+      ),
+      { label: "Set guardian" }
+    );
+    if (receipt)
+      console.log(
+        `Guardian ${process.env.GUARDIAN} ${enabled ? "enabled" : "revoked"}`
+      );
+  }
+
+  // e.g. ACTION=borrow PAUSED=true, or ACTION=all to pause everything but repay
+  const action = process.env.ACTION?.toLowerCase();
+  const paused = process.env.PAUSED !== "false";
+
+  if (action === "all") {
+    if (paused) {
+      const receipt = await sendTransaction(
+        account,
+        await lendingProtocol.pauseAll.populateTransaction(),
+        { label: "Pause all" }
+      );
+      if (receipt) console.log("Paused every action except repay");
+    } else {
+      for (let i = 0; i < ACTIONS.length; i++) {
+        if (await lendingProtocol.paused(i)) {
+          const receipt = await sendTransaction(
+            account,
+            await lendingProtocol.setActionPaused.populateTransaction(i, false),
+            { label: `Unpause ${ACTIONS[i]}` }
+          );
+          if (receipt) console.log("Unpaused", ACTIONS[i]);
+        }
+      }
+    }
+  } else if (action) {
+    const index = ACTIONS.indexOf(action);
+    if (index === -1) {
+      console.error(
+        `Unknown action ${action}, expected one of: ${ACTIONS.join(", ")}, all`
+      );
+      process.exit(1);
+    }
+
+    const receipt = await sendTransaction(
+      account,
+      await lendingProtocol.setActionPaused.populateTransaction(index, paused),
+      { label: `${paused ? "Pause" : "Unpause"} ${action}` }
+    );
+    if (receipt) console.log(`${paused ? "Paused" : "Unpaused"} ${action}`);
+  }
+
+  console.log("\n=== PAUSE STATUS ===");
+  for (let i = 0; i < ACTIONS.length; i++) {
+    const isPaused = await lendingProtocol.paused(i);
+    console.log(`${ACTIONS[i]}: ${isPaused ? "paused" : "active"}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,13 @@
+import hre from "hardhat";
+
+// Same report as npx hardhat lending:status
+async function main() {
+  await hre.run("lending:status");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,69 @@
+import { ethers } from "hardhat";
+import { readDeployment } from "./deployments";
+import { sendTransaction } from "./transactions";
+
+async function main() {
+  const [admin] = await ethers.getSigners();
+
+  console.log("Setting oracle prices with account:", admin.address);
+
+  // Read the deployment of the connected network
+  const deploymentInfo = await readDeployment(ethers.provider);
+
+  console.log("MockPriceOracle address:", deploymentInfo.priceOracle);
+
+  const priceOracle = await ethers.getContractAt(
+    "MockPriceOracle",
+    deploymentInfo.priceOracle
+  );
+
+  // Prices in USD, e.g. CUSD_PRICE=0.95 LOAN_PRICE=1 (COLLATERAL_PRICE is the default)
+  const prices = deploymentInfo.collaterals
+    .filter((collateral) => collateral.oracle === deploymentInfo.priceOracle)
+    .map((collateral) => ({
+      symbol: collateral.symbol,
+      token: collateral.address,
+      price: ethers.parseEther(
+        process.env[`${collateral.symbol.toUpperCase()}_PRICE`] ||
+          process.env.COLLATERAL_PRICE ||
+          "1"
+      ),
+    }));
+  prices.push({
+    symbol: "dDAI",
+    token: deploymentInfo.loanToken,
+    price: ethers.parseEther(process.env.LOAN_PRICE || "1"),
+  });
+
+  for (const { symbol, token, price } of prices) {
+    if (price === 0n) {
+      console.error(`Price for ${symbol} must be greater than 0`);
+      process.exit(1);
+    }
+
+    const [previousPrice, updatedAt] = await priceOracle.getPrice(token);
+    console.log(
+      `\n${symbol} previous price:`,
+      ethers.formatEther(previousPrice),
+      "USD",
+      updatedAt > 0n
+        ? `(updated ${new Date(Number(updatedAt) * 1000).toISOString()})`
+        : "(never set)"
+    );
+
+    const receipt = await sendTransaction(
+      admin,
+      await priceOracle.setPrice.populateTransaction(token, price),
+      { label: `Set ${symbol} price` }
+    );
+    if (!receipt) continue;
+    console.log(`${symbol} price set to`, ethers.formatEther(price), "USD");
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
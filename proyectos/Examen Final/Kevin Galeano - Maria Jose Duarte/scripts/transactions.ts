@@ -0,0 +1,323 @@
+import {
+  Provider,
+  Signer,
+  TransactionReceipt,
+  TransactionRequest,
+  formatUnits,
+  parseUnits,
+} from "ethers";
+import { decodeLendingError } from "../src/utils/errors";
+
+// Any ethers signer, including the Hardhat one
+export type TransactionSigner = Pick<
+  Signer,
+  "provider" | "getAddress" | "sendTransaction"
+>;
+
+export interface FeeSettings {
+  maxFeePerGas?: bigint; // EIP-1559 networks
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint; // Legacy networks without a base fee
+}
+
+export interface SendOptions {
+  label: string; // Printed with every log line
+  gasMargin: number; // Percent added to the gas estimate
+  bumpPercent: number; // Fee increase per replacement, nodes require at least 10
+  maxAttempts: number; // Sends of the same nonce before giving up
+  maxFeePerGas?: bigint; // Fees are never bumped above this cap
+  confirmTimeout: number; // Ms to wait for a receipt before bumping
+  pollInterval: number; // Ms between receipt checks
+  dryRun: boolean; // Estimate and print without sending
+  log: (message: string) => void;
+}
+
+const DEFAULT_OPTIONS: SendOptions = {
+  label: "Transaction",
+  gasMargin: 20,
+  bumpPercent: 25,
+  maxAttempts: 5,
+  confirmTimeout: 60000,
+  pollInterval: 4000,
+  dryRun: process.env.DRY_RUN === "true",
+  log: console.log,
+};
+
+// Used when the node does not suggest a tip or a gas price
+const DEFAULT_PRIORITY_FEE = parseUnits("1.5", "gwei");
+const DEFAULT_GAS_PRICE = parseUnits("10", "gwei");
+
+function formatFees(fees: FeeSettings): string {
+  if (fees.gasPrice !== undefined) {
+    return `gas price ${formatUnits(fees.gasPrice, "gwei")} gwei`;
+  }
+  return `max fee ${formatUnits(
+    fees.maxFeePerGas!,
+    "gwei"
+  )} gwei, tip ${formatUnits(fees.maxPriorityFeePerGas!, "gwei")} gwei`;
+}
+
+function errorText(error: unknown): string {
+  const { code, message, shortMessage } = error as {
+    code?: string;
+    message?: string;
+    shortMessage?: string;
+  };
+  return `${code ?? ""} ${shortMessage ?? ""} ${message ?? ""}`;
+}
+
+function isUnderpriced(error: unknown): boolean {
+  return /REPLACEMENT_UNDERPRICED|underpriced/i.test(errorText(error));
+}
+
+function isNonceExpired(error: unknown): boolean {
+  return /NONCE_EXPIRED|nonce too low|nonce has already been used/i.test(
+    errorText(error)
+  );
+}
+
+/**
+ * Suggest fees for the next block. On EIP-1559 networks the max fee leaves
+ * room for the base fee to double before the transaction is priced out
+ */
+export async function estimateFees(provider: Provider): Promise<FeeSettings> {
+  const [block, feeData] = await Promise.all([
+    provider.getBlock("latest"),
+    provider.getFeeData(),
+  ]);
+
+  if (block?.baseFeePerGas == null) {
+    return { gasPrice: feeData.gasPrice ?? DEFAULT_GAS_PRICE };
+  }
+
+  const maxPriorityFeePerGas =
+    feeData.maxPriorityFeePerGas ?? DEFAULT_PRIORITY_FEE;
+  return {
+    maxFeePerGas: block.baseFeePerGas * 2n + maxPriorityFeePerGas,
+    maxPriorityFeePerGas,
+  };
+}
+
+/**
+ * Raise every fee by `percent`, clamped to `cap`.
+ * Returns null when the cap leaves no room for a valid replacement
+ */
+export function bumpFees(
+  fees: FeeSettings,
+  percent: number,
+  cap?: bigint
+): FeeSettings | null {
+  const bump = (fee: bigint) => (fee * BigInt(100 + percent)) / 100n;
+  // Nodes reject replacements paying less than 10% more
+  const minimum = (fee: bigint) => (fee * 110n) / 100n;
+
+  if (fees.gasPrice !== undefined) {
+    let gasPrice = bump(fees.gasPrice);
+    if (cap !== undefined && gasPrice > cap) gasPrice = cap;
+    return gasPrice < minimum(fees.gasPrice) ? null : { gasPrice };
+  }
+
+  let maxFeePerGas = bump(fees.maxFeePerGas!);
+  let maxPriorityFeePerGas = bump(fees.maxPriorityFeePerGas!);
+  if (cap !== undefined && maxFeePerGas > cap) maxFeePerGas = cap;
+  if (maxPriorityFeePerGas > maxFeePerGas) maxPriorityFeePerGas = maxFeePerGas;
+
+  if (
+    maxFeePerGas < minimum(fees.maxFeePerGas!) ||
+    maxPriorityFeePerGas < minimum(fees.maxPriorityFeePerGas!)
+  ) {
+    return null;
+  }
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+/**
+ * Confirmed and pending nonces of an account. Transactions in between were
+ * sent but are not mined yet and hold back every later transaction
+ */
+export async function getNonces(
+  provider: Provider,
+  address: string
+): Promise<{ latest: number; pending: number }> {
+  const [latest, pending] = await Promise.all([
+    provider.getTransactionCount(address, "latest"),
+    provider.getTransactionCount(address, "pending"),
+  ]);
+  return { latest, pending };
+}
+
+async function waitForReceipt(
+  provider: Provider,
+  hashes: string[],
+  timeout: number,
+  pollInterval: number
+): Promise<TransactionReceipt | null> {
+  const deadline = Date.now() + timeout;
+
+  while (true) {
+    // Any of the sends may be the one that gets mined
+    for (const hash of hashes) {
+      const receipt = await provider.getTransactionReceipt(hash);
+      if (receipt) return receipt;
+    }
+    if (Date.now() >= deadline) return null;
+    await new Promise((resolve) =>
+      setTimeout(resolve, Math.min(pollInterval, deadline - Date.now()))
+    );
+  }
+}
+
+/**
+ * Send a transaction with EIP-1559 fees and a gas limit from the estimate
+ * plus a margin. If it is not mined within `confirmTimeout`, it is replaced
+ * with the same nonce and higher fees, up to `maxAttempts` sends.
+ * In dry run mode the transaction is estimated and printed, and null returned
+ */
+export async function sendTransaction(
+  signer: TransactionSigner,
+  request: TransactionRequest,
+  overrides: Partial<SendOptions> = {}
+): Promise<TransactionReceipt | null> {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const { label, log } = options;
+  const provider = signer.provider!;
+  const from = await signer.getAddress();
+
+  const { latest, pending } = await getNonces(provider, from);
+  if (request.nonce == null && pending > latest) {
+    log(
+      `${label}: ${pending - latest} earlier transactions are still pending, ` +
+        "CANCEL=true npm run check:nonce replaces them"
+    );
+  }
+
+  const tx: TransactionRequest = {
+    ...request,
+    from,
+    nonce: request.nonce ?? pending,
+  };
+
+  if (tx.gasLimit == null) {
+    try {
+      const estimate = await provider.estimateGas(tx);
+      tx.gasLimit = (estimate * BigInt(100 + options.gasMargin)) / 100n;
+    } catch (error) {
+      if (!options.dryRun) throw error;
+      log(
+        `Dry run ${label}: would revert (${
+          decodeLendingError(error, "Gas estimation failed").message
+        })`
+      );
+      return null;
+    }
+  }
+
+  let fees: FeeSettings =
+    request.gasPrice != null
+      ? { gasPrice: BigInt(request.gasPrice) }
+      : request.maxFeePerGas != null
+      ? {
+          maxFeePerGas: BigInt(request.maxFeePerGas),
+          maxPriorityFeePerGas: BigInt(
+            request.maxPriorityFeePerGas ?? DEFAULT_PRIORITY_FEE
+          ),
+        }
+      : await estimateFees(provider);
+
+  if (options.dryRun) {
+    const maxFee = fees.gasPrice ?? fees.maxFeePerGas!;
+    log(
+      `Dry run ${label}: nonce ${tx.nonce}, gas limit ${
+        tx.gasLimit
+      }, ${formatFees(fees)}, up to ${formatUnits(
+        BigInt(tx.gasLimit!) * maxFee,
+        "ether"
+      )} ETH`
+    );
+    return null;
+  }
+
+  const hashes: string[] = [];
+  for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+    let send = true;
+    if (attempt > 1) {
+      const bumped = bumpFees(fees, options.bumpPercent, options.maxFeePerGas);
+      if (bumped) {
+        fees = bumped;
+      } else {
+        log(`${label}: fee cap reached, waiting without replacing`);
+        send = false;
+      }
+    }
+
+    if (send) {
+      try {
+        const response = await signer.sendTransaction({ ...tx, ...fees });
+        hashes.push(response.hash);
+        log(
+          `${label}: sent ${response.hash} (nonce ${tx.nonce}, ${formatFees(
+            fees
+          )})`
+        );
+      } catch (error) {
+        if (isUnderpriced(error)) {
+          // Another transaction holds the nonce, the next attempt pays more
+          log(`${label}: replacement underpriced at ${formatFees(fees)}`);
+          continue;
+        }
+        // A nonce taken by one of our earlier sends means it was mined
+        if (!(isNonceExpired(error) && hashes.length > 0)) throw error;
+      }
+    }
+
+    if (hashes.length === 0) continue;
+
+    const receipt = await waitForReceipt(
+      provider,
+      hashes,
+      options.confirmTimeout,
+      options.pollInterval
+    );
+    if (receipt) {
+      if (receipt.status !== 1) {
+        throw new Error(`${label} reverted in transaction ${receipt.hash}`);
+      }
+      log(`${label}: mined in block ${receipt.blockNumber}`);
+      return receipt;
+    }
+    log(
+      `${label}: not mined after ${
+        options.confirmTimeout / 1000
+      }s (attempt ${attempt}/${options.maxAttempts})`
+    );
+  }
+
+  throw new Error(
+    `${label} not mined after ${options.maxAttempts} attempts` +
+      (hashes.length > 0 ? `, last sent ${hashes[hashes.length - 1]}` : "")
+  );
+}
+
+/**
+ * Replace every pending transaction of the signer with an empty transfer to
+ * itself, freeing the nonces held by stuck transactions
+ */
+export async function cancelPendingTransactions(
+  signer: TransactionSigner,
+  overrides: Partial<SendOptions> = {}
+): Promise<(TransactionReceipt | null)[]> {
+  const address = await signer.getAddress();
+  const { latest, pending } = await getNonces(signer.provider!, address);
+
+  const receipts = [];
+  for (let nonce = latest; nonce < pending; nonce++) {
+    receipts.push(
+      await sendTransaction(
+        signer,
+        { to: address, value: 0n, nonce, gasLimit: 21000n },
+        { label: `Cancel nonce ${nonce}`, maxAttempts: 10, ...overrides }
+      )
+    );
+  }
+  return receipts;
+}
@@ -1,25 +1,59 @@
 import React, { useState, useEffect } from 'react';
 import { ethers } from 'ethers';
-
-// Contract addresses - Updated for Sepolia deployment
-const CONTRACT_ADDRESSES = {
-  collateralToken: "0xBb0d0E7534Cb381e1aE0a02bA5c0105f0c79B4E9",
-  loanToken: "0x8343444CED87979dde24d9F6d0f68B3854664Db9",
-  lendingProtocol: "0x2E4eb9887127Ae7138Ee7A3E39C1D4Dc2E101fB7",
+import { decodeLendingError } from './utils/errors';
+import { multicall, unwrap } from './utils/multicall';
+import { repayAllAllowance } from './utils/repay';
+
+// Deployment records written by the deploy script, keyed by chain ID
+const DEPLOYMENTS = Object.fromEntries(
+  Object.values(
+    import.meta.glob('../deployments/*.json', { eager: true, import: 'default' })
+  ).map((deployment) => [deployment.chainId, deployment])
+);
+
+// Chain the DApp asks to switch to, Sepolia unless VITE_CHAIN_ID is set
+const SEPOLIA_CHAIN_ID = 11155111;
+const DEFAULT_CHAIN_ID = Number(import.meta.env.VITE_CHAIN_ID ?? SEPOLIA_CHAIN_ID);
+
+const getChainName = (chainId) =>
+  chainId === SEPOLIA_CHAIN_ID
+    ? 'Sepolia testnet'
+    : DEPLOYMENTS[chainId]?.network ?? `chain ${chainId}`;
+
+// Contract addresses on a chain, from its deployment record. The VITE_*_ADDRESS
+// env vars override the record of the default chain
+const getContractAddresses = (chainId) => {
+  const deployment = DEPLOYMENTS[chainId] ?? {};
+  const env = chainId === DEFAULT_CHAIN_ID ? import.meta.env : {};
+  const addresses = {
+    collateralToken: env.VITE_COLLATERAL_TOKEN_ADDRESS ?? deployment.collateralToken,
+    loanToken: env.VITE_LOAN_TOKEN_ADDRESS ?? deployment.loanToken,
+    lendingProtocol: env.VITE_LENDING_PROTOCOL_ADDRESS ?? deployment.lendingProtocol,
+  };
+  return Object.values(addresses).every(Boolean) ? addresses : null;
 };
 
-// Sepolia Chain ID
-const SEPOLIA_CHAIN_ID = "0xaa36a7"; // 11155111 in hex
-
 // Contract ABIs
 const LENDING_PROTOCOL_ABI = [
-  "function depositCollateral(uint256 amount) external",
+  "function depositCollateral(address asset, uint256 amount) external",
   "function borrow(uint256 amount) external",
-  "function repay() external",
-  "function withdrawCollateral() external",
-  "function getUserData(address user) external view returns (uint256, uint256, uint256)",
-  "function collateralToken() external view returns (address)",
-  "function loanToken() external view returns (address)"
+  "function repay(uint256 amount) external",
+  "function withdrawCollateral(address asset, uint256 amount) external",
+  "function getAccountSnapshot(address user) external view returns (tuple(tuple(address asset, uint256 amount, uint256 price, uint256 value, uint256 borrowCapacity)[] collaterals, uint256 debt, uint256 interest, uint256 collateralValue, uint256 borrowCapacity, uint256 debtValue, uint256 healthFactor))",
+  "function collateralConfigs(address asset) external view returns (bool listed, address oracle, uint256 collateralizationRatio, uint256 depositCap, uint256 totalDeposits)",
+  "function loanToken() external view returns (address)",
+  "function priceOracle() external view returns (address)",
+  "function getBorrowRate() external view returns (uint256)",
+  "function supply(uint256 amount) external",
+  "function redeem(uint256 shares) external",
+  "function supplyBalance(address supplier) external view returns (uint256)",
+  "function shareToken() external view returns (address)"
+];
+
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+
+const PRICE_ORACLE_ABI = [
+  "function getPrice(address token) external view returns (uint256 price, uint256 updatedAt)"
 ];
 
 const TOKEN_ABI = [
@@ -38,6 +72,8 @@ const App = () => {
   const [provider, setProvider] = useState(null);
   const [signer, setSigner] = useState(null);
   const [contracts, setContracts] = useState({});
+  const [chainId, setChainId] = useState(DEFAULT_CHAIN_ID);
+  const [addresses, setAddresses] = useState({});
   const [userBalance, setUserBalance] = useState({
     collateral: '0',
     loan: '0'
@@ -45,37 +81,56 @@ const App = () => {
   const [userPosition, setUserPosition] = useState({
     collateral: '0',
     debt: '0',
-    interest: '0'
+    interest: '0',
+    borrowCapacity: '0',
+    debtValue: '0'
+  });
+  const [collateralRatio, setCollateralRatio] = useState('150');
+  const [prices, setPrices] = useState({
+    collateral: '1',
+    loan: '1'
   });
+  const [supplyPosition, setSupplyPosition] = useState({
+    shares: '0',
+    balance: '0'
+  });
+  const [borrowApr, setBorrowApr] = useState('0');
   const [loading, setLoading] = useState(false);
   const [depositAmount, setDepositAmount] = useState('');
   const [borrowAmount, setBorrowAmount] = useState('');
+  const [repayAmount, setRepayAmount] = useState('');
+  const [withdrawAmount, setWithdrawAmount] = useState('');
+  const [supplyAmount, setSupplyAmount] = useState('');
   const [networkError, setNetworkError] = useState('');
 
-  // Check if connected to Sepolia
+  // Check the connected chain has the contracts, returns their addresses
   const checkNetwork = async () => {
-    if (!window.ethereum) return false;
+    if (!window.ethereum) return null;
     
     try {
-      const chainId = await window.ethereum.request({ method: 'eth_chainId' });
-      if (chainId !== SEPOLIA_CHAIN_ID) {
-        setNetworkError('Please connect to Sepolia testnet');
-        return false;
+      const currentChainId = Number(await window.ethereum.request({ method: 'eth_chainId' }));
+      const chainAddresses = getContractAddresses(currentChainId);
+      if (!chainAddresses) {
+        setNetworkError(
+          `No contracts deployed on ${getChainName(currentChainId)}. Please connect to ${getChainName(DEFAULT_CHAIN_ID)}`
+        );
+        return null;
       }
       setNetworkError('');
-      return true;
+      setChainId(currentChainId);
+      return chainAddresses;
     } catch (error) {
       console.error('Error checking network:', error);
-      return false;
+      return null;
     }
   };
 
-  // Switch to Sepolia network
-  const switchToSepolia = async () => {
+  // Switch to the default network
+  const switchNetwork = async () => {
     try {
       await window.ethereum.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: SEPOLIA_CHAIN_ID }],
+        params: [{ chainId: ethers.toQuantity(DEFAULT_CHAIN_ID) }],
       });
       setNetworkError('');
       return true;
@@ -105,7 +160,7 @@ const App = () => {
       await loadUserData();
     } catch (error) {
       console.error('Error minting tokens:', error);
-      alert('Failed to mint test tokens. Make sure you are the contract owner or tokens are publicly mintable.');
+      alert(decodeLendingError(error, 'Failed to mint test tokens. Make sure you are the contract owner or tokens are publicly mintable.').message);
     } finally {
       setLoading(false);
     }
@@ -120,10 +175,12 @@ const App = () => {
       }
 
       // Check network first
-      const isCorrectNetwork = await checkNetwork();
-      if (!isCorrectNetwork) {
-        const switched = await switchToSepolia();
+      let chainAddresses = await checkNetwork();
+      if (!chainAddresses) {
+        const switched = await switchNetwork();
         if (!switched) return;
+        chainAddresses = await checkNetwork();
+        if (!chainAddresses) return;
       }
 
       const provider = new ethers.BrowserProvider(window.ethereum);
@@ -133,22 +190,23 @@ const App = () => {
       setProvider(provider);
       setSigner(signer);
       setAccount(accounts[0]);
+      setAddresses(chainAddresses);
 
       // Initialize contracts
       const lendingProtocol = new ethers.Contract(
-        CONTRACT_ADDRESSES.lendingProtocol,
+        chainAddresses.lendingProtocol,
         LENDING_PROTOCOL_ABI,
         signer
       );
 
       const collateralToken = new ethers.Contract(
-        CONTRACT_ADDRESSES.collateralToken,
+        chainAddresses.collateralToken,
         TOKEN_ABI,
         signer
       );
 
       const loanToken = new ethers.Contract(
-        CONTRACT_ADDRESSES.loanToken,
+        chainAddresses.loanToken,
         TOKEN_ABI,
         signer
       );
@@ -171,22 +229,68 @@ const App = () => {
     if (!contracts.lendingProtocol || !account) return;
 
     try {
-      // Get user balances
-      const collateralBalance = await contracts.collateralToken.balanceOf(account);
-      const loanBalance = await contracts.loanToken.balanceOf(account);
+      // Balances, position and protocol state in one request
+      const [
+        collateralBalance,
+        loanBalance,
+        snapshot,
+        config,
+        priceOracleAddress,
+        borrowRate,
+        shareTokenAddress,
+        supplied
+      ] = (await multicall(provider, [
+        { contract: contracts.collateralToken, method: 'balanceOf', args: [account] },
+        { contract: contracts.loanToken, method: 'balanceOf', args: [account] },
+        { contract: contracts.lendingProtocol, method: 'getAccountSnapshot', args: [account] },
+        { contract: contracts.lendingProtocol, method: 'collateralConfigs', args: [addresses.collateralToken] },
+        { contract: contracts.lendingProtocol, method: 'priceOracle' },
+        { contract: contracts.lendingProtocol, method: 'getBorrowRate' },
+        { contract: contracts.lendingProtocol, method: 'shareToken' },
+        { contract: contracts.lendingProtocol, method: 'supplyBalance', args: [account] }
+      ])).map(unwrap);
 
       setUserBalance({
         collateral: ethers.formatEther(collateralBalance),
         loan: ethers.formatEther(loanBalance)
       });
 
-      // Get user position
-      const [collateral, debt, interest] = await contracts.lendingProtocol.getUserData(account);
-      
+      // Position across all collateral assets, cUSD is the one shown here
+      const cusd = snapshot.collaterals.find(
+        (collateral) => collateral.asset.toLowerCase() === addresses.collateralToken.toLowerCase()
+      );
+
       setUserPosition({
-        collateral: ethers.formatEther(collateral),
-        debt: ethers.formatEther(debt),
-        interest: ethers.formatEther(interest)
+        collateral: ethers.formatEther(cusd ? cusd.amount : 0n),
+        debt: ethers.formatEther(snapshot.debt),
+        interest: ethers.formatEther(snapshot.interest),
+        borrowCapacity: ethers.formatEther(snapshot.borrowCapacity),
+        debtValue: ethers.formatEther(snapshot.debtValue)
+      });
+
+      setCollateralRatio(config.collateralizationRatio.toString());
+
+      // Per-second borrow rate as a yearly percentage
+      setBorrowApr(ethers.formatEther(borrowRate * SECONDS_PER_YEAR * 100n));
+
+      // Reads that need the oracle and ldDAI addresses from the first request
+      const priceOracle = new ethers.Contract(priceOracleAddress, PRICE_ORACLE_ABI, provider);
+      const shareToken = new ethers.Contract(shareTokenAddress, TOKEN_ABI, provider);
+      const [[loanPrice], shares] = (await multicall(provider, [
+        { contract: priceOracle, method: 'getPrice', args: [addresses.loanToken] },
+        { contract: shareToken, method: 'balanceOf', args: [account] }
+      ])).map(unwrap);
+
+      // Oracle prices (USD)
+      setPrices({
+        collateral: ethers.formatEther(cusd ? cusd.price : 0n),
+        loan: ethers.formatEther(loanPrice)
+      });
+
+      // Supplied liquidity (ldDAI shares and their dDAI value)
+      setSupplyPosition({
+        shares: ethers.formatEther(shares),
+        balance: ethers.formatEther(supplied)
       });
     } catch (error) {
       console.error('Error loading user data:', error);
@@ -203,13 +307,16 @@ const App = () => {
       
       // First approve the spending
       const approveTx = await contracts.collateralToken.approve(
-        CONTRACT_ADDRESSES.lendingProtocol,
+        addresses.lendingProtocol,
         amount
       );
       await approveTx.wait();
 
       // Then deposit
-      const depositTx = await contracts.lendingProtocol.depositCollateral(amount);
+      const depositTx = await contracts.lendingProtocol.depositCollateral(
+        addresses.collateralToken,
+        amount
+      );
       await depositTx.wait();
 
       alert('Collateral deposited successfully!');
@@ -217,7 +324,7 @@ const App = () => {
       await loadUserData();
     } catch (error) {
       console.error('Error depositing:', error);
-      alert('Failed to deposit collateral');
+      alert(decodeLendingError(error, 'Failed to deposit collateral').message);
     } finally {
       setLoading(false);
     }
@@ -239,40 +346,73 @@ const App = () => {
       await loadUserData();
     } catch (error) {
       console.error('Error borrowing:', error);
-      alert('Failed to borrow tokens');
+      alert(decodeLendingError(error, 'Failed to borrow tokens').message);
     } finally {
       setLoading(false);
     }
   };
 
-  // Repay loan
+  // Repay part of the loan (interest is paid first, then principal)
   const repay = async () => {
-    if (!contracts.lendingProtocol) return;
+    if (!repayAmount || !contracts.lendingProtocol) return;
 
     try {
       setLoading(true);
-      
-      // Calculate total debt
-      const totalDebt = ethers.parseEther(
-        (parseFloat(userPosition.debt) + parseFloat(userPosition.interest)).toString()
-      );
+      const amount = ethers.parseEther(repayAmount);
 
       // First approve the spending
       const approveTx = await contracts.loanToken.approve(
-        CONTRACT_ADDRESSES.lendingProtocol,
-        totalDebt
+        addresses.lendingProtocol,
+        amount
       );
       await approveTx.wait();
 
       // Then repay
-      const repayTx = await contracts.lendingProtocol.repay();
+      const repayTx = await contracts.lendingProtocol.repay(amount);
+      await repayTx.wait();
+
+      alert('Loan repaid successfully!');
+      setRepayAmount('');
+      await loadUserData();
+    } catch (error) {
+      console.error('Error repaying:', error);
+      alert(decodeLendingError(error, 'Failed to repay loan').message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Repay the whole loan with accumulated interest
+  const repayAll = async () => {
+    if (!contracts.lendingProtocol) return;
+
+    try {
+      setLoading(true);
+
+      // Read the exact debt on-chain to avoid rounding the formatted values
+      const [{ debt, interest }, borrowRate] = await Promise.all([
+        contracts.lendingProtocol.getAccountSnapshot(account),
+        contracts.lendingProtocol.getBorrowRate()
+      ]);
+
+      // First approve the spending, with room for the interest that keeps
+      // accruing until the repayment is mined
+      const approveTx = await contracts.loanToken.approve(
+        addresses.lendingProtocol,
+        repayAllAllowance(debt + interest, borrowRate)
+      );
+      await approveTx.wait();
+
+      // Then repay (the contract caps the amount at the current debt)
+      const repayTx = await contracts.lendingProtocol.repay(ethers.MaxUint256);
       await repayTx.wait();
 
       alert('Loan repaid successfully!');
+      setRepayAmount('');
       await loadUserData();
     } catch (error) {
       console.error('Error repaying:', error);
-      alert('Failed to repay loan');
+      alert(decodeLendingError(error, 'Failed to repay loan').message);
     } finally {
       setLoading(false);
     }
@@ -280,30 +420,107 @@ const App = () => {
 
   // Withdraw collateral
   const withdraw = async () => {
-    if (!contracts.lendingProtocol) return;
+    if (!withdrawAmount || !contracts.lendingProtocol) return;
 
     try {
       setLoading(true);
-      
-      const withdrawTx = await contracts.lendingProtocol.withdrawCollateral();
+      const amount = ethers.parseEther(withdrawAmount);
+
+      const withdrawTx = await contracts.lendingProtocol.withdrawCollateral(
+        addresses.collateralToken,
+        amount
+      );
       await withdrawTx.wait();
 
       alert('Collateral withdrawn successfully!');
+      setWithdrawAmount('');
       await loadUserData();
     } catch (error) {
       console.error('Error withdrawing:', error);
-      alert('Failed to withdraw collateral');
+      alert(decodeLendingError(error, 'Failed to withdraw collateral. The position must stay above the required collateralization.').message);
     } finally {
       setLoading(false);
     }
   };
 
-  // Calculate max borrowable amount
+  // Supply dDAI to the pool and receive ldDAI shares
+  const supply = async () => {
+    if (!supplyAmount || !contracts.lendingProtocol) return;
+
+    try {
+      setLoading(true);
+      const amount = ethers.parseEther(supplyAmount);
+
+      // First approve the spending
+      const approveTx = await contracts.loanToken.approve(
+        addresses.lendingProtocol,
+        amount
+      );
+      await approveTx.wait();
+
+      // Then supply
+      const supplyTx = await contracts.lendingProtocol.supply(amount);
+      await supplyTx.wait();
+
+      alert('Liquidity supplied successfully!');
+      setSupplyAmount('');
+      await loadUserData();
+    } catch (error) {
+      console.error('Error supplying:', error);
+      alert(decodeLendingError(error, 'Failed to supply liquidity').message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Redeem all ldDAI shares for dDAI plus earned interest
+  const redeemAll = async () => {
+    if (!contracts.lendingProtocol) return;
+
+    try {
+      setLoading(true);
+
+      const redeemTx = await contracts.lendingProtocol.redeem(
+        ethers.parseEther(supplyPosition.shares)
+      );
+      await redeemTx.wait();
+
+      alert('Liquidity redeemed successfully!');
+      await loadUserData();
+    } catch (error) {
+      console.error('Error redeeming:', error);
+      alert(decodeLendingError(error, 'Failed to redeem liquidity. Part of the pool may be borrowed out.').message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Calculate max borrowable amount from the capacity of every collateral asset
   const getMaxBorrowable = () => {
-    const collateralValue = parseFloat(userPosition.collateral);
+    const spareCapacity = parseFloat(userPosition.borrowCapacity) - parseFloat(userPosition.debtValue);
+    const loanPrice = parseFloat(prices.loan);
+    if (loanPrice === 0) return (0).toFixed(6);
+    return Math.max(0, spareCapacity / loanPrice).toFixed(6);
+  };
+
+  // Calculate max withdrawable cUSD keeping the position healthy
+  const getMaxWithdrawable = () => {
+    const collateral = parseFloat(userPosition.collateral);
     const currentDebt = parseFloat(userPosition.debt) + parseFloat(userPosition.interest);
-    const maxBorrowable = (collateralValue * 100) / 150; // 150% collateralization ratio
-    return Math.max(0, maxBorrowable - currentDebt).toFixed(6);
+    const collateralPrice = parseFloat(prices.collateral);
+    if (currentDebt === 0) return userPosition.collateral;
+    if (collateralPrice === 0) return (0).toFixed(6);
+    const spareCapacity = parseFloat(userPosition.borrowCapacity) - parseFloat(userPosition.debtValue);
+    const withdrawable = (spareCapacity * parseFloat(collateralRatio)) / 100 / collateralPrice;
+    // Round down so the suggested amount never breaks the ratio
+    return (Math.floor(Math.max(0, Math.min(collateral, withdrawable)) * 1e6) / 1e6).toFixed(6);
+  };
+
+  // Get the exchange rate between collateral and loan tokens
+  const getExchangeRate = () => {
+    const loanPrice = parseFloat(prices.loan);
+    if (loanPrice === 0) return '0';
+    return (parseFloat(prices.collateral) / loanPrice).toFixed(4);
   };
 
   useEffect(() => {
@@ -397,7 +614,7 @@ const App = () => {
               }}>
                 <p>{networkError}</p>
                 <button
-                  onClick={switchToSepolia}
+                  onClick={switchNetwork}
                   style={{
                     background: 'linear-gradient(45deg, #ff6b6b, #ee5a52)',
                     color: 'white',
@@ -408,7 +625,7 @@ const App = () => {
                     marginTop: '10px'
                   }}
                 >
-                  Switch to Sepolia
+                  Switch to {getChainName(DEFAULT_CHAIN_ID)}
                 </button>
               </div>
             )}
@@ -443,7 +660,7 @@ const App = () => {
               }}>
                 <p>{networkError}</p>
                 <button
-                  onClick={switchToSepolia}
+                  onClick={switchNetwork}
                   style={{
                     background: 'linear-gradient(45deg, #ff6b6b, #ee5a52)',
                     color: 'white',
@@ -454,7 +671,7 @@ const App = () => {
                     marginTop: '10px'
                   }}
                 >
-                  Switch to Sepolia
+                  Switch to {getChainName(DEFAULT_CHAIN_ID)}
                 </button>
               </div>
             )}
@@ -467,7 +684,7 @@ const App = () => {
               marginBottom: '20px',
               textAlign: 'center'
             }}>
-              <h3>Connected Account (Sepolia Testnet)</h3>
+              <h3>Connected Account ({getChainName(chainId)})</h3>
               <p style={{ fontFamily: 'monospace', fontSize: '0.9rem' }}>
                 {account}
               </p>
@@ -611,21 +828,52 @@ const App = () => {
                 <p style={{ fontSize: '0.9rem', marginBottom: '10px' }}>
                   Total to repay: {(parseFloat(userPosition.debt) + parseFloat(userPosition.interest)).toFixed(4)} dDAI
                 </p>
-                <button
-                  onClick={repay}
-                  disabled={loading || parseFloat(userPosition.debt) === 0}
+                <input
+                  type="number"
+                  placeholder="Amount of dDAI"
+                  value={repayAmount}
+                  onChange={(e) => setRepayAmount(e.target.value)}
                   style={{
                     width: '100%',
-                    background: loading || parseFloat(userPosition.debt) === 0 ? '#666' : 'linear-gradient(45deg, #ffc107, #fd7e14)',
-                    color: 'white',
-                    border: 'none',
                     padding: '10px',
                     borderRadius: '8px',
-                    cursor: loading || parseFloat(userPosition.debt) === 0 ? 'not-allowed' : 'pointer'
+                    border: 'none',
+                    marginBottom: '10px',
+                    boxSizing: 'border-box'
                   }}
-                >
-                  {loading ? 'Processing...' : 'Repay All'}
-                </button>
+                />
+                <div style={{ display: 'flex', gap: '10px' }}>
+                  <button
+                    onClick={repay}
+                    disabled={loading || !repayAmount || parseFloat(userPosition.debt) === 0}
+                    style={{
+                      flex: 1,
+                      background: loading || !repayAmount || parseFloat(userPosition.debt) === 0 ? '#666' : 'linear-gradient(45deg, #ffc107, #fd7e14)',
+                      color: 'white',
+                      border: 'none',
+                      padding: '10px',
+                      borderRadius: '8px',
+                      cursor: loading || !repayAmount || parseFloat(userPosition.debt) === 0 ? 'not-allowed' : 'pointer'
+                    }}
+                  >
+                    {loading ? 'Processing...' : 'Repay'}
+                  </button>
+                  <button
+                    onClick={repayAll}
+                    disabled={loading || parseFloat(userPosition.debt) === 0}
+                    style={{
+                      flex: 1,
+                      background: loading || parseFloat(userPosition.debt) === 0 ? '#666' : 'linear-gradient(45deg, #ffc107, #fd7e14)',
+                      color: 'white',
+                      border: 'none',
+                      padding: '10px',
+                      borderRadius: '8px',
+                      cursor: loading || parseFloat(userPosition.debt) === 0 ? 'not-allowed' : 'pointer'
+                    }}
+                  >
+                    {loading ? 'Processing...' : 'Repay All'}
+                  </button>
+                </div>
               </div>
 
               {/* Withdraw */}
@@ -636,23 +884,112 @@ const App = () => {
               }}>
                 <h3>Withdraw Collateral</h3>
                 <p style={{ fontSize: '0.9rem', marginBottom: '10px' }}>
-                  Available: {userPosition.collateral} cUSD
+                  Available: {getMaxWithdrawable()} cUSD
                 </p>
-                <button
-                  onClick={withdraw}
-                  disabled={loading || parseFloat(userPosition.debt) > 0 || parseFloat(userPosition.collateral) === 0}
+                <input
+                  type="number"
+                  placeholder="Amount of cUSD"
+                  value={withdrawAmount}
+                  onChange={(e) => setWithdrawAmount(e.target.value)}
                   style={{
                     width: '100%',
-                    background: loading || parseFloat(userPosition.debt) > 0 || parseFloat(userPosition.collateral) === 0 ? '#666' : 'linear-gradient(45deg, #dc3545, #e83e8c)',
-                    color: 'white',
+                    padding: '10px',
+                    borderRadius: '8px',
                     border: 'none',
+                    marginBottom: '10px',
+                    boxSizing: 'border-box'
+                  }}
+                />
+                <div style={{ display: 'flex', gap: '10px' }}>
+                  <button
+                    onClick={() => setWithdrawAmount(getMaxWithdrawable())}
+                    disabled={loading || parseFloat(userPosition.collateral) === 0}
+                    style={{
+                      flex: 1,
+                      background: loading || parseFloat(userPosition.collateral) === 0 ? '#666' : 'linear-gradient(45deg, #6c757d, #495057)',
+                      color: 'white',
+                      border: 'none',
+                      padding: '10px',
+                      borderRadius: '8px',
+                      cursor: loading || parseFloat(userPosition.collateral) === 0 ? 'not-allowed' : 'pointer'
+                    }}
+                  >
+                    Max
+                  </button>
+                  <button
+                    onClick={withdraw}
+                    disabled={loading || !withdrawAmount || parseFloat(userPosition.collateral) === 0}
+                    style={{
+                      flex: 1,
+                      background: loading || !withdrawAmount || parseFloat(userPosition.collateral) === 0 ? '#666' : 'linear-gradient(45deg, #dc3545, #e83e8c)',
+                      color: 'white',
+                      border: 'none',
+                      padding: '10px',
+                      borderRadius: '8px',
+                      cursor: loading || !withdrawAmount || parseFloat(userPosition.collateral) === 0 ? 'not-allowed' : 'pointer'
+                    }}
+                  >
+                    {loading ? 'Processing...' : 'Withdraw'}
+                  </button>
+                </div>
+              </div>
+
+              {/* Supply */}
+              <div style={{
+                background: 'rgba(255, 255, 255, 0.1)',
+                padding: '20px',
+                borderRadius: '15px'
+              }}>
+                <h3>Supply Liquidity</h3>
+                <p style={{ fontSize: '0.9rem', marginBottom: '10px' }}>
+                  Supplied: {parseFloat(supplyPosition.balance).toFixed(4)} dDAI ({parseFloat(supplyPosition.shares).toFixed(4)} ldDAI)
+                </p>
+                <input
+                  type="number"
+                  placeholder="Amount of dDAI"
+                  value={supplyAmount}
+                  onChange={(e) => setSupplyAmount(e.target.value)}
+                  style={{
+                    width: '100%',
                     padding: '10px',
                     borderRadius: '8px',
-                    cursor: loading || parseFloat(userPosition.debt) > 0 || parseFloat(userPosition.collateral) === 0 ? 'not-allowed' : 'pointer'
+                    border: 'none',
+                    marginBottom: '10px',
+                    boxSizing: 'border-box'
                   }}
-                >
-                  {loading ? 'Processing...' : 'Withdraw All'}
-                </button>
+                />
+                <div style={{ display: 'flex', gap: '10px' }}>
+                  <button
+                    onClick={supply}
+                    disabled={loading || !supplyAmount}
+                    style={{
+                      flex: 1,
+                      background: loading || !supplyAmount ? '#666' : 'linear-gradient(45deg, #28a745, #20c997)',
+                      color: 'white',
+                      border: 'none',
+                      padding: '10px',
+                      borderRadius: '8px',
+                      cursor: loading || !supplyAmount ? 'not-allowed' : 'pointer'
+                    }}
+                  >
+                    {loading ? 'Processing...' : 'Supply'}
+                  </button>
+                  <button
+                    onClick={redeemAll}
+                    disabled={loading || parseFloat(supplyPosition.shares) === 0}
+                    style={{
+                      flex: 1,
+                      background: loading || parseFloat(supplyPosition.shares) === 0 ? '#666' : 'linear-gradient(45deg, #6c757d, #495057)',
+                      color: 'white',
+                      border: 'none',
+                      padding: '10px',
+                      borderRadius: '8px',
+                      cursor: loading || parseFloat(supplyPosition.shares) === 0 ? 'not-allowed' : 'pointer'
+                    }}
+                  >
+                    Redeem All
+                  </button>
+                </div>
               </div>
             </div>
 
@@ -665,10 +1002,12 @@ const App = () => {
               textAlign: 'center'
             }}>
               <h3>Protocol Information</h3>
-              <p>• Collateralization Ratio: 150% (you can borrow up to 66.67% of your collateral value)</p>
-              <p>• Interest Rate: 5% per week (non-compounding)</p>
-              <p>• Exchange Rate: 1 cUSD = 1 dDAI</p>
-              <p>• You must repay all debt before withdrawing collateral</p>
+              <p>• cUSD Collateralization Ratio: {collateralRatio}% (each collateral asset has its own ratio and deposit cap)</p>
+              <p>• Borrow APR: {parseFloat(borrowApr).toFixed(2)}% (compounded every second, rises with pool utilization)</p>
+              <p>• Exchange Rate: 1 cUSD = {getExchangeRate()} dDAI (price oracle)</p>
+              <p>• Repayments cover accrued interest first, then principal</p>
+              <p>• Suppliers receive ldDAI shares that grow in value as borrowers pay interest</p>
+              <p>• Collateral can be withdrawn while your position stays above the required collateralization</p>
             </div>
           </div>
         )}
@@ -0,0 +1,201 @@
+import { Interface, Result, formatEther, isError, isHexString } from "ethers";
+
+// Structured description of a failed transaction or call
+export interface DecodedError {
+  name: string; // Custom error name, "Error"/"Panic" for builtin reverts or a wallet error
+  args: unknown[];
+  message: string; // User-readable explanation
+}
+
+// Builds the message for an error from its decoded arguments
+export type ErrorMessages = Record<string, (args: Result) => string>;
+
+// Same order as LendingProtocol.Action
+const ACTIONS = [
+  "Deposits",
+  "Borrows",
+  "Repayments",
+  "Withdrawals",
+  "Liquidations",
+  "Flash loans",
+];
+
+// Errors LendingProtocol can revert with, including OpenZeppelin ones
+export const LENDING_ERRORS = new Interface([
+  "error ZeroAmount()",
+  "error ZeroAddress()",
+  "error AmountTooSmall()",
+  "error InsufficientShares(uint256 requested, uint256 balance)",
+  "error InsufficientLiquidity(uint256 requested, uint256 available)",
+  "error CollateralNotListed(address asset)",
+  "error DepositCapExceeded(address asset, uint256 requested, uint256 available)",
+  "error NoCollateralDeposited()",
+  "error ExceedsBorrowCapacity(uint256 debtValue, uint256 borrowCapacity)",
+  "error NoActiveLoan(address user)",
+  "error InsufficientCollateral(address asset, uint256 requested, uint256 balance)",
+  "error WithdrawalExceedsCollateralization(uint256 healthFactor)",
+  "error NoCollateralToSeize(address user, address asset)",
+  "error PositionHealthy(address user, uint256 healthFactor)",
+  "error ExceedsCloseFactor(uint256 repayAmount, uint256 maxRepayAmount)",
+  "error InvalidOraclePrice(address token)",
+  "error StaleOraclePrice(address token, uint256 updatedAt)",
+  "error InvalidAsset(address asset)",
+  "error InvalidCollateralizationRatio(uint256 collateralizationRatio)",
+  "error TooManyCollateralAssets()",
+  "error InvalidMaxPriceAge()",
+  "error InvalidReserveFactor(uint256 reserveFactor)",
+  "error ExceedsReserves(uint256 requested, uint256 reserves)",
+  "error ExceedsExcessLiquidity(uint256 requested, uint256 excess)",
+  "error ActionPaused(uint8 action)",
+  "error NotGuardian(address account)",
+  "error UnsupportedFlashLoanToken(address token)",
+  "error InvalidFlashLoanCallback(address receiver)",
+  "error InvalidFlashLoanFee(uint256 flashLoanFee)",
+  "error OwnableUnauthorizedAccount(address account)",
+  "error OwnableInvalidOwner(address owner)",
+  "error ReentrancyGuardReentrantCall()",
+  "error SafeERC20FailedOperation(address token)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+]);
+
+export const LENDING_MESSAGES: ErrorMessages = {
+  ZeroAmount: () => "Amount must be greater than 0",
+  ZeroAddress: () => "Address cannot be zero",
+  AmountTooSmall: () => "Amount is too small to mint any ldDAI shares",
+  InsufficientShares: ([, balance]) =>
+    `You only have ${formatEther(balance)} ldDAI shares`,
+  InsufficientLiquidity: ([, available]) =>
+    `Only ${formatEther(available)} dDAI is available in the pool`,
+  CollateralNotListed: ([asset]) =>
+    `Token ${asset} is not listed as collateral`,
+  DepositCapExceeded: ([, , available]) =>
+    `Deposit cap reached, only ${formatEther(available)} more can be deposited`,
+  NoCollateralDeposited: () => "Deposit collateral before borrowing",
+  ExceedsBorrowCapacity: ([debtValue, borrowCapacity]) =>
+    `Your debt would be worth $${formatEther(
+      debtValue
+    )}, above your borrowing capacity of $${formatEther(borrowCapacity)}`,
+  NoActiveLoan: () => "There is no active loan",
+  InsufficientCollateral: ([, , balance]) =>
+    `You only have ${formatEther(balance)} of this collateral deposited`,
+  WithdrawalExceedsCollateralization: ([healthFactor]) =>
+    `Withdrawal would drop your health factor to ${formatEther(
+      healthFactor
+    )}, below 1.0`,
+  NoCollateralToSeize: () =>
+    "The position has none of this collateral to seize",
+  PositionHealthy: ([, healthFactor]) =>
+    `Position is healthy (health factor ${formatEther(
+      healthFactor
+    )}) and cannot be liquidated`,
+  ExceedsCloseFactor: ([, maxRepayAmount]) =>
+    `At most ${formatEther(maxRepayAmount)} dDAI can be repaid per liquidation`,
+  InvalidOraclePrice: ([token]) => `The oracle has no price for ${token}`,
+  StaleOraclePrice: ([, updatedAt]) =>
+    `Oracle price is stale, last updated ${new Date(
+      Number(updatedAt) * 1000
+    ).toLocaleString()}`,
+  InvalidAsset: ([asset]) => `Token ${asset} cannot be used as collateral`,
+  InvalidCollateralizationRatio: ([ratio]) =>
+    `Collateralization ratio must be above 100%, got ${ratio}%`,
+  TooManyCollateralAssets: () => "Collateral asset limit reached",
+  InvalidMaxPriceAge: () => "Max price age must be greater than 0",
+  InvalidReserveFactor: ([reserveFactor]) =>
+    `Reserve factor ${reserveFactor}% is above the maximum`,
+  ExceedsReserves: ([, reserves]) =>
+    `Only ${formatEther(reserves)} dDAI of reserves can be withdrawn`,
+  ExceedsExcessLiquidity: ([, excess]) =>
+    `Only ${formatEther(excess)} dDAI of excess liquidity can be withdrawn`,
+  ActionPaused: ([action]) =>
+    `${
+      ACTIONS[Number(action)] ?? "This action"
+    } are paused by the protocol guardians`,
+  NotGuardian: () => "Only guardians can pause the protocol",
+  UnsupportedFlashLoanToken: ([token]) =>
+    `Token ${token} cannot be flash borrowed`,
+  InvalidFlashLoanCallback: ([receiver]) =>
+    `Flash loan receiver ${receiver} rejected the callback`,
+  InvalidFlashLoanFee: ([flashLoanFee]) =>
+    `Flash loan fee of ${flashLoanFee} basis points is above the maximum`,
+  OwnableUnauthorizedAccount: () => "Only the contract owner can do this",
+  OwnableInvalidOwner: () => "Owner cannot be the zero address",
+  ReentrancyGuardReentrantCall: () => "Reentrant call rejected",
+  SafeERC20FailedOperation: ([token]) => `Token transfer failed for ${token}`,
+  ERC20InsufficientBalance: ([, balance, needed]) =>
+    `Insufficient token balance: ${formatEther(
+      balance
+    )} available, ${formatEther(needed)} needed`,
+  ERC20InsufficientAllowance: () => "Token allowance is too low, approve first",
+  Error: ([reason]) => reason,
+  Panic: ([code]) => `Transaction failed with panic code ${code}`,
+  ActionRejected: () => "Transaction rejected in the wallet",
+  InsufficientFunds: () => "Not enough ETH to pay for gas",
+};
+
+// Wallets nest the revert data at different depths of the error object
+function findRevertData(error: unknown, depth = 0): string | null {
+  if (depth > 5 || typeof error !== "object" || error === null) {
+    return null;
+  }
+
+  const fields = error as Record<string, unknown>;
+  if (typeof fields.data === "string" && isHexString(fields.data)) {
+    // At least a 4 byte selector
+    if (fields.data.length >= 10) {
+      return fields.data;
+    }
+  }
+
+  for (const key of ["data", "error", "info", "cause"]) {
+    const data = findRevertData(fields[key], depth + 1);
+    if (data) {
+      return data;
+    }
+  }
+
+  return null;
+}
+
+// Turns a rejected transaction or call into a structured, readable error
+export function decodeContractError(
+  error: unknown,
+  iface: Interface,
+  messages: ErrorMessages,
+  fallback: string
+): DecodedError {
+  const describe = (name: string, args: Result): DecodedError => ({
+    name,
+    args: args.toArray(),
+    message: messages[name]?.(args) ?? fallback,
+  });
+
+  if (isError(error, "ACTION_REJECTED")) {
+    return describe("ActionRejected", Result.fromItems([]));
+  }
+  if (isError(error, "INSUFFICIENT_FUNDS")) {
+    return describe("InsufficientFunds", Result.fromItems([]));
+  }
+
+  const data = findRevertData(error);
+  if (data) {
+    const parsed = iface.parseError(data);
+    if (parsed) {
+      return describe(parsed.name, parsed.args);
+    }
+  }
+
+  // Providers sometimes only keep the revert reason string
+  if (isError(error, "CALL_EXCEPTION") && error.reason) {
+    return describe("Error", Result.fromItems([error.reason]));
+  }
+
+  return { name: "Unknown", args: [], message: fallback };
+}
+
+export function decodeLendingError(
+  error: unknown,
+  fallback = "Transaction failed"
+): DecodedError {
+  return decodeContractError(error, LENDING_ERRORS, LENDING_MESSAGES, fallback);
+}
@@ -0,0 +1,125 @@
+import { BaseContract, Contract, ContractRunner, isError } from "ethers";
+
+// Multicall3 has the same address on Sepolia and most public networks
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+// aggregate3 is payable, declaring it view lets it run as an eth_call
+const MULTICALL3_ABI = [
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) view returns (tuple(bool success, bytes returnData)[] returnData)",
+];
+
+// A read to batch: a view function of a contract and its arguments
+export interface ContractCall {
+  contract: BaseContract;
+  method: string;
+  args?: unknown[];
+}
+
+// Outcome of one read. `error` can be passed to decodeLendingError
+export type CallResult =
+  | { success: true; value: unknown }
+  | { success: false; error: unknown };
+
+export interface MulticallOptions {
+  address: string; // Multicall3 contract
+  batchSize: number; // Calls per eth_call
+}
+
+// Decodes like Contract does: the value itself for single-output functions
+function decodeResult(call: ContractCall, data: string) {
+  const fragment = call.contract.interface.getFunction(call.method)!;
+  const result = call.contract.interface.decodeFunctionResult(fragment, data);
+  return fragment.outputs.length === 1 ? result[0] : result;
+}
+
+// One eth_call per read, used where Multicall3 is not deployed
+async function callEach(
+  runner: ContractRunner,
+  calls: ContractCall[]
+): Promise<CallResult[]> {
+  return Promise.all(
+    calls.map(async (call): Promise<CallResult> => {
+      try {
+        const value = await call.contract
+          .connect(runner)
+          .getFunction(call.method)
+          .staticCall(...(call.args ?? []));
+        return { success: true, value };
+      } catch (error) {
+        return { success: false, error };
+      }
+    })
+  );
+}
+
+/**
+ * Run view calls through Multicall3, `batchSize` calls per request. A reverted
+ * call only fails its own result. Without Multicall3 at `address` every call
+ * is sent on its own
+ */
+export async function multicall(
+  runner: ContractRunner,
+  calls: ContractCall[],
+  options: Partial<MulticallOptions> = {}
+): Promise<CallResult[]> {
+  const { address = MULTICALL3_ADDRESS, batchSize = 100 } = options;
+  const multicall3 = new Contract(address, MULTICALL3_ABI, runner);
+  const results: CallResult[] = [];
+
+  for (let start = 0; start < calls.length; start += batchSize) {
+    const batch = calls.slice(start, start + batchSize);
+    const requests = await Promise.all(
+      batch.map(async (call) => ({
+        target: await call.contract.getAddress(),
+        allowFailure: true,
+        callData: call.contract.interface.encodeFunctionData(
+          call.method,
+          call.args ?? []
+        ),
+      }))
+    );
+
+    let responses: { success: boolean; returnData: string }[];
+    try {
+      responses = await multicall3.aggregate3(requests);
+    } catch (error) {
+      // An address without code returns empty data instead of results
+      if (isError(error, "BAD_DATA")) {
+        return callEach(runner, calls);
+      }
+      throw error;
+    }
+
+    batch.forEach((call, i) => {
+      const { success, returnData } = responses[i];
+      if (!success) {
+        // Keeps the revert data where provider errors have it
+        results.push({
+          success: false,
+          error: Object.assign(new Error(`${call.method} reverted`), {
+            data: returnData,
+          }),
+        });
+        return;
+      }
+      try {
+        results.push({ success: true, value: decodeResult(call, returnData) });
+      } catch (error) {
+        results.push({ success: false, error });
+      }
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Value of a successful result, throws the error of a failed one. `T` is the
+ * type the caller expects the method to return
+ */
+export function unwrap<T = unknown>(result: CallResult): T {
+  if (!result.success) {
+    throw result.error;
+  }
+  return result.value as T;
+}
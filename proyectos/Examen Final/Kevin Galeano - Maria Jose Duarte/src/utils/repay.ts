@@ -0,0 +1,22 @@
+// Time a "repay all" transaction may wait before it is mined
+export const REPAY_ALL_BUFFER_SECONDS = 60n * 60n;
+
+const RATE_PRECISION = 10n ** 18n;
+
+/**
+ * Allowance for repay(MaxUint256). Interest compounds every second, so the
+ * debt read before sending keeps growing until the repayment is mined. Twice
+ * the simple interest over the buffer covers the compounded interest for any
+ * rate below LendingProtocol.MAX_BORROW_RATE
+ */
+export function repayAllAllowance(
+  debt: bigint,
+  borrowRatePerSecond: bigint,
+  bufferSeconds: bigint = REPAY_ALL_BUFFER_SECONDS
+): bigint {
+  return (
+    debt +
+    (2n * debt * borrowRatePerSecond * bufferSeconds) / RATE_PRECISION +
+    1n
+  );
+}
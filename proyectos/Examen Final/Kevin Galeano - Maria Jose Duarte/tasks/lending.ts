@@ -0,0 +1,558 @@
+import { task } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  TransactionReceipt,
+  TransactionRequest,
+  formatEther,
+  formatUnits,
+  getAddress,
+  isAddress,
+  parseUnits,
+} from "ethers";
+import { readDeployment } from "../scripts/deployments";
+import { sendTransaction } from "../scripts/transactions";
+import { decodeLendingError } from "../src/utils/errors";
+
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+
+// Same order as LendingProtocol.Action
+const ACTIONS = [
+  "deposit",
+  "borrow",
+  "repay",
+  "withdraw",
+  "liquidate",
+  "flashloan",
+];
+
+interface OutputArgs {
+  json: boolean;
+}
+
+interface SendArgs extends OutputArgs {
+  dryRun: boolean;
+}
+
+function fail(message: string): never {
+  throw new HardhatPluginError("lending", message);
+}
+
+function parseAmount(value: string, decimals = 18): bigint {
+  let amount: bigint;
+  try {
+    amount = parseUnits(value, decimals);
+  } catch {
+    fail(`Invalid amount ${value}, expected a number of whole tokens`);
+  }
+  if (amount <= 0n) {
+    fail(`Invalid amount ${value}, it must be greater than 0`);
+  }
+  return amount;
+}
+
+function parseAddress(value: string, name: string): string {
+  if (!isAddress(value)) {
+    fail(`Invalid --${name} ${value}, expected an address`);
+  }
+  return getAddress(value);
+}
+
+/**
+ * Print `data` as JSON for scripting, or `lines` for people
+ */
+function output(args: OutputArgs, data: object, lines: string[]) {
+  if (args.json) {
+    console.log(
+      JSON.stringify(
+        data,
+        (_, value) => (typeof value === "bigint" ? value.toString() : value),
+        2
+      )
+    );
+  } else {
+    console.log(lines.join("\n"));
+  }
+}
+
+/**
+ * Deployment record of the connected network, a task error if there is none
+ */
+async function loadDeployment(hre: HardhatRuntimeEnvironment) {
+  try {
+    return await readDeployment(hre.ethers.provider);
+  } catch (error) {
+    fail((error as Error).message);
+  }
+}
+
+async function loadProtocol(hre: HardhatRuntimeEnvironment) {
+  const deployment = await loadDeployment(hre);
+  const lendingProtocol = await hre.ethers.getContractAt(
+    "LendingProtocol",
+    deployment.lendingProtocol
+  );
+  const loanToken = await hre.ethers.getContractAt(
+    "LoanToken",
+    deployment.loanToken
+  );
+  return { deployment, lendingProtocol, loanToken };
+}
+
+/**
+ * Bring the event index of the connected network up to date. Loaded on use,
+ * the other tasks do not need the native SQLite module
+ */
+async function syncIndexer(hre: HardhatRuntimeEnvironment, args: OutputArgs) {
+  const { openIndexer } = await import("../indexer/indexer");
+  const deployment = await loadDeployment(hre);
+  const { store, indexer } = openIndexer(hre.ethers.provider, deployment, {
+    log: args.json ? console.error : console.log,
+  });
+  await indexer.sync();
+  return { deployment, store };
+}
+
+/**
+ * Send through the shared transaction sender. With --json its progress goes to
+ * stderr so stdout only holds the result
+ */
+async function send(
+  hre: HardhatRuntimeEnvironment,
+  args: SendArgs,
+  request: TransactionRequest,
+  label: string
+): Promise<TransactionReceipt | null> {
+  const [signer] = await hre.ethers.getSigners();
+  try {
+    return await sendTransaction(signer, request, {
+      label,
+      log: args.json ? console.error : console.log,
+      ...(args.dryRun ? { dryRun: true } : {}),
+    });
+  } catch (error) {
+    fail(
+      `${label} failed: ${
+        decodeLendingError(error, (error as Error).message).message
+      }`
+    );
+  }
+}
+
+task("lending:fund", "Supply dDAI to the pool from the owner account")
+  .addParam("amount", "dDAI to supply, in whole tokens")
+  .addFlag("mint", "Mint the missing dDAI if the balance is too low")
+  .addFlag("dryRun", "Print the transactions without sending them")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async (args, hre) => {
+    const { deployment, lendingProtocol, loanToken } = await loadProtocol(hre);
+    const [signer] = await hre.ethers.getSigners();
+    const amount = parseAmount(args.amount);
+    const transactions: (string | undefined)[] = [];
+    // A dry run does not send the mint or approval the funding relies on
+    let skippedSteps = false;
+
+    const balance = await loanToken.balanceOf(signer.address);
+    if (balance < amount) {
+      if (!args.mint) {
+        fail(
+          `Balance of ${formatEther(balance)} dDAI is below ${formatEther(
+            amount
+          )}, pass --mint to mint the difference`
+        );
+      }
+      const receipt = await send(
+        hre,
+        args,
+        await loanToken.mint.populateTransaction(
+          signer.address,
+          amount - balance
+        ),
+        "Mint dDAI"
+      );
+      transactions.push(receipt?.hash);
+      skippedSteps = args.dryRun;
+    }
+
+    const allowance = await loanToken.allowance(
+      signer.address,
+      deployment.lendingProtocol
+    );
+    if (allowance < amount) {
+      const receipt = await send(
+        hre,
+        args,
+        await loanToken.approve.populateTransaction(
+          deployment.lendingProtocol,
+          amount
+        ),
+        "Approve dDAI"
+      );
+      transactions.push(receipt?.hash);
+      skippedSteps = args.dryRun;
+    }
+
+    let receipt: TransactionReceipt | null = null;
+    if (skippedSteps) {
+      // Estimating it would revert on the missing balance or allowance
+      (args.json ? console.error : console.log)(
+        "Dry run Fund protocol: not estimated, it needs the transactions above"
+      );
+    } else {
+      receipt = await send(
+        hre,
+        args,
+        await lendingProtocol.fundContract.populateTransaction(amount),
+        "Fund protocol"
+      );
+    }
+    transactions.push(receipt?.hash);
+
+    const available = await lendingProtocol.availableLiquidity();
+    output(
+      args,
+      {
+        amount: formatEther(amount),
+        dryRun: receipt === null,
+        transactions,
+        availableLiquidity: formatEther(available),
+      },
+      [
+        receipt
+          ? `Funded ${formatEther(amount)} dDAI in tx ${receipt.hash}`
+          : `Dry run, ${formatEther(amount)} dDAI not funded`,
+        `Available liquidity: ${formatEther(available)} dDAI`,
+      ]
+    );
+  });
+
+task(
+  "lending:withdraw-excess",
+  "Withdraw dDAI that neither suppliers nor reserves own"
+)
+  .addOptionalParam("amount", "dDAI to withdraw, defaults to all the excess")
+  .addFlag("dryRun", "Print the transaction without sending it")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async (args, hre) => {
+    const { lendingProtocol } = await loadProtocol(hre);
+    const excess = await lendingProtocol.excessLiquidity();
+    if (excess === 0n) {
+      fail("There is no excess liquidity to withdraw");
+    }
+
+    const amount = args.amount ? parseAmount(args.amount) : excess;
+    if (amount > excess) {
+      fail(
+        `Cannot withdraw ${formatEther(
+          amount
+        )} dDAI, the excess is ${formatEther(excess)} dDAI`
+      );
+    }
+
+    const receipt = await send(
+      hre,
+      args,
+      await lendingProtocol.withdrawExcess.populateTransaction(amount),
+      "Withdraw excess"
+    );
+
+    output(
+      args,
+      {
+        amount: formatEther(amount),
+        dryRun: receipt === null,
+        transaction: receipt?.hash,
+      },
+      [
+        receipt
+          ? `Withdrew ${formatEther(amount)} dDAI in tx ${receipt.hash}`
+          : `Dry run, ${formatEther(amount)} dDAI not withdrawn`,
+      ]
+    );
+  });
+
+task("lending:position", "Show the collateral, debt and health of a user")
+  .addParam("user", "Address of the user")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async (args, hre) => {
+    const { deployment, lendingProtocol } = await loadProtocol(hre);
+    const user = parseAddress(args.user, "user");
+
+    const snapshot = await lendingProtocol.getAccountSnapshot(user);
+    const supplied = await lendingProtocol.supplyBalance(user);
+
+    // Without debt the contract reports the max uint256
+    const healthFactor =
+      snapshot.debtValue > 0n ? formatEther(snapshot.healthFactor) : null;
+
+    const collaterals = snapshot.collaterals
+      .filter((collateral) => collateral.amount > 0n)
+      .map((collateral) => ({
+        symbol:
+          deployment.collaterals.find(
+            (listed) =>
+              listed.address.toLowerCase() === collateral.asset.toLowerCase()
+          )?.symbol ?? collateral.asset,
+        asset: collateral.asset,
+        amount: formatEther(collateral.amount),
+        value: formatEther(collateral.value),
+        borrowCapacity: formatEther(collateral.borrowCapacity),
+      }));
+
+    output(
+      args,
+      {
+        user,
+        supplied: formatEther(supplied),
+        debt: formatEther(snapshot.debt),
+        interest: formatEther(snapshot.interest),
+        collateralValue: formatEther(snapshot.collateralValue),
+        borrowCapacity: formatEther(snapshot.borrowCapacity),
+        debtValue: formatEther(snapshot.debtValue),
+        healthFactor,
+        collaterals,
+      },
+      [
+        `=== POSITION ${user} ===`,
+        `Supplied: ${formatEther(supplied)} dDAI`,
+        `Debt: ${formatEther(snapshot.debt)} dDAI`,
+        `Interest: ${formatEther(snapshot.interest)} dDAI`,
+        ...collaterals.map(
+          (collateral) =>
+            `Collateral ${collateral.symbol}: ${collateral.amount} (${collateral.value} USD)`
+        ),
+        `Collateral value: ${formatEther(snapshot.collateralValue)} USD`,
+        `Borrow capacity: ${formatEther(snapshot.borrowCapacity)} USD`,
+        `Debt value: ${formatEther(snapshot.debtValue)} USD`,
+        `Health factor: ${healthFactor ?? "no debt"}`,
+      ]
+    );
+  });
+
+task("lending:mint", "Mint test tokens, owner of the token only")
+  .addParam("token", "dDAI, a collateral symbol or a token address")
+  .addParam("to", "Address receiving the tokens")
+  .addOptionalParam("amount", "Tokens to mint, in whole tokens", "1000")
+  .addFlag("dryRun", "Print the transaction without sending it")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async (args, hre) => {
+    const { deployment } = await loadProtocol(hre);
+    const to = parseAddress(args.to, "to");
+
+    const tokens = [
+      { symbol: "dDAI", address: deployment.loanToken },
+      ...deployment.collaterals,
+    ];
+    const match = tokens.find(
+      (token) =>
+        token.symbol.toLowerCase() === args.token.toLowerCase() ||
+        token.address.toLowerCase() === args.token.toLowerCase()
+    );
+    if (!match) {
+      fail(
+        `Unknown token ${args.token}, expected one of: ${tokens
+          .map((token) => token.symbol)
+          .join(", ")}`
+      );
+    }
+
+    // LoanToken and CollateralToken share the owner-only mint
+    const token = await hre.ethers.getContractAt("LoanToken", match.address);
+    const decimals = await token.decimals();
+    const amount = parseAmount(args.amount, Number(decimals));
+
+    const receipt = await send(
+      hre,
+      args,
+      await token.mint.populateTransaction(to, amount),
+      `Mint ${match.symbol}`
+    );
+    const balance = await token.balanceOf(to);
+
+    output(
+      args,
+      {
+        token: match.symbol,
+        address: match.address,
+        to,
+        amount: formatUnits(amount, decimals),
+        dryRun: receipt === null,
+        transaction: receipt?.hash,
+        balance: formatUnits(balance, decimals),
+      },
+      [
+        receipt
+          ? `Minted ${formatUnits(amount, decimals)} ${
+              match.symbol
+            } to ${to} in tx ${receipt.hash}`
+          : `Dry run, ${formatUnits(amount, decimals)} ${
+              match.symbol
+            } not minted`,
+        `Balance of ${to}: ${formatUnits(balance, decimals)} ${match.symbol}`,
+      ]
+    );
+  });
+
+task("lending:status", "Show pool totals, rates, collateral assets and pauses")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async (args, hre) => {
+    const { deployment, lendingProtocol } = await loadProtocol(hre);
+
+    const totalSupplied = await lendingProtocol.totalSupplyAssets();
+    const totalBorrowed = await lendingProtocol.totalBorrows();
+    const totalReserves = await lendingProtocol.totalReserves();
+    const available = await lendingProtocol.availableLiquidity();
+    const excess = await lendingProtocol.excessLiquidity();
+    const reserveFactor = await lendingProtocol.reserveFactor();
+    const flashLoanFee = await lendingProtocol.flashLoanFee();
+    const precision = await lendingProtocol.PRECISION();
+    const treasury = await lendingProtocol.treasury();
+    const borrowRate = await lendingProtocol.getBorrowRate();
+    const lastAccrual = await lendingProtocol.lastAccrualTimestamp();
+
+    // Share of supplier liquidity that is lent out, in basis points
+    const liquidity = available + totalBorrowed;
+    const utilization =
+      liquidity === 0n ? 0n : (totalBorrowed * 10000n) / liquidity;
+
+    const collaterals = [];
+    for (const collateral of deployment.collaterals) {
+      const config = await lendingProtocol.collateralConfigs(
+        collateral.address
+      );
+      collaterals.push({
+        symbol: collateral.symbol,
+        address: collateral.address,
+        collateralizationRatio: Number(config.collateralizationRatio),
+        totalDeposits: formatEther(config.totalDeposits),
+        depositCap: formatEther(config.depositCap),
+      });
+    }
+
+    const paused: Record<string, boolean> = {};
+    for (let i = 0; i < ACTIONS.length; i++) {
+      paused[ACTIONS[i]] = await lendingProtocol.paused(i);
+    }
+
+    output(
+      args,
+      {
+        lendingProtocol: deployment.lendingProtocol,
+        lastAccrual: new Date(Number(lastAccrual) * 1000).toISOString(),
+        totalSupplied: formatEther(totalSupplied),
+        totalBorrowed: formatEther(totalBorrowed),
+        totalReserves: formatEther(totalReserves),
+        availableLiquidity: formatEther(available),
+        excessLiquidity: formatEther(excess),
+        utilization: formatUnits(utilization, 2),
+        borrowApr: formatEther(borrowRate * SECONDS_PER_YEAR * 100n),
+        reserveFactor: Number((reserveFactor * 100n) / precision),
+        flashLoanFee: formatUnits(flashLoanFee, 2),
+        treasury,
+        collaterals,
+        paused,
+      },
+      [
+        `=== PROTOCOL STATUS ${deployment.lendingProtocol} ===`,
+        `Totals as of last accrual: ${new Date(
+          Number(lastAccrual) * 1000
+        ).toISOString()}`,
+        `Total supplied: ${formatEther(totalSupplied)} dDAI`,
+        `Total borrowed: ${formatEther(totalBorrowed)} dDAI`,
+        `Total reserves: ${formatEther(totalReserves)} dDAI`,
+        `Available liquidity: ${formatEther(available)} dDAI`,
+        `Excess liquidity: ${formatEther(excess)} dDAI`,
+        `Utilization: ${formatUnits(utilization, 2)}%`,
+        `Borrow APR: ${formatEther(borrowRate * SECONDS_PER_YEAR * 100n)}%`,
+        `Reserve factor: ${(reserveFactor * 100n) / precision}%`,
+        `Flash loan fee: ${formatUnits(flashLoanFee, 2)}%`,
+        `Treasury: ${treasury}`,
+        ...collaterals.map(
+          (collateral) =>
+            `Collateral ${collateral.symbol}: ${collateral.totalDeposits} / ${collateral.depositCap} deposited, ratio ${collateral.collateralizationRatio}%`
+        ),
+        `Paused: ${
+          ACTIONS.filter((action) => paused[action]).join(", ") || "none"
+        }`,
+      ]
+    );
+  });
+
+task("lending:history", "Show the indexed events of a user")
+  .addParam("user", "Address of the user")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async (args, hre) => {
+    const user = parseAddress(args.user, "user");
+    const { deployment, store } = await syncIndexer(hre, args);
+    const symbols = new Map(
+      deployment.collaterals.map((collateral) => [
+        collateral.address,
+        collateral.symbol,
+      ])
+    );
+
+    const history = store.getUserHistory(user).map((event) => ({
+      ...event,
+      symbol: event.asset ? symbols.get(event.asset) ?? event.asset : "dDAI",
+      date: new Date(event.timestamp * 1000).toISOString(),
+    }));
+    const interestPaid = store.getInterestPaid(user);
+    store.close();
+
+    output(args, { user, interestPaid: formatEther(interestPaid), history }, [
+      `=== HISTORY ${user} ===`,
+      ...history.map((event) => {
+        const details =
+          event.event === "LoanRepaid"
+            ? ` (+${formatEther(event.interest!)} dDAI interest)`
+            : event.event === "Liquidated"
+            ? ` dDAI repaid, ${formatEther(event.collateralSeized!)} ${
+                event.symbol
+              } seized by ${event.counterparty}`
+            : ` ${event.symbol}`;
+        return `${event.date} block ${event.blockNumber} ${
+          event.event
+        }: ${formatEther(event.amount)}${details}`;
+      }),
+      `Interest paid: ${formatEther(interestPaid)} dDAI`,
+    ]);
+  });
+
+task("lending:tvl", "Show the value locked over time from indexed events")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async (args, hre) => {
+    const { deployment, store } = await syncIndexer(hre, args);
+    const symbols = new Map(
+      deployment.collaterals.map((collateral) => [
+        collateral.address,
+        collateral.symbol,
+      ])
+    );
+
+    const points = store.getTvlHistory().map((point) => ({
+      blockNumber: point.blockNumber,
+      date: new Date(point.timestamp * 1000).toISOString(),
+      supplied: formatEther(point.supplied),
+      collateral: Object.fromEntries(
+        Object.entries(point.collateral).map(([asset, amount]) => [
+          symbols.get(asset) ?? asset,
+          formatEther(amount),
+        ])
+      ),
+    }));
+    const interestPaid = store.getInterestPaid();
+    store.close();
+
+    output(args, { interestPaid: formatEther(interestPaid), points }, [
+      "=== VALUE LOCKED (net deposits) ===",
+      ...points.map(
+        (point) =>
+          `${point.date} block ${point.blockNumber}: ${
+            point.supplied
+          } dDAI supplied${Object.entries(point.collateral)
+            .map(([symbol, amount]) => `, ${amount} ${symbol}`)
+            .join("")}`
+      ),
+      `Interest paid on loans: ${formatEther(interestPaid)} dDAI`,
+    ]);
+  });
@@ -0,0 +1,316 @@
+import { expect } from "chai";
+import { ethers, ignition, network } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import LendingProtocolModule, {
+  deployConfig,
+} from "../ignition/modules/LendingProtocol";
+import { LENDING_EVENTS, LendingIndexer } from "../indexer/indexer";
+import { IndexerStore } from "../indexer/store";
+
+describe("Lending Indexer", function () {
+  async function deployIndexedProtocolFixture() {
+    const [owner, user1, user2] = await ethers.getSigners();
+    const contracts = await ignition.deploy(LendingProtocolModule);
+
+    const lendingProtocol = await ethers.getContractAt(
+      "LendingProtocol",
+      await contracts.lendingProtocol.getAddress()
+    );
+    const loanToken = await ethers.getContractAt(
+      "LoanToken",
+      await contracts.loanToken.getAddress()
+    );
+    const [collateralAsset] = await lendingProtocol.getCollateralAssets();
+    const collateralToken = await ethers.getContractAt(
+      "CollateralToken",
+      collateralAsset
+    );
+
+    for (const user of [user1, user2]) {
+      await collateralToken.mint(user.address, ethers.parseEther("1000"));
+      await collateralToken
+        .connect(user)
+        .approve(await lendingProtocol.getAddress(), ethers.MaxUint256);
+      await loanToken.mint(user.address, ethers.parseEther("1000"));
+      await loanToken
+        .connect(user)
+        .approve(await lendingProtocol.getAddress(), ethers.MaxUint256);
+    }
+
+    return {
+      lendingProtocol,
+      loanToken,
+      collateralToken,
+      owner,
+      user1,
+      user2,
+    };
+  }
+
+  function createIndexer(
+    lendingProtocolAddress: string,
+    confirmations = 0,
+    store = new IndexerStore(":memory:")
+  ) {
+    const indexer = new LendingIndexer(ethers.provider, store, {
+      address: lendingProtocolAddress,
+      confirmations,
+      batchSize: 5, // Several requests even for a short history
+      log: () => {},
+    });
+    return { indexer, store };
+  }
+
+  it("Should cover the events declared by LendingProtocol", async function () {
+    const artifact = await ethers.getContractFactory("LendingProtocol");
+    LENDING_EVENTS.forEachEvent((event) => {
+      expect(
+        artifact.interface.getEvent(event.name)?.topicHash,
+        event.name
+      ).to.equal(event.topicHash);
+    });
+  });
+
+  it("Should backfill the history of a user", async function () {
+    const { lendingProtocol, collateralToken, user1, user2 } =
+      await loadFixture(deployIndexedProtocolFixture);
+    const asset = await collateralToken.getAddress();
+
+    await lendingProtocol
+      .connect(user1)
+      .depositCollateral(asset, ethers.parseEther("150"));
+    await lendingProtocol.connect(user1).borrow(ethers.parseEther("50"));
+    await lendingProtocol
+      .connect(user2)
+      .depositCollateral(asset, ethers.parseEther("300"));
+    await lendingProtocol.connect(user1).repay(ethers.parseEther("50"));
+    await lendingProtocol
+      .connect(user1)
+      .withdrawCollateral(asset, ethers.parseEther("100"));
+
+    const { indexer, store } = createIndexer(
+      await lendingProtocol.getAddress()
+    );
+    await indexer.sync();
+
+    const history = store.getUserHistory(user1.address);
+    expect(history.map((event) => event.event)).to.deep.equal([
+      "CollateralDeposited",
+      "LoanBorrowed",
+      "LoanRepaid",
+      "CollateralWithdrawn",
+    ]);
+    expect(history[0].asset).to.equal(asset);
+    expect(history[0].amount).to.equal(ethers.parseEther("150"));
+    expect(history[1].amount).to.equal(ethers.parseEther("50"));
+    expect(history[3].amount).to.equal(ethers.parseEther("100"));
+    expect(store.getUserHistory(user2.address)).to.have.length(1);
+  });
+
+  it("Should only index blocks with enough confirmations", async function () {
+    const { lendingProtocol, collateralToken, user1 } = await loadFixture(
+      deployIndexedProtocolFixture
+    );
+
+    await lendingProtocol
+      .connect(user1)
+      .depositCollateral(
+        await collateralToken.getAddress(),
+        ethers.parseEther("150")
+      );
+
+    const { indexer, store } = createIndexer(
+      await lendingProtocol.getAddress(),
+      2
+    );
+    await indexer.sync();
+    expect(store.getUserHistory(user1.address)).to.have.length(0);
+
+    await network.provider.send("hardhat_mine", ["0x2"]);
+    expect(await indexer.sync()).to.equal(1);
+    expect(store.getUserHistory(user1.address)).to.have.length(1);
+  });
+
+  it("Should resume from the last indexed block without duplicates", async function () {
+    const { lendingProtocol, collateralToken, user1 } = await loadFixture(
+      deployIndexedProtocolFixture
+    );
+    const asset = await collateralToken.getAddress();
+    const { indexer, store } = createIndexer(
+      await lendingProtocol.getAddress()
+    );
+
+    await lendingProtocol
+      .connect(user1)
+      .depositCollateral(asset, ethers.parseEther("150"));
+    await indexer.sync();
+    await lendingProtocol.connect(user1).borrow(ethers.parseEther("50"));
+
+    expect(await indexer.sync()).to.equal(1);
+    expect(await indexer.sync()).to.equal(0);
+    expect(store.getUserHistory(user1.address)).to.have.length(2);
+  });
+
+  it("Should track value locked over time", async function () {
+    const { lendingProtocol, collateralToken, user1, user2 } =
+      await loadFixture(deployIndexedProtocolFixture);
+    const asset = await collateralToken.getAddress();
+
+    await lendingProtocol.connect(user2).supply(ethers.parseEther("500"));
+    await lendingProtocol
+      .connect(user1)
+      .depositCollateral(asset, ethers.parseEther("150"));
+    await lendingProtocol
+      .connect(user1)
+      .withdrawCollateral(asset, ethers.parseEther("50"));
+
+    const { indexer, store } = createIndexer(
+      await lendingProtocol.getAddress()
+    );
+    await indexer.sync();
+
+    const funded = ethers.parseEther(deployConfig.fundAmount);
+    const points = store.getTvlHistory();
+    expect(
+      points.map((point) => [point.supplied, point.collateral[asset] ?? 0n])
+    ).to.deep.equal([
+      [funded, 0n],
+      [funded + ethers.parseEther("500"), 0n],
+      [funded + ethers.parseEther("500"), ethers.parseEther("150")],
+      [funded + ethers.parseEther("500"), ethers.parseEther("100")],
+    ]);
+    expect(points[3].timestamp).to.equal(await time.latest());
+  });
+
+  it("Should sum the interest paid on repayments", async function () {
+    const { lendingProtocol, collateralToken, user1, user2 } =
+      await loadFixture(deployIndexedProtocolFixture);
+    const asset = await collateralToken.getAddress();
+
+    for (const user of [user1, user2]) {
+      await lendingProtocol
+        .connect(user)
+        .depositCollateral(asset, ethers.parseEther("300"));
+      await lendingProtocol.connect(user).borrow(ethers.parseEther("100"));
+    }
+    await time.increase(30 * 24 * 60 * 60);
+    await lendingProtocol.connect(user1).repay(ethers.parseEther("150"));
+    await lendingProtocol.connect(user2).repay(ethers.parseEther("150"));
+
+    const { indexer, store } = createIndexer(
+      await lendingProtocol.getAddress()
+    );
+    await indexer.sync();
+
+    const repayments = [user1, user2].map(
+      (user) =>
+        store
+          .getUserHistory(user.address)
+          .find((event) => event.event === "LoanRepaid")!
+    );
+    expect(repayments[0].amount).to.equal(ethers.parseEther("100"));
+    expect(repayments[0].interest).to.be.gt(0n);
+    expect(store.getInterestPaid(user1.address)).to.equal(
+      repayments[0].interest
+    );
+    expect(store.getInterestPaid()).to.equal(
+      repayments[0].interest! + repayments[1].interest!
+    );
+  });
+
+  it("Should add the interest repaid by liquidators", async function () {
+    const { lendingProtocol, loanToken, collateralToken, user1, user2 } =
+      await loadFixture(deployIndexedProtocolFixture);
+    const asset = await collateralToken.getAddress();
+
+    await lendingProtocol
+      .connect(user1)
+      .depositCollateral(asset, ethers.parseEther("300"));
+    await lendingProtocol.connect(user1).borrow(ethers.parseEther("100"));
+    await time.increase(30 * 24 * 60 * 60);
+
+    // Fresh prices, with cUSD at 0.5 USD capacity drops to 100 dDAI, below the debt
+    const priceOracle = await ethers.getContractAt(
+      "MockPriceOracle",
+      await lendingProtocol.priceOracle()
+    );
+    await priceOracle.setPrice(
+      await loanToken.getAddress(),
+      ethers.parseEther("1")
+    );
+    await priceOracle.setPrice(asset, ethers.parseEther("0.5"));
+    await lendingProtocol
+      .connect(user2)
+      .liquidate(user1.address, asset, ethers.parseEther("40"));
+
+    const { indexer, store } = createIndexer(
+      await lendingProtocol.getAddress()
+    );
+    await indexer.sync();
+
+    const liquidation = store
+      .getUserHistory(user1.address)
+      .find((event) => event.event === "Liquidated")!;
+    expect(liquidation.counterparty).to.equal(user2.address);
+    expect(liquidation.amount).to.equal(ethers.parseEther("40"));
+    expect(liquidation.interest).to.be.gt(0n);
+    expect(liquidation.interest).to.be.lt(liquidation.amount);
+
+    // Counted for the borrower whose debt it paid, not for the liquidator
+    expect(store.getInterestPaid(user1.address)).to.equal(liquidation.interest);
+    expect(store.getInterestPaid(user2.address)).to.equal(0n);
+    expect(store.getInterestPaid()).to.equal(liquidation.interest);
+  });
+
+  it("Should roll back events from blocks replaced by a reorg", async function () {
+    const { lendingProtocol, collateralToken, user1, user2 } =
+      await loadFixture(deployIndexedProtocolFixture);
+    const asset = await collateralToken.getAddress();
+    const { indexer, store } = createIndexer(
+      await lendingProtocol.getAddress()
+    );
+
+    await lendingProtocol
+      .connect(user1)
+      .depositCollateral(asset, ethers.parseEther("150"));
+    await indexer.sync();
+
+    // Replace the next blocks with a different branch of the same height
+    const snapshot = await network.provider.send("evm_snapshot");
+    await lendingProtocol
+      .connect(user1)
+      .depositCollateral(asset, ethers.parseEther("50"));
+    await lendingProtocol.connect(user1).borrow(ethers.parseEther("10"));
+    await indexer.sync();
+    expect(store.getUserHistory(user1.address)).to.have.length(3);
+
+    await network.provider.send("evm_revert", [snapshot]);
+    await lendingProtocol
+      .connect(user2)
+      .depositCollateral(asset, ethers.parseEther("75"));
+    await network.provider.send("hardhat_mine", ["0x1"]);
+    await indexer.sync();
+
+    expect(store.getUserHistory(user1.address)).to.have.length(1);
+    const [replaced] = store.getUserHistory(user2.address);
+    expect(replaced.amount).to.equal(ethers.parseEther("75"));
+    expect(replaced.blockHash).to.equal(
+      (await ethers.provider.getBlock(replaced.blockNumber))!.hash
+    );
+  });
+
+  it("Should refuse a store holding another contract", async function () {
+    const { lendingProtocol, loanToken } = await loadFixture(
+      deployIndexedProtocolFixture
+    );
+    const { indexer, store } = createIndexer(
+      await lendingProtocol.getAddress()
+    );
+    await indexer.sync();
+
+    const other = createIndexer(await loanToken.getAddress(), 0, store);
+    await expect(other.indexer.sync()).to.be.rejectedWith(
+      "Use another database file"
+    );
+  });
+});
@@ -7,6 +7,53 @@ import {
   LendingProtocol,
 } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  LENDING_ERRORS,
+  LENDING_MESSAGES,
+  decodeLendingError,
+} from "../src/utils/errors";
+import { repayAllAllowance } from "../src/utils/repay";
+
+const WEEK = 7 * 24 * 60 * 60;
+const YEAR = 365 * 24 * 60 * 60;
+const INDEX_PRECISION = ethers.parseEther("1");
+
+// The fixture's rate model charges a flat 10% per year
+const BASE_RATE_PER_YEAR = ethers.parseEther("0.1");
+const RATE_PER_SECOND = BASE_RATE_PER_YEAR / BigInt(YEAR);
+
+// Same fixed point exponentiation as LendingProtocol._rpow
+function rpow(x: bigint, n: bigint): bigint {
+  let z = n % 2n !== 0n ? x : INDEX_PRECISION;
+
+  for (n /= 2n; n !== 0n; n /= 2n) {
+    x = (x * x) / INDEX_PRECISION;
+
+    if (n % 2n !== 0n) {
+      z = (z * x) / INDEX_PRECISION;
+    }
+  }
+
+  return z;
+}
+
+// Debt owed after compounding the fixture's rate for a number of seconds
+function compound(amount: bigint, seconds: number): bigint {
+  return (
+    (amount * rpow(INDEX_PRECISION + RATE_PER_SECOND, BigInt(seconds))) /
+    INDEX_PRECISION
+  );
+}
+
+// Position in the first listed collateral asset (cUSD) with its debt
+async function getUserData(lendingProtocol: LendingProtocol, user: string) {
+  const snapshot = await lendingProtocol.getAccountSnapshot(user);
+  return {
+    collateral: snapshot.collaterals[0].amount,
+    debt: snapshot.debt,
+    interest: snapshot.interest,
+  };
+}
 
 describe("LendingProtocol", function () {
   async function deployLendingProtocolFixture() {
@@ -19,13 +66,50 @@ describe("LendingProtocol", function () {
     const LoanToken = await ethers.getContractFactory("LoanToken");
     const loanToken = await LoanToken.deploy(owner.address);
 
+    // Deploy oracle with 1 cUSD == 1 dDAI == 1 USD
+    const MockPriceOracle = await ethers.getContractFactory("MockPriceOracle");
+    const priceOracle = await MockPriceOracle.deploy(owner.address);
+    await priceOracle.setPrice(
+      await collateralToken.getAddress(),
+      ethers.parseEther("1")
+    );
+    await priceOracle.setPrice(
+      await loanToken.getAddress(),
+      ethers.parseEther("1")
+    );
+
+    // Deploy a rate model without utilization dependence to keep math simple
+    const KinkInterestRateModel = await ethers.getContractFactory(
+      "KinkInterestRateModel"
+    );
+    const interestRateModel = await KinkInterestRateModel.deploy(
+      BASE_RATE_PER_YEAR,
+      0,
+      0,
+      ethers.parseEther("0.8")
+    );
+
     // Deploy protocol
     const LendingProtocol = await ethers.getContractFactory("LendingProtocol");
     const lendingProtocol = await LendingProtocol.deploy(
-      await collateralToken.getAddress(),
       await loanToken.getAddress(),
+      await priceOracle.getAddress(),
+      await interestRateModel.getAddress(),
       owner.address
     );
+    const shareToken = await ethers.getContractAt(
+      "ShareToken",
+      await lendingProtocol.shareToken()
+    );
+
+    // List cUSD as collateral at 150% collateralization
+    const depositCap = ethers.parseEther("1000000");
+    await lendingProtocol.setCollateralConfig(
+      await collateralToken.getAddress(),
+      await priceOracle.getAddress(),
+      150,
+      depositCap
+    );
 
     // Fund protocol with loan tokens
     const fundAmount = ethers.parseEther("100000");
@@ -39,27 +123,62 @@ describe("LendingProtocol", function () {
     await loanToken.transfer(user1.address, userAmount);
     await loanToken.transfer(user2.address, userAmount);
 
+    // Advance time and re-post the current oracle prices so they do not go stale
+    const increaseTime = async (seconds: number) => {
+      await time.increase(seconds);
+      for (const token of [collateralToken, loanToken]) {
+        const tokenAddress = await token.getAddress();
+        const [price] = await priceOracle.getPrice(tokenAddress);
+        await priceOracle.setPrice(tokenAddress, price);
+      }
+    };
+
     return {
       collateralToken,
       loanToken,
       lendingProtocol,
+      shareToken,
+      priceOracle,
+      interestRateModel,
+      increaseTime,
       owner,
       user1,
       user2,
       fundAmount,
       userAmount,
+      depositCap,
     };
   }
 
+  // Same setup with a zero rate model, for tests that need exact debt values
+  async function deployWithoutInterestFixture() {
+    const fixture = await deployLendingProtocolFixture();
+
+    const KinkInterestRateModel = await ethers.getContractFactory(
+      "KinkInterestRateModel"
+    );
+    const zeroRateModel = await KinkInterestRateModel.deploy(
+      0,
+      0,
+      0,
+      ethers.parseEther("0.8")
+    );
+    await fixture.lendingProtocol.setInterestRateModel(
+      await zeroRateModel.getAddress()
+    );
+
+    return fixture;
+  }
+
   describe("Deployment", function () {
     it("Should set the correct token addresses", async function () {
       const { collateralToken, loanToken, lendingProtocol } = await loadFixture(
         deployLendingProtocolFixture
       );
 
-      expect(await lendingProtocol.collateralToken()).to.equal(
-        await collateralToken.getAddress()
-      );
+      expect(await lendingProtocol.getCollateralAssets()).to.deep.equal([
+        await collateralToken.getAddress(),
+      ]);
       expect(await lendingProtocol.loanToken()).to.equal(
         await loanToken.getAddress()
       );
@@ -70,10 +189,21 @@ describe("LendingProtocol", function () {
         deployLendingProtocolFixture
       );
 
-      expect(await lendingProtocol.COLLATERALIZATION_RATIO()).to.equal(150);
-      expect(await lendingProtocol.INTEREST_RATE()).to.equal(5);
       expect(await lendingProtocol.PRECISION()).to.equal(100);
     });
+
+    it("Should set the interest rate model and initial index", async function () {
+      const { lendingProtocol, interestRateModel } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      expect(await lendingProtocol.interestRateModel()).to.equal(
+        await interestRateModel.getAddress()
+      );
+      expect(await lendingProtocol.borrowIndex()).to.equal(INDEX_PRECISION);
+      expect(await lendingProtocol.totalBorrows()).to.equal(0);
+      expect(await lendingProtocol.getBorrowRate()).to.equal(RATE_PER_SECOND);
+    });
   });
 
   describe("Deposit Collateral", function () {
@@ -88,33 +218,43 @@ describe("LendingProtocol", function () {
         .approve(await lendingProtocol.getAddress(), depositAmount);
 
       await expect(
-        lendingProtocol.connect(user1).depositCollateral(depositAmount)
+        lendingProtocol
+          .connect(user1)
+          .depositCollateral(await collateralToken.getAddress(), depositAmount)
       )
         .to.emit(lendingProtocol, "CollateralDeposited")
-        .withArgs(user1.address, depositAmount);
+        .withArgs(
+          user1.address,
+          await collateralToken.getAddress(),
+          depositAmount
+        );
 
-      const userData = await lendingProtocol.getUserData(user1.address);
+      const userData = await getUserData(lendingProtocol, user1.address);
       expect(userData.collateral).to.equal(depositAmount);
     });
 
     it("Should reject zero amount deposits", async function () {
-      const { lendingProtocol, user1 } = await loadFixture(
+      const { collateralToken, lendingProtocol, user1 } = await loadFixture(
         deployLendingProtocolFixture
       );
 
       await expect(
-        lendingProtocol.connect(user1).depositCollateral(0)
-      ).to.be.revertedWith("Amount must be greater than 0");
+        lendingProtocol
+          .connect(user1)
+          .depositCollateral(await collateralToken.getAddress(), 0)
+      ).to.be.revertedWithCustomError(lendingProtocol, "ZeroAmount");
     });
 
     it("Should reject deposits without approval", async function () {
-      const { lendingProtocol, user1 } = await loadFixture(
+      const { collateralToken, lendingProtocol, user1 } = await loadFixture(
         deployLendingProtocolFixture
       );
 
       const depositAmount = ethers.parseEther("1000");
       await expect(
-        lendingProtocol.connect(user1).depositCollateral(depositAmount)
+        lendingProtocol
+          .connect(user1)
+          .depositCollateral(await collateralToken.getAddress(), depositAmount)
       ).to.be.reverted;
     });
 
@@ -133,10 +273,14 @@ describe("LendingProtocol", function () {
           firstDeposit + secondDeposit
         );
 
-      await lendingProtocol.connect(user1).depositCollateral(firstDeposit);
-      await lendingProtocol.connect(user1).depositCollateral(secondDeposit);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), firstDeposit);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), secondDeposit);
 
-      const userData = await lendingProtocol.getUserData(user1.address);
+      const userData = await getUserData(lendingProtocol, user1.address);
       expect(userData.collateral).to.equal(firstDeposit + secondDeposit);
     });
   });
@@ -153,13 +297,15 @@ describe("LendingProtocol", function () {
       await collateralToken
         .connect(user1)
         .approve(await lendingProtocol.getAddress(), depositAmount);
-      await lendingProtocol.connect(user1).depositCollateral(depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
 
       await expect(lendingProtocol.connect(user1).borrow(borrowAmount))
         .to.emit(lendingProtocol, "LoanBorrowed")
         .withArgs(user1.address, borrowAmount);
 
-      const userData = await lendingProtocol.getUserData(user1.address);
+      const userData = await getUserData(lendingProtocol, user1.address);
       expect(userData.debt).to.equal(borrowAmount);
     });
 
@@ -170,7 +316,7 @@ describe("LendingProtocol", function () {
 
       await expect(
         lendingProtocol.connect(user1).borrow(ethers.parseEther("100"))
-      ).to.be.revertedWith("No collateral deposited");
+      ).to.be.revertedWithCustomError(lendingProtocol, "NoCollateralDeposited");
     });
 
     it("Should reject borrowing zero amount", async function () {
@@ -183,11 +329,14 @@ describe("LendingProtocol", function () {
         .approve(await lendingProtocol.getAddress(), ethers.parseEther("1000"));
       await lendingProtocol
         .connect(user1)
-        .depositCollateral(ethers.parseEther("1000"));
+        .depositCollateral(
+          await collateralToken.getAddress(),
+          ethers.parseEther("1000")
+        );
 
-      await expect(lendingProtocol.connect(user1).borrow(0)).to.be.revertedWith(
-        "Amount must be greater than 0"
-      );
+      await expect(
+        lendingProtocol.connect(user1).borrow(0)
+      ).to.be.revertedWithCustomError(lendingProtocol, "ZeroAmount");
     });
 
     it("Should reject over-borrowing", async function () {
@@ -201,11 +350,14 @@ describe("LendingProtocol", function () {
       await collateralToken
         .connect(user1)
         .approve(await lendingProtocol.getAddress(), depositAmount);
-      await lendingProtocol.connect(user1).depositCollateral(depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
 
-      await expect(
-        lendingProtocol.connect(user1).borrow(overBorrowAmount)
-      ).to.be.revertedWith("Exceeds borrowing capacity");
+      // Debt and capacity are reported as USD values
+      await expect(lendingProtocol.connect(user1).borrow(overBorrowAmount))
+        .to.be.revertedWithCustomError(lendingProtocol, "ExceedsBorrowCapacity")
+        .withArgs(overBorrowAmount, (depositAmount * 100n) / 150n);
     });
 
     it("Should calculate maximum borrowable amount correctly", async function () {
@@ -219,7 +371,9 @@ describe("LendingProtocol", function () {
       await collateralToken
         .connect(user1)
         .approve(await lendingProtocol.getAddress(), depositAmount);
-      await lendingProtocol.connect(user1).depositCollateral(depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
 
       await expect(lendingProtocol.connect(user1).borrow(maxBorrowAmount)).to
         .not.be.reverted;
@@ -227,10 +381,9 @@ describe("LendingProtocol", function () {
   });
 
   describe("Interest Calculation", function () {
-    it("Should calculate interest correctly after time passes", async function () {
-      const { collateralToken, lendingProtocol, user1 } = await loadFixture(
-        deployLendingProtocolFixture
-      );
+    async function borrowFixture() {
+      const fixture = await deployLendingProtocolFixture();
+      const { collateralToken, loanToken, lendingProtocol, user1 } = fixture;
 
       const depositAmount = ethers.parseEther("1500");
       const borrowAmount = ethers.parseEther("1000");
@@ -238,58 +391,251 @@ describe("LendingProtocol", function () {
       await collateralToken
         .connect(user1)
         .approve(await lendingProtocol.getAddress(), depositAmount);
-      await lendingProtocol.connect(user1).depositCollateral(depositAmount);
+      await loanToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), ethers.MaxUint256);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
       await lendingProtocol.connect(user1).borrow(borrowAmount);
+      const borrowTime = await time.latest();
+
+      return { ...fixture, depositAmount, borrowAmount, borrowTime };
+    }
+
+    it("Should accrue interest every second", async function () {
+      const { lendingProtocol, user1, borrowAmount, borrowTime } =
+        await loadFixture(borrowFixture);
 
-      // Advance time by 1 week
-      await time.increase(7 * 24 * 60 * 60);
+      await time.increaseTo(borrowTime + 1);
 
-      const userData = await lendingProtocol.getUserData(user1.address);
-      const expectedInterest = (borrowAmount * 5n) / 100n; // 5% of 1000 = 50
-      expect(userData.interest).to.equal(expectedInterest);
+      const userData = await getUserData(lendingProtocol, user1.address);
+      expect(userData.debt).to.equal(borrowAmount);
+      expect(userData.interest).to.be.greaterThan(0);
+      expect(userData.interest).to.equal(
+        compound(borrowAmount, 1) - borrowAmount
+      );
     });
 
-    it("Should accumulate interest over multiple weeks", async function () {
-      const { collateralToken, lendingProtocol, user1 } = await loadFixture(
+    it("Should compound interest over a year", async function () {
+      const { lendingProtocol, user1, borrowAmount, borrowTime } =
+        await loadFixture(borrowFixture);
+
+      await time.increaseTo(borrowTime + YEAR);
+
+      const userData = await getUserData(lendingProtocol, user1.address);
+      expect(userData.interest).to.equal(
+        compound(borrowAmount, YEAR) - borrowAmount
+      );
+
+      // Continuous 10% is worth about 10.517%, more than simple interest
+      expect(userData.interest).to.be.greaterThan(ethers.parseEther("100"));
+      expect(userData.interest).to.be.closeTo(
+        ethers.parseEther("105.17"),
+        ethers.parseEther("0.01")
+      );
+    });
+
+    it("Should not accrue interest without borrows", async function () {
+      const { lendingProtocol } = await loadFixture(
         deployLendingProtocolFixture
       );
 
-      const depositAmount = ethers.parseEther("1500");
-      const borrowAmount = ethers.parseEther("1000");
+      await time.increase(YEAR);
+      await lendingProtocol.accrueInterest();
+
+      expect(await lendingProtocol.borrowIndex()).to.equal(INDEX_PRECISION);
+      expect(await lendingProtocol.totalBorrows()).to.equal(0);
+    });
+
+    it("Should update the borrow index and total borrows on accrual", async function () {
+      const { lendingProtocol, borrowAmount, borrowTime } = await loadFixture(
+        borrowFixture
+      );
+
+      const expectedIndex = rpow(
+        INDEX_PRECISION + RATE_PER_SECOND,
+        BigInt(WEEK)
+      );
+      const expectedBorrows = compound(borrowAmount, WEEK);
+
+      await time.setNextBlockTimestamp(borrowTime + WEEK);
+      await expect(lendingProtocol.accrueInterest())
+        .to.emit(lendingProtocol, "InterestAccrued")
+        .withArgs(expectedIndex, expectedBorrows);
+
+      expect(await lendingProtocol.borrowIndex()).to.equal(expectedIndex);
+      expect(await lendingProtocol.totalBorrows()).to.equal(expectedBorrows);
+      expect(await lendingProtocol.lastAccrualTimestamp()).to.equal(
+        borrowTime + WEEK
+      );
+    });
+
+    it("Should return the accrued balance from borrowBalanceCurrent", async function () {
+      const { lendingProtocol, user1, borrowAmount, borrowTime } =
+        await loadFixture(borrowFixture);
+
+      await time.increaseTo(borrowTime + WEEK);
+
+      // The view and the accruing call agree at the same timestamp
+      const userData = await getUserData(lendingProtocol, user1.address);
+      expect(
+        await lendingProtocol.borrowBalanceCurrent.staticCall(user1.address)
+      ).to.equal(userData.debt + userData.interest);
+
+      await time.setNextBlockTimestamp(borrowTime + 2 * WEEK);
+      await lendingProtocol.borrowBalanceCurrent(user1.address);
+
+      const position = await lendingProtocol.userPositions(user1.address);
+      expect(position.loanAmount + position.accumulatedInterest).to.equal(
+        compound(borrowAmount, 2 * WEEK)
+      );
+      expect(position.interestIndex).to.equal(
+        await lendingProtocol.borrowIndex()
+      );
+    });
+
+    it("Should accrue interest for every borrower at the same rate", async function () {
+      const { collateralToken, lendingProtocol, user1, user2, borrowTime } =
+        await loadFixture(borrowFixture);
 
+      const depositAmount = ethers.parseEther("1500");
+      const borrowAmount = ethers.parseEther("500");
       await collateralToken
-        .connect(user1)
+        .connect(user2)
         .approve(await lendingProtocol.getAddress(), depositAmount);
-      await lendingProtocol.connect(user1).depositCollateral(depositAmount);
-      await lendingProtocol.connect(user1).borrow(borrowAmount);
+      await lendingProtocol
+        .connect(user2)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+      await lendingProtocol.connect(user2).borrow(borrowAmount);
+      const secondBorrowTime = await time.latest();
+
+      await time.increaseTo(secondBorrowTime + WEEK);
+
+      const user1Data = await getUserData(lendingProtocol, user1.address);
+      const user2Data = await getUserData(lendingProtocol, user2.address);
 
-      // Advance time by 2 weeks
-      await time.increase(14 * 24 * 60 * 60);
+      // user1 has paid interest for longer
+      expect(user1Data.interest).to.be.greaterThan(user2Data.interest * 2n);
+      expect(user2Data.interest).to.be.closeTo(
+        compound(borrowAmount, WEEK) - borrowAmount,
+        1000n
+      );
+      expect(user1Data.interest).to.be.closeTo(
+        compound(
+          ethers.parseEther("1000"),
+          secondBorrowTime + WEEK - borrowTime
+        ) - ethers.parseEther("1000"),
+        1000n
+      );
+    });
 
-      const userData = await lendingProtocol.getUserData(user1.address);
-      const expectedInterest = (borrowAmount * 10n) / 100n; // 5% * 2 weeks = 10%
-      expect(userData.interest).to.equal(expectedInterest);
+    it("Should keep total borrows in line with user debts", async function () {
+      const {
+        collateralToken,
+        loanToken,
+        lendingProtocol,
+        increaseTime,
+        user1,
+        user2,
+      } = await loadFixture(borrowFixture);
+
+      const users = [user1, user2];
+      const depositAmount = ethers.parseEther("3500");
+      for (const user of users) {
+        await collateralToken
+          .connect(user)
+          .approve(await lendingProtocol.getAddress(), depositAmount);
+        await lendingProtocol
+          .connect(user)
+          .depositCollateral(await collateralToken.getAddress(), depositAmount);
+        await loanToken
+          .connect(user)
+          .approve(await lendingProtocol.getAddress(), ethers.MaxUint256);
+      }
+
+      // Deterministic pseudo-random sequence of borrows, repayments and time jumps
+      let seed = 42n;
+      const random = (max: bigint) => {
+        seed = (seed * 6364136223846793005n + 1442695040888963407n) % 2n ** 64n;
+        return (seed >> 33n) % max;
+      };
+
+      for (let step = 0; step < 30; step++) {
+        const user = users[Number(random(2n))];
+        const action = random(3n);
+
+        if (action === 0n) {
+          const amount = ethers.parseEther("1") * (random(100n) + 1n);
+          await lendingProtocol.connect(user).borrow(amount);
+        } else if (action === 1n) {
+          const { debt } = await getUserData(lendingProtocol, user.address);
+          if (debt > 0) {
+            const amount = ethers.parseEther("1") * (random(200n) + 1n);
+            await lendingProtocol.connect(user).repay(amount);
+          }
+        } else {
+          await increaseTime(Number(random(10n * 24n * 60n * 60n)) + 1);
+        }
+
+        await lendingProtocol.accrueInterest();
+
+        let sumOfDebts = 0n;
+        for (const borrower of users) {
+          const userData = await getUserData(lendingProtocol, borrower.address);
+          const currentDebt = userData.debt + userData.interest;
+
+          expect(
+            await lendingProtocol.borrowBalanceCurrent.staticCall(
+              borrower.address
+            )
+          ).to.equal(currentDebt);
+          sumOfDebts += currentDebt;
+        }
+
+        // Only rounding separates the global total from the per-user debts
+        expect(await lendingProtocol.totalBorrows()).to.be.closeTo(
+          sumOfDebts,
+          100n
+        );
+      }
     });
 
-    it("Should not calculate interest for partial weeks", async function () {
-      const { collateralToken, lendingProtocol, user1 } = await loadFixture(
-        deployLendingProtocolFixture
+    it("Should raise the borrow rate with utilization", async function () {
+      const { collateralToken, lendingProtocol, owner, user1 } =
+        await loadFixture(deployLendingProtocolFixture);
+
+      // 2% base, 20% up to 80% utilization, 300% above it
+      const KinkInterestRateModel = await ethers.getContractFactory(
+        "KinkInterestRateModel"
+      );
+      const kinkModel = await KinkInterestRateModel.deploy(
+        ethers.parseEther("0.02"),
+        ethers.parseEther("0.2"),
+        ethers.parseEther("3"),
+        ethers.parseEther("0.8")
       );
+      await lendingProtocol
+        .connect(owner)
+        .setInterestRateModel(await kinkModel.getAddress());
 
-      const depositAmount = ethers.parseEther("1500");
-      const borrowAmount = ethers.parseEther("1000");
+      const idleRate = await lendingProtocol.getBorrowRate();
+      expect(idleRate).to.equal(await kinkModel.baseRatePerSecond());
 
+      const depositAmount = ethers.parseEther("9000");
       await collateralToken
         .connect(user1)
         .approve(await lendingProtocol.getAddress(), depositAmount);
-      await lendingProtocol.connect(user1).depositCollateral(depositAmount);
-      await lendingProtocol.connect(user1).borrow(borrowAmount);
-
-      // Advance time by 3 days (less than a week)
-      await time.increase(3 * 24 * 60 * 60);
-
-      const userData = await lendingProtocol.getUserData(user1.address);
-      expect(userData.interest).to.equal(0);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+      await lendingProtocol.connect(user1).borrow(ethers.parseEther("6000"));
+
+      const cash = ethers.parseEther("94000");
+      const borrows = ethers.parseEther("6000");
+      const busyRate = await lendingProtocol.getBorrowRate();
+      expect(busyRate).to.equal(await kinkModel.getBorrowRate(cash, borrows));
+      expect(busyRate).to.be.greaterThan(idleRate);
     });
   });
 
@@ -304,24 +650,25 @@ describe("LendingProtocol", function () {
       await collateralToken
         .connect(user1)
         .approve(await lendingProtocol.getAddress(), depositAmount);
-      await lendingProtocol.connect(user1).depositCollateral(depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
       await lendingProtocol.connect(user1).borrow(borrowAmount);
+      const borrowTime = await time.latest();
 
-      // Advance time by 1 week
-      await time.increase(7 * 24 * 60 * 60);
-
-      const userData = await lendingProtocol.getUserData(user1.address);
-      const totalDebt = userData.debt + userData.interest;
+      // Repay one week later
+      const totalDebt = compound(borrowAmount, WEEK);
 
       await loanToken
         .connect(user1)
         .approve(await lendingProtocol.getAddress(), totalDebt);
 
-      await expect(lendingProtocol.connect(user1).repay())
+      await time.setNextBlockTimestamp(borrowTime + WEEK);
+      await expect(lendingProtocol.connect(user1).repay(totalDebt))
         .to.emit(lendingProtocol, "LoanRepaid")
-        .withArgs(user1.address, borrowAmount, userData.interest);
+        .withArgs(user1.address, borrowAmount, totalDebt - borrowAmount);
 
-      const newUserData = await lendingProtocol.getUserData(user1.address);
+      const newUserData = await getUserData(lendingProtocol, user1.address);
       expect(newUserData.debt).to.equal(0);
       expect(newUserData.interest).to.equal(0);
     });
@@ -331,9 +678,9 @@ describe("LendingProtocol", function () {
         deployLendingProtocolFixture
       );
 
-      await expect(lendingProtocol.connect(user1).repay()).to.be.revertedWith(
-        "No active loan"
-      );
+      await expect(
+        lendingProtocol.connect(user1).repay(ethers.parseEther("100"))
+      ).to.be.revertedWithCustomError(lendingProtocol, "NoActiveLoan");
     });
 
     it("Should reject repayment without sufficient tokens", async function () {
@@ -347,11 +694,266 @@ describe("LendingProtocol", function () {
       await collateralToken
         .connect(user1)
         .approve(await lendingProtocol.getAddress(), depositAmount);
-      await lendingProtocol.connect(user1).depositCollateral(depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
       await lendingProtocol.connect(user1).borrow(borrowAmount);
 
       // Don't approve enough tokens for repayment
-      await expect(lendingProtocol.connect(user1).repay()).to.be.reverted;
+      await expect(lendingProtocol.connect(user1).repay(borrowAmount)).to.be
+        .reverted;
+    });
+    it("Should reject zero amount repayments", async function () {
+      const { collateralToken, lendingProtocol, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), ethers.parseEther("1500"));
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(
+          await collateralToken.getAddress(),
+          ethers.parseEther("1500")
+        );
+      await lendingProtocol.connect(user1).borrow(ethers.parseEther("1000"));
+
+      await expect(
+        lendingProtocol.connect(user1).repay(0)
+      ).to.be.revertedWithCustomError(lendingProtocol, "ZeroAmount");
+    });
+
+    describe("Partial Repayment", function () {
+      async function borrowFixture() {
+        const fixture = await deployLendingProtocolFixture();
+        const { collateralToken, loanToken, lendingProtocol, user1 } = fixture;
+
+        const depositAmount = ethers.parseEther("1500");
+        const borrowAmount = ethers.parseEther("1000");
+
+        await collateralToken
+          .connect(user1)
+          .approve(await lendingProtocol.getAddress(), depositAmount);
+        await loanToken
+          .connect(user1)
+          .approve(await lendingProtocol.getAddress(), ethers.MaxUint256);
+        await lendingProtocol
+          .connect(user1)
+          .depositCollateral(await collateralToken.getAddress(), depositAmount);
+        await lendingProtocol.connect(user1).borrow(borrowAmount);
+        const borrowTime = await time.latest();
+
+        // Interest owed when repaying one week after borrowing
+        const weeklyInterest = compound(borrowAmount, WEEK) - borrowAmount;
+
+        return {
+          ...fixture,
+          depositAmount,
+          borrowAmount,
+          borrowTime,
+          weeklyInterest,
+        };
+      }
+
+      it("Should apply a partial repayment to interest first", async function () {
+        const {
+          lendingProtocol,
+          user1,
+          borrowAmount,
+          borrowTime,
+          weeklyInterest,
+        } = await loadFixture(borrowFixture);
+
+        const repayAmount = ethers.parseEther("1");
+        expect(weeklyInterest).to.be.greaterThan(repayAmount);
+
+        await time.setNextBlockTimestamp(borrowTime + WEEK);
+        await expect(lendingProtocol.connect(user1).repay(repayAmount))
+          .to.emit(lendingProtocol, "LoanRepaid")
+          .withArgs(user1.address, 0, repayAmount);
+
+        const userData = await getUserData(lendingProtocol, user1.address);
+        expect(userData.debt).to.equal(borrowAmount);
+        expect(userData.interest).to.equal(weeklyInterest - repayAmount);
+      });
+
+      it("Should apply the rest of a repayment to principal", async function () {
+        const {
+          lendingProtocol,
+          user1,
+          borrowAmount,
+          borrowTime,
+          weeklyInterest,
+        } = await loadFixture(borrowFixture);
+
+        const repayAmount = ethers.parseEther("250");
+
+        await time.setNextBlockTimestamp(borrowTime + WEEK);
+        await expect(lendingProtocol.connect(user1).repay(repayAmount))
+          .to.emit(lendingProtocol, "LoanRepaid")
+          .withArgs(
+            user1.address,
+            repayAmount - weeklyInterest,
+            weeklyInterest
+          );
+
+        const userData = await getUserData(lendingProtocol, user1.address);
+        expect(userData.debt).to.equal(
+          borrowAmount - repayAmount + weeklyInterest
+        );
+        expect(userData.interest).to.equal(0);
+      });
+
+      it("Should repay exactly the accrued interest", async function () {
+        const {
+          lendingProtocol,
+          user1,
+          borrowAmount,
+          borrowTime,
+          weeklyInterest,
+        } = await loadFixture(borrowFixture);
+
+        await time.setNextBlockTimestamp(borrowTime + WEEK);
+        await lendingProtocol.connect(user1).repay(weeklyInterest);
+
+        const userData = await getUserData(lendingProtocol, user1.address);
+        expect(userData.debt).to.equal(borrowAmount);
+        expect(userData.interest).to.equal(0);
+      });
+
+      it("Should repay a single wei of interest", async function () {
+        const { lendingProtocol, user1, borrowAmount } = await loadFixture(
+          borrowFixture
+        );
+
+        // At least one second of interest has accrued by the next block
+        await expect(lendingProtocol.connect(user1).repay(1))
+          .to.emit(lendingProtocol, "LoanRepaid")
+          .withArgs(user1.address, 0, 1);
+
+        const userData = await getUserData(lendingProtocol, user1.address);
+        expect(userData.debt).to.equal(borrowAmount);
+      });
+
+      it("Should cap repayment at the current debt", async function () {
+        const {
+          loanToken,
+          lendingProtocol,
+          user1,
+          borrowAmount,
+          borrowTime,
+          weeklyInterest,
+        } = await loadFixture(borrowFixture);
+
+        const balanceBefore = await loanToken.balanceOf(user1.address);
+
+        await time.setNextBlockTimestamp(borrowTime + WEEK);
+        await expect(lendingProtocol.connect(user1).repay(ethers.MaxUint256))
+          .to.emit(lendingProtocol, "LoanRepaid")
+          .withArgs(user1.address, borrowAmount, weeklyInterest);
+
+        expect(await loanToken.balanceOf(user1.address)).to.equal(
+          balanceBefore - borrowAmount - weeklyInterest
+        );
+
+        const userData = await getUserData(lendingProtocol, user1.address);
+        expect(userData.debt).to.equal(0);
+        expect(userData.interest).to.equal(0);
+      });
+
+      it("Should revert a full repayment approved for a stale debt", async function () {
+        const { loanToken, lendingProtocol, user1, borrowTime } =
+          await loadFixture(borrowFixture);
+
+        await time.increaseTo(borrowTime + WEEK);
+        const userData = await getUserData(lendingProtocol, user1.address);
+        await loanToken
+          .connect(user1)
+          .approve(
+            await lendingProtocol.getAddress(),
+            userData.debt + userData.interest
+          );
+
+        // Interest accrues between reading the debt and mining the repayment
+        await time.increase(10 * 60);
+        await expect(
+          lendingProtocol.connect(user1).repay(ethers.MaxUint256)
+        ).to.be.revertedWithCustomError(
+          loanToken,
+          "ERC20InsufficientAllowance"
+        );
+      });
+
+      it("Should repay all once time passes within the approved buffer", async function () {
+        const { loanToken, lendingProtocol, user1, borrowTime } =
+          await loadFixture(borrowFixture);
+
+        await time.increaseTo(borrowTime + WEEK);
+        const userData = await getUserData(lendingProtocol, user1.address);
+        const allowance = repayAllAllowance(
+          userData.debt + userData.interest,
+          await lendingProtocol.getBorrowRate()
+        );
+        await loanToken
+          .connect(user1)
+          .approve(await lendingProtocol.getAddress(), allowance);
+
+        await time.increase(10 * 60);
+        await lendingProtocol.connect(user1).repay(ethers.MaxUint256);
+
+        const repaid = await getUserData(lendingProtocol, user1.address);
+        expect(repaid.debt).to.equal(0);
+        expect(repaid.interest).to.equal(0);
+        expect(
+          await loanToken.allowance(
+            user1.address,
+            await lendingProtocol.getAddress()
+          )
+        ).to.be.greaterThan(0);
+      });
+
+      it("Should keep accruing interest on the remaining debt", async function () {
+        const { lendingProtocol, user1, borrowTime } = await loadFixture(
+          borrowFixture
+        );
+
+        await time.setNextBlockTimestamp(borrowTime + WEEK);
+        await lendingProtocol.connect(user1).repay(ethers.parseEther("500"));
+
+        const remaining = await lendingProtocol.borrowBalanceCurrent.staticCall(
+          user1.address
+        );
+        await time.increaseTo(borrowTime + 2 * WEEK);
+
+        // Equal to compounding the remaining debt, up to index rounding
+        const userData = await getUserData(lendingProtocol, user1.address);
+        expect(userData.debt + userData.interest).to.be.closeTo(
+          compound(remaining, WEEK),
+          1000n
+        );
+      });
+
+      it("Should stop accruing interest once fully repaid", async function () {
+        const { lendingProtocol, user1 } = await loadFixture(borrowFixture);
+
+        await lendingProtocol.connect(user1).repay(ethers.MaxUint256);
+        await time.increase(YEAR);
+
+        const userData = await getUserData(lendingProtocol, user1.address);
+        expect(userData.debt).to.equal(0);
+        expect(userData.interest).to.equal(0);
+      });
+
+      it("Should reject repayment after the loan is fully repaid", async function () {
+        const { lendingProtocol, user1 } = await loadFixture(borrowFixture);
+
+        await lendingProtocol.connect(user1).repay(ethers.MaxUint256);
+
+        await expect(
+          lendingProtocol.connect(user1).repay(1)
+        ).to.be.revertedWithCustomError(lendingProtocol, "NoActiveLoan");
+      });
     });
   });
 
@@ -366,17 +968,27 @@ describe("LendingProtocol", function () {
       await collateralToken
         .connect(user1)
         .approve(await lendingProtocol.getAddress(), depositAmount);
-      await lendingProtocol.connect(user1).depositCollateral(depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
 
-      await expect(lendingProtocol.connect(user1).withdrawCollateral())
+      await expect(
+        lendingProtocol
+          .connect(user1)
+          .withdrawCollateral(await collateralToken.getAddress(), depositAmount)
+      )
         .to.emit(lendingProtocol, "CollateralWithdrawn")
-        .withArgs(user1.address, depositAmount);
+        .withArgs(
+          user1.address,
+          await collateralToken.getAddress(),
+          depositAmount
+        );
 
-      const userData = await lendingProtocol.getUserData(user1.address);
+      const userData = await getUserData(lendingProtocol, user1.address);
       expect(userData.collateral).to.equal(0);
     });
 
-    it("Should reject withdrawal with active debt", async function () {
+    it("Should reject full withdrawal with active debt", async function () {
       const { collateralToken, lendingProtocol, user1 } = await loadFixture(
         deployLendingProtocolFixture
       );
@@ -387,22 +999,37 @@ describe("LendingProtocol", function () {
       await collateralToken
         .connect(user1)
         .approve(await lendingProtocol.getAddress(), depositAmount);
-      await lendingProtocol.connect(user1).depositCollateral(depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
       await lendingProtocol.connect(user1).borrow(borrowAmount);
 
       await expect(
-        lendingProtocol.connect(user1).withdrawCollateral()
-      ).to.be.revertedWith("Cannot withdraw with active debt");
+        lendingProtocol
+          .connect(user1)
+          .withdrawCollateral(await collateralToken.getAddress(), depositAmount)
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "WithdrawalExceedsCollateralization"
+      );
     });
 
     it("Should reject withdrawal with no collateral", async function () {
-      const { lendingProtocol, user1 } = await loadFixture(
+      const { collateralToken, lendingProtocol, user1 } = await loadFixture(
         deployLendingProtocolFixture
       );
 
       await expect(
-        lendingProtocol.connect(user1).withdrawCollateral()
-      ).to.be.revertedWith("No collateral to withdraw");
+        lendingProtocol
+          .connect(user1)
+          .withdrawCollateral(
+            await collateralToken.getAddress(),
+            ethers.parseEther("100")
+          )
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "InsufficientCollateral"
+      );
     });
 
     it("Should allow withdrawal after loan repayment", async function () {
@@ -416,80 +1043,2614 @@ describe("LendingProtocol", function () {
       await collateralToken
         .connect(user1)
         .approve(await lendingProtocol.getAddress(), depositAmount);
-      await lendingProtocol.connect(user1).depositCollateral(depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
       await lendingProtocol.connect(user1).borrow(borrowAmount);
 
-      // Advance time and repay
-      await time.increase(7 * 24 * 60 * 60);
-      const userData = await lendingProtocol.getUserData(user1.address);
-      const totalDebt = userData.debt + userData.interest;
-
+      // Advance time and repay everything owed
+      await time.increase(WEEK);
       await loanToken
         .connect(user1)
-        .approve(await lendingProtocol.getAddress(), totalDebt);
-      await lendingProtocol.connect(user1).repay();
+        .approve(await lendingProtocol.getAddress(), ethers.MaxUint256);
+      await lendingProtocol.connect(user1).repay(ethers.MaxUint256);
 
       // Should now be able to withdraw
-      await expect(lendingProtocol.connect(user1).withdrawCollateral()).to.not
-        .be.reverted;
-    });
-  });
-
-  describe("Owner Functions", function () {
-    it("Should allow owner to fund contract", async function () {
-      const { loanToken, lendingProtocol, owner } = await loadFixture(
-        deployLendingProtocolFixture
-      );
-
-      const additionalFunding = ethers.parseEther("50000");
-      await loanToken.approve(
-        await lendingProtocol.getAddress(),
-        additionalFunding
-      );
-
-      await expect(lendingProtocol.fundContract(additionalFunding)).to.not.be
-        .reverted;
+      await expect(
+        lendingProtocol
+          .connect(user1)
+          .withdrawCollateral(await collateralToken.getAddress(), depositAmount)
+      ).to.not.be.reverted;
     });
-
-    it("Should allow owner to withdraw excess", async function () {
-      const { lendingProtocol, owner } = await loadFixture(
+    it("Should reject zero amount withdrawals", async function () {
+      const { collateralToken, lendingProtocol, user1 } = await loadFixture(
         deployLendingProtocolFixture
       );
 
-      const withdrawAmount = ethers.parseEther("10000");
+      const depositAmount = ethers.parseEther("1000");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
 
-      await expect(lendingProtocol.withdrawExcess(withdrawAmount)).to.not.be
-        .reverted;
+      await expect(
+        lendingProtocol
+          .connect(user1)
+          .withdrawCollateral(await collateralToken.getAddress(), 0)
+      ).to.be.revertedWithCustomError(lendingProtocol, "ZeroAmount");
     });
 
-    it("Should reject non-owner funding", async function () {
-      const { loanToken, lendingProtocol, user1 } = await loadFixture(
+    it("Should reject withdrawing more than deposited", async function () {
+      const { collateralToken, lendingProtocol, user1 } = await loadFixture(
         deployLendingProtocolFixture
       );
 
-      const amount = ethers.parseEther("1000");
-      await loanToken
+      const depositAmount = ethers.parseEther("1000");
+      await collateralToken
         .connect(user1)
-        .approve(await lendingProtocol.getAddress(), amount);
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
 
       await expect(
-        lendingProtocol.connect(user1).fundContract(amount)
+        lendingProtocol
+          .connect(user1)
+          .withdrawCollateral(
+            await collateralToken.getAddress(),
+            depositAmount + 1n
+          )
       ).to.be.revertedWithCustomError(
         lendingProtocol,
-        "OwnableUnauthorizedAccount"
+        "InsufficientCollateral"
       );
     });
 
-    it("Should reject non-owner withdrawal", async function () {
-      const { lendingProtocol, user1 } = await loadFixture(
-        deployLendingProtocolFixture
-      );
+    describe("Partial Withdrawal", function () {
+      async function borrowFixture() {
+        const fixture = await deployWithoutInterestFixture();
+        const { collateralToken, lendingProtocol, user1 } = fixture;
 
-      await expect(
-        lendingProtocol.connect(user1).withdrawExcess(ethers.parseEther("1000"))
-      ).to.be.revertedWithCustomError(
-        lendingProtocol,
-        "OwnableUnauthorizedAccount"
+        const depositAmount = ethers.parseEther("1500");
+        const borrowAmount = ethers.parseEther("900");
+
+        await collateralToken
+          .connect(user1)
+          .approve(await lendingProtocol.getAddress(), depositAmount);
+        await lendingProtocol
+          .connect(user1)
+          .depositCollateral(await collateralToken.getAddress(), depositAmount);
+        await lendingProtocol.connect(user1).borrow(borrowAmount);
+
+        return { ...fixture, depositAmount, borrowAmount };
+      }
+
+      it("Should allow partial withdrawal without debt", async function () {
+        const { collateralToken, lendingProtocol, user1 } = await loadFixture(
+          deployLendingProtocolFixture
+        );
+
+        const depositAmount = ethers.parseEther("1000");
+        await collateralToken
+          .connect(user1)
+          .approve(await lendingProtocol.getAddress(), depositAmount);
+        await lendingProtocol
+          .connect(user1)
+          .depositCollateral(await collateralToken.getAddress(), depositAmount);
+
+        await lendingProtocol
+          .connect(user1)
+          .withdrawCollateral(
+            await collateralToken.getAddress(),
+            ethers.parseEther("400")
+          );
+        await lendingProtocol
+          .connect(user1)
+          .withdrawCollateral(
+            await collateralToken.getAddress(),
+            ethers.parseEther("600")
+          );
+
+        const userData = await getUserData(lendingProtocol, user1.address);
+        expect(userData.collateral).to.equal(0);
+      });
+
+      it("Should allow withdrawing down to the collateralization ratio", async function () {
+        const { collateralToken, lendingProtocol, user1 } = await loadFixture(
+          borrowFixture
+        );
+
+        // 900 dDAI needs 1350 cUSD: 150 cUSD can be withdrawn
+        const withdrawAmount = ethers.parseEther("150");
+        const balanceBefore = await collateralToken.balanceOf(user1.address);
+
+        await expect(
+          lendingProtocol
+            .connect(user1)
+            .withdrawCollateral(
+              await collateralToken.getAddress(),
+              withdrawAmount
+            )
+        )
+          .to.emit(lendingProtocol, "CollateralWithdrawn")
+          .withArgs(
+            user1.address,
+            await collateralToken.getAddress(),
+            withdrawAmount
+          );
+
+        expect(await collateralToken.balanceOf(user1.address)).to.equal(
+          balanceBefore + withdrawAmount
+        );
+        expect(await lendingProtocol.healthFactor(user1.address)).to.equal(
+          ethers.parseEther("1")
+        );
+      });
+
+      it("Should reject withdrawing one wei past the collateralization ratio", async function () {
+        const { collateralToken, lendingProtocol, user1 } = await loadFixture(
+          borrowFixture
+        );
+
+        await expect(
+          lendingProtocol
+            .connect(user1)
+            .withdrawCollateral(
+              await collateralToken.getAddress(),
+              ethers.parseEther("150") + 1n
+            )
+        ).to.be.revertedWithCustomError(
+          lendingProtocol,
+          "WithdrawalExceedsCollateralization"
+        );
+      });
+
+      it("Should account for accrued interest when withdrawing", async function () {
+        const { collateralToken, lendingProtocol, increaseTime, user1 } =
+          await loadFixture(deployLendingProtocolFixture);
+
+        const depositAmount = ethers.parseEther("1500");
+        const borrowAmount = ethers.parseEther("900");
+        await collateralToken
+          .connect(user1)
+          .approve(await lendingProtocol.getAddress(), depositAmount);
+        await lendingProtocol
+          .connect(user1)
+          .depositCollateral(await collateralToken.getAddress(), depositAmount);
+        await lendingProtocol.connect(user1).borrow(borrowAmount);
+        const borrowTime = await time.latest();
+
+        await increaseTime(YEAR);
+
+        // Calls run at the latest block, so the debt is known exactly
+        const debt = compound(borrowAmount, (await time.latest()) - borrowTime);
+        const requiredCollateral = (debt * 3n + 1n) / 2n;
+        const maxWithdraw = depositAmount - requiredCollateral;
+        expect(maxWithdraw).to.be.lessThan(ethers.parseEther("150"));
+
+        await expect(
+          lendingProtocol
+            .connect(user1)
+            .withdrawCollateral.staticCall(
+              await collateralToken.getAddress(),
+              maxWithdraw + 1n
+            )
+        ).to.be.revertedWithCustomError(
+          lendingProtocol,
+          "WithdrawalExceedsCollateralization"
+        );
+        await expect(
+          lendingProtocol
+            .connect(user1)
+            .withdrawCollateral.staticCall(
+              await collateralToken.getAddress(),
+              maxWithdraw
+            )
+        ).to.not.be.reverted;
+      });
+
+      it("Should value remaining collateral with oracle prices", async function () {
+        const { collateralToken, lendingProtocol, priceOracle, user1 } =
+          await loadFixture(borrowFixture);
+
+        // 1 cUSD == 1.2 USD: 900 dDAI needs 1125 cUSD
+        await priceOracle.setPrice(
+          await collateralToken.getAddress(),
+          ethers.parseEther("1.2")
+        );
+
+        await expect(
+          lendingProtocol
+            .connect(user1)
+            .withdrawCollateral(
+              await collateralToken.getAddress(),
+              ethers.parseEther("376")
+            )
+        ).to.be.revertedWithCustomError(
+          lendingProtocol,
+          "WithdrawalExceedsCollateralization"
+        );
+        await expect(
+          lendingProtocol
+            .connect(user1)
+            .withdrawCollateral(
+              await collateralToken.getAddress(),
+              ethers.parseEther("375")
+            )
+        ).to.not.be.reverted;
+      });
+    });
+  });
+
+  describe("Supply and Redeem", function () {
+    async function supplyFixture() {
+      const fixture = await deployLendingProtocolFixture();
+      const { loanToken, lendingProtocol, user1 } = fixture;
+
+      const supplyAmount = ethers.parseEther("1000");
+      await loanToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), ethers.MaxUint256);
+      await lendingProtocol.connect(user1).supply(supplyAmount);
+
+      return { ...fixture, supplyAmount };
+    }
+
+    // user2 borrows 5000 dDAI from the pool
+    async function borrowedFixture() {
+      const fixture = await supplyFixture();
+      const { collateralToken, lendingProtocol, user2 } = fixture;
+
+      const depositAmount = ethers.parseEther("10000");
+      const borrowAmount = ethers.parseEther("5000");
+      await collateralToken
+        .connect(user2)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user2)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+      await lendingProtocol.connect(user2).borrow(borrowAmount);
+      const borrowTime = await time.latest();
+
+      return { ...fixture, borrowAmount, borrowTime };
+    }
+
+    it("Should deploy the share token owned by the protocol", async function () {
+      const { lendingProtocol, shareToken } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      expect(await shareToken.name()).to.equal("Lending dDAI Share");
+      expect(await shareToken.symbol()).to.equal("ldDAI");
+      expect(await shareToken.owner()).to.equal(
+        await lendingProtocol.getAddress()
+      );
+    });
+
+    it("Should reject share minting outside the protocol", async function () {
+      const { shareToken, owner, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      await expect(
+        shareToken.connect(owner).mint(user1.address, 1)
+      ).to.be.revertedWithCustomError(shareToken, "OwnableUnauthorizedAccount");
+      await expect(
+        shareToken.connect(owner).burn(owner.address, 1)
+      ).to.be.revertedWithCustomError(shareToken, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should mint shares at the current exchange rate", async function () {
+      const { loanToken, lendingProtocol, shareToken, user1 } =
+        await loadFixture(deployLendingProtocolFixture);
+
+      const amount = ethers.parseEther("1000");
+      await loanToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), amount);
+
+      await expect(lendingProtocol.connect(user1).supply(amount))
+        .to.emit(lendingProtocol, "LiquiditySupplied")
+        .withArgs(user1.address, amount, amount);
+
+      expect(await shareToken.balanceOf(user1.address)).to.equal(amount);
+      expect(await lendingProtocol.exchangeRate()).to.equal(INDEX_PRECISION);
+      expect(await lendingProtocol.supplyBalance(user1.address)).to.equal(
+        amount
+      );
+    });
+
+    it("Should redeem the supplied amount without borrows", async function () {
+      const { loanToken, lendingProtocol, shareToken, user1, supplyAmount } =
+        await loadFixture(supplyFixture);
+
+      const balanceBefore = await loanToken.balanceOf(user1.address);
+
+      await expect(lendingProtocol.connect(user1).redeem(supplyAmount))
+        .to.emit(lendingProtocol, "LiquidityRedeemed")
+        .withArgs(user1.address, supplyAmount, supplyAmount);
+
+      expect(await loanToken.balanceOf(user1.address)).to.equal(
+        balanceBefore + supplyAmount
+      );
+      expect(await shareToken.balanceOf(user1.address)).to.equal(0);
+    });
+
+    it("Should pay earned interest on redeem", async function () {
+      const {
+        loanToken,
+        lendingProtocol,
+        user1,
+        supplyAmount,
+        fundAmount,
+        borrowAmount,
+        borrowTime,
+      } = await loadFixture(borrowedFixture);
+
+      // Suppliers share the borrower's interest pro rata
+      const interest = compound(borrowAmount, YEAR) - borrowAmount;
+      const totalAssets = fundAmount + supplyAmount + interest;
+      const expectedAmount =
+        (supplyAmount * totalAssets) / (fundAmount + supplyAmount);
+      expect(expectedAmount).to.be.greaterThan(supplyAmount);
+
+      await time.increaseTo(borrowTime + YEAR);
+      expect(await lendingProtocol.supplyBalance(user1.address)).to.equal(
+        expectedAmount
+      );
+
+      const balanceBefore = await loanToken.balanceOf(user1.address);
+      await time.setNextBlockTimestamp(borrowTime + YEAR + 1);
+      await lendingProtocol.connect(user1).redeem(supplyAmount);
+
+      // One more second of interest accrued before redeeming
+      const interestAtRedeem = compound(borrowAmount, YEAR + 1) - borrowAmount;
+      expect(await loanToken.balanceOf(user1.address)).to.equal(
+        balanceBefore +
+          (supplyAmount * (fundAmount + supplyAmount + interestAtRedeem)) /
+            (fundAmount + supplyAmount)
+      );
+    });
+
+    it("Should raise the exchange rate as interest accrues", async function () {
+      const { lendingProtocol, shareToken, user1, borrowTime } =
+        await loadFixture(borrowedFixture);
+
+      await time.increaseTo(borrowTime + WEEK);
+      const rateBefore = await lendingProtocol.exchangeRate();
+      expect(rateBefore).to.be.greaterThan(INDEX_PRECISION);
+
+      // New suppliers get fewer shares per token
+      const amount = ethers.parseEther("1000");
+      const sharesBefore = await shareToken.balanceOf(user1.address);
+      await lendingProtocol.connect(user1).supply(amount);
+
+      expect(
+        (await shareToken.balanceOf(user1.address)) - sharesBefore
+      ).to.be.lessThan(amount);
+      expect(await lendingProtocol.exchangeRate()).to.be.greaterThanOrEqual(
+        rateBefore
+      );
+    });
+
+    it("Should not let donations change the exchange rate", async function () {
+      const { loanToken, lendingProtocol, user2 } = await loadFixture(
+        supplyFixture
+      );
+
+      await loanToken
+        .connect(user2)
+        .transfer(
+          await lendingProtocol.getAddress(),
+          ethers.parseEther("5000")
+        );
+
+      expect(await lendingProtocol.exchangeRate()).to.equal(INDEX_PRECISION);
+      expect(await lendingProtocol.excessLiquidity()).to.equal(
+        ethers.parseEther("5000")
+      );
+    });
+
+    it("Should only lend out supplied liquidity", async function () {
+      const { lendingProtocol, fundAmount, supplyAmount, borrowAmount } =
+        await loadFixture(borrowedFixture);
+
+      expect(await lendingProtocol.availableLiquidity()).to.equal(
+        fundAmount + supplyAmount - borrowAmount
+      );
+    });
+
+    it("Should reject redeeming borrowed-out liquidity", async function () {
+      const { lendingProtocol, shareToken, owner } = await loadFixture(
+        borrowedFixture
+      );
+
+      await expect(
+        lendingProtocol.redeem(await shareToken.balanceOf(owner.address))
+      ).to.be.revertedWithCustomError(lendingProtocol, "InsufficientLiquidity");
+    });
+
+    it("Should reject redeeming more shares than owned", async function () {
+      const { lendingProtocol, user1, supplyAmount } = await loadFixture(
+        supplyFixture
+      );
+
+      await expect(lendingProtocol.connect(user1).redeem(supplyAmount + 1n))
+        .to.be.revertedWithCustomError(lendingProtocol, "InsufficientShares")
+        .withArgs(supplyAmount + 1n, supplyAmount);
+    });
+
+    it("Should reject zero amount supply and redeem", async function () {
+      const { lendingProtocol, user1 } = await loadFixture(supplyFixture);
+
+      await expect(
+        lendingProtocol.connect(user1).supply(0)
+      ).to.be.revertedWithCustomError(lendingProtocol, "ZeroAmount");
+      await expect(
+        lendingProtocol.connect(user1).redeem(0)
+      ).to.be.revertedWithCustomError(lendingProtocol, "ZeroAmount");
+    });
+
+    it("Should reject supply without approval", async function () {
+      const { lendingProtocol, user2 } = await loadFixture(supplyFixture);
+
+      await expect(
+        lendingProtocol.connect(user2).supply(ethers.parseEther("100"))
+      ).to.be.reverted;
+    });
+  });
+
+  describe("Reserves", function () {
+    // 20% of interest goes to reserves while user1 borrows 5000 dDAI
+    async function reservesFixture() {
+      const fixture = await deployLendingProtocolFixture();
+      const { collateralToken, loanToken, lendingProtocol, user1 } = fixture;
+
+      const reserveFactor = 20n;
+      await lendingProtocol.setReserveFactor(reserveFactor);
+
+      const depositAmount = ethers.parseEther("10000");
+      const borrowAmount = ethers.parseEther("5000");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await loanToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), ethers.MaxUint256);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+      await lendingProtocol.connect(user1).borrow(borrowAmount);
+      const borrowTime = await time.latest();
+
+      // Interest and reserves after one year of borrowing
+      const yearlyInterest = compound(borrowAmount, YEAR) - borrowAmount;
+      const yearlyReserves = (yearlyInterest * reserveFactor) / 100n;
+
+      return {
+        ...fixture,
+        reserveFactor,
+        borrowAmount,
+        borrowTime,
+        yearlyInterest,
+        yearlyReserves,
+      };
+    }
+
+    it("Should start without reserves and with the owner as treasury", async function () {
+      const { lendingProtocol, owner } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      expect(await lendingProtocol.reserveFactor()).to.equal(0);
+      expect(await lendingProtocol.totalReserves()).to.equal(0);
+      expect(await lendingProtocol.treasury()).to.equal(owner.address);
+      expect(await lendingProtocol.MAX_RESERVE_FACTOR()).to.equal(50);
+    });
+
+    it("Should divert a share of interest into reserves", async function () {
+      const {
+        lendingProtocol,
+        fundAmount,
+        borrowTime,
+        yearlyInterest,
+        yearlyReserves,
+      } = await loadFixture(reservesFixture);
+
+      await time.setNextBlockTimestamp(borrowTime + YEAR);
+      await expect(lendingProtocol.accrueInterest())
+        .to.emit(lendingProtocol, "ReservesAdded")
+        .withArgs(yearlyReserves, yearlyReserves);
+
+      expect(await lendingProtocol.totalReserves()).to.equal(yearlyReserves);
+      expect(await lendingProtocol.totalSupplyAssets()).to.equal(
+        fundAmount + yearlyInterest - yearlyReserves
+      );
+    });
+
+    it("Should not emit ReservesAdded with a zero reserve factor", async function () {
+      const { lendingProtocol, borrowTime } = await loadFixture(
+        reservesFixture
+      );
+
+      await lendingProtocol.setReserveFactor(0);
+      await time.setNextBlockTimestamp(borrowTime + YEAR);
+
+      await expect(lendingProtocol.accrueInterest()).to.not.emit(
+        lendingProtocol,
+        "ReservesAdded"
+      );
+    });
+
+    it("Should exclude reserves from the supplier exchange rate", async function () {
+      const {
+        lendingProtocol,
+        fundAmount,
+        borrowTime,
+        yearlyInterest,
+        yearlyReserves,
+      } = await loadFixture(reservesFixture);
+
+      // The owner holds every share, minted 1:1 when funding
+      await time.increaseTo(borrowTime + YEAR);
+      expect(await lendingProtocol.exchangeRate()).to.equal(
+        ((fundAmount + yearlyInterest - yearlyReserves) * INDEX_PRECISION) /
+          fundAmount
+      );
+    });
+
+    it("Should accrue with the old factor before updating it", async function () {
+      const { lendingProtocol, borrowTime, yearlyReserves } = await loadFixture(
+        reservesFixture
+      );
+
+      await time.setNextBlockTimestamp(borrowTime + YEAR);
+      await expect(lendingProtocol.setReserveFactor(50))
+        .to.emit(lendingProtocol, "ReserveFactorUpdated")
+        .withArgs(50);
+
+      expect(await lendingProtocol.totalReserves()).to.equal(yearlyReserves);
+      expect(await lendingProtocol.reserveFactor()).to.equal(50);
+    });
+
+    it("Should withdraw reserves to the treasury", async function () {
+      const { loanToken, lendingProtocol, user1, user2 } = await loadFixture(
+        reservesFixture
+      );
+
+      await expect(lendingProtocol.setTreasury(user2.address))
+        .to.emit(lendingProtocol, "TreasuryUpdated")
+        .withArgs(user2.address);
+
+      // Repaying brings the reserved interest back as cash
+      await time.increase(YEAR);
+      await lendingProtocol.connect(user1).repay(ethers.MaxUint256);
+
+      const reserves = await lendingProtocol.totalReserves();
+      const treasuryBefore = await loanToken.balanceOf(user2.address);
+
+      await expect(lendingProtocol.withdrawReserves(reserves))
+        .to.emit(lendingProtocol, "ReservesWithdrawn")
+        .withArgs(user2.address, reserves, 0);
+
+      expect(await loanToken.balanceOf(user2.address)).to.equal(
+        treasuryBefore + reserves
+      );
+      expect(await lendingProtocol.totalReserves()).to.equal(0);
+    });
+
+    it("Should reject withdrawing more than the reserves", async function () {
+      const { lendingProtocol, borrowTime, yearlyReserves } = await loadFixture(
+        reservesFixture
+      );
+
+      await time.setNextBlockTimestamp(borrowTime + YEAR);
+      await expect(
+        lendingProtocol.withdrawReserves(yearlyReserves + 1n)
+      ).to.be.revertedWithCustomError(lendingProtocol, "ExceedsReserves");
+    });
+
+    it("Should only withdraw reserves held as cash", async function () {
+      const { lendingProtocol, fundAmount, borrowAmount, borrowTime } =
+        await loadFixture(reservesFixture);
+
+      // Leave about 10 dDAI of cash, less than a year of reserves
+      await lendingProtocol.redeem(
+        fundAmount - borrowAmount - ethers.parseEther("10")
+      );
+      await time.increaseTo(borrowTime + YEAR);
+
+      // About 105 dDAI of reserves are owed, but most is still lent out
+      await expect(
+        lendingProtocol.withdrawReserves(ethers.parseEther("100"))
+      ).to.be.revertedWithCustomError(lendingProtocol, "InsufficientLiquidity");
+      await expect(lendingProtocol.withdrawReserves(ethers.parseEther("1"))).to
+        .not.be.reverted;
+    });
+
+    it("Should not count reserves as excess liquidity", async function () {
+      const { lendingProtocol, user1 } = await loadFixture(reservesFixture);
+
+      await time.increase(YEAR);
+      await lendingProtocol.connect(user1).repay(ethers.MaxUint256);
+
+      expect(await lendingProtocol.totalReserves()).to.be.greaterThan(0);
+      expect(await lendingProtocol.excessLiquidity()).to.equal(0);
+      await expect(
+        lendingProtocol.withdrawExcess(1)
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "ExceedsExcessLiquidity"
+      );
+    });
+
+    it("Should reject invalid reserve settings", async function () {
+      const { lendingProtocol } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      await expect(
+        lendingProtocol.setReserveFactor(51)
+      ).to.be.revertedWithCustomError(lendingProtocol, "InvalidReserveFactor");
+      await expect(
+        lendingProtocol.setTreasury(ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(lendingProtocol, "ZeroAddress");
+      await expect(
+        lendingProtocol.withdrawReserves(0)
+      ).to.be.revertedWithCustomError(lendingProtocol, "ZeroAmount");
+    });
+
+    it("Should reject non-owner reserve management", async function () {
+      const { lendingProtocol, user1 } = await loadFixture(reservesFixture);
+
+      await expect(
+        lendingProtocol.connect(user1).setReserveFactor(10)
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "OwnableUnauthorizedAccount"
+      );
+      await expect(
+        lendingProtocol.connect(user1).setTreasury(user1.address)
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "OwnableUnauthorizedAccount"
+      );
+      await expect(
+        lendingProtocol.connect(user1).withdrawReserves(1)
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+  });
+
+  describe("Flash Loans", function () {
+    // Same order as MockFlashBorrower.Mode
+    const Mode = { Repay: 0, NoRepay: 1, WrongReturn: 2, Reenter: 3 };
+
+    // 0.09% fee and a borrower holding enough dDAI to pay it
+    async function flashLoanFixture() {
+      const fixture = await deployLendingProtocolFixture();
+      const { loanToken, lendingProtocol } = fixture;
+
+      const flashLoanFee = 9n;
+      await lendingProtocol.setFlashLoanFee(flashLoanFee);
+
+      const MockFlashBorrower = await ethers.getContractFactory(
+        "MockFlashBorrower"
+      );
+      const borrower = await MockFlashBorrower.deploy(
+        await lendingProtocol.getAddress()
+      );
+      const feeFunds = ethers.parseEther("100");
+      await loanToken.transfer(await borrower.getAddress(), feeFunds);
+
+      const loanAmount = ethers.parseEther("10000");
+      const fee = (loanAmount * flashLoanFee) / 10000n;
+
+      return { ...fixture, borrower, feeFunds, loanAmount, fee };
+    }
+
+    it("Should report ERC-3156 limits and fees", async function () {
+      const { collateralToken, loanToken, lendingProtocol, fundAmount } =
+        await loadFixture(flashLoanFixture);
+
+      expect(
+        await lendingProtocol.maxFlashLoan(await loanToken.getAddress())
+      ).to.equal(fundAmount);
+      expect(
+        await lendingProtocol.maxFlashLoan(await collateralToken.getAddress())
+      ).to.equal(0);
+      expect(
+        await lendingProtocol.flashFee(
+          await loanToken.getAddress(),
+          ethers.parseEther("10000")
+        )
+      ).to.equal(ethers.parseEther("9"));
+      await expect(
+        lendingProtocol.flashFee(await collateralToken.getAddress(), 1)
+      )
+        .to.be.revertedWithCustomError(
+          lendingProtocol,
+          "UnsupportedFlashLoanToken"
+        )
+        .withArgs(await collateralToken.getAddress());
+    });
+
+    it("Should lend to the receiver and collect the fee", async function () {
+      const {
+        loanToken,
+        lendingProtocol,
+        borrower,
+        feeFunds,
+        loanAmount,
+        fee,
+      } = await loadFixture(flashLoanFixture);
+
+      const borrowerAddress = await borrower.getAddress();
+      const protocolBalance = await loanToken.balanceOf(
+        await lendingProtocol.getAddress()
+      );
+
+      await expect(
+        borrower.flashBorrow(await loanToken.getAddress(), loanAmount)
+      )
+        .to.emit(lendingProtocol, "FlashLoan")
+        .withArgs(borrowerAddress, borrowerAddress, loanAmount, fee)
+        .and.to.emit(lendingProtocol, "ReservesAdded")
+        .withArgs(fee, fee);
+
+      expect(await borrower.lastInitiator()).to.equal(borrowerAddress);
+      expect(await borrower.lastAmount()).to.equal(loanAmount);
+      expect(await borrower.lastFee()).to.equal(fee);
+      expect(await borrower.balanceDuringLoan()).to.equal(
+        feeFunds + loanAmount
+      );
+      expect(await loanToken.balanceOf(borrowerAddress)).to.equal(
+        feeFunds - fee
+      );
+      expect(
+        await loanToken.balanceOf(await lendingProtocol.getAddress())
+      ).to.equal(protocolBalance + fee);
+    });
+
+    it("Should add fees to reserves without changing supplier accounting", async function () {
+      const { loanToken, lendingProtocol, borrower, loanAmount, fee } =
+        await loadFixture(flashLoanFixture);
+
+      const exchangeRate = await lendingProtocol.exchangeRate();
+      const totalSupplyAssets = await lendingProtocol.totalSupplyAssets();
+      const availableLiquidity = await lendingProtocol.availableLiquidity();
+
+      await borrower.flashBorrow(await loanToken.getAddress(), loanAmount);
+
+      expect(await lendingProtocol.totalReserves()).to.equal(fee);
+      expect(await lendingProtocol.exchangeRate()).to.equal(exchangeRate);
+      expect(await lendingProtocol.totalSupplyAssets()).to.equal(
+        totalSupplyAssets
+      );
+      expect(await lendingProtocol.availableLiquidity()).to.equal(
+        availableLiquidity
+      );
+      expect(await lendingProtocol.excessLiquidity()).to.equal(0);
+    });
+
+    it("Should let the treasury withdraw flash loan fees", async function () {
+      const { loanToken, lendingProtocol, borrower, owner, loanAmount, fee } =
+        await loadFixture(flashLoanFixture);
+
+      await borrower.flashBorrow(await loanToken.getAddress(), loanAmount);
+
+      await expect(lendingProtocol.withdrawReserves(fee)).to.changeTokenBalance(
+        loanToken,
+        owner,
+        fee
+      );
+      expect(await lendingProtocol.totalReserves()).to.equal(0);
+    });
+
+    it("Should not charge a fee when the fee is zero", async function () {
+      const { loanToken, lendingProtocol, borrower, feeFunds, loanAmount } =
+        await loadFixture(flashLoanFixture);
+
+      await lendingProtocol.setFlashLoanFee(0);
+
+      await expect(
+        borrower.flashBorrow(await loanToken.getAddress(), loanAmount)
+      ).to.not.emit(lendingProtocol, "ReservesAdded");
+      expect(await loanToken.balanceOf(await borrower.getAddress())).to.equal(
+        feeFunds
+      );
+    });
+
+    it("Should revert when the receiver does not repay", async function () {
+      const { loanToken, lendingProtocol, borrower, loanAmount } =
+        await loadFixture(flashLoanFixture);
+
+      await borrower.setMode(Mode.NoRepay, "0x");
+      const balance = await loanToken.balanceOf(
+        await lendingProtocol.getAddress()
+      );
+
+      await expect(
+        borrower.flashBorrow(await loanToken.getAddress(), loanAmount)
+      ).to.be.revertedWithCustomError(loanToken, "ERC20InsufficientAllowance");
+      expect(
+        await loanToken.balanceOf(await lendingProtocol.getAddress())
+      ).to.equal(balance);
+    });
+
+    it("Should revert when the receiver cannot pay the fee", async function () {
+      const { loanToken, lendingProtocol, loanAmount, fee } = await loadFixture(
+        flashLoanFixture
+      );
+
+      // A borrower holding nothing but the loan itself
+      const MockFlashBorrower = await ethers.getContractFactory(
+        "MockFlashBorrower"
+      );
+      const borrower = await MockFlashBorrower.deploy(
+        await lendingProtocol.getAddress()
+      );
+
+      await expect(
+        borrower.flashBorrow(await loanToken.getAddress(), loanAmount)
+      )
+        .to.be.revertedWithCustomError(loanToken, "ERC20InsufficientBalance")
+        .withArgs(await borrower.getAddress(), loanAmount, loanAmount + fee);
+      expect(await lendingProtocol.totalReserves()).to.equal(0);
+    });
+
+    it("Should revert when the callback returns an invalid value", async function () {
+      const { loanToken, lendingProtocol, borrower, loanAmount } =
+        await loadFixture(flashLoanFixture);
+
+      await borrower.setMode(Mode.WrongReturn, "0x");
+
+      await expect(
+        borrower.flashBorrow(await loanToken.getAddress(), loanAmount)
+      )
+        .to.be.revertedWithCustomError(
+          lendingProtocol,
+          "InvalidFlashLoanCallback"
+        )
+        .withArgs(await borrower.getAddress());
+    });
+
+    it("Should reject invalid flash loans", async function () {
+      const {
+        collateralToken,
+        loanToken,
+        lendingProtocol,
+        borrower,
+        fundAmount,
+      } = await loadFixture(flashLoanFixture);
+
+      await expect(
+        borrower.flashBorrow(await loanToken.getAddress(), 0)
+      ).to.be.revertedWithCustomError(lendingProtocol, "ZeroAmount");
+      await expect(borrower.flashBorrow(await collateralToken.getAddress(), 1))
+        .to.be.revertedWithCustomError(
+          lendingProtocol,
+          "UnsupportedFlashLoanToken"
+        )
+        .withArgs(await collateralToken.getAddress());
+      await expect(
+        borrower.flashBorrow(await loanToken.getAddress(), fundAmount + 1n)
+      )
+        .to.be.revertedWithCustomError(lendingProtocol, "InsufficientLiquidity")
+        .withArgs(fundAmount + 1n, fundAmount);
+    });
+
+    it("Should only lend liquidity that is not borrowed out", async function () {
+      const {
+        collateralToken,
+        loanToken,
+        lendingProtocol,
+        borrower,
+        user1,
+        fundAmount,
+      } = await loadFixture(flashLoanFixture);
+
+      const depositAmount = ethers.parseEther("3000");
+      const borrowAmount = ethers.parseEther("2000");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+      await lendingProtocol.connect(user1).borrow(borrowAmount);
+
+      const maxLoan = await lendingProtocol.maxFlashLoan(
+        await loanToken.getAddress()
+      );
+      expect(maxLoan).to.equal(await lendingProtocol.availableLiquidity());
+      expect(maxLoan).to.be.lessThan(fundAmount);
+
+      await expect(
+        borrower.flashBorrow(await loanToken.getAddress(), maxLoan + 1n)
+      ).to.be.revertedWithCustomError(lendingProtocol, "InsufficientLiquidity");
+    });
+
+    it("Should block reentry into nonReentrant functions", async function () {
+      const { collateralToken, loanToken, lendingProtocol, borrower, user1 } =
+        await loadFixture(flashLoanFixture);
+
+      const collateralAddress = await collateralToken.getAddress();
+      const loanTokenAddress = await loanToken.getAddress();
+      const reentryCalls = [
+        lendingProtocol.interface.encodeFunctionData("supply", [1]),
+        lendingProtocol.interface.encodeFunctionData("redeem", [1]),
+        lendingProtocol.interface.encodeFunctionData("depositCollateral", [
+          collateralAddress,
+          1,
+        ]),
+        lendingProtocol.interface.encodeFunctionData("borrow", [1]),
+        lendingProtocol.interface.encodeFunctionData("repay", [1]),
+        lendingProtocol.interface.encodeFunctionData("withdrawCollateral", [
+          collateralAddress,
+          1,
+        ]),
+        lendingProtocol.interface.encodeFunctionData("liquidate", [
+          user1.address,
+          collateralAddress,
+          1,
+        ]),
+        lendingProtocol.interface.encodeFunctionData("flashLoan", [
+          await borrower.getAddress(),
+          loanTokenAddress,
+          1,
+          "0x",
+        ]),
+      ];
+
+      for (const reentryCall of reentryCalls) {
+        await borrower.setMode(Mode.Reenter, reentryCall);
+        await expect(
+          borrower.flashBorrow(loanTokenAddress, ethers.parseEther("1000"))
+        ).to.be.revertedWithCustomError(
+          lendingProtocol,
+          "ReentrancyGuardReentrantCall"
+        );
+      }
+    });
+
+    it("Should accrue interest before lending", async function () {
+      const {
+        collateralToken,
+        loanToken,
+        lendingProtocol,
+        borrower,
+        user1,
+        loanAmount,
+        increaseTime,
+      } = await loadFixture(flashLoanFixture);
+
+      const depositAmount = ethers.parseEther("3000");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+      await lendingProtocol.connect(user1).borrow(ethers.parseEther("2000"));
+      await increaseTime(WEEK);
+
+      // Accruing again inside the callback must be a no-op
+      await borrower.setMode(
+        Mode.Reenter,
+        lendingProtocol.interface.encodeFunctionData("accrueInterest")
+      );
+      const tx = await borrower.flashBorrow(
+        await loanToken.getAddress(),
+        loanAmount
+      );
+      const receipt = await tx.wait();
+
+      const accruals = receipt!.logs.filter(
+        (log) =>
+          lendingProtocol.interface.parseLog(log)?.name === "InterestAccrued"
+      );
+      expect(accruals).to.have.length(1);
+      expect(await lendingProtocol.lastAccrualTimestamp()).to.equal(
+        await time.latest()
+      );
+    });
+
+    it("Should reject flash loans while paused", async function () {
+      const { loanToken, lendingProtocol, borrower, loanAmount } =
+        await loadFixture(flashLoanFixture);
+
+      // Action.FlashLoan
+      await lendingProtocol.setActionPaused(5, true);
+
+      expect(
+        await lendingProtocol.maxFlashLoan(await loanToken.getAddress())
+      ).to.equal(0);
+      await expect(
+        borrower.flashBorrow(await loanToken.getAddress(), loanAmount)
+      )
+        .to.be.revertedWithCustomError(lendingProtocol, "ActionPaused")
+        .withArgs(5);
+    });
+
+    it("Should allow only the owner to set the fee up to the maximum", async function () {
+      const { lendingProtocol, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      expect(await lendingProtocol.flashLoanFee()).to.equal(0);
+      expect(await lendingProtocol.MAX_FLASH_LOAN_FEE()).to.equal(100);
+
+      await expect(lendingProtocol.setFlashLoanFee(100))
+        .to.emit(lendingProtocol, "FlashLoanFeeUpdated")
+        .withArgs(100);
+      await expect(lendingProtocol.setFlashLoanFee(101))
+        .to.be.revertedWithCustomError(lendingProtocol, "InvalidFlashLoanFee")
+        .withArgs(101);
+      await expect(
+        lendingProtocol.connect(user1).setFlashLoanFee(5)
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+  });
+
+  describe("Multiple Collateral Assets", function () {
+    async function multiCollateralFixture() {
+      const fixture = await deployWithoutInterestFixture();
+      const { collateralToken, lendingProtocol, priceOracle, owner, user1 } =
+        fixture;
+
+      // Second asset worth 2000 USD per token at 125% collateralization
+      const CollateralToken = await ethers.getContractFactory(
+        "CollateralToken"
+      );
+      const secondToken = await CollateralToken.deploy(owner.address);
+      const secondPrice = ethers.parseEther("2000");
+      const secondCap = ethers.parseEther("100");
+      await priceOracle.setPrice(await secondToken.getAddress(), secondPrice);
+      await lendingProtocol.setCollateralConfig(
+        await secondToken.getAddress(),
+        await priceOracle.getAddress(),
+        125,
+        secondCap
+      );
+
+      await secondToken.transfer(user1.address, ethers.parseEther("10"));
+      for (const token of [collateralToken, secondToken]) {
+        await token
+          .connect(user1)
+          .approve(await lendingProtocol.getAddress(), ethers.MaxUint256);
+      }
+
+      return { ...fixture, secondToken, secondPrice, secondCap };
+    }
+
+    // Deposit 1500 cUSD (1000 dDAI capacity) and 1 second token (1600 dDAI)
+    async function depositBothFixture() {
+      const fixture = await multiCollateralFixture();
+      const { collateralToken, lendingProtocol, user1, secondToken } = fixture;
+
+      const cusdAmount = ethers.parseEther("1500");
+      const secondAmount = ethers.parseEther("1");
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), cusdAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await secondToken.getAddress(), secondAmount);
+
+      return { ...fixture, cusdAmount, secondAmount };
+    }
+
+    it("Should list collateral assets with their configuration", async function () {
+      const {
+        collateralToken,
+        lendingProtocol,
+        priceOracle,
+        secondToken,
+        secondCap,
+      } = await loadFixture(multiCollateralFixture);
+
+      expect(await lendingProtocol.getCollateralAssets()).to.deep.equal([
+        await collateralToken.getAddress(),
+        await secondToken.getAddress(),
+      ]);
+
+      const config = await lendingProtocol.collateralConfigs(
+        await secondToken.getAddress()
+      );
+      expect(config.listed).to.equal(true);
+      expect(config.oracle).to.equal(await priceOracle.getAddress());
+      expect(config.collateralizationRatio).to.equal(125);
+      expect(config.depositCap).to.equal(secondCap);
+      expect(config.totalDeposits).to.equal(0);
+    });
+
+    it("Should aggregate borrowing capacity across assets", async function () {
+      const { lendingProtocol, user1 } = await loadFixture(depositBothFixture);
+
+      const capacity = ethers.parseEther("2600");
+      await expect(lendingProtocol.connect(user1).borrow.staticCall(capacity))
+        .to.not.be.reverted;
+      await expect(lendingProtocol.connect(user1).borrow(capacity + 1n))
+        .to.be.revertedWithCustomError(lendingProtocol, "ExceedsBorrowCapacity")
+        .withArgs(capacity + 1n, capacity);
+    });
+
+    it("Should report every asset in the account snapshot", async function () {
+      const {
+        collateralToken,
+        lendingProtocol,
+        user1,
+        secondToken,
+        secondPrice,
+        cusdAmount,
+        secondAmount,
+      } = await loadFixture(depositBothFixture);
+
+      const borrowAmount = ethers.parseEther("1300");
+      await lendingProtocol.connect(user1).borrow(borrowAmount);
+
+      const snapshot = await lendingProtocol.getAccountSnapshot(user1.address);
+      expect(snapshot.collaterals.length).to.equal(2);
+
+      const [cusd, second] = snapshot.collaterals;
+      expect(cusd.asset).to.equal(await collateralToken.getAddress());
+      expect(cusd.amount).to.equal(cusdAmount);
+      expect(cusd.price).to.equal(ethers.parseEther("1"));
+      expect(cusd.value).to.equal(ethers.parseEther("1500"));
+      expect(cusd.borrowCapacity).to.equal(ethers.parseEther("1000"));
+      expect(second.asset).to.equal(await secondToken.getAddress());
+      expect(second.amount).to.equal(secondAmount);
+      expect(second.price).to.equal(secondPrice);
+      expect(second.value).to.equal(ethers.parseEther("2000"));
+      expect(second.borrowCapacity).to.equal(ethers.parseEther("1600"));
+
+      expect(snapshot.debt).to.equal(borrowAmount);
+      expect(snapshot.interest).to.equal(0);
+      expect(snapshot.collateralValue).to.equal(ethers.parseEther("3500"));
+      expect(snapshot.borrowCapacity).to.equal(ethers.parseEther("2600"));
+      expect(snapshot.debtValue).to.equal(borrowAmount);
+      expect(snapshot.healthFactor).to.equal(ethers.parseEther("2"));
+    });
+
+    it("Should reject deposits of unlisted assets", async function () {
+      const { loanToken, lendingProtocol, user1 } = await loadFixture(
+        multiCollateralFixture
+      );
+
+      await loanToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), ethers.parseEther("1"));
+
+      await expect(
+        lendingProtocol
+          .connect(user1)
+          .depositCollateral(
+            await loanToken.getAddress(),
+            ethers.parseEther("1")
+          )
+      ).to.be.revertedWithCustomError(lendingProtocol, "CollateralNotListed");
+    });
+
+    it("Should enforce the deposit cap of each asset", async function () {
+      const { lendingProtocol, priceOracle, user1, secondToken } =
+        await loadFixture(multiCollateralFixture);
+
+      const secondAddress = await secondToken.getAddress();
+      const cap = ethers.parseEther("2");
+      await lendingProtocol.setCollateralConfig(
+        secondAddress,
+        await priceOracle.getAddress(),
+        125,
+        cap
+      );
+
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(secondAddress, cap);
+      expect(
+        (await lendingProtocol.collateralConfigs(secondAddress)).totalDeposits
+      ).to.equal(cap);
+      await expect(
+        lendingProtocol.connect(user1).depositCollateral(secondAddress, 1)
+      )
+        .to.be.revertedWithCustomError(lendingProtocol, "DepositCapExceeded")
+        .withArgs(secondAddress, 1, 0);
+
+      // Withdrawals free up room under the cap
+      await lendingProtocol.connect(user1).withdrawCollateral(secondAddress, 1);
+      await expect(
+        lendingProtocol.connect(user1).depositCollateral(secondAddress, 1)
+      ).to.not.be.reverted;
+    });
+
+    it("Should disable deposits with a zero cap", async function () {
+      const { lendingProtocol, priceOracle, user1, secondToken } =
+        await loadFixture(multiCollateralFixture);
+
+      const secondAddress = await secondToken.getAddress();
+      await lendingProtocol.setCollateralConfig(
+        secondAddress,
+        await priceOracle.getAddress(),
+        125,
+        0
+      );
+
+      await expect(
+        lendingProtocol.connect(user1).depositCollateral(secondAddress, 1)
+      ).to.be.revertedWithCustomError(lendingProtocol, "DepositCapExceeded");
+    });
+
+    it("Should check health across all assets on withdrawal", async function () {
+      const { collateralToken, lendingProtocol, user1, cusdAmount } =
+        await loadFixture(depositBothFixture);
+
+      await lendingProtocol.connect(user1).borrow(ethers.parseEther("2000"));
+
+      // Without cUSD only 1600 dDAI of capacity would remain
+      await expect(
+        lendingProtocol
+          .connect(user1)
+          .withdrawCollateral(await collateralToken.getAddress(), cusdAmount)
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "WithdrawalExceedsCollateralization"
+      );
+
+      // 900 cUSD left keeps 600 + 1600 dDAI of capacity
+      await expect(
+        lendingProtocol
+          .connect(user1)
+          .withdrawCollateral(
+            await collateralToken.getAddress(),
+            ethers.parseEther("600")
+          )
+      ).to.not.be.reverted;
+      expect(await lendingProtocol.healthFactor(user1.address)).to.equal(
+        (ethers.parseEther("2200") * ethers.parseEther("1")) /
+          ethers.parseEther("2000")
+      );
+    });
+
+    it("Should seize the chosen asset at its own price", async function () {
+      const {
+        collateralToken,
+        loanToken,
+        lendingProtocol,
+        priceOracle,
+        user1,
+        user2,
+        secondToken,
+        cusdAmount,
+        secondAmount,
+      } = await loadFixture(depositBothFixture);
+
+      await lendingProtocol.connect(user1).borrow(ethers.parseEther("2600"));
+
+      // Halving the second asset price drops capacity to 1800 dDAI
+      const secondAddress = await secondToken.getAddress();
+      await priceOracle.setPrice(secondAddress, ethers.parseEther("1000"));
+
+      const repayAmount = ethers.parseEther("500");
+      // 500 dDAI plus the 5% bonus at 1000 USD per token
+      const expectedSeized = ethers.parseEther("0.525");
+      await loanToken
+        .connect(user2)
+        .approve(await lendingProtocol.getAddress(), repayAmount);
+
+      await expect(
+        lendingProtocol
+          .connect(user2)
+          .liquidate(user1.address, secondAddress, repayAmount)
+      )
+        .to.emit(lendingProtocol, "Liquidated")
+        .withArgs(
+          user1.address,
+          user2.address,
+          secondAddress,
+          repayAmount,
+          expectedSeized,
+          0
+        );
+
+      expect(await secondToken.balanceOf(user2.address)).to.equal(
+        expectedSeized
+      );
+      expect(
+        await lendingProtocol.collateralBalances(user1.address, secondAddress)
+      ).to.equal(secondAmount - expectedSeized);
+      expect(
+        await lendingProtocol.collateralBalances(
+          user1.address,
+          await collateralToken.getAddress()
+        )
+      ).to.equal(cusdAmount);
+      expect(
+        (await lendingProtocol.collateralConfigs(secondAddress)).totalDeposits
+      ).to.equal(secondAmount - expectedSeized);
+    });
+
+    it("Should reject seizing an asset the user did not deposit", async function () {
+      const {
+        collateralToken,
+        loanToken,
+        lendingProtocol,
+        priceOracle,
+        user1,
+        user2,
+        secondToken,
+      } = await loadFixture(multiCollateralFixture);
+
+      const secondAddress = await secondToken.getAddress();
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(secondAddress, ethers.parseEther("1"));
+      await lendingProtocol.connect(user1).borrow(ethers.parseEther("1600"));
+      await priceOracle.setPrice(secondAddress, ethers.parseEther("1000"));
+
+      await loanToken
+        .connect(user2)
+        .approve(await lendingProtocol.getAddress(), ethers.MaxUint256);
+      await expect(
+        lendingProtocol
+          .connect(user2)
+          .liquidate(
+            user1.address,
+            await collateralToken.getAddress(),
+            ethers.parseEther("100")
+          )
+      )
+        .to.be.revertedWithCustomError(lendingProtocol, "NoCollateralToSeize")
+        .withArgs(user1.address, await collateralToken.getAddress());
+    });
+
+    it("Should update a listed asset without listing it twice", async function () {
+      const { collateralToken, lendingProtocol, priceOracle, secondToken } =
+        await loadFixture(multiCollateralFixture);
+
+      const secondAddress = await secondToken.getAddress();
+      const oracleAddress = await priceOracle.getAddress();
+      const newCap = ethers.parseEther("50");
+
+      await expect(
+        lendingProtocol.setCollateralConfig(
+          secondAddress,
+          oracleAddress,
+          200,
+          newCap
+        )
+      )
+        .to.emit(lendingProtocol, "CollateralConfigured")
+        .withArgs(secondAddress, oracleAddress, 200, newCap);
+
+      expect(await lendingProtocol.getCollateralAssets()).to.deep.equal([
+        await collateralToken.getAddress(),
+        secondAddress,
+      ]);
+      const config = await lendingProtocol.collateralConfigs(secondAddress);
+      expect(config.collateralizationRatio).to.equal(200);
+      expect(config.depositCap).to.equal(newCap);
+    });
+
+    it("Should reject invalid collateral configurations", async function () {
+      const { loanToken, lendingProtocol, priceOracle, secondToken } =
+        await loadFixture(multiCollateralFixture);
+
+      const secondAddress = await secondToken.getAddress();
+      const oracleAddress = await priceOracle.getAddress();
+
+      await expect(
+        lendingProtocol.setCollateralConfig(
+          ethers.ZeroAddress,
+          oracleAddress,
+          150,
+          0
+        )
+      ).to.be.revertedWithCustomError(lendingProtocol, "InvalidAsset");
+      await expect(
+        lendingProtocol.setCollateralConfig(
+          await loanToken.getAddress(),
+          oracleAddress,
+          150,
+          0
+        )
+      ).to.be.revertedWithCustomError(lendingProtocol, "InvalidAsset");
+      await expect(
+        lendingProtocol.setCollateralConfig(
+          secondAddress,
+          ethers.ZeroAddress,
+          150,
+          0
+        )
+      ).to.be.revertedWithCustomError(lendingProtocol, "ZeroAddress");
+      await expect(
+        lendingProtocol.setCollateralConfig(
+          secondAddress,
+          oracleAddress,
+          100,
+          0
+        )
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "InvalidCollateralizationRatio"
+      );
+    });
+
+    it("Should reject non-owner collateral configuration", async function () {
+      const { lendingProtocol, priceOracle, user1, secondToken } =
+        await loadFixture(multiCollateralFixture);
+
+      await expect(
+        lendingProtocol
+          .connect(user1)
+          .setCollateralConfig(
+            await secondToken.getAddress(),
+            await priceOracle.getAddress(),
+            150,
+            0
+          )
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+
+    it("Should cap the number of collateral assets", async function () {
+      const { lendingProtocol, priceOracle, owner } = await loadFixture(
+        multiCollateralFixture
+      );
+
+      const CollateralToken = await ethers.getContractFactory(
+        "CollateralToken"
+      );
+      const oracleAddress = await priceOracle.getAddress();
+      const maxAssets = await lendingProtocol.MAX_COLLATERAL_ASSETS();
+
+      for (let i = 2n; i < maxAssets; i++) {
+        const token = await CollateralToken.deploy(owner.address);
+        await lendingProtocol.setCollateralConfig(
+          await token.getAddress(),
+          oracleAddress,
+          150,
+          0
+        );
+      }
+
+      const extraToken = await CollateralToken.deploy(owner.address);
+      await expect(
+        lendingProtocol.setCollateralConfig(
+          await extraToken.getAddress(),
+          oracleAddress,
+          150,
+          0
+        )
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "TooManyCollateralAssets"
+      );
+    });
+  });
+
+  describe("Owner Functions", function () {
+    it("Should allow owner to fund contract", async function () {
+      const { loanToken, lendingProtocol, owner } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      const additionalFunding = ethers.parseEther("50000");
+      await loanToken.approve(
+        await lendingProtocol.getAddress(),
+        additionalFunding
+      );
+
+      await expect(lendingProtocol.fundContract(additionalFunding)).to.not.be
+        .reverted;
+    });
+
+    it("Should mint shares to the owner when funding", async function () {
+      const { lendingProtocol, shareToken, owner, fundAmount } =
+        await loadFixture(deployLendingProtocolFixture);
+
+      expect(await shareToken.balanceOf(owner.address)).to.equal(fundAmount);
+      expect(await lendingProtocol.totalSupplyAssets()).to.equal(fundAmount);
+    });
+
+    it("Should allow owner to withdraw excess", async function () {
+      const { loanToken, lendingProtocol, owner } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      // Tokens sent directly to the contract are not owned by suppliers
+      const withdrawAmount = ethers.parseEther("10000");
+      await loanToken.transfer(
+        await lendingProtocol.getAddress(),
+        withdrawAmount
+      );
+      expect(await lendingProtocol.excessLiquidity()).to.equal(withdrawAmount);
+
+      await expect(lendingProtocol.withdrawExcess(withdrawAmount)).to.not.be
+        .reverted;
+      expect(await lendingProtocol.excessLiquidity()).to.equal(0);
+    });
+
+    it("Should reject withdrawing supplied liquidity as excess", async function () {
+      const { lendingProtocol } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      expect(await lendingProtocol.excessLiquidity()).to.equal(0);
+      await expect(
+        lendingProtocol.withdrawExcess(1)
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "ExceedsExcessLiquidity"
+      );
+    });
+
+    it("Should reject withdrawing borrowed-out liquidity as excess", async function () {
+      const { collateralToken, loanToken, lendingProtocol, user1 } =
+        await loadFixture(deployLendingProtocolFixture);
+
+      const depositAmount = ethers.parseEther("1500");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+      await lendingProtocol.connect(user1).borrow(ethers.parseEther("1000"));
+
+      const donation = ethers.parseEther("500");
+      await loanToken.transfer(await lendingProtocol.getAddress(), donation);
+      await time.increase(YEAR);
+
+      // Accrued interest belongs to suppliers, only the donation is excess
+      await expect(
+        lendingProtocol.withdrawExcess(donation + 1n)
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "ExceedsExcessLiquidity"
+      );
+      await expect(lendingProtocol.withdrawExcess(donation)).to.not.be.reverted;
+    });
+
+    it("Should reject non-owner funding", async function () {
+      const { loanToken, lendingProtocol, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      const amount = ethers.parseEther("1000");
+      await loanToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), amount);
+
+      await expect(
+        lendingProtocol.connect(user1).fundContract(amount)
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+
+    it("Should reject non-owner withdrawal", async function () {
+      const { lendingProtocol, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      await expect(
+        lendingProtocol.connect(user1).withdrawExcess(ethers.parseEther("1000"))
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+  });
+
+  describe("Pause Guardians", function () {
+    // Same order as LendingProtocol.Action
+    const Action = {
+      Deposit: 0,
+      Borrow: 1,
+      Repay: 2,
+      Withdraw: 3,
+      Liquidate: 4,
+      FlashLoan: 5,
+    };
+
+    // user2 is a guardian and user1 has an open loan
+    async function pauseFixture() {
+      const fixture = await deployLendingProtocolFixture();
+      const { collateralToken, loanToken, lendingProtocol, user1, user2 } =
+        fixture;
+
+      await lendingProtocol.setGuardian(user2.address, true);
+
+      const depositAmount = ethers.parseEther("1500");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), ethers.MaxUint256);
+      await loanToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), ethers.MaxUint256);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+      await lendingProtocol.connect(user1).borrow(ethers.parseEther("500"));
+
+      return { ...fixture, guardian: user2 };
+    }
+
+    it("Should start with every action unpaused", async function () {
+      const { lendingProtocol, owner } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      for (const action of Object.values(Action)) {
+        expect(await lendingProtocol.paused(action)).to.equal(false);
+      }
+      expect(await lendingProtocol.guardians(owner.address)).to.equal(false);
+    });
+
+    it("Should allow the owner to manage guardians", async function () {
+      const { lendingProtocol, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      await expect(lendingProtocol.setGuardian(user1.address, true))
+        .to.emit(lendingProtocol, "GuardianUpdated")
+        .withArgs(user1.address, true);
+      expect(await lendingProtocol.guardians(user1.address)).to.equal(true);
+
+      await expect(
+        lendingProtocol.setGuardian(ethers.ZeroAddress, true)
+      ).to.be.revertedWithCustomError(lendingProtocol, "ZeroAddress");
+      await expect(
+        lendingProtocol.connect(user1).setGuardian(user1.address, false)
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+
+    it("Should let a guardian pause an action", async function () {
+      const { lendingProtocol, guardian } = await loadFixture(pauseFixture);
+
+      await expect(
+        lendingProtocol.connect(guardian).setActionPaused(Action.Borrow, true)
+      )
+        .to.emit(lendingProtocol, "ActionPauseUpdated")
+        .withArgs(Action.Borrow, true, guardian.address);
+      expect(await lendingProtocol.paused(Action.Borrow)).to.equal(true);
+      expect(await lendingProtocol.paused(Action.Deposit)).to.equal(false);
+    });
+
+    it("Should reject pausing by non-guardians", async function () {
+      const { lendingProtocol, user1 } = await loadFixture(pauseFixture);
+
+      await expect(
+        lendingProtocol.connect(user1).setActionPaused(Action.Borrow, true)
+      )
+        .to.be.revertedWithCustomError(lendingProtocol, "NotGuardian")
+        .withArgs(user1.address);
+      await expect(lendingProtocol.connect(user1).pauseAll())
+        .to.be.revertedWithCustomError(lendingProtocol, "NotGuardian")
+        .withArgs(user1.address);
+    });
+
+    it("Should stop revoked guardians from pausing", async function () {
+      const { lendingProtocol, guardian } = await loadFixture(pauseFixture);
+
+      await lendingProtocol.setGuardian(guardian.address, false);
+
+      await expect(
+        lendingProtocol.connect(guardian).setActionPaused(Action.Borrow, true)
+      ).to.be.revertedWithCustomError(lendingProtocol, "NotGuardian");
+    });
+
+    it("Should only let the owner unpause", async function () {
+      const { lendingProtocol, guardian, owner } = await loadFixture(
+        pauseFixture
+      );
+
+      await lendingProtocol
+        .connect(guardian)
+        .setActionPaused(Action.Borrow, true);
+
+      await expect(
+        lendingProtocol.connect(guardian).setActionPaused(Action.Borrow, false)
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "OwnableUnauthorizedAccount"
+      );
+      await expect(lendingProtocol.setActionPaused(Action.Borrow, false))
+        .to.emit(lendingProtocol, "ActionPauseUpdated")
+        .withArgs(Action.Borrow, false, owner.address);
+      expect(await lendingProtocol.paused(Action.Borrow)).to.equal(false);
+    });
+
+    it("Should reject deposits while deposits are paused", async function () {
+      const { collateralToken, lendingProtocol, guardian, user1 } =
+        await loadFixture(pauseFixture);
+
+      await lendingProtocol
+        .connect(guardian)
+        .setActionPaused(Action.Deposit, true);
+
+      await expect(
+        lendingProtocol
+          .connect(user1)
+          .depositCollateral(
+            await collateralToken.getAddress(),
+            ethers.parseEther("100")
+          )
+      )
+        .to.be.revertedWithCustomError(lendingProtocol, "ActionPaused")
+        .withArgs(Action.Deposit);
+    });
+
+    it("Should reject borrows while borrows are paused", async function () {
+      const { lendingProtocol, guardian, user1 } = await loadFixture(
+        pauseFixture
+      );
+
+      await lendingProtocol
+        .connect(guardian)
+        .setActionPaused(Action.Borrow, true);
+
+      await expect(
+        lendingProtocol.connect(user1).borrow(ethers.parseEther("100"))
+      )
+        .to.be.revertedWithCustomError(lendingProtocol, "ActionPaused")
+        .withArgs(Action.Borrow);
+    });
+
+    it("Should reject repayments only when repay is frozen", async function () {
+      const { lendingProtocol, guardian, user1 } = await loadFixture(
+        pauseFixture
+      );
+
+      await lendingProtocol
+        .connect(guardian)
+        .setActionPaused(Action.Repay, true);
+
+      await expect(
+        lendingProtocol.connect(user1).repay(ethers.parseEther("100"))
+      )
+        .to.be.revertedWithCustomError(lendingProtocol, "ActionPaused")
+        .withArgs(Action.Repay);
+    });
+
+    it("Should reject withdrawals while withdrawals are paused", async function () {
+      const { collateralToken, lendingProtocol, guardian, user1 } =
+        await loadFixture(pauseFixture);
+
+      await lendingProtocol
+        .connect(guardian)
+        .setActionPaused(Action.Withdraw, true);
+
+      await expect(
+        lendingProtocol
+          .connect(user1)
+          .withdrawCollateral(
+            await collateralToken.getAddress(),
+            ethers.parseEther("100")
+          )
+      )
+        .to.be.revertedWithCustomError(lendingProtocol, "ActionPaused")
+        .withArgs(Action.Withdraw);
+    });
+
+    it("Should reject liquidations while liquidations are paused", async function () {
+      const { collateralToken, lendingProtocol, priceOracle, guardian, user1 } =
+        await loadFixture(pauseFixture);
+
+      // Make the position liquidatable so only the pause blocks it
+      await priceOracle.setPrice(
+        await collateralToken.getAddress(),
+        ethers.parseEther("0.5")
+      );
+      await lendingProtocol
+        .connect(guardian)
+        .setActionPaused(Action.Liquidate, true);
+
+      await expect(
+        lendingProtocol
+          .connect(guardian)
+          .liquidate(
+            user1.address,
+            await collateralToken.getAddress(),
+            ethers.parseEther("100")
+          )
+      )
+        .to.be.revertedWithCustomError(lendingProtocol, "ActionPaused")
+        .withArgs(Action.Liquidate);
+    });
+
+    it("Should pause everything except repay in an emergency", async function () {
+      const { collateralToken, lendingProtocol, guardian, user1 } =
+        await loadFixture(pauseFixture);
+
+      await expect(lendingProtocol.connect(guardian).pauseAll())
+        .to.emit(lendingProtocol, "ActionPauseUpdated")
+        .withArgs(Action.FlashLoan, true, guardian.address);
+
+      expect(await lendingProtocol.paused(Action.Deposit)).to.equal(true);
+      expect(await lendingProtocol.paused(Action.Borrow)).to.equal(true);
+      expect(await lendingProtocol.paused(Action.Repay)).to.equal(false);
+      expect(await lendingProtocol.paused(Action.Withdraw)).to.equal(true);
+      expect(await lendingProtocol.paused(Action.Liquidate)).to.equal(true);
+      expect(await lendingProtocol.paused(Action.FlashLoan)).to.equal(true);
+
+      await expect(
+        lendingProtocol
+          .connect(user1)
+          .withdrawCollateral(
+            await collateralToken.getAddress(),
+            ethers.parseEther("100")
+          )
+      ).to.be.revertedWithCustomError(lendingProtocol, "ActionPaused");
+
+      // Borrowers can still close their loans
+      await expect(
+        lendingProtocol.connect(user1).repay(ethers.MaxUint256)
+      ).to.emit(lendingProtocol, "LoanRepaid");
+    });
+
+    it("Should resume an action once unpaused", async function () {
+      const { lendingProtocol, guardian, user1 } = await loadFixture(
+        pauseFixture
+      );
+
+      await lendingProtocol.connect(guardian).pauseAll();
+      await lendingProtocol.setActionPaused(Action.Borrow, false);
+
+      await expect(
+        lendingProtocol.connect(user1).borrow(ethers.parseEther("100"))
+      ).to.emit(lendingProtocol, "LoanBorrowed");
+    });
+  });
+
+  describe("Liquidation", function () {
+    async function borrowFixture() {
+      const fixture = await deployLendingProtocolFixture();
+      const { collateralToken, loanToken, lendingProtocol, user1, user2 } =
+        fixture;
+
+      const depositAmount = ethers.parseEther("1500");
+      const borrowAmount = ethers.parseEther("900");
+
+      // user2 acts as liquidator
+      await loanToken
+        .connect(user2)
+        .approve(await lendingProtocol.getAddress(), ethers.MaxUint256);
+
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+      await lendingProtocol.connect(user1).borrow(borrowAmount);
+      const borrowTime = await time.latest();
+
+      return { ...fixture, depositAmount, borrowAmount, borrowTime };
+    }
+
+    it("Should set the correct liquidation constants", async function () {
+      const { lendingProtocol } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      expect(await lendingProtocol.LIQUIDATION_BONUS()).to.equal(5);
+      expect(await lendingProtocol.CLOSE_FACTOR()).to.equal(50);
+      expect(await lendingProtocol.HEALTH_FACTOR_PRECISION()).to.equal(
+        ethers.parseEther("1")
+      );
+    });
+
+    it("Should report max health factor without debt", async function () {
+      const { lendingProtocol, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      expect(await lendingProtocol.healthFactor(user1.address)).to.equal(
+        ethers.MaxUint256
+      );
+    });
+
+    it("Should report health factor of 1 at max borrow", async function () {
+      const { collateralToken, lendingProtocol, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      const depositAmount = ethers.parseEther("1500");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+      await lendingProtocol.connect(user1).borrow(ethers.parseEther("1000"));
+
+      expect(await lendingProtocol.healthFactor(user1.address)).to.equal(
+        ethers.parseEther("1")
+      );
+    });
+
+    it("Should report health factor above 1 below max borrow", async function () {
+      const { lendingProtocol, user1 } = await loadFixture(borrowFixture);
+
+      // 1000 dDAI of capacity against 900 dDAI of debt
+      expect(await lendingProtocol.healthFactor(user1.address)).to.equal(
+        (ethers.parseEther("1000") * ethers.parseEther("1")) /
+          ethers.parseEther("900")
+      );
+    });
+
+    it("Should reject liquidating a healthy position", async function () {
+      const { collateralToken, lendingProtocol, user1, user2 } =
+        await loadFixture(borrowFixture);
+
+      await expect(
+        lendingProtocol
+          .connect(user2)
+          .liquidate(
+            user1.address,
+            await collateralToken.getAddress(),
+            ethers.parseEther("100")
+          )
+      ).to.be.revertedWithCustomError(lendingProtocol, "PositionHealthy");
+    });
+
+    it("Should reject liquidating a position without debt", async function () {
+      const { collateralToken, lendingProtocol, user1, user2 } =
+        await loadFixture(deployLendingProtocolFixture);
+
+      await expect(
+        lendingProtocol
+          .connect(user2)
+          .liquidate(
+            user1.address,
+            await collateralToken.getAddress(),
+            ethers.parseEther("100")
+          )
+      ).to.be.revertedWithCustomError(lendingProtocol, "NoActiveLoan");
+    });
+
+    it("Should reject zero amount liquidations", async function () {
+      const { collateralToken, lendingProtocol, user1, user2 } =
+        await loadFixture(borrowFixture);
+
+      await expect(
+        lendingProtocol
+          .connect(user2)
+          .liquidate(user1.address, await collateralToken.getAddress(), 0)
+      ).to.be.revertedWithCustomError(lendingProtocol, "ZeroAmount");
+    });
+
+    it("Should become liquidatable once interest pushes it underwater", async function () {
+      const { lendingProtocol, increaseTime, user1, borrowAmount, borrowTime } =
+        await loadFixture(borrowFixture);
+
+      // After one year debt is about 994.6 dDAI, still under capacity
+      await increaseTime(YEAR);
+      expect(
+        await lendingProtocol.healthFactor(user1.address)
+      ).to.be.greaterThan(ethers.parseEther("1"));
+
+      // After two years debt is about 1099.3 dDAI against 1000 capacity
+      await increaseTime(YEAR);
+      const debt = compound(borrowAmount, (await time.latest()) - borrowTime);
+      expect(await lendingProtocol.healthFactor(user1.address)).to.equal(
+        (ethers.parseEther("1000") * ethers.parseEther("1")) / debt
+      );
+      expect(await lendingProtocol.healthFactor(user1.address)).to.be.lessThan(
+        ethers.parseEther("1")
+      );
+    });
+
+    it("Should liquidate an underwater position with bonus", async function () {
+      const {
+        collateralToken,
+        loanToken,
+        lendingProtocol,
+        increaseTime,
+        user1,
+        user2,
+        borrowAmount,
+        borrowTime,
+      } = await loadFixture(borrowFixture);
+
+      await increaseTime(2 * YEAR);
+
+      const liquidationTime = (await time.latest()) + 1;
+      const debt = compound(borrowAmount, liquidationTime - borrowTime);
+
+      // Repay 500 (< 50% close factor) and seize 500 * 105% of collateral
+      const repayAmount = ethers.parseEther("500");
+      const expectedSeized = ethers.parseEther("525");
+
+      const collateralBefore = await collateralToken.balanceOf(user2.address);
+      const loanBefore = await loanToken.balanceOf(user2.address);
+
+      await time.setNextBlockTimestamp(liquidationTime);
+      await expect(
+        lendingProtocol
+          .connect(user2)
+          .liquidate(
+            user1.address,
+            await collateralToken.getAddress(),
+            repayAmount
+          )
+      )
+        .to.emit(lendingProtocol, "Liquidated")
+        .withArgs(
+          user1.address,
+          user2.address,
+          await collateralToken.getAddress(),
+          repayAmount,
+          expectedSeized,
+          debt - borrowAmount
+        );
+
+      expect(await collateralToken.balanceOf(user2.address)).to.equal(
+        collateralBefore + expectedSeized
+      );
+      expect(await loanToken.balanceOf(user2.address)).to.equal(
+        loanBefore - repayAmount
+      );
+
+      // Interest is paid off first, the rest reduces principal
+      const userData = await getUserData(lendingProtocol, user1.address);
+      expect(userData.collateral).to.equal(ethers.parseEther("975"));
+      expect(userData.interest).to.equal(0);
+      expect(userData.debt).to.equal(debt - repayAmount);
+    });
+
+    it("Should restore health after liquidation", async function () {
+      const { collateralToken, lendingProtocol, increaseTime, user1, user2 } =
+        await loadFixture(borrowFixture);
+
+      await increaseTime(2 * YEAR);
+      await lendingProtocol
+        .connect(user2)
+        .liquidate(
+          user1.address,
+          await collateralToken.getAddress(),
+          ethers.parseEther("500")
+        );
+
+      expect(
+        await lendingProtocol.healthFactor(user1.address)
+      ).to.be.greaterThanOrEqual(ethers.parseEther("1"));
+      await expect(
+        lendingProtocol
+          .connect(user2)
+          .liquidate(
+            user1.address,
+            await collateralToken.getAddress(),
+            ethers.parseEther("100")
+          )
+      ).to.be.revertedWithCustomError(lendingProtocol, "PositionHealthy");
+    });
+
+    it("Should reject repaying more than the close factor", async function () {
+      const {
+        collateralToken,
+        lendingProtocol,
+        increaseTime,
+        user1,
+        user2,
+        borrowAmount,
+        borrowTime,
+      } = await loadFixture(borrowFixture);
+
+      await increaseTime(2 * YEAR);
+
+      // Calls run at the latest block, so the debt is known exactly
+      const debt = compound(borrowAmount, (await time.latest()) - borrowTime);
+      const maxRepay = debt / 2n;
+
+      await expect(
+        lendingProtocol
+          .connect(user2)
+          .liquidate.staticCall(
+            user1.address,
+            await collateralToken.getAddress(),
+            maxRepay + 1n
+          )
+      )
+        .to.be.revertedWithCustomError(lendingProtocol, "ExceedsCloseFactor")
+        .withArgs(maxRepay + 1n, maxRepay);
+      await expect(
+        lendingProtocol
+          .connect(user2)
+          .liquidate.staticCall(
+            user1.address,
+            await collateralToken.getAddress(),
+            maxRepay
+          )
+      ).to.not.be.reverted;
+    });
+
+    it("Should cap seized collateral at the remaining collateral", async function () {
+      const {
+        collateralToken,
+        lendingProtocol,
+        increaseTime,
+        user1,
+        user2,
+        depositAmount,
+        borrowAmount,
+        borrowTime,
+      } = await loadFixture(borrowFixture);
+
+      // After 12 years debt is about 2988 dDAI
+      await increaseTime(12 * YEAR);
+
+      const liquidationTime = (await time.latest()) + 1;
+      const debt = compound(borrowAmount, liquidationTime - borrowTime);
+
+      // 1450 * 105% = 1522.5 cUSD, more than the 1500 deposited
+      const repayAmount = ethers.parseEther("1450");
+      await time.setNextBlockTimestamp(liquidationTime);
+      await expect(
+        lendingProtocol
+          .connect(user2)
+          .liquidate(
+            user1.address,
+            await collateralToken.getAddress(),
+            repayAmount
+          )
+      )
+        .to.emit(lendingProtocol, "Liquidated")
+        .withArgs(
+          user1.address,
+          user2.address,
+          await collateralToken.getAddress(),
+          repayAmount,
+          depositAmount,
+          // Interest exceeds the repayment, none of it goes to principal
+          repayAmount
+        );
+
+      const userData = await getUserData(lendingProtocol, user1.address);
+      expect(userData.collateral).to.equal(0);
+      expect(userData.interest).to.equal(debt - borrowAmount - repayAmount);
+      expect(userData.debt).to.equal(borrowAmount);
+    });
+
+    it("Should reject liquidation without approval", async function () {
+      const {
+        collateralToken,
+        loanToken,
+        lendingProtocol,
+        increaseTime,
+        user1,
+        user2,
+      } = await loadFixture(borrowFixture);
+
+      await loanToken
+        .connect(user2)
+        .approve(await lendingProtocol.getAddress(), 0);
+      await increaseTime(2 * YEAR);
+
+      await expect(
+        lendingProtocol
+          .connect(user2)
+          .liquidate(
+            user1.address,
+            await collateralToken.getAddress(),
+            ethers.parseEther("100")
+          )
+      ).to.be.reverted;
+    });
+  });
+
+  describe("Price Oracle", function () {
+    it("Should set the oracle and default max price age", async function () {
+      const { lendingProtocol, priceOracle } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      expect(await lendingProtocol.priceOracle()).to.equal(
+        await priceOracle.getAddress()
+      );
+      expect(await lendingProtocol.maxPriceAge()).to.equal(24 * 60 * 60);
+    });
+
+    it("Should scale borrowing capacity with the collateral price", async function () {
+      const { collateralToken, lendingProtocol, priceOracle, user1 } =
+        await loadFixture(deployLendingProtocolFixture);
+
+      // 1 cUSD == 2 USD: 1500 cUSD is worth 3000 USD, capacity 2000 dDAI
+      await priceOracle.setPrice(
+        await collateralToken.getAddress(),
+        ethers.parseEther("2")
+      );
+
+      const depositAmount = ethers.parseEther("1500");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+
+      await expect(
+        lendingProtocol.connect(user1).borrow(ethers.parseEther("2001"))
+      ).to.be.revertedWithCustomError(lendingProtocol, "ExceedsBorrowCapacity");
+      await expect(
+        lendingProtocol.connect(user1).borrow(ethers.parseEther("2000"))
+      ).to.not.be.reverted;
+    });
+
+    it("Should value debt with the loan token price", async function () {
+      const {
+        collateralToken,
+        loanToken,
+        lendingProtocol,
+        priceOracle,
+        user1,
+      } = await loadFixture(deployLendingProtocolFixture);
+
+      // 1 dDAI == 2 USD: 1500 USD of collateral only covers 500 dDAI
+      await priceOracle.setPrice(
+        await loanToken.getAddress(),
+        ethers.parseEther("2")
+      );
+
+      const depositAmount = ethers.parseEther("1500");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+
+      await expect(
+        lendingProtocol.connect(user1).borrow(ethers.parseEther("501"))
+      ).to.be.revertedWithCustomError(lendingProtocol, "ExceedsBorrowCapacity");
+      await expect(
+        lendingProtocol.connect(user1).borrow(ethers.parseEther("500"))
+      ).to.not.be.reverted;
+    });
+
+    it("Should make a position liquidatable when collateral price drops", async function () {
+      const {
+        collateralToken,
+        loanToken,
+        lendingProtocol,
+        priceOracle,
+        user1,
+        user2,
+      } = await loadFixture(deployWithoutInterestFixture);
+
+      const depositAmount = ethers.parseEther("1500");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+      await lendingProtocol.connect(user1).borrow(ethers.parseEther("1000"));
+
+      // 1 cUSD == 0.8 USD: capacity drops to 800 against 1000 debt
+      await priceOracle.setPrice(
+        await collateralToken.getAddress(),
+        ethers.parseEther("0.8")
+      );
+      expect(await lendingProtocol.healthFactor(user1.address)).to.equal(
+        ethers.parseEther("0.8")
+      );
+
+      // Repaying 400 dDAI seizes 420 USD worth of cUSD: 525 cUSD
+      await loanToken
+        .connect(user2)
+        .approve(await lendingProtocol.getAddress(), ethers.parseEther("400"));
+      await expect(
+        lendingProtocol
+          .connect(user2)
+          .liquidate(
+            user1.address,
+            await collateralToken.getAddress(),
+            ethers.parseEther("400")
+          )
+      )
+        .to.emit(lendingProtocol, "Liquidated")
+        .withArgs(
+          user1.address,
+          user2.address,
+          await collateralToken.getAddress(),
+          ethers.parseEther("400"),
+          ethers.parseEther("525"),
+          0
+        );
+    });
+
+    it("Should reject borrowing with stale prices", async function () {
+      const { collateralToken, lendingProtocol, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      const depositAmount = ethers.parseEther("1500");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+
+      await time.increase(24 * 60 * 60 + 1);
+
+      await expect(
+        lendingProtocol.connect(user1).borrow(ethers.parseEther("100"))
+      ).to.be.revertedWithCustomError(lendingProtocol, "StaleOraclePrice");
+    });
+
+    it("Should reject health checks with stale prices", async function () {
+      const { collateralToken, lendingProtocol, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      const depositAmount = ethers.parseEther("1500");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+      await lendingProtocol.connect(user1).borrow(ethers.parseEther("1000"));
+
+      await time.increase(24 * 60 * 60 + 1);
+
+      await expect(
+        lendingProtocol.healthFactor(user1.address)
+      ).to.be.revertedWithCustomError(lendingProtocol, "StaleOraclePrice");
+    });
+
+    it("Should reject borrowing with a zero price", async function () {
+      const { collateralToken, lendingProtocol, priceOracle, user1 } =
+        await loadFixture(deployLendingProtocolFixture);
+
+      await priceOracle.setPrice(await collateralToken.getAddress(), 0);
+
+      const depositAmount = ethers.parseEther("1500");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+
+      await expect(
+        lendingProtocol.connect(user1).borrow(ethers.parseEther("100"))
+      ).to.be.revertedWithCustomError(lendingProtocol, "InvalidOraclePrice");
+    });
+
+    it("Should allow owner to update the max price age", async function () {
+      const { collateralToken, lendingProtocol, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      await expect(lendingProtocol.setMaxPriceAge(7 * 24 * 60 * 60))
+        .to.emit(lendingProtocol, "MaxPriceAgeUpdated")
+        .withArgs(7 * 24 * 60 * 60);
+
+      const depositAmount = ethers.parseEther("1500");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+
+      await time.increase(2 * 24 * 60 * 60);
+
+      await expect(
+        lendingProtocol.connect(user1).borrow(ethers.parseEther("100"))
+      ).to.not.be.reverted;
+    });
+
+    it("Should reject a zero max price age", async function () {
+      const { lendingProtocol } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      await expect(
+        lendingProtocol.setMaxPriceAge(0)
+      ).to.be.revertedWithCustomError(lendingProtocol, "InvalidMaxPriceAge");
+    });
+
+    it("Should allow owner to replace the oracle", async function () {
+      const { lendingProtocol, owner } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      const MockPriceOracle = await ethers.getContractFactory(
+        "MockPriceOracle"
+      );
+      const newOracle = await MockPriceOracle.deploy(owner.address);
+
+      await expect(lendingProtocol.setPriceOracle(await newOracle.getAddress()))
+        .to.emit(lendingProtocol, "PriceOracleUpdated")
+        .withArgs(await newOracle.getAddress());
+      expect(await lendingProtocol.priceOracle()).to.equal(
+        await newOracle.getAddress()
+      );
+    });
+
+    it("Should reject the zero address as oracle", async function () {
+      const { lendingProtocol } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      await expect(
+        lendingProtocol.setPriceOracle(ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(lendingProtocol, "ZeroAddress");
+    });
+
+    it("Should reject non-owner oracle configuration", async function () {
+      const { lendingProtocol, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      await expect(
+        lendingProtocol.connect(user1).setPriceOracle(user1.address)
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "OwnableUnauthorizedAccount"
+      );
+      await expect(
+        lendingProtocol.connect(user1).setMaxPriceAge(1)
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+  });
+
+  describe("Interest Rate Model", function () {
+    async function deployModelFixture() {
+      const KinkInterestRateModel = await ethers.getContractFactory(
+        "KinkInterestRateModel"
+      );
+      const newModel = await KinkInterestRateModel.deploy(
+        ethers.parseEther("0.2"),
+        0,
+        0,
+        ethers.parseEther("0.8")
+      );
+
+      return newModel;
+    }
+
+    it("Should allow owner to replace the interest rate model", async function () {
+      const { lendingProtocol } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+      const newModel = await deployModelFixture();
+
+      await expect(
+        lendingProtocol.setInterestRateModel(await newModel.getAddress())
+      )
+        .to.emit(lendingProtocol, "InterestRateModelUpdated")
+        .withArgs(await newModel.getAddress());
+
+      expect(await lendingProtocol.interestRateModel()).to.equal(
+        await newModel.getAddress()
+      );
+      expect(await lendingProtocol.getBorrowRate()).to.equal(
+        ethers.parseEther("0.2") / BigInt(YEAR)
+      );
+    });
+
+    it("Should accrue with the old model before switching", async function () {
+      const { collateralToken, lendingProtocol, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      const depositAmount = ethers.parseEther("1500");
+      const borrowAmount = ethers.parseEther("1000");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+      await lendingProtocol.connect(user1).borrow(borrowAmount);
+      const borrowTime = await time.latest();
+
+      const newModel = await deployModelFixture();
+
+      await time.setNextBlockTimestamp(borrowTime + WEEK);
+      await expect(
+        lendingProtocol.setInterestRateModel(await newModel.getAddress())
+      )
+        .to.emit(lendingProtocol, "InterestAccrued")
+        .withArgs(
+          rpow(INDEX_PRECISION + RATE_PER_SECOND, BigInt(WEEK)),
+          compound(borrowAmount, WEEK)
+        );
+    });
+
+    it("Should reject the zero address as interest rate model", async function () {
+      const { lendingProtocol } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      await expect(
+        lendingProtocol.setInterestRateModel(ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(lendingProtocol, "ZeroAddress");
+    });
+
+    it("Should reject non-owner interest rate model updates", async function () {
+      const { lendingProtocol, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      await expect(
+        lendingProtocol.connect(user1).setInterestRateModel(user1.address)
+      ).to.be.revertedWithCustomError(
+        lendingProtocol,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+
+    it("Should cap borrow rates above the maximum and still allow repaying", async function () {
+      const { collateralToken, loanToken, lendingProtocol, user1 } =
+        await loadFixture(deployLendingProtocolFixture);
+
+      const depositAmount = ethers.parseEther("1500");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+      await lendingProtocol.connect(user1).borrow(ethers.parseEther("100"));
+
+      // 1000000% per year is far above MAX_BORROW_RATE
+      const KinkInterestRateModel = await ethers.getContractFactory(
+        "KinkInterestRateModel"
+      );
+      const brokenModel = await KinkInterestRateModel.deploy(
+        ethers.parseEther("10000"),
+        0,
+        0,
+        ethers.parseEther("0.8")
+      );
+      await lendingProtocol.setInterestRateModel(
+        await brokenModel.getAddress()
+      );
+
+      const maxBorrowRate = await lendingProtocol.MAX_BORROW_RATE();
+      expect(await lendingProtocol.getBorrowRate()).to.equal(maxBorrowRate);
+
+      // Interest compounds at the cap instead of reverting
+      const borrowIndex = await lendingProtocol.borrowIndex();
+      await time.increase(59);
+      await lendingProtocol.accrueInterest();
+      expect(await lendingProtocol.borrowIndex()).to.equal(
+        (borrowIndex * rpow(INDEX_PRECISION + maxBorrowRate, 60n)) /
+          INDEX_PRECISION
+      );
+
+      await loanToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), ethers.MaxUint256);
+      await expect(
+        lendingProtocol.connect(user1).repay(ethers.MaxUint256)
+      ).to.emit(lendingProtocol, "LoanRepaid");
+      expect((await getUserData(lendingProtocol, user1.address)).debt).to.equal(
+        0
       );
     });
   });
@@ -506,35 +3667,31 @@ describe("LendingProtocol", function () {
       await collateralToken
         .connect(user1)
         .approve(await lendingProtocol.getAddress(), depositAmount1);
-      await lendingProtocol.connect(user1).depositCollateral(depositAmount1);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount1);
 
       // User2 deposits
       await collateralToken
         .connect(user2)
         .approve(await lendingProtocol.getAddress(), depositAmount2);
-      await lendingProtocol.connect(user2).depositCollateral(depositAmount2);
+      await lendingProtocol
+        .connect(user2)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount2);
 
-      const userData1 = await lendingProtocol.getUserData(user1.address);
-      const userData2 = await lendingProtocol.getUserData(user2.address);
+      const userData1 = await getUserData(lendingProtocol, user1.address);
+      const userData2 = await getUserData(lendingProtocol, user2.address);
 
       expect(userData1.collateral).to.equal(depositAmount1);
       expect(userData2.collateral).to.equal(depositAmount2);
     });
 
     it("Should reject borrowing when contract has insufficient funds", async function () {
-      const { collateralToken, lendingProtocol, owner, user1 } =
+      const { collateralToken, lendingProtocol, shareToken, owner, user1 } =
         await loadFixture(deployLendingProtocolFixture);
 
-      // Withdraw ALL funds from contract
-      const loanTokenAddress = await lendingProtocol.loanToken();
-      const loanToken = await ethers.getContractAt(
-        "LoanToken",
-        loanTokenAddress
-      );
-      const contractBalance = await loanToken.balanceOf(
-        await lendingProtocol.getAddress()
-      );
-      await lendingProtocol.withdrawExcess(contractBalance);
+      // Redeem ALL supplied funds from contract
+      await lendingProtocol.redeem(await shareToken.balanceOf(owner.address));
 
       const depositAmount = ethers.parseEther("1500");
       const borrowAmount = ethers.parseEther("1000");
@@ -542,11 +3699,107 @@ describe("LendingProtocol", function () {
       await collateralToken
         .connect(user1)
         .approve(await lendingProtocol.getAddress(), depositAmount);
-      await lendingProtocol.connect(user1).depositCollateral(depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
 
       await expect(
         lendingProtocol.connect(user1).borrow(borrowAmount)
-      ).to.be.revertedWith("Insufficient loan tokens in contract");
+      ).to.be.revertedWithCustomError(lendingProtocol, "InsufficientLiquidity");
+    });
+  });
+
+  describe("Error Decoding", function () {
+    // Runs a transaction expected to revert and returns what it threw
+    async function catchError(tx: Promise<unknown>): Promise<unknown> {
+      try {
+        await tx;
+      } catch (error) {
+        return error;
+      }
+      throw new Error("Transaction did not revert");
+    }
+
+    it("Should know every error LendingProtocol can revert with", async function () {
+      const { lendingProtocol } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      lendingProtocol.interface.forEachError((fragment) => {
+        expect(
+          LENDING_ERRORS.getError(fragment.selector)?.format(),
+          fragment.name
+        ).to.equal(fragment.format());
+        expect(LENDING_MESSAGES, fragment.name).to.have.property(fragment.name);
+      });
+    });
+
+    it("Should decode custom errors with their arguments", async function () {
+      const { collateralToken, lendingProtocol, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      const depositAmount = ethers.parseEther("1500");
+      await collateralToken
+        .connect(user1)
+        .approve(await lendingProtocol.getAddress(), depositAmount);
+      await lendingProtocol
+        .connect(user1)
+        .depositCollateral(await collateralToken.getAddress(), depositAmount);
+
+      const error = await catchError(
+        lendingProtocol.connect(user1).borrow(ethers.parseEther("1001"))
+      );
+      const decoded = decodeLendingError(error);
+
+      expect(decoded.name).to.equal("ExceedsBorrowCapacity");
+      expect(decoded.args).to.deep.equal([
+        ethers.parseEther("1001"),
+        ethers.parseEther("1000"),
+      ]);
+      expect(decoded.message).to.equal(
+        "Your debt would be worth $1001.0, above your borrowing capacity of $1000.0"
+      );
+    });
+
+    it("Should describe paused actions", async function () {
+      const { lendingProtocol, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      await lendingProtocol.setActionPaused(1, true);
+
+      const decoded = decodeLendingError(
+        await catchError(lendingProtocol.connect(user1).borrow(1))
+      );
+
+      expect(decoded.name).to.equal("ActionPaused");
+      expect(decoded.message).to.equal(
+        "Borrows are paused by the protocol guardians"
+      );
+    });
+
+    it("Should decode OpenZeppelin errors", async function () {
+      const { lendingProtocol, user1 } = await loadFixture(
+        deployLendingProtocolFixture
+      );
+
+      const decoded = decodeLendingError(
+        await catchError(lendingProtocol.connect(user1).setReserveFactor(20))
+      );
+
+      expect(decoded.name).to.equal("OwnableUnauthorizedAccount");
+      expect(decoded.args).to.deep.equal([user1.address]);
+    });
+
+    it("Should fall back for errors without revert data", async function () {
+      expect(
+        decodeLendingError(new Error("network down"), "Failed to borrow")
+      ).to.deep.equal({
+        name: "Unknown",
+        args: [],
+        message: "Failed to borrow",
+      });
     });
   });
 });
@@ -600,6 +3853,48 @@ describe("Token Contracts", function () {
     });
   });
 
+  describe("MockPriceOracle", function () {
+    it("Should store prices with their update time", async function () {
+      const { collateralToken, owner } = await loadFixture(deployTokenFixture);
+
+      const MockPriceOracle = await ethers.getContractFactory(
+        "MockPriceOracle"
+      );
+      const priceOracle = await MockPriceOracle.deploy(owner.address);
+      const price = ethers.parseEther("1.5");
+
+      await expect(
+        priceOracle.setPrice(await collateralToken.getAddress(), price)
+      ).to.emit(priceOracle, "PriceUpdated");
+
+      const [storedPrice, updatedAt] = await priceOracle.getPrice(
+        await collateralToken.getAddress()
+      );
+      expect(storedPrice).to.equal(price);
+      expect(updatedAt).to.equal(await time.latest());
+    });
+
+    it("Should reject non-owner price updates", async function () {
+      const { collateralToken, owner, user1 } = await loadFixture(
+        deployTokenFixture
+      );
+
+      const MockPriceOracle = await ethers.getContractFactory(
+        "MockPriceOracle"
+      );
+      const priceOracle = await MockPriceOracle.deploy(owner.address);
+
+      await expect(
+        priceOracle
+          .connect(user1)
+          .setPrice(await collateralToken.getAddress(), ethers.parseEther("1"))
+      ).to.be.revertedWithCustomError(
+        priceOracle,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+  });
+
   describe("LoanToken", function () {
     it("Should have correct name and symbol", async function () {
       const { loanToken } = await loadFixture(deployTokenFixture);
@@ -627,3 +3922,90 @@ describe("Token Contracts", function () {
     });
   });
 });
+
+describe("KinkInterestRateModel", function () {
+  async function deployModelFixture() {
+    // 2% base, 20% up to 80% utilization, 300% above it
+    const KinkInterestRateModel = await ethers.getContractFactory(
+      "KinkInterestRateModel"
+    );
+    const model = await KinkInterestRateModel.deploy(
+      ethers.parseEther("0.02"),
+      ethers.parseEther("0.2"),
+      ethers.parseEther("3"),
+      ethers.parseEther("0.8")
+    );
+
+    return { model };
+  }
+
+  const perSecond = (ratePerYear: string) =>
+    ethers.parseEther(ratePerYear) / BigInt(YEAR);
+
+  it("Should convert yearly rates to per second rates", async function () {
+    const { model } = await loadFixture(deployModelFixture);
+
+    expect(await model.baseRatePerSecond()).to.equal(perSecond("0.02"));
+    expect(await model.multiplierPerSecond()).to.equal(perSecond("0.2"));
+    expect(await model.jumpMultiplierPerSecond()).to.equal(perSecond("3"));
+    expect(await model.kink()).to.equal(ethers.parseEther("0.8"));
+  });
+
+  it("Should compute utilization", async function () {
+    const { model } = await loadFixture(deployModelFixture);
+
+    expect(await model.utilizationRate(1000, 0)).to.equal(0);
+    expect(await model.utilizationRate(0, 0)).to.equal(0);
+    expect(await model.utilizationRate(750, 250)).to.equal(
+      ethers.parseEther("0.25")
+    );
+    expect(await model.utilizationRate(0, 1000)).to.equal(
+      ethers.parseEther("1")
+    );
+  });
+
+  it("Should charge the base rate without borrows", async function () {
+    const { model } = await loadFixture(deployModelFixture);
+
+    expect(await model.getBorrowRate(1000, 0)).to.equal(perSecond("0.02"));
+  });
+
+  it("Should increase linearly up to the kink", async function () {
+    const { model } = await loadFixture(deployModelFixture);
+
+    // 50% utilization: base + 50% of the multiplier
+    expect(await model.getBorrowRate(500, 500)).to.equal(
+      perSecond("0.02") + perSecond("0.2") / 2n
+    );
+
+    // 80% utilization: base + 80% of the multiplier
+    expect(await model.getBorrowRate(200, 800)).to.equal(
+      perSecond("0.02") + (perSecond("0.2") * 8n) / 10n
+    );
+  });
+
+  it("Should apply the jump multiplier above the kink", async function () {
+    const { model } = await loadFixture(deployModelFixture);
+
+    const rateAtKink = perSecond("0.02") + (perSecond("0.2") * 8n) / 10n;
+
+    // 100% utilization: 20% above the kink at the jump multiplier
+    expect(await model.getBorrowRate(0, 1000)).to.equal(
+      rateAtKink + (perSecond("3") * 2n) / 10n
+    );
+    expect(await model.getBorrowRate(100, 900)).to.be.greaterThan(
+      await model.getBorrowRate(200, 800)
+    );
+  });
+
+  it("Should reject a kink above 100%", async function () {
+    const KinkInterestRateModel = await ethers.getContractFactory(
+      "KinkInterestRateModel"
+    );
+
+    const kink = ethers.parseEther("1") + 1n;
+    await expect(KinkInterestRateModel.deploy(0, 0, 0, kink))
+      .to.be.revertedWithCustomError(KinkInterestRateModel, "InvalidKink")
+      .withArgs(kink);
+  });
+});
@@ -0,0 +1,106 @@
+import { expect } from "chai";
+import { ethers, ignition } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import LendingProtocolModule, {
+  deployConfig,
+} from "../ignition/modules/LendingProtocol";
+
+describe("LendingProtocolModule", function () {
+  async function deployModuleFixture() {
+    const [deployer] = await ethers.getSigners();
+    const contracts = await ignition.deploy(LendingProtocolModule);
+
+    const lendingProtocol = await ethers.getContractAt(
+      "LendingProtocol",
+      await contracts.lendingProtocol.getAddress()
+    );
+    const priceOracle = await ethers.getContractAt(
+      "MockPriceOracle",
+      await contracts.priceOracle.getAddress()
+    );
+    const loanToken = await ethers.getContractAt(
+      "LoanToken",
+      await contracts.loanToken.getAddress()
+    );
+
+    return { contracts, lendingProtocol, priceOracle, loanToken, deployer };
+  }
+
+  it("Should wire the protocol to its token, oracle and rate model", async function () {
+    const { contracts, lendingProtocol, deployer } = await loadFixture(
+      deployModuleFixture
+    );
+
+    expect(await lendingProtocol.loanToken()).to.equal(
+      await contracts.loanToken.getAddress()
+    );
+    expect(await lendingProtocol.priceOracle()).to.equal(
+      await contracts.priceOracle.getAddress()
+    );
+    expect(await lendingProtocol.interestRateModel()).to.equal(
+      await contracts.interestRateModel.getAddress()
+    );
+    expect(await lendingProtocol.shareToken()).to.equal(
+      await contracts.shareToken.getAddress()
+    );
+    expect(await lendingProtocol.owner()).to.equal(deployer.address);
+  });
+
+  it("Should apply the protocol parameters from the deploy config", async function () {
+    const { lendingProtocol, priceOracle, loanToken } = await loadFixture(
+      deployModuleFixture
+    );
+
+    expect(await lendingProtocol.reserveFactor()).to.equal(
+      deployConfig.reserveFactor
+    );
+    expect(await lendingProtocol.flashLoanFee()).to.equal(
+      deployConfig.flashLoanFee
+    );
+
+    const [loanPrice] = await priceOracle.getPrice(
+      await loanToken.getAddress()
+    );
+    expect(loanPrice).to.equal(ethers.parseEther(deployConfig.loanPrice));
+  });
+
+  it("Should list every configured collateral asset", async function () {
+    const { contracts, lendingProtocol, priceOracle } = await loadFixture(
+      deployModuleFixture
+    );
+
+    const collateralAssets = await lendingProtocol.getCollateralAssets();
+    expect(collateralAssets).to.have.length(deployConfig.collaterals.length);
+
+    for (const [i, asset] of deployConfig.collaterals.entries()) {
+      const config = await lendingProtocol.collateralConfigs(
+        collateralAssets[i]
+      );
+      expect(config.listed).to.equal(true);
+      expect(config.collateralizationRatio).to.equal(
+        asset.collateralizationRatio
+      );
+      expect(config.depositCap).to.equal(ethers.parseEther(asset.depositCap));
+
+      if (!asset.oracle) {
+        expect(config.oracle).to.equal(
+          await contracts.priceOracle.getAddress()
+        );
+        const [price] = await priceOracle.getPrice(collateralAssets[i]);
+        expect(price).to.equal(ethers.parseEther(asset.price!));
+      }
+    }
+  });
+
+  it("Should fund the pool from the deployer", async function () {
+    const { lendingProtocol, deployer } = await loadFixture(
+      deployModuleFixture
+    );
+
+    const fundAmount = ethers.parseEther(deployConfig.fundAmount);
+    expect(await lendingProtocol.totalSupplyAssets()).to.equal(fundAmount);
+    expect(await lendingProtocol.supplyBalance(deployer.address)).to.equal(
+      fundAmount
+    );
+  });
+});
@@ -0,0 +1,268 @@
+import { expect } from "chai";
+import hre, { ethers, ignition } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatPluginError } from "hardhat/plugins";
+import * as fs from "fs";
+import LendingProtocolModule, {
+  deployConfig,
+} from "../ignition/modules/LendingProtocol";
+import {
+  DeploymentRecord,
+  deploymentPath,
+  writeDeployment,
+} from "../scripts/deployments";
+
+describe("Lending Tasks", function () {
+  // The tasks read the record of the connected chain, a local node's one is
+  // kept aside while the tests write their own
+  const recordPath = deploymentPath(31337);
+  let savedRecord: string | null = null;
+
+  before(function () {
+    if (fs.existsSync(recordPath)) {
+      savedRecord = fs.readFileSync(recordPath, "utf8");
+    }
+  });
+
+  after(function () {
+    if (savedRecord !== null) {
+      fs.writeFileSync(recordPath, savedRecord);
+    } else {
+      fs.rmSync(recordPath, { force: true });
+    }
+  });
+
+  async function deployTasksFixture() {
+    const [owner, user1] = await ethers.getSigners();
+    const contracts = await ignition.deploy(LendingProtocolModule);
+
+    const lendingProtocol = await ethers.getContractAt(
+      "LendingProtocol",
+      await contracts.lendingProtocol.getAddress()
+    );
+    const loanToken = await ethers.getContractAt(
+      "LoanToken",
+      await contracts.loanToken.getAddress()
+    );
+    const [collateralAsset] = await lendingProtocol.getCollateralAssets();
+    const priceOracle = await contracts.priceOracle.getAddress();
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const record: DeploymentRecord = {
+      chainId: Number(chainId),
+      network: "hardhat",
+      deploymentId: `chain-${chainId}`,
+      deployer: owner.address,
+      updatedAt: new Date().toISOString(),
+      collateralToken: collateralAsset,
+      collaterals: [
+        {
+          symbol: deployConfig.collaterals[0].symbol,
+          address: collateralAsset,
+          oracle: priceOracle,
+        },
+      ],
+      loanToken: await loanToken.getAddress(),
+      priceOracle,
+      interestRateModel: await contracts.interestRateModel.getAddress(),
+      lendingProtocol: await lendingProtocol.getAddress(),
+      shareToken: await contracts.shareToken.getAddress(),
+      contracts: {},
+    };
+
+    return { record, lendingProtocol, loanToken, owner, user1 };
+  }
+
+  // Run a task and return what it printed to stdout. Progress logs of --json
+  // runs go to stderr and are dropped
+  async function runTask(name: string, args: Record<string, unknown> = {}) {
+    const lines: string[] = [];
+    const { log, error } = console;
+    console.log = (...data: unknown[]) => lines.push(data.join(" "));
+    console.error = () => {};
+    try {
+      await hre.run(name, args);
+    } finally {
+      console.log = log;
+      console.error = error;
+    }
+    return lines.join("\n");
+  }
+
+  async function runJson(name: string, args: Record<string, unknown> = {}) {
+    return JSON.parse(await runTask(name, { ...args, json: true }));
+  }
+
+  beforeEach(async function () {
+    const { record } = await loadFixture(deployTasksFixture);
+    writeDeployment(record);
+  });
+
+  describe("Input validation", function () {
+    it("Should reject a user that is not an address", async function () {
+      await expect(
+        runTask("lending:position", { user: "0x1234" })
+      ).to.be.rejectedWith(
+        HardhatPluginError,
+        "Invalid --user 0x1234, expected an address"
+      );
+      await expect(
+        runTask("lending:mint", { token: "dDAI", to: "alice" })
+      ).to.be.rejectedWith(
+        HardhatPluginError,
+        "Invalid --to alice, expected an address"
+      );
+    });
+
+    it("Should accept a lowercase address and print it checksummed", async function () {
+      const { user1 } = await loadFixture(deployTasksFixture);
+
+      const position = await runJson("lending:position", {
+        user: user1.address.toLowerCase(),
+      });
+
+      expect(position.user).to.equal(user1.address);
+    });
+
+    it("Should reject amounts that are not positive numbers", async function () {
+      await expect(
+        runTask("lending:fund", { amount: "ten" })
+      ).to.be.rejectedWith(
+        HardhatPluginError,
+        "Invalid amount ten, expected a number of whole tokens"
+      );
+      await expect(runTask("lending:fund", { amount: "0" })).to.be.rejectedWith(
+        HardhatPluginError,
+        "Invalid amount 0, it must be greater than 0"
+      );
+    });
+
+    it("Should reject an unknown token", async function () {
+      const { user1 } = await loadFixture(deployTasksFixture);
+
+      await expect(
+        runTask("lending:mint", { token: "WETH", to: user1.address })
+      ).to.be.rejectedWith(
+        HardhatPluginError,
+        `Unknown token WETH, expected one of: dDAI, ${deployConfig.collaterals[0].symbol}`
+      );
+    });
+  });
+
+  describe("Output", function () {
+    it("Should print the pool status as JSON", async function () {
+      const { record, lendingProtocol } = await loadFixture(deployTasksFixture);
+
+      const status = await runJson("lending:status");
+
+      expect(status.lendingProtocol).to.equal(record.lendingProtocol);
+      expect(status.totalSupplied).to.equal(
+        ethers.formatEther(await lendingProtocol.totalSupplyAssets())
+      );
+      expect(status.totalSupplied).to.equal(
+        ethers.formatEther(ethers.parseEther(deployConfig.fundAmount))
+      );
+      expect(status.collaterals).to.deep.equal([
+        {
+          symbol: deployConfig.collaterals[0].symbol,
+          address: record.collateralToken,
+          collateralizationRatio:
+            deployConfig.collaterals[0].collateralizationRatio,
+          totalDeposits: "0.0",
+          depositCap: ethers.formatEther(
+            ethers.parseEther(deployConfig.collaterals[0].depositCap)
+          ),
+        },
+      ]);
+      expect(status.paused).to.deep.equal({
+        deposit: false,
+        borrow: false,
+        repay: false,
+        withdraw: false,
+        liquidate: false,
+        flashloan: false,
+      });
+    });
+
+    it("Should print the result for people without --json", async function () {
+      const { user1 } = await loadFixture(deployTasksFixture);
+
+      const output = await runTask("lending:position", { user: user1.address });
+
+      expect(output).to.include(`=== POSITION ${user1.address} ===`);
+      expect(output).to.include("Health factor: no debt");
+    });
+  });
+
+  describe("Dry run", function () {
+    it("Should not send the mint with --dryRun", async function () {
+      const { loanToken, user1 } = await loadFixture(deployTasksFixture);
+      const blockNumber = await ethers.provider.getBlockNumber();
+
+      const result = await runJson("lending:mint", {
+        token: "dDAI",
+        to: user1.address,
+        amount: "5",
+        dryRun: true,
+      });
+
+      expect(result).to.include({
+        token: "dDAI",
+        to: user1.address,
+        amount: "5.0",
+        dryRun: true,
+        balance: "0.0",
+      });
+      expect(result).not.to.have.property("transaction");
+      expect(await loanToken.balanceOf(user1.address)).to.equal(0n);
+      expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+    });
+
+    it("Should send the mint without --dryRun", async function () {
+      const { loanToken, user1 } = await loadFixture(deployTasksFixture);
+
+      const result = await runJson("lending:mint", {
+        token: "dDAI",
+        to: user1.address,
+        amount: "5",
+      });
+
+      expect(result.dryRun).to.equal(false);
+      expect(result.transaction).to.match(/^0x[0-9a-f]{64}$/);
+      expect(await loanToken.balanceOf(user1.address)).to.equal(
+        ethers.parseEther("5")
+      );
+    });
+
+    it("Should leave the pool untouched when funding with --dryRun", async function () {
+      const { lendingProtocol, loanToken, owner } = await loadFixture(
+        deployTasksFixture
+      );
+      const supplied = await lendingProtocol.totalSupplyAssets();
+      const balance = await loanToken.balanceOf(owner.address);
+
+      // More than the owner holds: a mint, an approval and the funding
+      const result = await runJson("lending:fund", {
+        amount: ethers.formatEther(balance + ethers.parseEther("1000")),
+        mint: true,
+        dryRun: true,
+      });
+
+      expect(result.dryRun).to.equal(true);
+      expect(result.transactions).to.deep.equal([null, null, null]);
+      expect(await lendingProtocol.totalSupplyAssets()).to.equal(supplied);
+      expect(await loanToken.balanceOf(owner.address)).to.equal(balance);
+    });
+  });
+
+  describe("Deployment", function () {
+    it("Should fail when the network has no deployment record", async function () {
+      fs.rmSync(recordPath);
+
+      await expect(runTask("lending:status")).to.be.rejectedWith(
+        HardhatPluginError,
+        "(chain 31337). Please deploy contracts first."
+      );
+    });
+  });
+});
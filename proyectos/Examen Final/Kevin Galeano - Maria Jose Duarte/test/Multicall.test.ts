@@ -0,0 +1,186 @@
+import { expect } from "chai";
+import { ethers, ignition } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { ContractRunner, TransactionRequest } from "ethers";
+import LendingProtocolModule from "../ignition/modules/LendingProtocol";
+import { decodeLendingError } from "../src/utils/errors";
+import { ContractCall, multicall, unwrap } from "../src/utils/multicall";
+
+describe("Multicall", function () {
+  async function deployMulticallFixture() {
+    const [owner, user1] = await ethers.getSigners();
+    const contracts = await ignition.deploy(LendingProtocolModule);
+    const Multicall3 = await ethers.getContractFactory("Multicall3");
+    const multicall3 = await Multicall3.deploy();
+
+    const lendingProtocol = await ethers.getContractAt(
+      "LendingProtocol",
+      await contracts.lendingProtocol.getAddress()
+    );
+    const loanToken = await ethers.getContractAt(
+      "LoanToken",
+      await contracts.loanToken.getAddress()
+    );
+    const [collateralAsset] = await lendingProtocol.getCollateralAssets();
+    const collateralToken = await ethers.getContractAt(
+      "CollateralToken",
+      collateralAsset
+    );
+
+    await collateralToken.mint(user1.address, ethers.parseEther("1000"));
+    await collateralToken
+      .connect(user1)
+      .approve(await lendingProtocol.getAddress(), ethers.parseEther("300"));
+    await lendingProtocol
+      .connect(user1)
+      .depositCollateral(collateralAsset, ethers.parseEther("150"));
+
+    return {
+      multicall3,
+      lendingProtocol,
+      loanToken,
+      collateralToken,
+      owner,
+      user1,
+    };
+  }
+
+  // Provider that counts the eth_call requests it sends
+  function countingRunner() {
+    const runner = {
+      provider: ethers.provider,
+      requests: 0,
+      call(tx: TransactionRequest) {
+        runner.requests++;
+        return ethers.provider.call(tx);
+      },
+    };
+    return runner satisfies ContractRunner;
+  }
+
+  async function userCalls(
+    fixture: Awaited<ReturnType<typeof deployMulticallFixture>>
+  ): Promise<ContractCall[]> {
+    const { lendingProtocol, collateralToken, user1 } = fixture;
+    return [
+      { contract: collateralToken, method: "balanceOf", args: [user1.address] },
+      {
+        contract: collateralToken,
+        method: "allowance",
+        args: [user1.address, await lendingProtocol.getAddress()],
+      },
+      {
+        contract: lendingProtocol,
+        method: "getAccountSnapshot",
+        args: [user1.address],
+      },
+      { contract: lendingProtocol, method: "getBorrowRate" },
+    ];
+  }
+
+  it("Should return the same values as single calls in one request", async function () {
+    const fixture = await loadFixture(deployMulticallFixture);
+    const { multicall3, lendingProtocol, user1 } = fixture;
+    const runner = countingRunner();
+
+    const results = await multicall(runner, await userCalls(fixture), {
+      address: await multicall3.getAddress(),
+    });
+
+    expect(runner.requests).to.equal(1);
+    const [balance, allowance, , borrowRate] = results.map(unwrap);
+    const snapshot = unwrap<{ collaterals: { amount: bigint }[] }>(results[2]);
+    expect(balance).to.equal(ethers.parseEther("850"));
+    expect(allowance).to.equal(ethers.parseEther("150"));
+    expect(snapshot.collaterals[0].amount).to.equal(ethers.parseEther("150"));
+    expect(snapshot).to.deep.equal(
+      await lendingProtocol.getAccountSnapshot(user1.address)
+    );
+    expect(borrowRate).to.equal(await lendingProtocol.getBorrowRate());
+  });
+
+  it("Should split the calls into batches", async function () {
+    const fixture = await loadFixture(deployMulticallFixture);
+    const runner = countingRunner();
+
+    const results = await multicall(runner, await userCalls(fixture), {
+      address: await fixture.multicall3.getAddress(),
+      batchSize: 3,
+    });
+
+    expect(runner.requests).to.equal(2);
+    expect(results.every((result) => result.success)).to.be.true;
+  });
+
+  it("Should only fail the reverted calls", async function () {
+    const { multicall3, lendingProtocol, loanToken, collateralToken } =
+      await loadFixture(deployMulticallFixture);
+    const asset = await collateralToken.getAddress();
+
+    const [fee, unsupported] = await multicall(
+      ethers.provider,
+      [
+        {
+          contract: lendingProtocol,
+          method: "flashFee",
+          args: [await loanToken.getAddress(), ethers.parseEther("100")],
+        },
+        {
+          contract: lendingProtocol,
+          method: "flashFee",
+          args: [asset, ethers.parseEther("100")],
+        },
+      ],
+      { address: await multicall3.getAddress() }
+    );
+
+    expect(unwrap(fee)).to.equal(
+      await lendingProtocol.flashFee(
+        await loanToken.getAddress(),
+        ethers.parseEther("100")
+      )
+    );
+    expect(unsupported.success).to.be.false;
+    expect(() => unwrap(unsupported)).to.throw("flashFee reverted");
+    if (!unsupported.success) {
+      const decoded = decodeLendingError(unsupported.error);
+      expect(decoded.name).to.equal("UnsupportedFlashLoanToken");
+      expect(decoded.args).to.deep.equal([asset]);
+    }
+  });
+
+  it("Should fall back to single calls without Multicall3", async function () {
+    const fixture = await loadFixture(deployMulticallFixture);
+    const { lendingProtocol, collateralToken, owner, user1 } = fixture;
+    const runner = countingRunner();
+
+    // No contract at the owner address
+    const results = await multicall(
+      runner,
+      [
+        ...(await userCalls(fixture)),
+        {
+          contract: lendingProtocol,
+          method: "flashFee",
+          args: [await collateralToken.getAddress(), 1n],
+        },
+      ],
+      { address: owner.address }
+    );
+
+    // The failed batch plus one request per call
+    expect(runner.requests).to.equal(6);
+    expect(unwrap(results[0])).to.equal(
+      await collateralToken.balanceOf(user1.address)
+    );
+    expect(unwrap(results[2])).to.deep.equal(
+      await lendingProtocol.getAccountSnapshot(user1.address)
+    );
+    expect(results[4].success).to.be.false;
+    if (!results[4].success) {
+      expect(decodeLendingError(results[4].error).name).to.equal(
+        "UnsupportedFlashLoanToken"
+      );
+    }
+  });
+});
@@ -0,0 +1,246 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  bumpFees,
+  cancelPendingTransactions,
+  estimateFees,
+  getNonces,
+  sendTransaction,
+} from "../scripts/transactions";
+
+describe("Transaction Sender", function () {
+  // Short timeouts so an unmined transaction is bumped quickly
+  const fastOptions = {
+    confirmTimeout: 200,
+    pollInterval: 20,
+    log: () => {},
+  };
+
+  async function deployTokenFixture() {
+    const [owner, spender] = await ethers.getSigners();
+    const LoanToken = await ethers.getContractFactory("LoanToken");
+    const loanToken = await LoanToken.deploy(owner.address);
+    return { loanToken, owner, spender };
+  }
+
+  async function pendingTransactions() {
+    return network.provider.send("eth_pendingTransactions", []) as Promise<
+      { hash: string; nonce: string; maxFeePerGas: string }[]
+    >;
+  }
+
+  // Resolve once the mempool holds a transaction matching `condition`
+  async function waitForPending(
+    condition: (tx: { maxFeePerGas: string }) => boolean
+  ) {
+    while (!(await pendingTransactions()).some(condition)) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  let loanToken: Awaited<ReturnType<typeof deployTokenFixture>>["loanToken"];
+  let owner: Awaited<ReturnType<typeof deployTokenFixture>>["owner"];
+  let spender: Awaited<ReturnType<typeof deployTokenFixture>>["spender"];
+
+  // Transactions stay in the mempool until a test mines them
+  beforeEach(async function () {
+    ({ loanToken, owner, spender } = await loadFixture(deployTokenFixture));
+    await network.provider.send("evm_setAutomine", [false]);
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_setAutomine", [true]);
+  });
+
+  describe("Fees", function () {
+    it("Should leave room for the base fee to double", async function () {
+      const block = await ethers.provider.getBlock("latest");
+      const fees = await estimateFees(ethers.provider);
+
+      expect(fees.gasPrice).to.equal(undefined);
+      expect(fees.maxFeePerGas).to.equal(
+        block!.baseFeePerGas! * 2n + fees.maxPriorityFeePerGas!
+      );
+    });
+
+    it("Should bump every fee by the given percent", async function () {
+      const bumped = bumpFees(
+        { maxFeePerGas: 1000n, maxPriorityFeePerGas: 100n },
+        25
+      );
+      expect(bumped).to.deep.equal({
+        maxFeePerGas: 1250n,
+        maxPriorityFeePerGas: 125n,
+      });
+      expect(bumpFees({ gasPrice: 1000n }, 25)).to.deep.equal({
+        gasPrice: 1250n,
+      });
+    });
+
+    it("Should clamp fees to the cap and stop below a valid replacement", async function () {
+      const fees = { maxFeePerGas: 1000n, maxPriorityFeePerGas: 100n };
+
+      expect(bumpFees(fees, 25, 1200n)).to.deep.equal({
+        maxFeePerGas: 1200n,
+        maxPriorityFeePerGas: 125n,
+      });
+      expect(bumpFees(fees, 25, 1050n)).to.equal(null);
+    });
+  });
+
+  describe("Sending", function () {
+    it("Should add the gas margin to the estimate", async function () {
+      const request = await loanToken.approve.populateTransaction(
+        spender.address,
+        100n
+      );
+      const estimate = await ethers.provider.estimateGas({
+        ...request,
+        from: owner.address,
+      });
+
+      const sending = sendTransaction(owner, request, {
+        ...fastOptions,
+        confirmTimeout: 10000,
+        gasMargin: 50,
+      });
+      await waitForPending(() => true);
+      await network.provider.send("evm_mine");
+      const receipt = await sending;
+
+      const tx = await ethers.provider.getTransaction(receipt!.hash);
+      expect(tx!.type).to.equal(2);
+      expect(tx!.gasLimit).to.equal((estimate * 150n) / 100n);
+      expect(
+        await loanToken.allowance(owner.address, spender.address)
+      ).to.equal(100n);
+    });
+
+    it("Should replace an unmined transaction with higher fees and the same nonce", async function () {
+      const { pending: nonce } = await getNonces(
+        ethers.provider,
+        owner.address
+      );
+      const fees = await estimateFees(ethers.provider);
+
+      const sending = sendTransaction(
+        owner,
+        await loanToken.approve.populateTransaction(spender.address, 100n),
+        { ...fastOptions, bumpPercent: 25 }
+      );
+
+      // Mine once the first replacement reaches the mempool
+      const replacementFee = (fees.maxFeePerGas! * 125n) / 100n;
+      await waitForPending((tx) => BigInt(tx.maxFeePerGas) >= replacementFee);
+      await network.provider.send("evm_mine");
+      const receipt = await sending;
+
+      const tx = await ethers.provider.getTransaction(receipt!.hash);
+      expect(tx!.nonce).to.equal(nonce);
+      expect(tx!.maxFeePerGas).to.be.gte(replacementFee);
+      expect(await pendingTransactions()).to.have.length(0);
+      expect(await ethers.provider.getTransactionCount(owner.address)).to.equal(
+        nonce + 1
+      );
+    });
+
+    it("Should give up after the maximum attempts without exceeding the fee cap", async function () {
+      const fees = await estimateFees(ethers.provider);
+      const cap = (fees.maxFeePerGas! * 150n) / 100n;
+
+      await expect(
+        sendTransaction(
+          owner,
+          await loanToken.approve.populateTransaction(spender.address, 100n),
+          {
+            ...fastOptions,
+            bumpPercent: 25,
+            maxAttempts: 4,
+            maxFeePerGas: cap,
+          }
+        )
+      ).to.be.rejectedWith("not mined after 4 attempts");
+
+      // Bumped once by 25% and clamped once to the cap, then left waiting
+      const [stuck] = await pendingTransactions();
+      expect(BigInt(stuck.maxFeePerGas)).to.equal(cap);
+    });
+
+    it("Should only estimate and print in dry run mode", async function () {
+      const messages: string[] = [];
+
+      const receipt = await sendTransaction(
+        owner,
+        await loanToken.approve.populateTransaction(spender.address, 100n),
+        {
+          ...fastOptions,
+          label: "Approve",
+          dryRun: true,
+          log: (message) => messages.push(message),
+        }
+      );
+
+      expect(receipt).to.equal(null);
+      expect(messages[0]).to.match(/^Dry run Approve: nonce \d+, gas limit/);
+      expect(await pendingTransactions()).to.have.length(0);
+    });
+
+    it("Should report a revert in dry run mode with the decoded error", async function () {
+      const messages: string[] = [];
+
+      const receipt = await sendTransaction(
+        spender,
+        await loanToken.mint.populateTransaction(spender.address, 100n),
+        {
+          ...fastOptions,
+          label: "Mint",
+          dryRun: true,
+          log: (message) => messages.push(message),
+        }
+      );
+
+      expect(receipt).to.equal(null);
+      expect(messages).to.deep.equal([
+        "Dry run Mint: would revert (Only the contract owner can do this)",
+      ]);
+      expect(await pendingTransactions()).to.have.length(0);
+    });
+  });
+
+  describe("Stuck Transactions", function () {
+    it("Should cancel pending transactions by outbidding them", async function () {
+      const fees = await estimateFees(ethers.provider);
+
+      // A transaction paying double the suggested fees is stuck in the mempool
+      await owner.sendTransaction({
+        ...(await loanToken.approve.populateTransaction(spender.address, 100n)),
+        maxFeePerGas: fees.maxFeePerGas! * 2n,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas! * 2n,
+      });
+      const { latest, pending } = await getNonces(
+        ethers.provider,
+        owner.address
+      );
+      expect(pending).to.equal(latest + 1);
+
+      const cancelling = cancelPendingTransactions(owner, {
+        ...fastOptions,
+        confirmTimeout: 10000,
+      });
+      await waitForPending(
+        (tx) => BigInt(tx.maxFeePerGas) > fees.maxFeePerGas! * 2n
+      );
+      await network.provider.send("evm_mine");
+      const [receipt] = await cancelling;
+
+      expect(receipt!.to).to.equal(owner.address);
+      expect(
+        await loanToken.allowance(owner.address, spender.address)
+      ).to.equal(0n);
+      expect(await ethers.provider.getTransactionCount(owner.address)).to.equal(
+        pending
+      );
+    });
+  });
+});
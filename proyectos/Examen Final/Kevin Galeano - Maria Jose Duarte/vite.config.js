@@ -4,6 +4,8 @@ import react from "@vitejs/plugin-react";
 export default defineConfig({
   plugins: [react()],
   root: "./src",
+  // VITE_* variables are read from the project's .env
+  envDir: "..",
   build: {
     outDir: "../dist",
   },
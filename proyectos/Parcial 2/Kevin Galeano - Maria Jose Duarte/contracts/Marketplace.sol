@@ -2,77 +2,1188 @@
 pragma solidity ^0.8.28;
 
 import "@openzeppelin/contracts/token/ERC721/extensions/ERC721URIStorage.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/common/ERC2981.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/security/Pausable.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+
+contract Marketplace is
+    ERC721URIStorage,
+    ERC2981,
+    EIP712,
+    AccessControl,
+    Pausable,
+    ReentrancyGuard
+{
+    using SafeERC20 for IERC20;
+
+    address public constant ETH = address(0); // Moneda de las ventas en ETH
+
+    // DEFAULT_ADMIN_ROLE administra los roles, la comisión y quién la cobra
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    // Habilita monedas de pago y oculta NFTs del marketplace
+    bytes32 public constant CURATOR_ROLE = keccak256("CURATOR_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
 
-contract Marketplace is ERC721URIStorage, Ownable, ReentrancyGuard {
     uint256 public tokenCounter;
+    uint256 public offerCounter;
     uint96 public constant DECIMALS = 1e18;
+    uint96 public constant MAX_ROYALTY_BPS = 1000; // Regalía máxima: 10%
+    uint96 public constant MAX_PLATFORM_FEE_BPS = 1000; // Comisión máxima: 10%
+
+    uint96 public constant MIN_BID_INCREMENT_BPS = 500; // Puja mínima: +5%
+    uint64 public constant ANTI_SNIPING_WINDOW = 10 minutes;
+    uint64 public constant MIN_AUCTION_DURATION = 15 minutes;
+    uint64 public constant MAX_AUCTION_DURATION = 30 days;
+
+    uint256 public constant MAX_BATCH_SIZE = 50; // NFTs por lote
+
+    // Comisión del marketplace en puntos básicos, se acredita a feeRecipient
+    uint96 public platformFeeBps = 250;
+    address public feeRecipient;
 
     struct Listing {
         address owner;
         address buyer;
         uint96 price;
         bool isSold;
+        address currency; // ETH o un ERC20 permitido
+    }
+
+    // Inglesa: precio ascendente por pujas. Holandesa: precio que baja con el
+    // tiempo hasta que alguien compra
+    enum AuctionKind {
+        English,
+        Dutch
+    }
+
+    // El NFT queda en el contrato mientras dura la subasta
+    struct Auction {
+        address seller;
+        AuctionKind kind;
+        uint64 startTime;
+        uint64 endTime;
+        address currency;
+        uint96 startPrice; // Inglesa: puja mínima. Holandesa: precio inicial
+        uint96 endPrice; // Holandesa: precio al terminar. Inglesa: 0
+        address highestBidder;
+        uint96 highestBid;
+        bool active;
     }
 
     mapping(uint256 => Listing) public listings; // tokenId => información de la venta
-    mapping(address => uint256) public pendingWithdrawals; // Saldo pendiente por retirar para cada vendedor
+    // Oferta con el monto en custodia del contrato. Una oferta de colección
+    // la acepta quien tenga cualquier NFT del marketplace
+    struct Offer {
+        address buyer;
+        uint96 amount;
+        address currency;
+        uint64 expiresAt;
+        bool collection;
+        bool active;
+        uint256 tokenId; // Sin uso en las ofertas de colección
+    }
 
-    event ItemListed(uint256 indexed tokenId, address owner, uint96 price);
+    mapping(uint256 => Auction) public auctions; // tokenId => última subasta
+    // Orden de venta firmada fuera de la cadena (EIP-712). Vale mientras no
+    // venza y su `counter` sea el actual del vendedor
+    struct SellOrder {
+        address seller;
+        uint256 tokenId;
+        uint96 price;
+        address currency;
+        uint64 expiresAt;
+        uint256 counter;
+    }
+
+    bytes32 public constant SELL_ORDER_TYPEHASH =
+        keccak256(
+            "SellOrder(address seller,uint256 tokenId,uint96 price,"
+            "address currency,uint64 expiresAt,uint256 counter)"
+        );
+
+    // Voucher firmado por un creador: el NFT se mintea recién cuando un
+    // comprador lo canjea y paga el precio, junto con el gas del minteo.
+    // Vale hasta `deadline` o hasta que el creador lo cancele
+    struct MintVoucher {
+        address creator;
+        string uri;
+        uint96 price;
+        address currency;
+        uint96 royaltyBps;
+        uint64 deadline;
+    }
+
+    bytes32 public constant MINT_VOUCHER_TYPEHASH =
+        keccak256(
+            "MintVoucher(address creator,string uri,uint96 price,"
+            "address currency,uint96 royaltyBps,uint64 deadline)"
+        );
+
+    mapping(uint256 => Offer) public offers; // offerId => oferta
+    // Subir el contador de un vendedor invalida todas sus órdenes firmadas
+    mapping(address => uint256) public orderCounters;
+    mapping(bytes32 => bool) public closedOrders; // Completadas o canceladas
+    mapping(bytes32 => bool) public redeemedVouchers; // Canjeados o cancelados
+    // vendedor => moneda => saldo pendiente por retirar
+    mapping(address => mapping(address => uint256)) public pendingWithdrawals;
+    mapping(address => bool) public allowedPaymentTokens; // ERC20 aceptados como pago
+    // Ocultos por un curador: no se pueden listar, subastar ni vender
+    mapping(uint256 => bool) public hiddenTokens;
+
+    event ItemListed(
+        uint256 indexed tokenId,
+        address owner,
+        uint96 price,
+        address currency
+    );
     event ItemSold(uint256 indexed tokenId, address buyer, uint96 price);
+    event ListingCanceled(uint256 indexed tokenId);
+    event PriceUpdated(uint256 indexed tokenId, uint96 price);
+    event PaymentTokenUpdated(address indexed token, bool allowed);
+    event PlatformFeeUpdated(uint96 feeBps);
+    event FeeRecipientUpdated(address feeRecipient);
+    event TokenHiddenUpdated(uint256 indexed tokenId, bool hidden);
+    event AuctionCreated(
+        uint256 indexed tokenId,
+        address seller,
+        AuctionKind kind,
+        address currency,
+        uint96 startPrice,
+        uint96 endPrice,
+        uint64 startTime,
+        uint64 endTime
+    );
+    event BidPlaced(uint256 indexed tokenId, address bidder, uint96 amount);
+    event AuctionExtended(uint256 indexed tokenId, uint64 endTime);
+    event AuctionSettled(uint256 indexed tokenId, address winner, uint96 price);
+    event AuctionCanceled(uint256 indexed tokenId);
+    event OfferCreated(
+        uint256 indexed offerId,
+        address buyer,
+        uint256 tokenId,
+        bool collection,
+        uint96 amount,
+        address currency,
+        uint64 expiresAt
+    );
+    event OfferAccepted(
+        uint256 indexed offerId,
+        uint256 tokenId,
+        address seller
+    );
+    event OfferCanceled(uint256 indexed offerId);
+    event OrderFilled(
+        bytes32 indexed orderHash,
+        uint256 indexed tokenId,
+        address seller,
+        address buyer,
+        uint96 price,
+        address currency
+    );
+    event OrderCanceled(bytes32 indexed orderHash);
+    event OrderCounterIncremented(address indexed seller, uint256 counter);
+    event VoucherRedeemed(
+        bytes32 indexed voucherHash,
+        uint256 indexed tokenId,
+        address creator,
+        address buyer,
+        uint96 price,
+        address currency
+    );
+    event VoucherCanceled(bytes32 indexed voucherHash);
+    // Un NFT del lote que no se minteó o no se compró, con el selector del
+    // error que habría revertido la operación individual
+    event BatchItemSkipped(uint256 index, bytes4 reason);
+    event SaleProceeds(
+        uint256 indexed tokenId,
+        uint256 sellerAmount,
+        address royaltyReceiver,
+        uint256 royaltyAmount,
+        uint256 platformFee
+    );
 
-    constructor() ERC721("NFTMarket", "NFTM") {
+    error InvalidPrice(); // El precio de venta debe ser mayor a 0
+    error AlreadySold(uint256 tokenId);
+    error IncorrectPrice(uint256 tokenId, uint256 expected, uint256 sent);
+    error NoFundsToWithdraw(address account);
+    error NotListed(uint256 tokenId); // No hay una venta activa para el NFT
+    error AlreadyListed(uint256 tokenId);
+    error NotTokenOwner(uint256 tokenId, address account);
+    error PaymentTokenNotAllowed(address token);
+    error InvalidRoyalty(uint96 royaltyBps);
+    error InvalidPlatformFee(uint96 feeBps);
+    error InvalidDuration(uint64 duration);
+    error AuctionNotActive(uint256 tokenId);
+    error AuctionEnded(uint256 tokenId, uint64 endTime);
+    error AuctionNotEnded(uint256 tokenId, uint64 endTime);
+    error WrongAuctionKind(uint256 tokenId);
+    error BidTooLow(uint256 tokenId, uint256 minimum, uint256 amount);
+    error AuctionHasBids(uint256 tokenId);
+    error InvalidExpiration(uint64 expiresAt);
+    error IncorrectOfferValue(uint256 expected, uint256 sent);
+    error OfferNotActive(uint256 offerId);
+    error OfferExpired(uint256 offerId, uint64 expiresAt);
+    error OfferTokenMismatch(uint256 offerId, uint256 tokenId);
+    error NotOfferMaker(uint256 offerId, address account);
+    error InvalidSignature();
+    error OrderExpired(bytes32 orderHash, uint64 expiresAt);
+    error OrderClosed(bytes32 orderHash); // Completada, cancelada o sin validez
+    error NotOrderSeller(bytes32 orderHash, address account);
+    error VoucherAlreadyRedeemed(bytes32 voucherHash); // O cancelado
+    error VoucherExpired(bytes32 voucherHash, uint64 deadline);
+    error NotVoucherCreator(bytes32 voucherHash, address account);
+    error InvalidBatchSize(uint256 size);
+    error BatchLengthMismatch(uint256 uris, uint256 prices);
+    error IncorrectBatchValue(uint256 expected, uint256 sent);
+    error TokenHidden(uint256 tokenId);
+    error InvalidFeeRecipient();
+
+    // Quien despliega recibe todos los roles y cobra la comisión
+    constructor() ERC721("NFTMarket", "NFTM") EIP712("NFTMarket", "1") {
         tokenCounter = 0;
+        feeRecipient = msg.sender;
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(MINTER_ROLE, msg.sender);
+        _grantRole(CURATOR_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
     }
 
-    // Permite al usuario mintear un NFT y listarlo para la venta
-    function mintAndList(string memory _uri, uint96 _price) external {
-        require(_price > 0, "Price must be > 0");
+    // Agrega o quita un ERC20 de las monedas aceptadas. Las ventas ya
+    // publicadas en esa moneda y sus saldos por retirar no se ven afectados
+    function setPaymentToken(
+        address _token,
+        bool _allowed
+    ) external onlyRole(CURATOR_ROLE) {
+        if (_token == ETH) revert PaymentTokenNotAllowed(_token);
+        allowedPaymentTokens[_token] = _allowed;
+        emit PaymentTokenUpdated(_token, _allowed);
+    }
 
-        uint256 tokenId = tokenCounter;
-        _mint(msg.sender, tokenId); // Mintear NFT al llamador
-        _setTokenURI(tokenId, _uri); // Asignar metadata
+    // Oculta o vuelve a mostrar NFTs. Un NFT oculto no entra en ventas,
+    // subastas ni ofertas nuevas, pero sus ventas y ofertas abiertas se
+    // pueden cancelar y sus subastas cerrar
+    function setTokensHidden(
+        uint256[] calldata _tokenIds,
+        bool _hidden
+    ) external onlyRole(CURATOR_ROLE) {
+        for (uint256 i = 0; i < _tokenIds.length; i++) {
+            _requireMinted(_tokenIds[i]);
+            hiddenTokens[_tokenIds[i]] = _hidden;
+            emit TokenHiddenUpdated(_tokenIds[i], _hidden);
+        }
+    }
 
-        listings[tokenId] = Listing({
-            owner: msg.sender,
-            buyer: address(0),
-            price: _price,
-            isSold: false
-        });
+    // Cambia la comisión de las ventas futuras, las ya cobradas no cambian
+    function setPlatformFee(
+        uint96 _feeBps
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_feeBps > MAX_PLATFORM_FEE_BPS) revert InvalidPlatformFee(_feeBps);
+        platformFeeBps = _feeBps;
+        emit PlatformFeeUpdated(_feeBps);
+    }
 
-        tokenCounter++;
+    // Cuenta que cobra la comisión de las ventas futuras
+    function setFeeRecipient(
+        address _feeRecipient
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_feeRecipient == address(0)) revert InvalidFeeRecipient();
+        feeRecipient = _feeRecipient;
+        emit FeeRecipientUpdated(_feeRecipient);
+    }
+
+    // Frena minteos, ventas, subastas y ofertas nuevas. Cancelar, cerrar
+    // subastas vencidas y retirar fondos siguen disponibles
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    // Permite a un minter mintear un NFT y listarlo para la venta. El
+    // llamador queda como creador y cobra `_royaltyBps` de cada venta
+    // (EIP-2981)
+    function mintAndList(
+        string calldata _uri,
+        uint96 _price,
+        address _currency,
+        uint96 _royaltyBps
+    ) external onlyRole(MINTER_ROLE) whenNotPaused {
+        _checkListingTerms(_price, _currency);
+        if (_royaltyBps > MAX_ROYALTY_BPS) revert InvalidRoyalty(_royaltyBps);
+
+        _mintAndList(_uri, _price, _currency, _royaltyBps);
+    }
+
+    // Mintea y lista varios NFTs en una transacción, todos en la misma moneda
+    // y con la misma regalía. Con `_atomic` un precio inválido revierte el
+    // lote; si no, ese NFT se saltea con BatchItemSkipped
+    function batchMintAndList(
+        string[] calldata _uris,
+        uint96[] calldata _prices,
+        address _currency,
+        uint96 _royaltyBps,
+        bool _atomic
+    ) external onlyRole(MINTER_ROLE) whenNotPaused returns (uint256 minted) {
+        _checkBatchSize(_uris.length);
+        if (_uris.length != _prices.length) {
+            revert BatchLengthMismatch(_uris.length, _prices.length);
+        }
+        _checkListingTerms(1, _currency);
+        if (_royaltyBps > MAX_ROYALTY_BPS) revert InvalidRoyalty(_royaltyBps);
+
+        for (uint256 i = 0; i < _uris.length; i++) {
+            if (_prices[i] == 0) {
+                if (_atomic) revert InvalidPrice();
+                emit BatchItemSkipped(i, InvalidPrice.selector);
+                continue;
+            }
+            _mintAndList(_uris[i], _prices[i], _currency, _royaltyBps);
+            minted++;
+        }
+    }
+
+    // Pone a la venta un NFT propio, por ejemplo uno comprado antes
+    function list(uint256 _tokenId, uint96 _price, address _currency) external {
+        _checkTradable(_tokenId);
+        _checkListingTerms(_price, _currency);
+        if (ownerOf(_tokenId) != msg.sender) {
+            revert NotTokenOwner(_tokenId, msg.sender);
+        }
+        if (_isListed(_tokenId)) revert AlreadyListed(_tokenId);
 
-        emit ItemListed(tokenId, msg.sender, _price);
+        _list(_tokenId, _price, _currency);
     }
 
-    // Compra un NFT listado, usando protección contra reentradas
+    // Retira de la venta un NFT listado por el llamador
+    function cancelListing(uint256 _tokenId) external {
+        _checkSeller(_tokenId);
+
+        delete listings[_tokenId];
+        emit ListingCanceled(_tokenId);
+    }
+
+    // Cambia el precio de una venta activa del llamador
+    function updatePrice(uint256 _tokenId, uint96 _price) external {
+        if (_price == 0) revert InvalidPrice();
+        _checkSeller(_tokenId);
+
+        listings[_tokenId].price = _price;
+        emit PriceUpdated(_tokenId, _price);
+    }
+
+    // Compra un NFT listado, usando protección contra reentradas. Las ventas
+    // en ERC20 cobran el precio con transferFrom aprobado por el comprador.
+    // El precio se reparte entre vendedor, creador y plataforma
     function buy(uint256 _tokenId) external payable nonReentrant {
         Listing storage item = listings[_tokenId];
-        require(!item.isSold, "Already sold");
-        require(msg.value == item.price, "Incorrect price");
+        if (item.isSold) revert AlreadySold(_tokenId);
+        if (item.owner == address(0)) revert NotListed(_tokenId);
+        _checkTradable(_tokenId);
 
-        item.isSold = true;
-        item.buyer = msg.sender;
-        pendingWithdrawals[item.owner] += msg.value;
+        _checkPayment(_tokenId, item.currency, item.price);
+        _sell(_tokenId, item);
+    }
 
-        _transfer(item.owner, msg.sender, _tokenId);
-        emit ItemSold(_tokenId, msg.sender, item.price);
+    // Compra varios NFTs listados en una transacción. El ETH enviado debe
+    // cubrir las ventas en ETH; las ventas en ERC20 se cobran con
+    // transferFrom y, si falta allowance, revierten el lote en ambos modos.
+    // Con `_atomic` una venta ya cerrada, un NFT oculto o un pago incorrecto
+    // revierte todo; si no, ese NFT se saltea y el ETH sobrante queda para
+    // retirar
+    function batchBuy(
+        uint256[] calldata _tokenIds,
+        bool _atomic
+    ) external payable nonReentrant whenNotPaused returns (uint256 bought) {
+        _checkBatchSize(_tokenIds.length);
+
+        uint256 ethSpent;
+        for (uint256 i = 0; i < _tokenIds.length; i++) {
+            uint256 tokenId = _tokenIds[i];
+            Listing storage item = listings[tokenId];
+            if (!_isListed(tokenId)) {
+                if (_atomic) revert NotListed(tokenId);
+                emit BatchItemSkipped(i, NotListed.selector);
+                continue;
+            }
+            if (hiddenTokens[tokenId]) {
+                if (_atomic) revert TokenHidden(tokenId);
+                emit BatchItemSkipped(i, TokenHidden.selector);
+                continue;
+            }
+            if (item.currency == ETH) {
+                if (!_atomic && ethSpent + item.price > msg.value) {
+                    emit BatchItemSkipped(i, IncorrectBatchValue.selector);
+                    continue;
+                }
+                ethSpent += item.price;
+            }
+            _sell(tokenId, item);
+            bought++;
+        }
+
+        if (_atomic && ethSpent != msg.value) {
+            revert IncorrectBatchValue(ethSpent, msg.value);
+        }
+        if (msg.value > ethSpent) {
+            pendingWithdrawals[msg.sender][ETH] += msg.value - ethSpent;
+        }
+    }
+
+    // Subasta inglesa: gana la puja más alta al terminar el plazo
+    function createEnglishAuction(
+        uint256 _tokenId,
+        uint96 _minBid,
+        address _currency,
+        uint64 _duration
+    ) external {
+        _createAuction(
+            _tokenId,
+            AuctionKind.English,
+            _minBid,
+            0,
+            _currency,
+            _duration
+        );
+    }
+
+    // Subasta holandesa: el precio baja linealmente de `_startPrice` a
+    // `_endPrice` y la primera compra se lleva el NFT
+    function createDutchAuction(
+        uint256 _tokenId,
+        uint96 _startPrice,
+        uint96 _endPrice,
+        address _currency,
+        uint64 _duration
+    ) external {
+        if (_endPrice == 0 || _endPrice >= _startPrice) revert InvalidPrice();
+        _createAuction(
+            _tokenId,
+            AuctionKind.Dutch,
+            _startPrice,
+            _endPrice,
+            _currency,
+            _duration
+        );
+    }
+
+    // Puja en una subasta inglesa. En ETH `_amount` debe coincidir con
+    // msg.value. La puja superada queda para retirar con withdraw, y una
+    // puja en los últimos minutos extiende el cierre
+    function bid(
+        uint256 _tokenId,
+        uint96 _amount
+    ) external payable nonReentrant {
+        Auction storage auction = _activeAuction(_tokenId);
+        if (auction.kind != AuctionKind.English) {
+            revert WrongAuctionKind(_tokenId);
+        }
+        _checkTradable(_tokenId);
+        _checkPayment(_tokenId, auction.currency, _amount);
+
+        uint256 minimum = minimumBid(_tokenId);
+        if (_amount < minimum) revert BidTooLow(_tokenId, minimum, _amount);
+
+        if (auction.highestBidder != address(0)) {
+            pendingWithdrawals[auction.highestBidder][
+                auction.currency
+            ] += auction.highestBid;
+        }
+        auction.highestBidder = msg.sender;
+        auction.highestBid = _amount;
+        emit BidPlaced(_tokenId, msg.sender, _amount);
+
+        if (auction.endTime - block.timestamp < ANTI_SNIPING_WINDOW) {
+            auction.endTime = uint64(block.timestamp) + ANTI_SNIPING_WINDOW;
+            emit AuctionExtended(_tokenId, auction.endTime);
+        }
+
+        if (auction.currency != ETH) {
+            IERC20(auction.currency).safeTransferFrom(
+                msg.sender,
+                address(this),
+                _amount
+            );
+        }
+    }
+
+    // Compra en una subasta holandesa al precio actual. `_maxPrice` protege
+    // del precio que cambia hasta que se mina la transacción; en ETH se envía
+    // ese máximo y el excedente queda para retirar con withdraw
+    function buyDutch(
+        uint256 _tokenId,
+        uint96 _maxPrice
+    ) external payable nonReentrant {
+        Auction storage auction = _activeAuction(_tokenId);
+        if (auction.kind != AuctionKind.Dutch) {
+            revert WrongAuctionKind(_tokenId);
+        }
+        _checkTradable(_tokenId);
+        _checkPayment(_tokenId, auction.currency, _maxPrice);
+
+        uint96 price = getDutchPrice(_tokenId);
+        if (_maxPrice < price) revert BidTooLow(_tokenId, price, _maxPrice);
+
+        auction.active = false;
+        auction.highestBidder = msg.sender;
+        auction.highestBid = price;
+        _creditSale(_tokenId, auction.seller, auction.currency, price);
+        if (auction.currency == ETH) {
+            pendingWithdrawals[msg.sender][ETH] += _maxPrice - price;
+        } else {
+            IERC20(auction.currency).safeTransferFrom(
+                msg.sender,
+                address(this),
+                price
+            );
+        }
+
+        _transfer(address(this), msg.sender, _tokenId);
+        emit AuctionSettled(_tokenId, msg.sender, price);
+    }
+
+    // Cierra una subasta vencida: el NFT va al ganador y el precio se reparte
+    // como en buy. Sin pujas el NFT vuelve al vendedor. Cualquiera la puede
+    // cerrar
+    function settleAuction(uint256 _tokenId) external nonReentrant {
+        Auction storage auction = auctions[_tokenId];
+        if (!auction.active) revert AuctionNotActive(_tokenId);
+        if (block.timestamp < auction.endTime) {
+            revert AuctionNotEnded(_tokenId, auction.endTime);
+        }
+
+        auction.active = false;
+        address recipient = auction.highestBidder == address(0)
+            ? auction.seller
+            : auction.highestBidder;
+        if (auction.highestBidder != address(0)) {
+            _creditSale(
+                _tokenId,
+                auction.seller,
+                auction.currency,
+                auction.highestBid
+            );
+        }
+
+        _transfer(address(this), recipient, _tokenId);
+        emit AuctionSettled(
+            _tokenId,
+            auction.highestBidder,
+            auction.highestBid
+        );
+    }
+
+    // El vendedor recupera el NFT mientras la subasta no tenga pujas
+    function cancelAuction(uint256 _tokenId) external {
+        Auction storage auction = _activeAuction(_tokenId);
+        if (auction.seller != msg.sender) {
+            revert NotTokenOwner(_tokenId, msg.sender);
+        }
+        if (auction.highestBidder != address(0)) {
+            revert AuctionHasBids(_tokenId);
+        }
+
+        auction.active = false;
+        _transfer(address(this), msg.sender, _tokenId);
+        emit AuctionCanceled(_tokenId);
+    }
+
+    // Ofrece comprar un NFT, esté o no a la venta. El monto queda en el
+    // contrato hasta que el dueño la acepta o la oferta se cancela
+    function makeOffer(
+        uint256 _tokenId,
+        uint96 _amount,
+        address _currency,
+        uint64 _expiresAt
+    ) external payable nonReentrant {
+        ownerOf(_tokenId); // Revierte si el NFT no existe
+        _checkTradable(_tokenId);
+        _createOffer(_tokenId, false, _amount, _currency, _expiresAt);
+    }
+
+    // Oferta por cualquier NFT del marketplace, la acepta el primer dueño
+    // que quiera vender
+    function makeCollectionOffer(
+        uint96 _amount,
+        address _currency,
+        uint64 _expiresAt
+    ) external payable nonReentrant whenNotPaused {
+        _createOffer(0, true, _amount, _currency, _expiresAt);
+    }
+
+    // El dueño de `_tokenId` vende al que hizo la oferta. El monto se
+    // reparte como en buy y una venta activa del NFT se cancela
+    function acceptOffer(
+        uint256 _offerId,
+        uint256 _tokenId
+    ) external nonReentrant {
+        Offer storage offer = offers[_offerId];
+        if (!offer.active) revert OfferNotActive(_offerId);
+        if (block.timestamp >= offer.expiresAt) {
+            revert OfferExpired(_offerId, offer.expiresAt);
+        }
+        if (!offer.collection && offer.tokenId != _tokenId) {
+            revert OfferTokenMismatch(_offerId, _tokenId);
+        }
+        if (ownerOf(_tokenId) != msg.sender) {
+            revert NotTokenOwner(_tokenId, msg.sender);
+        }
+        _checkTradable(_tokenId);
+
+        offer.active = false;
+        offer.tokenId = _tokenId;
+        _creditSale(_tokenId, msg.sender, offer.currency, offer.amount);
+
+        _transfer(msg.sender, offer.buyer, _tokenId);
+        emit OfferAccepted(_offerId, _tokenId, msg.sender);
+    }
+
+    // Cancela una oferta y deja el monto para retirar con withdraw. Quien la
+    // hizo la cancela cuando quiere; una vencida la puede liberar cualquiera
+    function cancelOffer(uint256 _offerId) external {
+        Offer storage offer = offers[_offerId];
+        if (!offer.active) revert OfferNotActive(_offerId);
+        if (offer.buyer != msg.sender && block.timestamp < offer.expiresAt) {
+            revert NotOfferMaker(_offerId, msg.sender);
+        }
+
+        offer.active = false;
+        pendingWithdrawals[offer.buyer][offer.currency] += offer.amount;
+        emit OfferCanceled(_offerId);
+    }
+
+    // Compra un NFT con una orden firmada por su dueño, sin que el vendedor
+    // haya enviado una transacción para listarlo
+    function fillOrder(
+        SellOrder calldata _order,
+        bytes calldata _signature
+    ) external payable nonReentrant {
+        bytes32 orderHash = hashOrder(_order);
+        if (
+            closedOrders[orderHash] ||
+            _order.counter != orderCounters[_order.seller]
+        ) {
+            revert OrderClosed(orderHash);
+        }
+        if (block.timestamp >= _order.expiresAt) {
+            revert OrderExpired(orderHash, _order.expiresAt);
+        }
+        if (
+            !SignatureChecker.isValidSignatureNow(
+                _order.seller,
+                orderHash,
+                _signature
+            )
+        ) {
+            revert InvalidSignature();
+        }
+        if (ownerOf(_order.tokenId) != _order.seller) {
+            revert NotTokenOwner(_order.tokenId, _order.seller);
+        }
+        _checkTradable(_order.tokenId);
+        _checkListingTerms(_order.price, _order.currency);
+        _checkPayment(_order.tokenId, _order.currency, _order.price);
+
+        closedOrders[orderHash] = true;
+        _creditSale(
+            _order.tokenId,
+            _order.seller,
+            _order.currency,
+            _order.price
+        );
+        if (_order.currency != ETH) {
+            IERC20(_order.currency).safeTransferFrom(
+                msg.sender,
+                address(this),
+                _order.price
+            );
+        }
+
+        _transfer(_order.seller, msg.sender, _order.tokenId);
+        emit OrderFilled(
+            orderHash,
+            _order.tokenId,
+            _order.seller,
+            msg.sender,
+            _order.price,
+            _order.currency
+        );
+    }
+
+    // Invalida una orden firmada por el llamador
+    function cancelOrder(SellOrder calldata _order) external {
+        bytes32 orderHash = hashOrder(_order);
+        if (_order.seller != msg.sender) {
+            revert NotOrderSeller(orderHash, msg.sender);
+        }
+
+        closedOrders[orderHash] = true;
+        emit OrderCanceled(orderHash);
+    }
+
+    // Invalida de una vez todas las órdenes firmadas por el llamador
+    function incrementOrderCounter() external {
+        uint256 counter = ++orderCounters[msg.sender];
+        emit OrderCounterIncremented(msg.sender, counter);
+    }
+
+    // Hash EIP-712 que firma el vendedor
+    function hashOrder(
+        SellOrder calldata _order
+    ) public view returns (bytes32) {
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        SELL_ORDER_TYPEHASH,
+                        _order.seller,
+                        _order.tokenId,
+                        _order.price,
+                        _order.currency,
+                        _order.expiresAt,
+                        _order.counter
+                    )
+                )
+            );
+    }
+
+    // Mintea el NFT de un voucher a nombre del creador y se lo vende al
+    // llamador en la misma transacción. El creador debe seguir siendo minter
+    function redeemVoucher(
+        MintVoucher calldata _voucher,
+        bytes calldata _signature
+    ) external payable nonReentrant whenNotPaused {
+        bytes32 voucherHash = hashVoucher(_voucher);
+        if (redeemedVouchers[voucherHash]) {
+            revert VoucherAlreadyRedeemed(voucherHash);
+        }
+        if (block.timestamp >= _voucher.deadline) {
+            revert VoucherExpired(voucherHash, _voucher.deadline);
+        }
+        if (
+            !SignatureChecker.isValidSignatureNow(
+                _voucher.creator,
+                voucherHash,
+                _signature
+            )
+        ) {
+            revert InvalidSignature();
+        }
+        _checkRole(MINTER_ROLE, _voucher.creator);
+        _checkListingTerms(_voucher.price, _voucher.currency);
+        if (_voucher.royaltyBps > MAX_ROYALTY_BPS) {
+            revert InvalidRoyalty(_voucher.royaltyBps);
+        }
+
+        uint256 tokenId = tokenCounter++;
+        _checkPayment(tokenId, _voucher.currency, _voucher.price);
+        redeemedVouchers[voucherHash] = true;
+
+        _mint(_voucher.creator, tokenId);
+        _setTokenURI(tokenId, _voucher.uri);
+        _setTokenRoyalty(tokenId, _voucher.creator, _voucher.royaltyBps);
+        _creditSale(
+            tokenId,
+            _voucher.creator,
+            _voucher.currency,
+            _voucher.price
+        );
+        if (_voucher.currency != ETH) {
+            IERC20(_voucher.currency).safeTransferFrom(
+                msg.sender,
+                address(this),
+                _voucher.price
+            );
+        }
+
+        _transfer(_voucher.creator, msg.sender, tokenId);
+        emit VoucherRedeemed(
+            voucherHash,
+            tokenId,
+            _voucher.creator,
+            msg.sender,
+            _voucher.price,
+            _voucher.currency
+        );
+    }
+
+    // Invalida un voucher firmado por el llamador que todavía no se canjeó
+    function cancelVoucher(MintVoucher calldata _voucher) external {
+        bytes32 voucherHash = hashVoucher(_voucher);
+        if (_voucher.creator != msg.sender) {
+            revert NotVoucherCreator(voucherHash, msg.sender);
+        }
+        if (redeemedVouchers[voucherHash]) {
+            revert VoucherAlreadyRedeemed(voucherHash);
+        }
+
+        redeemedVouchers[voucherHash] = true;
+        emit VoucherCanceled(voucherHash);
+    }
+
+    // Hash EIP-712 que firma el creador
+    function hashVoucher(
+        MintVoucher calldata _voucher
+    ) public view returns (bytes32) {
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        MINT_VOUCHER_TYPEHASH,
+                        _voucher.creator,
+                        keccak256(bytes(_voucher.uri)),
+                        _voucher.price,
+                        _voucher.currency,
+                        _voucher.royaltyBps,
+                        _voucher.deadline
+                    )
+                )
+            );
     }
 
-    // Retiro seguro de fondos acumulados por ventas
-    function withdraw() external {
-        uint256 amount = pendingWithdrawals[msg.sender];
-        require(amount > 0, "No funds");
-        pendingWithdrawals[msg.sender] = 0;
-        payable(msg.sender).transfer(amount);
+    // Puja mínima aceptada en este momento por una subasta inglesa
+    function minimumBid(uint256 _tokenId) public view returns (uint256) {
+        Auction memory auction = auctions[_tokenId];
+        if (auction.highestBidder == address(0)) return auction.startPrice;
+        return
+            auction.highestBid +
+            (uint256(auction.highestBid) * MIN_BID_INCREMENT_BPS) /
+            _feeDenominator();
+    }
+
+    // Precio actual de una subasta holandesa
+    function getDutchPrice(uint256 _tokenId) public view returns (uint96) {
+        Auction memory auction = auctions[_tokenId];
+        if (block.timestamp >= auction.endTime) return auction.endPrice;
+
+        uint256 elapsed = block.timestamp - auction.startTime;
+        uint256 duration = auction.endTime - auction.startTime;
+        uint256 drop = auction.startPrice - auction.endPrice;
+        return auction.startPrice - uint96((drop * elapsed) / duration);
+    }
+
+    // Retiro seguro de fondos acumulados por ventas en una moneda
+    function withdraw(address _currency) external nonReentrant {
+        uint256 amount = pendingWithdrawals[msg.sender][_currency];
+        if (amount == 0) revert NoFundsToWithdraw(msg.sender);
+        pendingWithdrawals[msg.sender][_currency] = 0;
+
+        if (_currency == ETH) {
+            payable(msg.sender).transfer(amount);
+        } else {
+            IERC20(_currency).safeTransfer(msg.sender, amount);
+        }
     }
 
     // Devuelve los detalles de una venta específica
     function getListing(
         uint256 _tokenId
-    ) external view returns (address, address, uint96, bool) {
+    ) external view returns (address, address, uint96, bool, address) {
+        Listing memory item = listings[_tokenId];
+        return (
+            item.owner,
+            item.buyer,
+            item.price,
+            item.isSold,
+            item.currency
+        );
+    }
+
+    // Reparto del precio actual de un NFT: lo que recibe el vendedor, la
+    // regalía del creador y la comisión de la plataforma
+    function quoteSale(
+        uint256 _tokenId
+    )
+        public
+        view
+        returns (
+            uint256 sellerAmount,
+            address royaltyReceiver,
+            uint256 royaltyAmount,
+            uint256 platformFee
+        )
+    {
+        return _splitSale(_tokenId, listings[_tokenId].price);
+    }
+
+    function supportsInterface(
+        bytes4 interfaceId
+    )
+        public
+        view
+        override(ERC721URIStorage, ERC2981, AccessControl)
+        returns (bool)
+    {
+        return super.supportsInterface(interfaceId);
+    }
+
+    function _splitSale(
+        uint256 _tokenId,
+        uint256 _price
+    )
+        internal
+        view
+        returns (
+            uint256 sellerAmount,
+            address royaltyReceiver,
+            uint256 royaltyAmount,
+            uint256 platformFee
+        )
+    {
+        (royaltyReceiver, royaltyAmount) = royaltyInfo(_tokenId, _price);
+        platformFee = (_price * platformFeeBps) / _feeDenominator();
+        sellerAmount = _price - royaltyAmount - platformFee;
+    }
+
+    // Acredita el precio de una venta al vendedor, al creador y a la
+    // plataforma en la moneda de la venta
+    function _creditSale(
+        uint256 _tokenId,
+        address _seller,
+        address _currency,
+        uint256 _price
+    ) internal {
+        (
+            uint256 sellerAmount,
+            address royaltyReceiver,
+            uint256 royaltyAmount,
+            uint256 platformFee
+        ) = _splitSale(_tokenId, _price);
+        pendingWithdrawals[_seller][_currency] += sellerAmount;
+        pendingWithdrawals[royaltyReceiver][_currency] += royaltyAmount;
+        pendingWithdrawals[feeRecipient][_currency] += platformFee;
+
+        emit SaleProceeds(
+            _tokenId,
+            sellerAmount,
+            royaltyReceiver,
+            royaltyAmount,
+            platformFee
+        );
+    }
+
+    // Guarda la oferta y cobra el monto en custodia
+    function _createOffer(
+        uint256 _tokenId,
+        bool _collection,
+        uint96 _amount,
+        address _currency,
+        uint64 _expiresAt
+    ) internal {
+        _checkListingTerms(_amount, _currency);
+        if (_expiresAt <= block.timestamp) {
+            revert InvalidExpiration(_expiresAt);
+        }
+        uint256 expectedValue = _currency == ETH ? _amount : 0;
+        if (msg.value != expectedValue) {
+            revert IncorrectOfferValue(expectedValue, msg.value);
+        }
+
+        uint256 offerId = offerCounter++;
+        offers[offerId] = Offer({
+            buyer: msg.sender,
+            amount: _amount,
+            currency: _currency,
+            expiresAt: _expiresAt,
+            collection: _collection,
+            active: true,
+            tokenId: _tokenId
+        });
+        emit OfferCreated(
+            offerId,
+            msg.sender,
+            _tokenId,
+            _collection,
+            _amount,
+            _currency,
+            _expiresAt
+        );
+
+        if (_currency != ETH) {
+            IERC20(_currency).safeTransferFrom(
+                msg.sender,
+                address(this),
+                _amount
+            );
+        }
+    }
+
+    // Deja el NFT del llamador en el contrato hasta que la subasta termine
+    function _createAuction(
+        uint256 _tokenId,
+        AuctionKind _kind,
+        uint96 _startPrice,
+        uint96 _endPrice,
+        address _currency,
+        uint64 _duration
+    ) internal {
+        _checkTradable(_tokenId);
+        _checkListingTerms(_startPrice, _currency);
+        if (
+            _duration < MIN_AUCTION_DURATION || _duration > MAX_AUCTION_DURATION
+        ) {
+            revert InvalidDuration(_duration);
+        }
+        if (ownerOf(_tokenId) != msg.sender) {
+            revert NotTokenOwner(_tokenId, msg.sender);
+        }
+        if (_isListed(_tokenId)) revert AlreadyListed(_tokenId);
+
+        uint64 startTime = uint64(block.timestamp);
+        auctions[_tokenId] = Auction({
+            seller: msg.sender,
+            kind: _kind,
+            startTime: startTime,
+            endTime: startTime + _duration,
+            currency: _currency,
+            startPrice: _startPrice,
+            endPrice: _endPrice,
+            highestBidder: address(0),
+            highestBid: 0,
+            active: true
+        });
+
+        _transfer(msg.sender, address(this), _tokenId);
+        emit AuctionCreated(
+            _tokenId,
+            msg.sender,
+            _kind,
+            _currency,
+            _startPrice,
+            _endPrice,
+            startTime,
+            startTime + _duration
+        );
+    }
+
+    // Revierte si el NFT no está en una subasta abierta
+    function _activeAuction(
+        uint256 _tokenId
+    ) internal view returns (Auction storage auction) {
+        auction = auctions[_tokenId];
+        if (!auction.active) revert AuctionNotActive(_tokenId);
+        if (block.timestamp >= auction.endTime) {
+            revert AuctionEnded(_tokenId, auction.endTime);
+        }
+    }
+
+    // En ETH el valor enviado debe ser `_amount`; en ERC20 no se envía ETH
+    function _checkPayment(
+        uint256 _tokenId,
+        address _currency,
+        uint256 _amount
+    ) internal view {
+        uint256 expectedValue = _currency == ETH ? _amount : 0;
+        if (msg.value != expectedValue) {
+            revert IncorrectPrice(_tokenId, expectedValue, msg.value);
+        }
+    }
+
+    // Revierte si el marketplace está en pausa o un curador ocultó el NFT
+    function _checkTradable(uint256 _tokenId) internal view {
+        _requireNotPaused();
+        if (hiddenTokens[_tokenId]) revert TokenHidden(_tokenId);
+    }
+
+    // Una venta está activa si tiene vendedor y todavía no se vendió
+    function _isListed(uint256 _tokenId) internal view returns (bool) {
         Listing memory item = listings[_tokenId];
-        return (item.owner, item.buyer, item.price, item.isSold);
+        return item.owner != address(0) && !item.isSold;
+    }
+
+    // Revierte si el NFT no está a la venta o el llamador no es el vendedor
+    function _checkSeller(uint256 _tokenId) internal view {
+        if (!_isListed(_tokenId)) revert NotListed(_tokenId);
+        if (listings[_tokenId].owner != msg.sender) {
+            revert NotTokenOwner(_tokenId, msg.sender);
+        }
+    }
+
+    // Revierte si el precio es 0 o la moneda no se acepta
+    function _checkListingTerms(
+        uint96 _price,
+        address _currency
+    ) internal view {
+        if (_price == 0) revert InvalidPrice();
+        if (_currency != ETH && !allowedPaymentTokens[_currency]) {
+            revert PaymentTokenNotAllowed(_currency);
+        }
+    }
+
+    function _mintAndList(
+        string calldata _uri,
+        uint96 _price,
+        address _currency,
+        uint96 _royaltyBps
+    ) internal {
+        uint256 tokenId = tokenCounter;
+        _mint(msg.sender, tokenId); // Mintear NFT al llamador
+        _setTokenURI(tokenId, _uri); // Asignar metadata
+        _setTokenRoyalty(tokenId, msg.sender, _royaltyBps);
+        tokenCounter++;
+
+        _list(tokenId, _price, _currency);
+    }
+
+    // Cierra una venta listada a favor del llamador, que ya pagó en ETH o
+    // aprobó el ERC20
+    function _sell(uint256 _tokenId, Listing storage item) internal {
+        item.isSold = true;
+        item.buyer = msg.sender;
+        _creditSale(_tokenId, item.owner, item.currency, item.price);
+
+        if (item.currency != ETH) {
+            IERC20(item.currency).safeTransferFrom(
+                msg.sender,
+                address(this),
+                item.price
+            );
+        }
+
+        _transfer(item.owner, msg.sender, _tokenId);
+        emit ItemSold(_tokenId, msg.sender, item.price);
+    }
+
+    function _checkBatchSize(uint256 _size) internal pure {
+        if (_size == 0 || _size > MAX_BATCH_SIZE) {
+            revert InvalidBatchSize(_size);
+        }
+    }
+
+    function _list(
+        uint256 _tokenId,
+        uint96 _price,
+        address _currency
+    ) internal {
+        listings[_tokenId] = Listing({
+            owner: msg.sender,
+            buyer: address(0),
+            price: _price,
+            isSold: false,
+            currency: _currency
+        });
+
+        emit ItemListed(_tokenId, msg.sender, _price, _currency);
+    }
+
+    // Si el dueño transfiere el NFT fuera del marketplace su venta deja de
+    // valer, así nadie compra un NFT que el vendedor ya no tiene
+    function _afterTokenTransfer(
+        address from,
+        address to,
+        uint256 firstTokenId,
+        uint256 batchSize
+    ) internal override {
+        super._afterTokenTransfer(from, to, firstTokenId, batchSize);
+
+        if (from != address(0) && _isListed(firstTokenId)) {
+            delete listings[firstTokenId];
+            emit ListingCanceled(firstTokenId);
+        }
     }
 }
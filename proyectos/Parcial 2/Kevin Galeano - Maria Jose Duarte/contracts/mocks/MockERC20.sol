@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+// Token de prueba para los pagos en ERC20 de los tests
+contract MockERC20 is ERC20 {
+    constructor() ERC20("Mock DAI", "mDAI") {}
+
+    function mint(address _to, uint256 _amount) external {
+        _mint(_to, _amount);
+    }
+}
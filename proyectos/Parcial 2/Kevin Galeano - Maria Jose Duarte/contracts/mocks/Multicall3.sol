@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+// Copia local de aggregate3 de Multicall3, que en las redes públicas está en
+// 0xcA11bde05977b3631167028862bE2a173976CA11. Permite que los tests agrupen
+// lecturas igual que el frontend
+contract Multicall3 {
+    struct Call3 {
+        address target;
+        bool allowFailure;
+        bytes callData;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
+    error CallFailed(uint256 index);
+
+    // Ejecuta las llamadas en orden y devuelve el resultado de cada una
+    function aggregate3(
+        Call3[] calldata calls
+    ) external payable returns (Result[] memory returnData) {
+        returnData = new Result[](calls.length);
+
+        for (uint256 i = 0; i < calls.length; i++) {
+            Call3 calldata call = calls[i];
+            (returnData[i].success, returnData[i].returnData) = call
+                .target
+                .call(call.callData);
+
+            if (!returnData[i].success && !call.allowFailure) {
+                revert CallFailed(i);
+            }
+        }
+    }
+}
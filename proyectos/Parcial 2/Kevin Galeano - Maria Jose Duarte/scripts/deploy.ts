@@ -4,6 +4,9 @@ async function main() {
   const Marketplace = await ethers.getContractFactory("Marketplace");
   const contract = await Marketplace.deploy(); // Despliega el contrato
   console.log("Marketplace deployed to:", contract.target);
+  // Bloque desde el que el indexador lee eventos (VITE_DEPLOY_BLOCK)
+  const receipt = await contract.deploymentTransaction()?.wait();
+  console.log("Deploy block:", receipt?.blockNumber);
 }
 
 main().catch((error) => {
@@ -0,0 +1,25 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { MarketplaceSnapshot, SnapshotCache } from "../src/utils/indexer";
+
+// Caché de snapshots para Node: un archivo JSON por red y contrato en data/
+export function createFileCache(dir = "data"): SnapshotCache {
+  const fileFor = (key: string) =>
+    path.join(dir, `marketplace-${key.replace(":", "-")}.json`);
+
+  return {
+    async load(key) {
+      const file = fileFor(key);
+      if (!fs.existsSync(file)) return null;
+      return JSON.parse(fs.readFileSync(file, "utf8")) as MarketplaceSnapshot;
+    },
+
+    async save(key, snapshot) {
+      fs.mkdirSync(dir, { recursive: true });
+      // Se escribe a un temporal y se renombra para no dejar JSON a medias
+      const file = fileFor(key);
+      fs.writeFileSync(`${file}.tmp`, JSON.stringify(snapshot, null, 2));
+      fs.renameSync(`${file}.tmp`, file);
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import * as fs from "fs";
+import * as path from "path";
+import { hashOrder, parseOrder, serializeOrder } from "../src/utils/orders";
+import type { OrderBook, SignedOrder } from "../src/utils/orders";
+
+// Libro de órdenes para Node: todas las órdenes firmadas en un JSON de data/,
+// indexadas por hash
+export function createFileOrderBook(file = "data/orders.json"): OrderBook {
+  const read = (): Record<string, string> =>
+    fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : {};
+
+  const write = (orders: Record<string, string>) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // Se escribe a un temporal y se renombra para no dejar JSON a medias
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(orders, null, 2));
+    fs.renameSync(`${file}.tmp`, file);
+  };
+
+  return {
+    async add(signed: SignedOrder) {
+      const orderHash = hashOrder(signed);
+      write({ ...read(), [orderHash]: serializeOrder(signed) });
+      return orderHash;
+    },
+
+    async get(orderHash) {
+      const json = read()[orderHash];
+      return json ? parseOrder(json) : null;
+    },
+
+    async list() {
+      return Object.values(read()).map(parseOrder);
+    },
+
+    async remove(orderHash) {
+      const orders = read();
+      delete orders[orderHash];
+      write(orders);
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import { ethers } from "hardhat";
+import * as dotenv from "dotenv";
+import { ZeroAddress } from "ethers";
+import { hashOrder, validateOrder } from "../src/utils/orders";
+import { createFileOrderBook } from "./fileOrderBook";
+dotenv.config();
+
+// Compra con una orden de data/orders.json. Sin ORDER_HASH lista las
+// órdenes guardadas con su estado
+async function main() {
+  const { ORDER_HASH } = process.env;
+  const orderBook = createFileOrderBook();
+
+  if (!ORDER_HASH) {
+    for (const signed of await orderBook.list()) {
+      const { tokenId, price } = signed.order;
+      const status = await validateOrder(ethers.provider, signed);
+      console.log(
+        `${hashOrder(signed)} · NFT #${tokenId} · ${price} · ${status}`
+      );
+    }
+    return;
+  }
+
+  const signed = await orderBook.get(ORDER_HASH);
+  if (!signed) {
+    throw new Error(`❌ No hay una orden ${ORDER_HASH} en data/orders.json`);
+  }
+  const status = await validateOrder(ethers.provider, signed);
+  if (status !== "valid") {
+    await orderBook.remove(ORDER_HASH);
+    throw new Error(`❌ La orden ya no se puede completar: ${status}`);
+  }
+
+  const { order, signature, verifyingContract } = signed;
+  const contract = await ethers.getContractAt("Marketplace", verifyingContract);
+  if (order.currency !== ZeroAddress) {
+    const token = await ethers.getContractAt("IERC20Metadata", order.currency);
+    await (await token.approve(verifyingContract, order.price)).wait();
+  }
+  const tx = await contract.fillOrder(order, signature, {
+    value: order.currency === ZeroAddress ? order.price : 0n,
+  });
+  await tx.wait();
+  await orderBook.remove(ORDER_HASH);
+  console.log(`✅ NFT #${order.tokenId} comprado con la orden ${ORDER_HASH}`);
+}
+
+main().catch((err) => {
+  console.error("❌ Error:", err);
+  process.exit(1);
+});
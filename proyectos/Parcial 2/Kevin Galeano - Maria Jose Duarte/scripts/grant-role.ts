@@ -0,0 +1,46 @@
+import { ethers } from "hardhat";
+import * as dotenv from "dotenv";
+dotenv.config();
+
+// Rol del contrato para cada valor de ROLE
+const ROLES: Record<string, string> = {
+  admin: ethers.ZeroHash, // DEFAULT_ADMIN_ROLE
+  minter: ethers.id("MINTER_ROLE"),
+  curator: ethers.id("CURATOR_ROLE"),
+  pauser: ethers.id("PAUSER_ROLE"),
+};
+
+// Otorga (o quita con REVOKE=true) un rol a una cuenta. Solo lo puede
+// ejecutar un admin
+async function main() {
+  const CONTRACT_ADDRESS = process.env.VITE_CONTRACT_ADDRESS;
+  const ROLE = process.env.ROLE ?? "";
+  const ACCOUNT = process.env.ACCOUNT;
+  if (!CONTRACT_ADDRESS) {
+    throw new Error("❌ VITE_CONTRACT_ADDRESS no está definido en .env");
+  }
+  if (!(ROLE in ROLES)) {
+    throw new Error(
+      `❌ ROLE debe ser uno de: ${Object.keys(ROLES).join(", ")}`
+    );
+  }
+  if (!ACCOUNT || !ethers.isAddress(ACCOUNT)) {
+    throw new Error("❌ ACCOUNT debe ser una dirección");
+  }
+  const revoke = process.env.REVOKE === "true";
+
+  const contract = await ethers.getContractAt("Marketplace", CONTRACT_ADDRESS);
+  const tx = revoke
+    ? await contract.revokeRole(ROLES[ROLE], ACCOUNT)
+    : await contract.grantRole(ROLES[ROLE], ACCOUNT);
+  await tx.wait();
+  console.log(
+    revoke ? `✅ Rol ${ROLE} quitado a:` : `✅ Rol ${ROLE} otorgado a:`,
+    ACCOUNT
+  );
+}
+
+main().catch((err) => {
+  console.error("❌ Error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+import { ethers } from "hardhat";
+import * as dotenv from "dotenv";
+import { getSnapshotItems, syncMarketplace } from "../src/utils/indexer";
+import { createFileCache } from "./fileCache";
+dotenv.config();
+
+// Sincroniza los eventos del marketplace en data/ y muestra un resumen
+async function main() {
+  const CONTRACT_ADDRESS = process.env.VITE_CONTRACT_ADDRESS;
+  if (!CONTRACT_ADDRESS) {
+    throw new Error("❌ VITE_CONTRACT_ADDRESS no está definido en .env");
+  }
+
+  const snapshot = await syncMarketplace(
+    ethers.provider,
+    CONTRACT_ADDRESS,
+    createFileCache(),
+    {
+      startBlock: Number(process.env.VITE_DEPLOY_BLOCK ?? 0),
+      onProgress: (lastBlock, latestBlock) =>
+        console.log(`🔄 Bloques sincronizados: ${lastBlock}/${latestBlock}`),
+    }
+  );
+
+  const items = getSnapshotItems(snapshot);
+  console.log("✅ Último bloque:", snapshot.lastBlock);
+  console.log("✅ NFTs:", items.length);
+  console.log("✅ En venta:", items.filter((item) => item.isListed).length);
+  console.log("✅ Vendidos:", items.filter((item) => item.isSold).length);
+}
+
+main().catch((err) => {
+  console.error("❌ Error:", err);
+  process.exit(1);
+});
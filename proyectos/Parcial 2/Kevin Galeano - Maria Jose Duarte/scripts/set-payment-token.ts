@@ -0,0 +1,29 @@
+import { ethers } from "hardhat";
+import * as dotenv from "dotenv";
+dotenv.config();
+
+// Agrega (o quita con ALLOWED=false) un ERC20 de las monedas aceptadas
+async function main() {
+  const CONTRACT_ADDRESS = process.env.VITE_CONTRACT_ADDRESS;
+  const PAYMENT_TOKEN = process.env.PAYMENT_TOKEN;
+  if (!CONTRACT_ADDRESS) {
+    throw new Error("❌ VITE_CONTRACT_ADDRESS no está definido en .env");
+  }
+  if (!PAYMENT_TOKEN || !ethers.isAddress(PAYMENT_TOKEN)) {
+    throw new Error("❌ PAYMENT_TOKEN debe ser la dirección de un ERC20");
+  }
+  const allowed = process.env.ALLOWED !== "false";
+
+  const contract = await ethers.getContractAt("Marketplace", CONTRACT_ADDRESS);
+  const tx = await contract.setPaymentToken(PAYMENT_TOKEN, allowed);
+  await tx.wait();
+  console.log(
+    allowed ? "✅ Moneda habilitada:" : "✅ Moneda deshabilitada:",
+    PAYMENT_TOKEN
+  );
+}
+
+main().catch((err) => {
+  console.error("❌ Error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,25 @@
+import { ethers } from "hardhat";
+import * as dotenv from "dotenv";
+dotenv.config();
+
+// Cambia la comisión del marketplace, en puntos básicos (250 = 2,5%)
+async function main() {
+  const CONTRACT_ADDRESS = process.env.VITE_CONTRACT_ADDRESS;
+  const PLATFORM_FEE_BPS = process.env.PLATFORM_FEE_BPS;
+  if (!CONTRACT_ADDRESS) {
+    throw new Error("❌ VITE_CONTRACT_ADDRESS no está definido en .env");
+  }
+  if (!PLATFORM_FEE_BPS || !/^\d+$/.test(PLATFORM_FEE_BPS)) {
+    throw new Error("❌ PLATFORM_FEE_BPS debe ser un entero en puntos básicos");
+  }
+
+  const contract = await ethers.getContractAt("Marketplace", CONTRACT_ADDRESS);
+  const tx = await contract.setPlatformFee(PLATFORM_FEE_BPS);
+  await tx.wait();
+  console.log(`✅ Comisión actualizada: ${Number(PLATFORM_FEE_BPS) / 100}%`);
+}
+
+main().catch((err) => {
+  console.error("❌ Error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,44 @@
+import { ethers } from "hardhat";
+import * as dotenv from "dotenv";
+import { buildOrder, signOrder } from "../src/utils/orders";
+import { createFileOrderBook } from "./fileOrderBook";
+dotenv.config();
+
+const DAY = 24 * 60 * 60;
+
+// Firma una orden de venta sin gas y la guarda en data/orders.json.
+// PRICE va en ETH, o en unidades del token si se define PAYMENT_TOKEN
+async function main() {
+  const CONTRACT_ADDRESS = process.env.VITE_CONTRACT_ADDRESS;
+  const { TOKEN_ID, PRICE, PAYMENT_TOKEN, DAYS = "7" } = process.env;
+  if (!CONTRACT_ADDRESS) {
+    throw new Error("❌ VITE_CONTRACT_ADDRESS no está definido en .env");
+  }
+  if (!TOKEN_ID || !PRICE) {
+    throw new Error("❌ TOKEN_ID y PRICE son obligatorios");
+  }
+
+  const [seller] = await ethers.getSigners();
+  const decimals = PAYMENT_TOKEN
+    ? await (
+        await ethers.getContractAt("IERC20Metadata", PAYMENT_TOKEN)
+      ).decimals()
+    : 18n;
+  const latest = await ethers.provider.getBlock("latest");
+
+  const order = await buildOrder(seller, CONTRACT_ADDRESS, {
+    seller: seller.address,
+    tokenId: BigInt(TOKEN_ID),
+    price: ethers.parseUnits(PRICE, decimals),
+    currency: PAYMENT_TOKEN,
+    expiresAt: latest!.timestamp + Math.round(Number(DAYS) * DAY),
+  });
+  const signed = await signOrder(seller, CONTRACT_ADDRESS, order);
+  const orderHash = await createFileOrderBook().add(signed);
+  console.log("✅ Orden firmada:", orderHash);
+}
+
+main().catch((err) => {
+  console.error("❌ Error:", err);
+  process.exit(1);
+});
@@ -1,42 +1,108 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import {
+  acceptOffer,
+  buyDutchAuction,
+  cancelAuction,
+  cancelListing,
+  cancelMintVoucher,
+  cancelOffer,
   connectWallet,
-  getAllListings,
-  getPendingWithdrawal,
+  createAuction,
+  createMintVouchers,
+  getMarketplaceAccess,
+  getPendingWithdrawals,
+  listNFT,
+  loadMarketplaceState,
+  makeOffer,
   mintInitialBatch,
+  placeBid,
   purchaseNFT,
+  purchaseNFTs,
+  redeemMintVoucher,
+  setMarketplacePaused,
+  setNFTsHidden,
+  settleAuction,
+  updateListingPrice,
   withdrawFunds,
+  type AuctionItem,
+  type AuctionTerms,
+  type MarketplaceAccess,
   type NFTItem,
+  type OfferItem,
+  type PaymentCurrency,
+  type PendingWithdrawal,
+  type VoucherItem,
 } from "./utils/marketplace"; // Funciones de interacción con el contrato
+import { decodeMarketplaceError } from "./utils/errors";
 import NFTCard from "./components/NFTCard";
+import AuctionCard from "./components/AuctionCard";
+import CurationTab from "./components/CurationTab";
+import OffersTab from "./components/OffersTab";
+import VoucherAdmin from "./components/VoucherAdmin";
+import VoucherCard from "./components/VoucherCard";
 import WalletConnect from "./components/WalletConnect";
-import { FaStore, FaPalette, FaGift } from "react-icons/fa";
+import {
+  FaStore,
+  FaPalette,
+  FaGift,
+  FaGavel,
+  FaHandshake,
+  FaTicketAlt,
+  FaEyeSlash,
+} from "react-icons/fa";
 import { ToastContainer, toast } from "react-toastify";
 import "./App.css";
 
+// Sin wallet conectada no hay roles
+const NO_ACCESS: MarketplaceAccess = {
+  roles: { admin: false, minter: false, curator: false, pauser: false },
+  paused: false,
+};
+
 function App() {
   const [account, setAccount] = useState<string | null>(null); // Dirección de la wallet conectada
   const [nfts, setNfts] = useState<NFTItem[]>([]); // Lista de NFTs
   const [activeTab, setActiveTab] = useState<
-    "store" | "minted" | "purchased" | "sold"
+    | "store"
+    | "minted"
+    | "purchased"
+    | "sold"
+    | "auctions"
+    | "offers"
+    | "vouchers"
+    | "curation"
   >("store");
-  const [pendingAmount, setPendingAmount] = useState<string>("0"); // ETH pendiente por retirar
+  const [auctions, setAuctions] = useState<AuctionItem[]>([]); // Subastas activas y terminadas
+  const [offers, setOffers] = useState<OfferItem[]>([]); // Ofertas hechas y recibidas
+  const [vouchers, setVouchers] = useState<VoucherItem[]>([]); // NFTs sin mintear a la venta
+  const [currencies, setCurrencies] = useState<PaymentCurrency[]>([]); // Monedas de pago aceptadas
+  const [pendingWithdrawals, setPendingWithdrawals] = useState<
+    PendingWithdrawal[]
+  >([]); // Saldos por retirar en cada moneda
   const [loading, setLoading] = useState(false);
-
-  const CONTRACT_OWNER = import.meta.env.VITE_CONTRACT_OWNER.toLowerCase();
+  const [batchSize, setBatchSize] = useState("10"); // NFTs a mintear por lote
+  const [selectedIds, setSelectedIds] = useState<number[]>([]); // Lote de compra
+  const [access, setAccess] = useState<MarketplaceAccess>(NO_ACCESS); // Roles de la cuenta
 
   const firstLoadDone = useRef(false);
+  // Todas las monedas de la última carga, también las que ya no se aceptan
+  const knownCurrencies = useRef<PaymentCurrency[]>([]);
 
-  // Carga NFTs del contrato
+  // Carga NFTs, subastas, ofertas y vouchers con una sola sincronización
   const loadItems = async () => {
     setLoading(true);
-    const data = await getAllListings();
-    setNfts(data);
+    const state = await loadMarketplaceState();
+    setNfts(state.items);
+    setAuctions(state.auctions);
+    setOffers(state.offers);
+    setVouchers(state.vouchers);
+    setCurrencies(state.currencies.filter((currency) => currency.allowed));
+    knownCurrencies.current = state.currencies;
     setLoading(false);
 
     if (!firstLoadDone.current) {
       toast.dismiss();
-      if (data.length === 0) {
+      if (state.items.length === 0) {
         toast.info("No hay NFTs disponibles en la tienda.", {
           toastId: "no-nfts",
         });
@@ -92,37 +158,376 @@ function App() {
   };
 
   // Compra de un NFT
-  const handleBuy = async (tokenId: number, price: string) => {
+  const handleBuy = async (nft: NFTItem) => {
     try {
       setLoading(true);
-      await purchaseNFT(tokenId, price);
+      await purchaseNFT(nft);
       setLoading(false);
       toast.dismiss();
-      toast.success(`¡Compra exitosa del NFT #${tokenId} por ${price} ETH!`, {
-        toastId: "purchase-success",
-      });
+      toast.success(
+        `¡Compra exitosa del NFT #${nft.tokenId} por ${nft.price} ${nft.symbol}!`,
+        {
+          toastId: "purchase-success",
+        }
+      );
       await loadItems();
     } catch (err) {
       setLoading(false);
       console.error("Error al comprar:", err);
       toast.dismiss();
-      toast.error("Hubo un problema al realizar la compra.", {
-        toastId: "purchase-error",
+      toast.error(
+        decodeMarketplaceError(err, "Hubo un problema al realizar la compra.")
+          .message,
+        {
+          toastId: "purchase-error",
+        }
+      );
+    }
+  };
+
+  // Compra en una transacción los NFTs seleccionados en la tienda
+  const handleBatchBuy = async () => {
+    const selected = nfts.filter((nft) => selectedIds.includes(nft.tokenId));
+    try {
+      setLoading(true);
+      const bought = await purchaseNFTs(selected);
+      setLoading(false);
+      setSelectedIds([]);
+      toast.dismiss();
+      toast.success(
+        bought === selected.length
+          ? `¡Compraste ${bought} NFT(s) en una transacción!`
+          : `Compraste ${bought} de ${selected.length} NFT(s); el resto ya no estaba a la venta.`,
+        {
+          toastId: "batch-purchase-success",
+        }
+      );
+      await loadItems();
+      await checkPending();
+    } catch (err) {
+      setLoading(false);
+      console.error("Error al comprar el lote:", err);
+      toast.dismiss();
+      toast.error(
+        decodeMarketplaceError(err, "Hubo un problema al comprar el lote.")
+          .message,
+        {
+          toastId: "batch-purchase-error",
+        }
+      );
+    }
+  };
+
+  // Agrega o quita un NFT del lote de compra
+  const toggleSelected = (nft: NFTItem) =>
+    setSelectedIds((ids) =>
+      ids.includes(nft.tokenId)
+        ? ids.filter((id) => id !== nft.tokenId)
+        : [...ids, nft.tokenId]
+    );
+
+  // Vuelve a poner a la venta un NFT comprado
+  const handleList = async (
+    tokenId: number,
+    price: string,
+    currency: PaymentCurrency
+  ) => {
+    try {
+      setLoading(true);
+      await listNFT(tokenId, price, currency);
+      setLoading(false);
+      toast.dismiss();
+      toast.success(
+        `NFT #${tokenId} a la venta por ${price} ${currency.symbol}`,
+        {
+          toastId: "list-success",
+        }
+      );
+      await loadItems();
+    } catch (err) {
+      setLoading(false);
+      console.error("Error al listar:", err);
+      toast.dismiss();
+      toast.error(
+        decodeMarketplaceError(err, "❌ Error al poner el NFT a la venta.")
+          .message,
+        {
+          toastId: "list-error",
+        }
+      );
+    }
+  };
+
+  // Retira un NFT de la venta
+  const handleCancel = async (tokenId: number) => {
+    try {
+      setLoading(true);
+      await cancelListing(tokenId);
+      setLoading(false);
+      toast.dismiss();
+      toast.success(`NFT #${tokenId} retirado de la venta`, {
+        toastId: "cancel-success",
+      });
+      await loadItems();
+    } catch (err) {
+      setLoading(false);
+      console.error("Error al cancelar la venta:", err);
+      toast.dismiss();
+      toast.error(
+        decodeMarketplaceError(err, "❌ Error al cancelar la venta.").message,
+        {
+          toastId: "cancel-error",
+        }
+      );
+    }
+  };
+
+  // Cambia el precio de un NFT a la venta
+  const handleUpdatePrice = async (nft: NFTItem, price: string) => {
+    try {
+      setLoading(true);
+      await updateListingPrice(nft, price);
+      setLoading(false);
+      toast.dismiss();
+      toast.success(
+        `Nuevo precio del NFT #${nft.tokenId}: ${price} ${nft.symbol}`,
+        {
+          toastId: "update-price-success",
+        }
+      );
+      await loadItems();
+    } catch (err) {
+      setLoading(false);
+      console.error("Error al cambiar el precio:", err);
+      toast.dismiss();
+      toast.error(
+        decodeMarketplaceError(err, "❌ Error al cambiar el precio.").message,
+        {
+          toastId: "update-price-error",
+        }
+      );
+    }
+  };
+
+  // Subasta un NFT propio
+  const handleCreateAuction = async (tokenId: number, terms: AuctionTerms) => {
+    try {
+      setLoading(true);
+      await createAuction(tokenId, terms);
+      setLoading(false);
+      toast.dismiss();
+      toast.success(`NFT #${tokenId} en subasta`, {
+        toastId: "auction-created",
+      });
+      await loadItems();
+    } catch (err) {
+      setLoading(false);
+      console.error("Error al crear la subasta:", err);
+      toast.dismiss();
+      toast.error(
+        decodeMarketplaceError(err, "❌ Error al crear la subasta.").message,
+        {
+          toastId: "auction-create-error",
+        }
+      );
+    }
+  };
+
+  // Puja en una subasta inglesa
+  const handleBid = async (auction: AuctionItem, amount: string) => {
+    try {
+      setLoading(true);
+      await placeBid(auction, amount);
+      setLoading(false);
+      toast.dismiss();
+      toast.success(
+        `Pujaste ${amount} ${auction.symbol} por el NFT #${auction.tokenId}`,
+        {
+          toastId: "bid-success",
+        }
+      );
+      await loadItems();
+    } catch (err) {
+      setLoading(false);
+      console.error("Error al pujar:", err);
+      toast.dismiss();
+      toast.error(decodeMarketplaceError(err, "❌ Error al pujar.").message, {
+        toastId: "bid-error",
+      });
+    }
+  };
+
+  // Compra en una subasta holandesa al precio actual
+  const handleBuyDutch = async (auction: AuctionItem) => {
+    try {
+      setLoading(true);
+      await buyDutchAuction(auction);
+      setLoading(false);
+      toast.dismiss();
+      toast.success(`¡Compraste el NFT #${auction.tokenId} en subasta!`, {
+        toastId: "dutch-success",
       });
+      await loadItems();
+      await checkPending();
+    } catch (err) {
+      setLoading(false);
+      console.error("Error al comprar en la subasta:", err);
+      toast.dismiss();
+      toast.error(
+        decodeMarketplaceError(err, "❌ Error al comprar en la subasta.")
+          .message,
+        {
+          toastId: "dutch-error",
+        }
+      );
+    }
+  };
+
+  // Cierra una subasta vencida
+  const handleSettle = async (tokenId: number) => {
+    try {
+      setLoading(true);
+      await settleAuction(tokenId);
+      setLoading(false);
+      toast.dismiss();
+      toast.success(`Subasta del NFT #${tokenId} cerrada`, {
+        toastId: "settle-success",
+      });
+      await loadItems();
+      await checkPending();
+    } catch (err) {
+      setLoading(false);
+      console.error("Error al cerrar la subasta:", err);
+      toast.dismiss();
+      toast.error(
+        decodeMarketplaceError(err, "❌ Error al cerrar la subasta.").message,
+        {
+          toastId: "settle-error",
+        }
+      );
+    }
+  };
+
+  // Cancela una subasta sin pujas
+  const handleCancelAuction = async (tokenId: number) => {
+    try {
+      setLoading(true);
+      await cancelAuction(tokenId);
+      setLoading(false);
+      toast.dismiss();
+      toast.success(`Subasta del NFT #${tokenId} cancelada`, {
+        toastId: "cancel-auction-success",
+      });
+      await loadItems();
+    } catch (err) {
+      setLoading(false);
+      console.error("Error al cancelar la subasta:", err);
+      toast.dismiss();
+      toast.error(
+        decodeMarketplaceError(err, "❌ Error al cancelar la subasta.").message,
+        {
+          toastId: "cancel-auction-error",
+        }
+      );
+    }
+  };
+
+  // Ofrece comprar un NFT o cualquiera de la colección
+  const handleMakeOffer = async (
+    tokenId: number | null,
+    amount: string,
+    currency: PaymentCurrency,
+    expiresAt: number
+  ) => {
+    try {
+      setLoading(true);
+      await makeOffer(tokenId, amount, currency, expiresAt);
+      setLoading(false);
+      toast.dismiss();
+      toast.success(
+        `Ofertaste ${amount} ${currency.symbol} por ${
+          tokenId === null ? "la colección" : `el NFT #${tokenId}`
+        }`,
+        {
+          toastId: "offer-success",
+        }
+      );
+      await loadItems();
+    } catch (err) {
+      setLoading(false);
+      console.error("Error al ofertar:", err);
+      toast.dismiss();
+      toast.error(decodeMarketplaceError(err, "❌ Error al ofertar.").message, {
+        toastId: "offer-error",
+      });
+    }
+  };
+
+  // Acepta una oferta vendiendo un NFT propio
+  const handleAcceptOffer = async (offer: OfferItem, tokenId: number) => {
+    try {
+      setLoading(true);
+      await acceptOffer(offer.offerId, tokenId);
+      setLoading(false);
+      toast.dismiss();
+      toast.success(
+        `Vendiste el NFT #${tokenId} por ${offer.amount} ${offer.symbol}`,
+        {
+          toastId: "accept-offer-success",
+        }
+      );
+      await loadItems();
+      await checkPending();
+    } catch (err) {
+      setLoading(false);
+      console.error("Error al aceptar la oferta:", err);
+      toast.dismiss();
+      toast.error(
+        decodeMarketplaceError(err, "❌ Error al aceptar la oferta.").message,
+        {
+          toastId: "accept-offer-error",
+        }
+      );
+    }
+  };
+
+  // Cancela una oferta propia, el monto queda para retirar
+  const handleCancelOffer = async (offerId: number) => {
+    try {
+      setLoading(true);
+      await cancelOffer(offerId);
+      setLoading(false);
+      toast.dismiss();
+      toast.success(`Oferta #${offerId} cancelada`, {
+        toastId: "cancel-offer-success",
+      });
+      await loadItems();
+      await checkPending();
+    } catch (err) {
+      setLoading(false);
+      console.error("Error al cancelar la oferta:", err);
+      toast.dismiss();
+      toast.error(
+        decodeMarketplaceError(err, "❌ Error al cancelar la oferta.").message,
+        {
+          toastId: "cancel-offer-error",
+        }
+      );
     }
   };
 
-  // Mintea un lote inicial de NFTs
+  // Mintea un lote de NFTs en una sola transacción
   const handleMint = async () => {
+    const count = Number(batchSize);
     try {
       if (!account) {
         await handleConnect();
       }
       setLoading(true);
-      await mintInitialBatch();
+      await mintInitialBatch(count);
       setLoading(false);
       toast.dismiss();
-      toast.success(`🎉 Se mintearon 10 NFT(s) exitosamente`, {
+      toast.success(`🎉 Se mintearon ${count} NFT(s) exitosamente`, {
         toastId: "mint-success",
       });
       await loadItems();
@@ -130,37 +535,195 @@ function App() {
       setLoading(false);
       console.error("Mint fallido:", err);
       toast.dismiss();
-      toast.error("❌ Error al mintear los NFTs.", {
-        toastId: "mint-error",
+      toast.error(
+        decodeMarketplaceError(err, "❌ Error al mintear los NFTs.").message,
+        {
+          toastId: "mint-error",
+        }
+      );
+    }
+  };
+
+  // Mintea y compra el NFT de un voucher
+  const handleRedeem = async (voucher: VoucherItem) => {
+    try {
+      setLoading(true);
+      await redeemMintVoucher(voucher);
+      setLoading(false);
+      toast.dismiss();
+      toast.success(
+        `¡Compraste un NFT nuevo por ${voucher.price} ${voucher.symbol}!`,
+        {
+          toastId: "redeem-success",
+        }
+      );
+      await loadItems();
+    } catch (err) {
+      setLoading(false);
+      console.error("Error al mintear el voucher:", err);
+      toast.dismiss();
+      toast.error(
+        decodeMarketplaceError(err, "❌ Error al mintear el NFT.").message,
+        {
+          toastId: "redeem-error",
+        }
+      );
+    }
+  };
+
+  // Invalida un voucher propio antes de que alguien lo canjee
+  const handleCancelVoucher = async (voucher: VoucherItem) => {
+    try {
+      setLoading(true);
+      await cancelMintVoucher(voucher);
+      setLoading(false);
+      toast.dismiss();
+      toast.success("Voucher cancelado", {
+        toastId: "cancel-voucher-success",
+      });
+      await loadItems();
+    } catch (err) {
+      setLoading(false);
+      console.error("Error al cancelar el voucher:", err);
+      toast.dismiss();
+      toast.error(
+        decodeMarketplaceError(err, "❌ Error al cancelar el voucher.").message,
+        {
+          toastId: "cancel-voucher-error",
+        }
+      );
+    }
+  };
+
+  // Firma un lote de vouchers en lugar de mintear los NFTs
+  const handleCreateVouchers = async (
+    cid: string,
+    count: number,
+    price: string,
+    currency: PaymentCurrency,
+    royaltyBps: number,
+    deadline: number
+  ) => {
+    try {
+      setLoading(true);
+      const json = await createMintVouchers(
+        cid,
+        count,
+        price,
+        currency,
+        royaltyBps,
+        deadline
+      );
+      setLoading(false);
+      toast.dismiss();
+      toast.success(`🎉 Se firmaron ${count} voucher(s)`, {
+        toastId: "vouchers-success",
       });
+      return json;
+    } catch (err) {
+      setLoading(false);
+      console.error("Firma de vouchers fallida:", err);
+      toast.dismiss();
+      toast.error(
+        decodeMarketplaceError(err, "❌ Error al firmar los vouchers.").message,
+        {
+          toastId: "vouchers-error",
+        }
+      );
+      return null;
+    }
+  };
+
+  // Lee del contrato los roles de la cuenta conectada
+  const loadAccess = useCallback(async () => {
+    setAccess(account ? await getMarketplaceAccess(account) : NO_ACCESS);
+  }, [account]);
+
+  // Oculta o muestra NFTs en la tienda
+  const handleSetHidden = async (tokenIds: number[], hidden: boolean) => {
+    try {
+      setLoading(true);
+      await setNFTsHidden(tokenIds, hidden);
+      setLoading(false);
+      toast.dismiss();
+      toast.success(
+        `${tokenIds.length} NFT(s) ${
+          hidden ? "ocultos" : "visibles"
+        } en la tienda`,
+        {
+          toastId: "curation-success",
+        }
+      );
+      await loadItems();
+    } catch (err) {
+      setLoading(false);
+      console.error("Error al curar:", err);
+      toast.dismiss();
+      toast.error(
+        decodeMarketplaceError(err, "❌ Error al actualizar los NFTs.").message,
+        {
+          toastId: "curation-error",
+        }
+      );
+    }
+  };
+
+  // Pausa o reanuda el marketplace
+  const handleTogglePause = async () => {
+    try {
+      setLoading(true);
+      await setMarketplacePaused(!access.paused);
+      setLoading(false);
+      toast.dismiss();
+      toast.success(
+        access.paused ? "▶️ Marketplace reanudado" : "⏸️ Marketplace en pausa",
+        {
+          toastId: "pause-success",
+        }
+      );
+      await loadAccess();
+    } catch (err) {
+      setLoading(false);
+      console.error("Error al pausar:", err);
+      toast.dismiss();
+      toast.error(
+        decodeMarketplaceError(err, "❌ Error al pausar el marketplace.")
+          .message,
+        {
+          toastId: "pause-error",
+        }
+      );
     }
   };
 
   // Verifica si hay fondos pendientes para retirar
-  const checkPending = async () => {
+  const checkPending = useCallback(async () => {
     if (account) {
-      const amount = await getPendingWithdrawal(account);
-      setPendingAmount(amount);
-      if (Number(amount) > 0) {
+      const pending = await getPendingWithdrawals(
+        account,
+        knownCurrencies.current
+      );
+      setPendingWithdrawals(pending);
+      if (pending.length > 0) {
+        const amounts = pending
+          .map(({ currency, amount }) => `${amount} ${currency.symbol}`)
+          .join(" y ");
         toast.dismiss();
-        toast.info(`Tienes ${amount} ETH pendientes para retirar.`, {
+        toast.info(`Tienes ${amounts} pendientes para retirar.`, {
           toastId: "pending-withdrawal",
         });
       }
     }
-  };
+  }, [account]);
 
-  // Retira los fondos pendientes
-  const handleWithdraw = async () => {
+  // Retira los fondos pendientes en una moneda
+  const handleWithdraw = async (currency: string) => {
     try {
       if (!account) {
         await handleConnect();
       }
-      if (pendingAmount === "0") {
-        return;
-      }
       setLoading(true);
-      await withdrawFunds();
+      await withdrawFunds(currency);
       setLoading(false);
       toast.dismiss();
       toast.success("✅ Retiro exitoso", {
@@ -171,30 +734,35 @@ function App() {
       setLoading(false);
       console.error("Error al retirar:", err);
       toast.dismiss();
-      toast.error("❌ Error al intentar retirar fondos", {
-        toastId: "withdraw-error",
-      });
+      toast.error(
+        decodeMarketplaceError(err, "❌ Error al intentar retirar fondos")
+          .message,
+        {
+          toastId: "withdraw-error",
+        }
+      );
     }
   };
 
-  // Conexión inicial al cargar la app
+  // Conexión inicial al cargar la app, y otra vez al cambiar de cuenta
+  // (checkPending y loadAccess cambian con ella). Los saldos se consultan
+  // con las monedas que trae loadItems
   useEffect(() => {
-    silentConnect().then(() => {
-      loadItems();
-      checkPending();
+    silentConnect().then(async () => {
+      loadAccess();
+      await loadItems();
+      await checkPending();
     });
-  }, [account]);
-
-  // Carga inicial de NFTs al montar el componente
-  useEffect(() => {
-    silentConnect().then(() => loadItems());
-  }, []);
+  }, [checkPending, loadAccess]);
 
   // Filtra los NFTs según la pestaña activa
-  const marketplaceNFTs = nfts.filter((nft) => !nft.isSold);
+  const marketplaceNFTs = nfts.filter((nft) => nft.isListed && !nft.hidden);
   const myMintedNFTs = nfts;
+  // NFTs comprados que la cuenta todavía tiene, estén o no a la venta otra vez
   const myPurchasedNFTs = nfts.filter(
-    (nft) => nft.isSold && nft.buyer?.toLowerCase() === account?.toLowerCase()
+    (nft) =>
+      nft.buyer.toLowerCase() === account?.toLowerCase() &&
+      nft.holder.toLowerCase() === account?.toLowerCase()
   );
   const soldNFTs = nfts.filter((nft) => nft.isSold);
 
@@ -217,8 +785,17 @@ function App() {
       {/* Conexión de la wallet */}
       <WalletConnect account={account} onConnect={handleConnect} />
 
-      {/* Botón para mintear NFTs y retirar fondos solo visible para el dueño del contrato */}
-      {account?.toLowerCase() === CONTRACT_OWNER && (
+      {access.paused && (
+        <p style={{ color: "#ffc107", fontWeight: "bold" }}>
+          ⏸️ El marketplace está en pausa: no se puede mintear ni comprar.
+        </p>
+      )}
+
+      {/* Mintear lo ve quien tiene el rol de minter, pausar el pauser y
+          retirar quien tenga saldo pendiente */}
+      {(access.roles.minter ||
+        access.roles.pauser ||
+        pendingWithdrawals.length > 0) && (
         <div
           style={{
             display: "flex",
@@ -229,12 +806,74 @@ function App() {
             flexWrap: "wrap",
           }}
         >
-          <div style={{ position: "relative" }}>
+          {access.roles.minter && (
+            <div
+              style={{
+                position: "relative",
+                display: "flex",
+                alignItems: "center",
+                gap: "8px",
+              }}
+            >
+              <input
+                type="number"
+                min="1"
+                value={batchSize}
+                onChange={(e) => setBatchSize(e.target.value)}
+                style={{
+                  width: "70px",
+                  padding: "10px",
+                  borderRadius: "8px",
+                  border: "1px solid #555",
+                  backgroundColor: "#2a2a2a",
+                  color: "#fff",
+                }}
+              />
+              <button
+                onClick={handleMint}
+                disabled={!(Number(batchSize) >= 1)}
+                style={{
+                  padding: "10px 24px",
+                  backgroundColor: "#28a745",
+                  border: "none",
+                  borderRadius: "8px",
+                  color: "#fff",
+                  fontWeight: "bold",
+                  cursor: "pointer",
+                }}
+              >
+                🧙‍♂️ Mintear lote ({batchSize || 0})
+              </button>
+              <span
+                style={{
+                  visibility: "hidden",
+                  width: "200px",
+                  backgroundColor: "#555",
+                  color: "#fff",
+                  textAlign: "center",
+                  borderRadius: "6px",
+                  padding: "5px",
+                  position: "absolute",
+                  zIndex: 1,
+                  bottom: "125%",
+                  left: "50%",
+                  marginLeft: "-100px",
+                  opacity: 0,
+                  transition: "opacity 0.3s",
+                }}
+                className="tooltip-text"
+              >
+                Mintea NFTs para la tienda en una sola transacción
+              </span>
+            </div>
+          )}
+
+          {access.roles.pauser && (
             <button
-              onClick={handleMint}
+              onClick={handleTogglePause}
               style={{
                 padding: "10px 24px",
-                backgroundColor: "#28a745",
+                backgroundColor: access.paused ? "#28a745" : "#dc3545",
                 border: "none",
                 borderRadius: "8px",
                 color: "#fff",
@@ -242,35 +881,14 @@ function App() {
                 cursor: "pointer",
               }}
             >
-              🧙‍♂️ Mint initial batch (10)
+              {access.paused ? "▶️ Reanudar" : "⏸️ Pausar"} marketplace
             </button>
-            <span
-              style={{
-                visibility: "hidden",
-                width: "200px",
-                backgroundColor: "#555",
-                color: "#fff",
-                textAlign: "center",
-                borderRadius: "6px",
-                padding: "5px",
-                position: "absolute",
-                zIndex: 1,
-                bottom: "125%",
-                left: "50%",
-                marginLeft: "-100px",
-                opacity: 0,
-                transition: "opacity 0.3s",
-              }}
-              className="tooltip-text"
-            >
-              Mintea NFTs para la tienda
-            </span>
-          </div>
+          )}
 
-          {Number(pendingAmount) > 0 && (
-            <div style={{ position: "relative" }}>
+          {pendingWithdrawals.map(({ currency, amount }) => (
+            <div key={currency.address} style={{ position: "relative" }}>
               <button
-                onClick={handleWithdraw}
+                onClick={() => handleWithdraw(currency.address)}
                 style={{
                   padding: "10px 24px",
                   backgroundColor: "#ffc107",
@@ -289,16 +907,16 @@ function App() {
                   (e.currentTarget.style.transform = "scale(1)")
                 }
               >
-                🔓 Retirar Fondos ({pendingAmount} ETH)
+                🔓 Retirar Fondos ({amount} {currency.symbol})
               </button>
 
               <div className="tooltip-container">
                 <span className="tooltip-text">
-                  Retira tus fondos acumulados por ventas
+                  Retira tus fondos acumulados por ventas, regalías y comisiones
                 </span>
               </div>
             </div>
-          )}
+          ))}
         </div>
       )}
 
@@ -309,7 +927,19 @@ function App() {
         <button style={tabStyle("store")} onClick={() => setActiveTab("store")}>
           <FaStore /> Tienda
         </button>
-        {account?.toLowerCase() === CONTRACT_OWNER ? (
+        <button
+          style={tabStyle("auctions")}
+          onClick={() => setActiveTab("auctions")}
+        >
+          <FaGavel /> Subastas
+        </button>
+        <button
+          style={tabStyle("offers")}
+          onClick={() => setActiveTab("offers")}
+        >
+          <FaHandshake /> Ofertas
+        </button>
+        {access.roles.minter ? (
           <>
             <button
               style={tabStyle("minted")}
@@ -323,6 +953,12 @@ function App() {
             >
               🛒 Vendidos
             </button>
+            <button
+              style={tabStyle("vouchers")}
+              onClick={() => setActiveTab("vouchers")}
+            >
+              <FaTicketAlt /> Vouchers
+            </button>
           </>
         ) : (
           <button
@@ -332,8 +968,56 @@ function App() {
             <FaGift /> Mis Comprados
           </button>
         )}
+        {access.roles.curator && (
+          <button
+            style={tabStyle("curation")}
+            onClick={() => setActiveTab("curation")}
+          >
+            <FaEyeSlash /> Curación
+          </button>
+        )}
       </div>
 
+      {/* Compra en lote de los NFTs seleccionados en la tienda */}
+      {activeTab === "store" && selectedIds.length > 0 && (
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "center",
+            gap: "8px",
+            marginTop: "20px",
+          }}
+        >
+          <button
+            onClick={handleBatchBuy}
+            style={{
+              padding: "10px 24px",
+              backgroundColor: "#007bff",
+              border: "none",
+              borderRadius: "8px",
+              color: "#fff",
+              fontWeight: "bold",
+              cursor: "pointer",
+            }}
+          >
+            🛒 Comprar seleccionados ({selectedIds.length})
+          </button>
+          <button
+            onClick={() => setSelectedIds([])}
+            style={{
+              padding: "10px 24px",
+              backgroundColor: "#6c757d",
+              border: "none",
+              borderRadius: "8px",
+              color: "#fff",
+              cursor: "pointer",
+            }}
+          >
+            Vaciar
+          </button>
+        </div>
+      )}
+
       {/* Contenido de las pestañas */}
       <div className="grid">
         {activeTab === "store" &&
@@ -342,20 +1026,76 @@ function App() {
               key={nft.tokenId}
               nft={nft}
               onBuy={handleBuy}
+              onCancel={handleCancel}
+              onUpdatePrice={handleUpdatePrice}
+              selected={selectedIds.includes(nft.tokenId)}
+              onSelect={toggleSelected}
               currentAccount={account || ""}
             />
           ))}
 
+        {activeTab === "store" &&
+          vouchers.map((voucher) => (
+            <VoucherCard
+              key={voucher.voucherHash}
+              voucher={voucher}
+              onRedeem={handleRedeem}
+              onCancel={handleCancelVoucher}
+              currentAccount={account || ""}
+            />
+          ))}
+
+        {activeTab === "vouchers" && (
+          <VoucherAdmin
+            currencies={currencies}
+            onCreate={handleCreateVouchers}
+          />
+        )}
+
+        {activeTab === "curation" && (
+          <CurationTab nfts={nfts} onSetHidden={handleSetHidden} />
+        )}
+
         {activeTab === "minted" &&
           myMintedNFTs.map((nft) => (
             <NFTCard
               key={nft.tokenId}
               nft={nft}
               onBuy={() => {}}
+              onList={handleList}
+              onAuction={handleCreateAuction}
+              currencies={currencies}
+              onCancel={handleCancel}
+              onUpdatePrice={handleUpdatePrice}
               currentAccount={account || ""}
             />
           ))}
 
+        {activeTab === "auctions" &&
+          auctions.map((auction) => (
+            <AuctionCard
+              key={`${auction.tokenId}-${auction.startTime}`}
+              auction={auction}
+              onBid={handleBid}
+              onBuyDutch={handleBuyDutch}
+              onSettle={handleSettle}
+              onCancel={handleCancelAuction}
+              currentAccount={account || ""}
+            />
+          ))}
+
+        {activeTab === "offers" && (
+          <OffersTab
+            offers={offers}
+            nfts={nfts}
+            currencies={currencies}
+            currentAccount={account || ""}
+            onMake={handleMakeOffer}
+            onAccept={handleAcceptOffer}
+            onCancel={handleCancelOffer}
+          />
+        )}
+
         {activeTab === "sold" &&
           soldNFTs.map((nft) => (
             <NFTCard
@@ -372,6 +1112,11 @@ function App() {
               key={nft.tokenId}
               nft={nft}
               onBuy={() => {}}
+              onList={handleList}
+              onAuction={handleCreateAuction}
+              currencies={currencies}
+              onCancel={handleCancel}
+              onUpdatePrice={handleUpdatePrice}
               currentAccount={account || ""}
             />
           ))}
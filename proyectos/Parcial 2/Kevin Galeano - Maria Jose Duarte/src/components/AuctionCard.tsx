@@ -0,0 +1,285 @@
+import { FaEthereum, FaGavel } from "react-icons/fa";
+import { TbCoins } from "react-icons/tb";
+import { ZeroAddress, formatUnits, parseUnits } from "ethers";
+import type { AuctionItem } from "../utils/marketplace";
+import { useEffect, useState } from "react";
+
+type Props = {
+  auction: AuctionItem;
+  onBid: (auction: AuctionItem, amount: string) => void;
+  onBuyDutch: (auction: AuctionItem) => void;
+  onSettle: (tokenId: number) => void;
+  onCancel: (tokenId: number) => void;
+  currentAccount?: string;
+};
+
+const MIN_BID_INCREMENT_BPS = 500n; // Igual que el contrato
+
+// Acorta una dirección para el historial de pujas
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Tiempo restante como "1d 02:03:04"
+const formatCountdown = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  const time = [
+    Math.floor((seconds % 86400) / 3600),
+    Math.floor((seconds % 3600) / 60),
+    seconds % 60,
+  ]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":");
+  return days > 0 ? `${days}d ${time}` : time;
+};
+
+// Precio de la holandesa en un momento, con la misma cuenta que el contrato
+const dutchPrice = (auction: AuctionItem, now: number) => {
+  const start = parseUnits(auction.startPrice, auction.decimals);
+  const end = parseUnits(auction.endPrice, auction.decimals);
+  if (now >= auction.endTime) return end;
+
+  const elapsed = BigInt(Math.max(now - auction.startTime, 0));
+  const duration = BigInt(auction.endTime - auction.startTime);
+  return start - ((start - end) * elapsed) / duration;
+};
+
+// Puja mínima de la inglesa: la inicial o la más alta más el incremento
+const minimumBid = (auction: AuctionItem) => {
+  if (auction.highestBidder === ZeroAddress) {
+    return parseUnits(auction.startPrice, auction.decimals);
+  }
+  const highest = parseUnits(auction.highestBid, auction.decimals);
+  return highest + (highest * MIN_BID_INCREMENT_BPS) / 10000n;
+};
+
+export default function AuctionCard({
+  auction,
+  onBid,
+  onBuyDutch,
+  onSettle,
+  onCancel,
+  currentAccount,
+}: Props) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [amount, setAmount] = useState(""); // Monto de la puja
+  const [now, setNow] = useState(Math.floor(Date.now() / 1000));
+  const isSeller =
+    currentAccount?.toLowerCase() === auction.seller.toLowerCase();
+  const isActive = auction.status === "active" && now < auction.endTime;
+  const isPendingSettlement =
+    auction.status === "active" && now >= auction.endTime;
+  const hasBids = auction.highestBidder !== ZeroAddress;
+
+  const actionButtonStyle = (backgroundColor: string) => ({
+    padding: "8px 14px",
+    backgroundColor,
+    color: "#fff",
+    border: "none",
+    borderRadius: "6px",
+    cursor: "pointer",
+  });
+
+  const cardStyle = {
+    border: "1px solid #333",
+    borderRadius: "14px",
+    width: "250px",
+    margin: "10px",
+    padding: "16px",
+    backgroundColor: "#1e1e1e",
+    color: "#fff",
+    boxShadow: "0 4px 8px rgba(0,0,0,0.2)",
+    textAlign: "center" as const,
+  };
+
+  // Convierte ipfs://... a https://... para los gateways
+  const ipfsToHttp = (ipfsUri: string) =>
+    ipfsUri.replace("ipfs://", "https://ipfs.io/ipfs/");
+
+  // Carga el metadata JSON y extrae la imagen
+  useEffect(() => {
+    const fetchImageFromMetadata = async () => {
+      try {
+        const res = await fetch(ipfsToHttp(auction.uri));
+        const json = await res.json();
+        setImageUrl(ipfsToHttp(json.image));
+      } catch (err) {
+        console.error(
+          `❌ Error cargando metadata de NFT ${auction.tokenId}:`,
+          err
+        );
+      }
+    };
+
+    if (auction.uri) {
+      fetchImageFromMetadata();
+    }
+  }, [auction.uri, auction.tokenId]);
+
+  // Cuenta regresiva hasta el cierre
+  useEffect(() => {
+    if (auction.status !== "active") return;
+    const interval = setInterval(
+      () => setNow(Math.floor(Date.now() / 1000)),
+      1000
+    );
+    return () => clearInterval(interval);
+  }, [auction.status]);
+
+  const currentPrice =
+    auction.kind === "dutch" && auction.status === "active"
+      ? formatUnits(dutchPrice(auction, now), auction.decimals)
+      : hasBids
+      ? auction.highestBid
+      : auction.startPrice;
+
+  return (
+    <div style={cardStyle}>
+      {imageUrl ? (
+        <img
+          src={imageUrl}
+          alt={`NFT ${auction.tokenId}`}
+          width="100%"
+          height="200px"
+          style={{
+            objectFit: "cover",
+            borderRadius: "10px",
+            marginBottom: "12px",
+          }}
+        />
+      ) : (
+        <div style={{ height: "200px", marginBottom: "12px", color: "#888" }} />
+      )}
+      <h3 style={{ margin: "0 0 6px", fontSize: "1.1rem" }}>
+        {`NFT #${auction.tokenId}`} ·{" "}
+        {auction.kind === "english" ? "Inglesa" : "Holandesa"}
+      </h3>
+      <p
+        style={{
+          display: "flex",
+          justifyContent: "center",
+          alignItems: "center",
+          gap: "6px",
+        }}
+      >
+        {auction.currency === ZeroAddress ? <FaEthereum /> : <TbCoins />}{" "}
+        {currentPrice} {auction.symbol}
+      </p>
+      {auction.kind === "dutch" && auction.status === "active" && (
+        <p style={{ fontSize: "0.85rem", color: "#aaa", margin: "0 0 6px" }}>
+          Baja de {auction.startPrice} a {auction.endPrice} {auction.symbol}
+        </p>
+      )}
+
+      {isActive && (
+        <p style={{ color: "gold", fontWeight: "bold" }}>
+          ⏳ {formatCountdown(auction.endTime - now)}
+        </p>
+      )}
+      {isPendingSettlement && (
+        <p style={{ color: "#ccc" }}>Terminada, falta cerrarla</p>
+      )}
+      {auction.status === "settled" && (
+        <p style={{ color: "lime", fontWeight: "bold" }}>
+          {hasBids
+            ? `Ganó ${shortAddress(auction.highestBidder)} por ${
+                auction.highestBid
+              } ${auction.symbol}`
+            : "Terminó sin pujas"}
+        </p>
+      )}
+      {auction.status === "canceled" && (
+        <p style={{ color: "#dc3545", fontWeight: "bold" }}>Cancelada</p>
+      )}
+
+      {/* Pujar en la inglesa o comprar en la holandesa */}
+      {isActive && !isSeller && currentAccount != "" && (
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "center",
+            flexWrap: "wrap",
+            gap: "8px",
+            marginTop: "10px",
+          }}
+        >
+          {auction.kind === "english" ? (
+            <>
+              <input
+                type="number"
+                min="0"
+                step="0.001"
+                placeholder={`≥ ${formatUnits(
+                  minimumBid(auction),
+                  auction.decimals
+                )}`}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                style={{
+                  width: "90px",
+                  padding: "8px",
+                  borderRadius: "6px",
+                  border: "1px solid #555",
+                  backgroundColor: "#2a2a2a",
+                  color: "#fff",
+                }}
+              />
+              <button
+                onClick={() => onBid(auction, amount)}
+                disabled={!amount}
+                style={actionButtonStyle("#007bff")}
+              >
+                <FaGavel /> Pujar
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => onBuyDutch(auction)}
+              style={actionButtonStyle("#007bff")}
+            >
+              <FaGavel /> Comprar ahora
+            </button>
+          )}
+        </div>
+      )}
+
+      {isPendingSettlement && (
+        <button
+          onClick={() => onSettle(auction.tokenId)}
+          style={{ ...actionButtonStyle("#28a745"), marginTop: "10px" }}
+        >
+          Cerrar subasta
+        </button>
+      )}
+
+      {isActive && isSeller && !hasBids && (
+        <button
+          onClick={() => onCancel(auction.tokenId)}
+          style={{ ...actionButtonStyle("#dc3545"), marginTop: "10px" }}
+        >
+          Cancelar subasta
+        </button>
+      )}
+
+      {/* Historial de pujas, la más reciente primero */}
+      {auction.bids.length > 0 && (
+        <ul
+          style={{
+            listStyle: "none",
+            padding: 0,
+            margin: "12px 0 0",
+            fontSize: "0.85rem",
+            color: "#ccc",
+            textAlign: "left",
+          }}
+        >
+          {[...auction.bids].reverse().map((bid) => (
+            <li key={`${bid.blockNumber}-${bid.bidder}-${bid.amount}`}>
+              {shortAddress(bid.bidder)}: {bid.amount} {auction.symbol}{" "}
+              <span style={{ color: "#777" }}>(bloque {bid.blockNumber})</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
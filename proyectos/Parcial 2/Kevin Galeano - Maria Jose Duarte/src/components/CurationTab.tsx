@@ -0,0 +1,104 @@
+import { FaEye, FaEyeSlash } from "react-icons/fa";
+import type { NFTItem } from "../utils/marketplace";
+
+type Props = {
+  nfts: NFTItem[];
+  onSetHidden: (tokenIds: number[], hidden: boolean) => void;
+};
+
+// Vista del curador: todos los NFTs, visibles u ocultos, con su estado
+export default function CurationTab({ nfts, onSetHidden }: Props) {
+  const hiddenIds = nfts.filter((nft) => nft.hidden).map((nft) => nft.tokenId);
+
+  const actionButtonStyle = (backgroundColor: string) => ({
+    padding: "6px 12px",
+    backgroundColor,
+    color: "#fff",
+    border: "none",
+    borderRadius: "6px",
+    cursor: "pointer",
+  });
+
+  const cellStyle = {
+    padding: "8px",
+    borderBottom: "1px solid #333",
+    textAlign: "left" as const,
+  };
+
+  return (
+    <div style={{ width: "100%", maxWidth: "820px", margin: "0 auto" }}>
+      <h3>Curación</h3>
+      <p style={{ color: "#888" }}>
+        Un NFT oculto desaparece de la tienda y no se puede vender, subastar ni
+        recibir ofertas nuevas. Sus ventas y ofertas abiertas se pueden cancelar
+        igual.
+      </p>
+      {hiddenIds.length > 0 && (
+        <button
+          onClick={() => onSetHidden(hiddenIds, false)}
+          style={{ ...actionButtonStyle("#007bff"), marginBottom: "12px" }}
+        >
+          <FaEye /> Mostrar todos los ocultos ({hiddenIds.length})
+        </button>
+      )}
+
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ color: "#aaa" }}>
+            <th style={cellStyle}>NFT</th>
+            <th style={cellStyle}>Metadatos</th>
+            <th style={cellStyle}>Dueño</th>
+            <th style={cellStyle}>Estado</th>
+            <th style={cellStyle} />
+          </tr>
+        </thead>
+        <tbody>
+          {nfts.map((nft) => (
+            <tr key={nft.tokenId}>
+              <td style={cellStyle}>#{nft.tokenId}</td>
+              <td
+                style={{
+                  ...cellStyle,
+                  maxWidth: "240px",
+                  overflow: "hidden",
+                  textOverflow: "ellipsis",
+                  whiteSpace: "nowrap",
+                }}
+              >
+                {nft.uri}
+              </td>
+              <td style={cellStyle}>
+                {nft.holder.slice(0, 6)}...{nft.holder.slice(-4)}
+              </td>
+              <td
+                style={{
+                  ...cellStyle,
+                  color: nft.hidden ? "#dc3545" : "#28a745",
+                }}
+              >
+                {nft.hidden ? "Oculto" : "Visible"}
+              </td>
+              <td style={cellStyle}>
+                {nft.hidden ? (
+                  <button
+                    onClick={() => onSetHidden([nft.tokenId], false)}
+                    style={actionButtonStyle("#28a745")}
+                  >
+                    <FaEye /> Mostrar
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => onSetHidden([nft.tokenId], true)}
+                    style={actionButtonStyle("#dc3545")}
+                  >
+                    <FaEyeSlash /> Ocultar
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
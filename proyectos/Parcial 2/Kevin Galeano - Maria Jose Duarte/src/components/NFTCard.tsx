@@ -2,19 +2,71 @@ import { FaEthereum } from "react-icons/fa";
 import { BsCheckCircleFill } from "react-icons/bs";
 import { AiOutlineShoppingCart } from "react-icons/ai";
 import { TbCoins } from "react-icons/tb";
-import type { NFTItem } from "../utils/marketplace";
+import { ZeroAddress } from "ethers";
+import { getSaleQuote } from "../utils/marketplace";
+import type {
+  AuctionKind,
+  AuctionTerms,
+  NFTItem,
+  PaymentCurrency,
+  SaleQuote,
+} from "../utils/marketplace";
 import { useEffect, useState } from "react";
 
 type Props = {
   nft: NFTItem;
-  onBuy: (tokenId: number, price: string) => void;
+  onBuy: (nft: NFTItem) => void;
+  onList?: (tokenId: number, price: string, currency: PaymentCurrency) => void;
+  onCancel?: (tokenId: number) => void;
+  onUpdatePrice?: (nft: NFTItem, price: string) => void;
+  onAuction?: (tokenId: number, terms: AuctionTerms) => void;
+  currencies?: PaymentCurrency[]; // Monedas aceptadas para revender
+  selected?: boolean; // Está en el lote de compra
+  onSelect?: (nft: NFTItem) => void;
   currentAccount?: string;
 };
 
-export default function NFTCard({ nft, onBuy, currentAccount }: Props) {
+export default function NFTCard({
+  nft,
+  onBuy,
+  onList,
+  onCancel,
+  onUpdatePrice,
+  onAuction,
+  currencies = [],
+  selected = false,
+  onSelect,
+  currentAccount,
+}: Props) {
   const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [newPrice, setNewPrice] = useState(""); // Precio para revender o actualizar
+  const [currencyIndex, setCurrencyIndex] = useState(0); // Moneda para revender
+  const [quote, setQuote] = useState<SaleQuote | null>(null); // Reparto antes de comprar
+  const [auctionKind, setAuctionKind] = useState<AuctionKind>("english");
+  const [endPrice, setEndPrice] = useState(""); // Precio final de la holandesa
+  const [hours, setHours] = useState("24"); // Duración de la subasta
   const isOwner = currentAccount?.toLowerCase() === nft.owner.toLowerCase();
+  const isHolder = currentAccount?.toLowerCase() === nft.holder.toLowerCase();
   const isSold = nft.isSold;
+  const isListed = nft.isListed;
+
+  const actionButtonStyle = (backgroundColor: string) => ({
+    padding: "8px 14px",
+    backgroundColor,
+    color: "#fff",
+    border: "none",
+    borderRadius: "6px",
+    cursor: "pointer",
+  });
+
+  const priceInputStyle = {
+    width: "90px",
+    padding: "8px",
+    borderRadius: "6px",
+    border: "1px solid #555",
+    backgroundColor: "#2a2a2a",
+    color: "#fff",
+  };
 
   const cardStyle = {
     border: "1px solid #333",
@@ -28,6 +80,16 @@ export default function NFTCard({ nft, onBuy, currentAccount }: Props) {
     textAlign: "center" as const,
   };
 
+  // Muestra cuánto va al vendedor, al creador y a la plataforma antes de
+  // confirmar la compra
+  const showQuote = async () => {
+    try {
+      setQuote(await getSaleQuote(nft));
+    } catch (err) {
+      console.error(`❌ Error cargando el reparto de NFT ${nft.tokenId}:`, err);
+    }
+  };
+
   // Convierte ipfs://... a https://... para los gateways
   const ipfsToHttp = (ipfsUri: string) =>
     ipfsUri.replace("ipfs://", "https://ipfs.io/ipfs/");
@@ -103,7 +165,8 @@ export default function NFTCard({ nft, onBuy, currentAccount }: Props) {
           gap: "6px",
         }}
       >
-        <FaEthereum /> {nft.price} ETH
+        {nft.currency === ZeroAddress ? <FaEthereum /> : <TbCoins />}{" "}
+        {nft.price} {nft.symbol}
       </p>
 
       {isSold && (
@@ -112,10 +175,48 @@ export default function NFTCard({ nft, onBuy, currentAccount }: Props) {
         </p>
       )}
 
-      {!isOwner && !isSold && currentAccount != "" && (
+      {!isOwner && isListed && currentAccount != "" && quote && (
+        <div style={{ fontSize: "0.9rem", color: "#ccc", marginTop: "10px" }}>
+          <p style={{ margin: "4px 0" }}>
+            Vendedor: {quote.sellerAmount} {nft.symbol}
+          </p>
+          <p style={{ margin: "4px 0" }}>
+            Regalía del creador: {quote.royaltyAmount} {nft.symbol}
+          </p>
+          <p style={{ margin: "4px 0" }}>
+            Comisión de la plataforma: {quote.platformFee} {nft.symbol}
+          </p>
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "center",
+              gap: "8px",
+              marginTop: "10px",
+            }}
+          >
+            <button
+              onClick={() => {
+                setQuote(null);
+                onBuy(nft);
+              }}
+              style={actionButtonStyle("#007bff")}
+            >
+              Confirmar compra
+            </button>
+            <button
+              onClick={() => setQuote(null)}
+              style={actionButtonStyle("#6c757d")}
+            >
+              Volver
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!isOwner && isListed && currentAccount != "" && !quote && (
         <div style={{ display: "flex", justifyContent: "center" }}>
           <button
-            onClick={() => onBuy(nft.tokenId, nft.price)}
+            onClick={showQuote}
             style={{
               padding: "10px 20px",
               backgroundColor: "#007bff",
@@ -135,11 +236,170 @@ export default function NFTCard({ nft, onBuy, currentAccount }: Props) {
         </div>
       )}
 
-      {isOwner && !isSold && (
+      {/* Suma el NFT a la compra en lote de la tienda */}
+      {onSelect && !isOwner && isListed && currentAccount != "" && (
+        <label
+          style={{
+            display: "flex",
+            justifyContent: "center",
+            alignItems: "center",
+            gap: "6px",
+            marginTop: "8px",
+            fontSize: "0.9rem",
+            color: "#ccc",
+            cursor: "pointer",
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={selected}
+            onChange={() => onSelect(nft)}
+          />
+          Agregar al lote
+        </label>
+      )}
+
+      {isOwner && isListed && (
         <p style={{ color: "gold", fontWeight: "bold", marginTop: "10px" }}>
           <TbCoins /> A la venta (tuyo)
         </p>
       )}
+
+      {/* El vendedor puede cambiar el precio o retirar el NFT de la venta */}
+      {isOwner && isListed && onUpdatePrice && onCancel && (
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "center",
+            flexWrap: "wrap",
+            gap: "8px",
+          }}
+        >
+          <input
+            type="number"
+            min="0"
+            step="0.001"
+            placeholder="ETH"
+            value={newPrice}
+            onChange={(e) => setNewPrice(e.target.value)}
+            style={priceInputStyle}
+          />
+          <button
+            onClick={() => onUpdatePrice(nft, newPrice)}
+            disabled={!newPrice}
+            style={actionButtonStyle("#007bff")}
+          >
+            Cambiar precio
+          </button>
+          <button
+            onClick={() => onCancel(nft.tokenId)}
+            style={actionButtonStyle("#dc3545")}
+          >
+            Cancelar venta
+          </button>
+        </div>
+      )}
+
+      {/* Quien tiene el NFT fuera de venta lo puede revender */}
+      {isHolder && !isListed && onList && currencies.length > 0 && (
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "center",
+            flexWrap: "wrap",
+            gap: "8px",
+            marginTop: "10px",
+          }}
+        >
+          <input
+            type="number"
+            min="0"
+            step="0.001"
+            placeholder="ETH"
+            value={newPrice}
+            onChange={(e) => setNewPrice(e.target.value)}
+            style={priceInputStyle}
+          />
+          <select
+            value={currencyIndex}
+            onChange={(e) => setCurrencyIndex(Number(e.target.value))}
+            style={priceInputStyle}
+          >
+            {currencies.map((currency, i) => (
+              <option key={currency.address} value={i}>
+                {currency.symbol}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() =>
+              onList(nft.tokenId, newPrice, currencies[currencyIndex])
+            }
+            disabled={!newPrice}
+            style={actionButtonStyle("#28a745")}
+          >
+            Revender
+          </button>
+        </div>
+      )}
+
+      {/* O subastarlo con el mismo precio y moneda como punto de partida */}
+      {isHolder && !isListed && onAuction && currencies.length > 0 && (
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "center",
+            flexWrap: "wrap",
+            gap: "8px",
+            marginTop: "10px",
+          }}
+        >
+          <select
+            value={auctionKind}
+            onChange={(e) => setAuctionKind(e.target.value as AuctionKind)}
+            style={priceInputStyle}
+          >
+            <option value="english">Inglesa</option>
+            <option value="dutch">Holandesa</option>
+          </select>
+          {auctionKind === "dutch" && (
+            <input
+              type="number"
+              min="0"
+              step="0.001"
+              placeholder="Final"
+              value={endPrice}
+              onChange={(e) => setEndPrice(e.target.value)}
+              style={priceInputStyle}
+            />
+          )}
+          <input
+            type="number"
+            min="1"
+            placeholder="Horas"
+            value={hours}
+            onChange={(e) => setHours(e.target.value)}
+            style={priceInputStyle}
+          />
+          <button
+            onClick={() =>
+              onAuction(nft.tokenId, {
+                kind: auctionKind,
+                startPrice: newPrice,
+                endPrice,
+                currency: currencies[currencyIndex],
+                duration: Math.round(Number(hours) * 3600),
+              })
+            }
+            disabled={
+              !newPrice || !hours || (auctionKind === "dutch" && !endPrice)
+            }
+            style={actionButtonStyle("#6f42c1")}
+          >
+            Subastar
+          </button>
+        </div>
+      )}
     </div>
   );
 }
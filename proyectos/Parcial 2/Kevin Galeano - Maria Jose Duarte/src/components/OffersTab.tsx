@@ -0,0 +1,240 @@
+import { FaHandshake } from "react-icons/fa";
+import type { NFTItem, OfferItem, PaymentCurrency } from "../utils/marketplace";
+import { useState } from "react";
+
+type Props = {
+  offers: OfferItem[];
+  nfts: NFTItem[];
+  currencies: PaymentCurrency[]; // Monedas aceptadas para ofertar
+  currentAccount: string;
+  onMake: (
+    tokenId: number | null,
+    amount: string,
+    currency: PaymentCurrency,
+    expiresAt: number
+  ) => void;
+  onAccept: (offer: OfferItem, tokenId: number) => void;
+  onCancel: (offerId: number) => void;
+};
+
+const DAY = 24 * 60 * 60;
+
+// Fila de una oferta: a qué NFT apunta, monto y vencimiento
+const describeOffer = (offer: OfferItem) =>
+  `${offer.collection ? "Cualquier NFT" : `NFT #${offer.tokenId}`} · ${
+    offer.amount
+  } ${offer.symbol} · vence ${new Date(
+    offer.expiresAt * 1000
+  ).toLocaleString()}`;
+
+export default function OffersTab({
+  offers,
+  nfts,
+  currencies,
+  currentAccount,
+  onMake,
+  onAccept,
+  onCancel,
+}: Props) {
+  const [tokenId, setTokenId] = useState(""); // Vacío: oferta de colección
+  const [amount, setAmount] = useState("");
+  const [currencyIndex, setCurrencyIndex] = useState(0);
+  const [days, setDays] = useState("7");
+  // NFT elegido para aceptar cada oferta de colección
+  const [selectedTokens, setSelectedTokens] = useState<Record<number, number>>(
+    {}
+  );
+  const account = currentAccount.toLowerCase();
+  const now = Math.floor(Date.now() / 1000);
+
+  const myNFTs = nfts.filter((nft) => nft.holder.toLowerCase() === account);
+  const isActive = (offer: OfferItem) =>
+    offer.status === "active" && now < offer.expiresAt;
+
+  // Ofertas que la cuenta puede aceptar con algún NFT propio
+  const receivedOffers = offers.filter(
+    (offer) =>
+      isActive(offer) &&
+      offer.buyer.toLowerCase() !== account &&
+      (offer.collection
+        ? myNFTs.length > 0
+        : myNFTs.some((nft) => nft.tokenId === offer.tokenId))
+  );
+  const myOffers = offers.filter(
+    (offer) => offer.buyer.toLowerCase() === account
+  );
+
+  const inputStyle = {
+    width: "90px",
+    padding: "8px",
+    borderRadius: "6px",
+    border: "1px solid #555",
+    backgroundColor: "#2a2a2a",
+    color: "#fff",
+  };
+
+  const actionButtonStyle = (backgroundColor: string) => ({
+    padding: "8px 14px",
+    backgroundColor,
+    color: "#fff",
+    border: "none",
+    borderRadius: "6px",
+    cursor: "pointer",
+  });
+
+  const rowStyle = {
+    display: "flex",
+    justifyContent: "space-between",
+    alignItems: "center",
+    flexWrap: "wrap" as const,
+    gap: "8px",
+    padding: "10px 14px",
+    margin: "8px 0",
+    borderRadius: "10px",
+    backgroundColor: "#1e1e1e",
+    border: "1px solid #333",
+  };
+
+  // Estado visible de una oferta propia
+  const statusLabel = (offer: OfferItem) => {
+    if (offer.status === "accepted") {
+      return `Aceptada (NFT #${offer.tokenId})`;
+    }
+    if (offer.status === "canceled") return "Cancelada";
+    return isActive(offer) ? "Activa" : "Vencida";
+  };
+
+  if (!currentAccount) {
+    return <p>Conectá tu wallet para ver y hacer ofertas.</p>;
+  }
+
+  return (
+    <div style={{ width: "100%", maxWidth: "720px", margin: "0 auto" }}>
+      {/* Oferta por un NFT o por cualquiera de la colección */}
+      <h3>Nueva oferta</h3>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "center",
+          flexWrap: "wrap",
+          gap: "8px",
+        }}
+      >
+        <input
+          type="number"
+          min="0"
+          placeholder="NFT #"
+          value={tokenId}
+          onChange={(e) => setTokenId(e.target.value)}
+          style={inputStyle}
+        />
+        <input
+          type="number"
+          min="0"
+          step="0.001"
+          placeholder="Monto"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          style={inputStyle}
+        />
+        <select
+          value={currencyIndex}
+          onChange={(e) => setCurrencyIndex(Number(e.target.value))}
+          style={inputStyle}
+        >
+          {currencies.map((currency, i) => (
+            <option key={currency.address} value={i}>
+              {currency.symbol}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min="1"
+          placeholder="Días"
+          value={days}
+          onChange={(e) => setDays(e.target.value)}
+          style={inputStyle}
+        />
+        <button
+          onClick={() =>
+            onMake(
+              tokenId === "" ? null : Number(tokenId),
+              amount,
+              currencies[currencyIndex],
+              now + Math.round(Number(days) * DAY)
+            )
+          }
+          disabled={!amount || !days || currencies.length === 0}
+          style={actionButtonStyle("#007bff")}
+        >
+          <FaHandshake />{" "}
+          {tokenId === "" ? "Ofertar por la colección" : "Ofertar"}
+        </button>
+      </div>
+
+      <h3 style={{ marginTop: "30px" }}>Ofertas recibidas</h3>
+      {receivedOffers.length === 0 && (
+        <p style={{ color: "#888" }}>No hay ofertas por tus NFTs.</p>
+      )}
+      {receivedOffers.map((offer) => {
+        const selected = offer.collection
+          ? selectedTokens[offer.offerId] ?? myNFTs[0].tokenId
+          : offer.tokenId;
+        return (
+          <div key={offer.offerId} style={rowStyle}>
+            <span>{describeOffer(offer)}</span>
+            <div style={{ display: "flex", gap: "8px" }}>
+              {offer.collection && (
+                <select
+                  value={selected}
+                  onChange={(e) =>
+                    setSelectedTokens({
+                      ...selectedTokens,
+                      [offer.offerId]: Number(e.target.value),
+                    })
+                  }
+                  style={inputStyle}
+                >
+                  {myNFTs.map((nft) => (
+                    <option key={nft.tokenId} value={nft.tokenId}>
+                      NFT #{nft.tokenId}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={() => onAccept(offer, selected)}
+                style={actionButtonStyle("#28a745")}
+              >
+                Aceptar
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <h3 style={{ marginTop: "30px" }}>Mis ofertas</h3>
+      {myOffers.length === 0 && (
+        <p style={{ color: "#888" }}>Todavía no hiciste ofertas.</p>
+      )}
+      {myOffers.map((offer) => (
+        <div key={offer.offerId} style={rowStyle}>
+          <span>{describeOffer(offer)}</span>
+          <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+            <span style={{ color: "#ccc" }}>{statusLabel(offer)}</span>
+            {/* Cancelar devuelve el monto al saldo por retirar */}
+            {offer.status === "active" && (
+              <button
+                onClick={() => onCancel(offer.offerId)}
+                style={actionButtonStyle("#dc3545")}
+              >
+                {isActive(offer) ? "Cancelar" : "Recuperar"}
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
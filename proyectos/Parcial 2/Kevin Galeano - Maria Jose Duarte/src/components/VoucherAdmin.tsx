@@ -0,0 +1,179 @@
+import { FaTicketAlt } from "react-icons/fa";
+import type { PaymentCurrency } from "../utils/marketplace";
+import { useState } from "react";
+
+type Props = {
+  currencies: PaymentCurrency[];
+  onCreate: (
+    cid: string,
+    count: number,
+    price: string,
+    currency: PaymentCurrency,
+    royaltyBps: number,
+    deadline: number
+  ) => Promise<string | null>; // JSON del lote o null si falló
+};
+
+const DAY = 24 * 60 * 60;
+
+export default function VoucherAdmin({ currencies, onCreate }: Props) {
+  const [cid, setCid] = useState(import.meta.env.VITE_METADATA_CID ?? "");
+  const [count, setCount] = useState("10");
+  const [price, setPrice] = useState("0.01");
+  const [currencyIndex, setCurrencyIndex] = useState(0);
+  const [royalty, setRoyalty] = useState("5"); // Porcentaje
+  const [days, setDays] = useState("30"); // Validez de los vouchers
+  const [vouchersJson, setVouchersJson] = useState<string | null>(null);
+
+  const inputStyle = {
+    width: "90px",
+    padding: "8px",
+    borderRadius: "6px",
+    border: "1px solid #555",
+    backgroundColor: "#2a2a2a",
+    color: "#fff",
+  };
+
+  const actionButtonStyle = (backgroundColor: string) => ({
+    padding: "8px 14px",
+    backgroundColor,
+    color: "#fff",
+    border: "none",
+    borderRadius: "6px",
+    cursor: "pointer",
+  });
+
+  const handleCreate = async () => {
+    setVouchersJson(
+      await onCreate(
+        cid,
+        Number(count),
+        price,
+        currencies[currencyIndex],
+        Math.round(Number(royalty) * 100),
+        Math.floor(Date.now() / 1000) + Math.round(Number(days) * DAY)
+      )
+    );
+  };
+
+  // Descarga el lote para publicarlo como public/vouchers.json
+  const handleDownload = () => {
+    const url = URL.createObjectURL(
+      new Blob([vouchersJson!], { type: "application/json" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "vouchers.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div style={{ width: "100%", maxWidth: "720px", margin: "0 auto" }}>
+      <h3>Vouchers de minteo</h3>
+      <p style={{ color: "#888" }}>
+        Se firma un voucher por cada metadato del CID. Los NFTs se mintean
+        recién cuando alguien los compra, y el comprador paga el gas. Después de
+        los días de validez ya no se pueden canjear.
+      </p>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "center",
+          flexWrap: "wrap",
+          gap: "8px",
+        }}
+      >
+        <input
+          placeholder="CID de los metadatos"
+          value={cid}
+          onChange={(e) => setCid(e.target.value)}
+          style={{ ...inputStyle, width: "260px" }}
+        />
+        <input
+          type="number"
+          min="1"
+          placeholder="Cantidad"
+          value={count}
+          onChange={(e) => setCount(e.target.value)}
+          style={inputStyle}
+        />
+        <input
+          type="number"
+          min="0"
+          step="0.001"
+          placeholder="Precio"
+          value={price}
+          onChange={(e) => setPrice(e.target.value)}
+          style={inputStyle}
+        />
+        <select
+          value={currencyIndex}
+          onChange={(e) => setCurrencyIndex(Number(e.target.value))}
+          style={inputStyle}
+        >
+          {currencies.map((currency, i) => (
+            <option key={currency.address} value={i}>
+              {currency.symbol}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min="0"
+          max="10"
+          step="0.5"
+          placeholder="Regalía %"
+          value={royalty}
+          onChange={(e) => setRoyalty(e.target.value)}
+          style={inputStyle}
+        />
+        <input
+          type="number"
+          min="1"
+          placeholder="Días"
+          value={days}
+          onChange={(e) => setDays(e.target.value)}
+          style={inputStyle}
+        />
+        <button
+          onClick={handleCreate}
+          disabled={
+            !cid || !count || !price || !days || currencies.length === 0
+          }
+          style={actionButtonStyle("#28a745")}
+        >
+          <FaTicketAlt /> Firmar vouchers
+        </button>
+      </div>
+
+      {vouchersJson && (
+        <div style={{ marginTop: "20px" }}>
+          <p style={{ color: "#ccc" }}>
+            Publicá este archivo como <code>public/vouchers.json</code> (o en{" "}
+            <code>VITE_VOUCHERS_URL</code>) para que aparezca en la tienda.
+          </p>
+          <textarea
+            readOnly
+            value={vouchersJson}
+            rows={10}
+            style={{
+              width: "100%",
+              backgroundColor: "#2a2a2a",
+              color: "#ccc",
+              border: "1px solid #555",
+              borderRadius: "6px",
+              fontFamily: "monospace",
+            }}
+          />
+          <button
+            onClick={handleDownload}
+            style={{ ...actionButtonStyle("#007bff"), marginTop: "8px" }}
+          >
+            Descargar vouchers.json
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { FaEthereum, FaMagic } from "react-icons/fa";
+import { TbCoins } from "react-icons/tb";
+import { ZeroAddress } from "ethers";
+import type { VoucherItem } from "../utils/marketplace";
+import { useEffect, useState } from "react";
+
+type Props = {
+  voucher: VoucherItem;
+  onRedeem: (voucher: VoucherItem) => void;
+  onCancel: (voucher: VoucherItem) => void;
+  currentAccount?: string;
+};
+
+export default function VoucherCard({
+  voucher,
+  onRedeem,
+  onCancel,
+  currentAccount,
+}: Props) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const isCreator =
+    currentAccount?.toLowerCase() === voucher.creator.toLowerCase();
+
+  const cardStyle = {
+    border: "1px dashed #555",
+    borderRadius: "14px",
+    width: "250px",
+    margin: "10px",
+    padding: "16px",
+    backgroundColor: "#1e1e1e",
+    color: "#fff",
+    boxShadow: "0 4px 8px rgba(0,0,0,0.2)",
+    textAlign: "center" as const,
+  };
+
+  // Convierte ipfs://... a https://... para los gateways
+  const ipfsToHttp = (ipfsUri: string) =>
+    ipfsUri.replace("ipfs://", "https://ipfs.io/ipfs/");
+
+  // Carga el metadata JSON y extrae la imagen
+  useEffect(() => {
+    const fetchImageFromMetadata = async () => {
+      try {
+        const res = await fetch(ipfsToHttp(voucher.uri));
+        const json = await res.json();
+        setImageUrl(ipfsToHttp(json.image));
+      } catch (err) {
+        console.error(`❌ Error cargando metadata de ${voucher.uri}:`, err);
+      }
+    };
+
+    fetchImageFromMetadata();
+  }, [voucher.uri]);
+
+  return (
+    <div style={cardStyle}>
+      {imageUrl ? (
+        <img
+          src={imageUrl}
+          alt={voucher.uri}
+          width="100%"
+          height="200px"
+          style={{
+            objectFit: "cover",
+            borderRadius: "10px",
+            marginBottom: "12px",
+          }}
+        />
+      ) : (
+        <div style={{ height: "200px", marginBottom: "12px", color: "#888" }} />
+      )}
+      <h3 style={{ margin: "0 0 6px", fontSize: "1.1rem" }}>Sin mintear</h3>
+      <p
+        style={{
+          display: "flex",
+          justifyContent: "center",
+          alignItems: "center",
+          gap: "6px",
+        }}
+      >
+        {voucher.currency === ZeroAddress ? <FaEthereum /> : <TbCoins />}{" "}
+        {voucher.price} {voucher.symbol}
+      </p>
+      <p style={{ fontSize: "0.85rem", color: "#aaa", margin: "0 0 6px" }}>
+        Regalía del creador: {voucher.royaltyBps / 100}%
+      </p>
+      <p style={{ fontSize: "0.85rem", color: "#aaa", margin: "0 0 6px" }}>
+        Vence: {new Date(voucher.deadline * 1000).toLocaleString()}
+      </p>
+
+      {/* Quien compra paga también el gas del minteo */}
+      {!isCreator && currentAccount != "" && (
+        <button
+          onClick={() => onRedeem(voucher)}
+          style={{
+            padding: "8px 14px",
+            backgroundColor: "#007bff",
+            color: "#fff",
+            border: "none",
+            borderRadius: "6px",
+            cursor: "pointer",
+            marginTop: "10px",
+          }}
+        >
+          <FaMagic /> Mintear y comprar
+        </button>
+      )}
+
+      {/* El creador puede invalidar la firma antes de que alguien la canjee */}
+      {isCreator && (
+        <button
+          onClick={() => onCancel(voucher)}
+          style={{
+            padding: "8px 14px",
+            backgroundColor: "#dc3545",
+            color: "#fff",
+            border: "none",
+            borderRadius: "6px",
+            cursor: "pointer",
+            marginTop: "10px",
+          }}
+        >
+          Cancelar voucher
+        </button>
+      )}
+    </div>
+  );
+}
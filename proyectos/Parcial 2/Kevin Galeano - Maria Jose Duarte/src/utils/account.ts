@@ -0,0 +1,102 @@
+import { Contract, Interface, ZeroHash, formatUnits, id } from "ethers";
+import type { ContractRunner } from "ethers";
+import type { PaymentCurrency } from "./indexer";
+import { multicall } from "./multicall";
+import type { MulticallOptions } from "./multicall";
+
+// Sin abi.json para poder usarlo también desde los scripts de Node
+const ACCOUNT_ABI = new Interface([
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function paused() view returns (bool)",
+  "function pendingWithdrawals(address account, address currency) view returns (uint256)",
+]);
+
+// Roles del contrato; admin es DEFAULT_ADMIN_ROLE
+export type MarketplaceRole = "admin" | "minter" | "curator" | "pauser";
+
+const ROLE_IDS: Record<MarketplaceRole, string> = {
+  admin: ZeroHash,
+  minter: id("MINTER_ROLE"),
+  curator: id("CURATOR_ROLE"),
+  pauser: id("PAUSER_ROLE"),
+};
+
+// Lo que la cuenta conectada puede hacer según el contrato
+export interface MarketplaceAccess {
+  roles: Record<MarketplaceRole, boolean>;
+  paused: boolean; // Minteos y ventas frenados por un pauser
+}
+
+// Saldo por retirar en una moneda
+export interface PendingWithdrawal {
+  currency: PaymentCurrency;
+  amount: string;
+}
+
+// Consulta con hasRole los roles de una cuenta y si el marketplace está en
+// pausa, todo en una sola llamada
+export async function readMarketplaceAccess(
+  runner: ContractRunner,
+  marketplaceAddress: string,
+  account: string,
+  options: MulticallOptions = {}
+): Promise<MarketplaceAccess> {
+  const contract = new Contract(marketplaceAddress, ACCOUNT_ABI, runner);
+  const roles = Object.keys(ROLE_IDS) as MarketplaceRole[];
+
+  const results = await multicall(
+    runner,
+    [
+      ...roles.map((role) => ({
+        contract,
+        method: "hasRole",
+        args: [ROLE_IDS[role], account],
+      })),
+      { contract, method: "paused" },
+    ],
+    options
+  );
+
+  // Una consulta fallida cuenta como rol no otorgado
+  const flag = (i: number) =>
+    results[i].success && (results[i].value as boolean);
+  return {
+    roles: Object.fromEntries(
+      roles.map((role, i) => [role, flag(i)])
+    ) as Record<MarketplaceRole, boolean>,
+    paused: flag(roles.length),
+  };
+}
+
+// Consulta los saldos pendientes de retiro de una cuenta, en una sola
+// consulta para todas las monedas. Solo devuelve los mayores a 0
+export async function readPendingWithdrawals(
+  runner: ContractRunner,
+  marketplaceAddress: string,
+  account: string,
+  currencies: PaymentCurrency[],
+  options: MulticallOptions = {}
+): Promise<PendingWithdrawal[]> {
+  const contract = new Contract(marketplaceAddress, ACCOUNT_ABI, runner);
+
+  const results = await multicall(
+    runner,
+    currencies.map((currency) => ({
+      contract,
+      method: "pendingWithdrawals",
+      args: [account, currency.address],
+    })),
+    options
+  );
+
+  return currencies
+    .map((currency, i) => {
+      const result = results[i];
+      if (!result.success) {
+        console.warn(`Error leyendo el saldo en ${currency.symbol}`);
+      }
+      const amount = result.success ? (result.value as bigint) : 0n;
+      return { currency, amount: formatUnits(amount, currency.decimals) };
+    })
+    .filter(({ amount }) => Number(amount) > 0);
+}
@@ -0,0 +1,192 @@
+import { Interface, Result, formatEther, isError, isHexString } from "ethers";
+
+// Descripción estructurada de una transacción o llamada fallida
+export interface DecodedError {
+  name: string; // Nombre del error del contrato, "Error"/"Panic" o un error de la wallet
+  args: unknown[];
+  message: string; // Mensaje legible para el usuario
+}
+
+// Arma el mensaje de cada error a partir de sus argumentos
+export type ErrorMessages = Record<string, (args: Result) => string>;
+
+// Errores con los que revierte el Marketplace. Sin abi.json para poder usarlo
+// también desde los tests y scripts de Node
+export const MARKETPLACE_ERRORS = new Interface([
+  "error InvalidPrice()",
+  "error AlreadySold(uint256 tokenId)",
+  "error IncorrectPrice(uint256 tokenId, uint256 expected, uint256 sent)",
+  "error NoFundsToWithdraw(address account)",
+  "error NotListed(uint256 tokenId)",
+  "error AlreadyListed(uint256 tokenId)",
+  "error NotTokenOwner(uint256 tokenId, address account)",
+  "error PaymentTokenNotAllowed(address token)",
+  "error InvalidRoyalty(uint96 royaltyBps)",
+  "error InvalidPlatformFee(uint96 feeBps)",
+  "error InvalidDuration(uint64 duration)",
+  "error AuctionNotActive(uint256 tokenId)",
+  "error AuctionEnded(uint256 tokenId, uint64 endTime)",
+  "error AuctionNotEnded(uint256 tokenId, uint64 endTime)",
+  "error WrongAuctionKind(uint256 tokenId)",
+  "error BidTooLow(uint256 tokenId, uint256 minimum, uint256 amount)",
+  "error AuctionHasBids(uint256 tokenId)",
+  "error InvalidExpiration(uint64 expiresAt)",
+  "error IncorrectOfferValue(uint256 expected, uint256 sent)",
+  "error OfferNotActive(uint256 offerId)",
+  "error OfferExpired(uint256 offerId, uint64 expiresAt)",
+  "error OfferTokenMismatch(uint256 offerId, uint256 tokenId)",
+  "error NotOfferMaker(uint256 offerId, address account)",
+  "error InvalidSignature()",
+  "error OrderExpired(bytes32 orderHash, uint64 expiresAt)",
+  "error OrderClosed(bytes32 orderHash)",
+  "error NotOrderSeller(bytes32 orderHash, address account)",
+  "error VoucherAlreadyRedeemed(bytes32 voucherHash)",
+  "error VoucherExpired(bytes32 voucherHash, uint64 deadline)",
+  "error NotVoucherCreator(bytes32 voucherHash, address account)",
+  "error InvalidBatchSize(uint256 size)",
+  "error BatchLengthMismatch(uint256 uris, uint256 prices)",
+  "error IncorrectBatchValue(uint256 expected, uint256 sent)",
+  "error TokenHidden(uint256 tokenId)",
+  "error InvalidFeeRecipient()",
+]);
+
+export const MARKETPLACE_MESSAGES: ErrorMessages = {
+  InvalidPrice: () => "El precio debe ser mayor a 0.",
+  AlreadySold: ([tokenId]) => `El NFT #${tokenId} ya fue vendido.`,
+  IncorrectPrice: ([tokenId, expected]) =>
+    expected === 0n
+      ? `El NFT #${tokenId} se paga con un token, no con ETH.`
+      : `El NFT #${tokenId} cuesta ${formatEther(expected)} ETH.`,
+  NoFundsToWithdraw: () => "No tenés fondos pendientes para retirar.",
+  NotListed: ([tokenId]) => `El NFT #${tokenId} no está a la venta.`,
+  AlreadyListed: ([tokenId]) => `El NFT #${tokenId} ya está a la venta.`,
+  NotTokenOwner: ([tokenId]) => `El NFT #${tokenId} no es tuyo.`,
+  PaymentTokenNotAllowed: ([token]) =>
+    `El token ${token} no se acepta como pago.`,
+  InvalidRoyalty: ([royaltyBps]) =>
+    `La regalía de ${Number(royaltyBps) / 100}% supera el máximo permitido.`,
+  InvalidPlatformFee: ([feeBps]) =>
+    `La comisión de ${Number(feeBps) / 100}% supera el máximo permitido.`,
+  InvalidDuration: () => "La subasta debe durar entre 15 minutos y 30 días.",
+  AuctionNotActive: ([tokenId]) => `El NFT #${tokenId} no está en subasta.`,
+  AuctionEnded: ([tokenId]) => `La subasta del NFT #${tokenId} ya terminó.`,
+  AuctionNotEnded: ([tokenId, endTime]) =>
+    `La subasta del NFT #${tokenId} termina el ${new Date(
+      Number(endTime) * 1000
+    ).toLocaleString()}.`,
+  WrongAuctionKind: ([tokenId]) =>
+    `La subasta del NFT #${tokenId} es de otro tipo.`,
+  BidTooLow: ([tokenId]) =>
+    `La oferta por el NFT #${tokenId} no alcanza el mínimo actual.`,
+  AuctionHasBids: ([tokenId]) =>
+    `La subasta del NFT #${tokenId} ya tiene pujas y no se puede cancelar.`,
+  InvalidExpiration: () => "El vencimiento de la oferta debe ser futuro.",
+  IncorrectOfferValue: ([expected]) =>
+    expected === 0n
+      ? "La oferta se paga con un token, no con ETH."
+      : `La oferta requiere enviar ${formatEther(expected)} ETH.`,
+  OfferNotActive: ([offerId]) => `La oferta #${offerId} ya no está activa.`,
+  OfferExpired: ([offerId]) => `La oferta #${offerId} venció.`,
+  OfferTokenMismatch: ([offerId]) => `La oferta #${offerId} es por otro NFT.`,
+  NotOfferMaker: ([offerId]) =>
+    `Solo quien hizo la oferta #${offerId} la puede cancelar antes de que venza.`,
+  InvalidSignature: () => "La firma no corresponde al vendedor de la orden.",
+  OrderExpired: () => "La orden de venta venció.",
+  OrderClosed: () =>
+    "La orden de venta ya se completó o el vendedor la canceló.",
+  NotOrderSeller: () => "Solo el vendedor puede cancelar su orden.",
+  VoucherAlreadyRedeemed: () =>
+    "Este NFT ya fue minteado por otro comprador o el creador lo canceló.",
+  VoucherExpired: () => "El voucher venció.",
+  NotVoucherCreator: () => "Solo el creador puede cancelar su voucher.",
+  InvalidBatchSize: ([size]) =>
+    `Un lote debe tener entre 1 y 50 NFTs, no ${size}.`,
+  BatchLengthMismatch: () => "Cada NFT del lote necesita su precio.",
+  IncorrectBatchValue: ([expected]) =>
+    `El lote requiere enviar ${formatEther(expected)} ETH.`,
+  TokenHidden: ([tokenId]) =>
+    `Un curador ocultó el NFT #${tokenId} y no se puede negociar.`,
+  InvalidFeeRecipient: () => "La comisión no se puede enviar a la dirección 0.",
+  // AccessControl y Pausable de OpenZeppelin revierten con un string
+  Error: ([reason]) =>
+    reason.startsWith("AccessControl:")
+      ? "Tu cuenta no tiene el rol necesario para esta acción."
+      : reason === "Pausable: paused"
+      ? "El marketplace está en pausa."
+      : reason,
+  Panic: ([code]) => `La transacción falló con el código ${code}.`,
+  ActionRejected: () => "Rechazaste la transacción en la wallet.",
+  InsufficientFunds: () => "No tenés suficiente ETH para pagar la transacción.",
+};
+
+// Cada wallet anida los datos del revert a distinta profundidad
+function findRevertData(error: unknown, depth = 0): string | null {
+  if (depth > 5 || typeof error !== "object" || error === null) {
+    return null;
+  }
+
+  const fields = error as Record<string, unknown>;
+  // Al menos el selector de 4 bytes
+  if (typeof fields.data === "string" && isHexString(fields.data)) {
+    if (fields.data.length >= 10) {
+      return fields.data;
+    }
+  }
+
+  for (const key of ["data", "error", "info", "cause"]) {
+    const data = findRevertData(fields[key], depth + 1);
+    if (data) {
+      return data;
+    }
+  }
+
+  return null;
+}
+
+// Convierte una transacción revertida en un error estructurado y legible
+export function decodeContractError(
+  error: unknown,
+  iface: Interface,
+  messages: ErrorMessages,
+  fallback: string
+): DecodedError {
+  const describe = (name: string, args: Result): DecodedError => ({
+    name,
+    args: args.toArray(),
+    message: messages[name]?.(args) ?? fallback,
+  });
+
+  if (isError(error, "ACTION_REJECTED")) {
+    return describe("ActionRejected", Result.fromItems([]));
+  }
+  if (isError(error, "INSUFFICIENT_FUNDS")) {
+    return describe("InsufficientFunds", Result.fromItems([]));
+  }
+
+  const data = findRevertData(error);
+  if (data) {
+    const parsed = iface.parseError(data);
+    if (parsed) {
+      return describe(parsed.name, parsed.args);
+    }
+  }
+
+  // Algunos providers solo conservan el motivo del revert
+  if (isError(error, "CALL_EXCEPTION") && error.reason) {
+    return describe("Error", Result.fromItems([error.reason]));
+  }
+
+  return { name: "Unknown", args: [], message: fallback };
+}
+
+export function decodeMarketplaceError(
+  error: unknown,
+  fallback = "La transacción falló."
+): DecodedError {
+  return decodeContractError(
+    error,
+    MARKETPLACE_ERRORS,
+    MARKETPLACE_MESSAGES,
+    fallback
+  );
+}
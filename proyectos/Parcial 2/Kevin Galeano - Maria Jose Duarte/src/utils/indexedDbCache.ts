@@ -0,0 +1,60 @@
+import type { MarketplaceSnapshot, SnapshotCache } from "./indexer";
+
+const DB_NAME = "nft-marketplace";
+const STORE_NAME = "snapshots";
+
+// Abre (o crea) la base de datos del navegador
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Ejecuta una operación sobre el object store de snapshots
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(
+        db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Caché del navegador. Si IndexedDB no está disponible (p. ej. modo privado)
+// se recarga todo desde la cadena en lugar de fallar
+export const indexedDbCache: SnapshotCache = {
+  async load(key) {
+    try {
+      const snapshot = await withStore<MarketplaceSnapshot | undefined>(
+        "readonly",
+        (store) => store.get(key)
+      );
+      return snapshot ?? null;
+    } catch (err) {
+      console.warn("No se pudo leer la caché de NFTs", err);
+      return null;
+    }
+  },
+
+  async save(key, snapshot) {
+    try {
+      await withStore("readwrite", (store) => store.put(snapshot, key));
+    } catch (err) {
+      console.warn("No se pudo guardar la caché de NFTs", err);
+    }
+  },
+};
@@ -0,0 +1,481 @@
+import { Contract, Interface, ZeroAddress, formatUnits } from "ethers";
+import type { Log, LogDescription, Provider } from "ethers";
+import type { AuctionItem, NFTItem, OfferItem } from "./marketplace";
+import { multicall } from "./multicall";
+
+// Eventos que reconstruyen el estado del marketplace
+const MARKETPLACE_EVENTS = new Interface([
+  "event ItemListed(uint256 indexed tokenId, address owner, uint96 price, address currency)",
+  "event ItemSold(uint256 indexed tokenId, address buyer, uint96 price)",
+  "event ListingCanceled(uint256 indexed tokenId)",
+  "event PriceUpdated(uint256 indexed tokenId, uint96 price)",
+  "event PaymentTokenUpdated(address indexed token, bool allowed)",
+  "event AuctionCreated(uint256 indexed tokenId, address seller, uint8 kind, address currency, uint96 startPrice, uint96 endPrice, uint64 startTime, uint64 endTime)",
+  "event BidPlaced(uint256 indexed tokenId, address bidder, uint96 amount)",
+  "event AuctionExtended(uint256 indexed tokenId, uint64 endTime)",
+  "event AuctionSettled(uint256 indexed tokenId, address winner, uint96 price)",
+  "event AuctionCanceled(uint256 indexed tokenId)",
+  "event OfferCreated(uint256 indexed offerId, address buyer, uint256 tokenId, bool collection, uint96 amount, address currency, uint64 expiresAt)",
+  "event OfferAccepted(uint256 indexed offerId, uint256 tokenId, address seller)",
+  "event OfferCanceled(uint256 indexed offerId)",
+  "event OrderFilled(bytes32 indexed orderHash, uint256 indexed tokenId, address seller, address buyer, uint96 price, address currency)",
+  "event VoucherRedeemed(bytes32 indexed voucherHash, uint256 indexed tokenId, address creator, address buyer, uint96 price, address currency)",
+  "event TokenHiddenUpdated(uint256 indexed tokenId, bool hidden)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "function tokenURI(uint256 tokenId) view returns (string)",
+]);
+
+const ERC20_METADATA = new Interface([
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+]);
+
+// Cambiar la versión descarta las cachés con un formato anterior
+const SNAPSHOT_VERSION = 9;
+
+// Bloques que espera un evento antes de guardarse en la caché. Un reorg más
+// corto no deja eventos huérfanos guardados
+const DEFAULT_CONFIRMATIONS = 12;
+
+// Moneda de pago: ETH (dirección cero) o un ERC20
+export interface PaymentCurrency {
+  address: string;
+  symbol: string;
+  decimals: number;
+  allowed: boolean; // Se puede usar en ventas nuevas
+}
+
+const ETH_CURRENCY: PaymentCurrency = {
+  address: ZeroAddress,
+  symbol: "ETH",
+  decimals: 18,
+  allowed: true,
+};
+
+// Estado del marketplace hasta lastBlock inclusive
+export interface MarketplaceSnapshot {
+  version: number;
+  lastBlock: number;
+  items: Record<string, NFTItem>; // tokenId => NFT
+  currencies: Record<string, PaymentCurrency>; // Dirección en minúsculas => moneda
+  auctions: Record<string, AuctionItem>; // tokenId => última subasta
+  offers: Record<string, OfferItem>; // offerId => oferta
+}
+
+// Almacenamiento de snapshots: IndexedDB en el navegador, archivos en Node
+export interface SnapshotCache {
+  load(key: string): Promise<MarketplaceSnapshot | null>;
+  save(key: string, snapshot: MarketplaceSnapshot): Promise<void>;
+}
+
+export interface SyncOptions {
+  startBlock?: number; // Bloque del deploy, evita recorrer la cadena desde 0
+  batchSize?: number; // Bloques por consulta eth_getLogs
+  confirmations?: number; // Los bloques más nuevos se vuelven a leer en cada carga
+  onProgress?: (lastBlock: number, latestBlock: number) => void;
+}
+
+// Consulta símbolo y decimales de los ERC20 que el snapshot no conoce
+async function loadCurrencies(
+  provider: Provider,
+  snapshot: MarketplaceSnapshot,
+  events: LogDescription[]
+) {
+  const addresses = new Set<string>();
+  for (const event of events) {
+    const token =
+      event.name === "ItemListed" ||
+      event.name === "AuctionCreated" ||
+      event.name === "OfferCreated"
+        ? event.args.currency
+        : event.name === "PaymentTokenUpdated"
+        ? event.args.token
+        : null;
+    if (token && !snapshot.currencies[token.toLowerCase()]) {
+      addresses.add(token);
+    }
+  }
+
+  const tokens = Array.from(addresses);
+  const results = await multicall(
+    provider,
+    tokens.flatMap((token) => {
+      const contract = new Contract(token, ERC20_METADATA, provider);
+      return [
+        { contract, method: "symbol" },
+        { contract, method: "decimals" },
+      ];
+    })
+  );
+
+  tokens.forEach((token, i) => {
+    const [symbol, decimals] = [results[2 * i], results[2 * i + 1]];
+    if (!symbol.success || !decimals.success) {
+      console.warn(`Error cargando el token ${token}`);
+    }
+    snapshot.currencies[token.toLowerCase()] = {
+      address: token,
+      symbol: symbol.success ? (symbol.value as string) : token.slice(0, 8),
+      decimals: decimals.success ? Number(decimals.value) : 18,
+      allowed: false, // Lo habilita su evento PaymentTokenUpdated
+    };
+  });
+}
+
+// Aplica un evento de subasta, con las pujas como historial
+function applyAuctionEvent(
+  snapshot: MarketplaceSnapshot,
+  event: LogDescription,
+  blockNumber: number
+) {
+  const tokenId = event.args.tokenId.toString();
+  const auction = snapshot.auctions[tokenId];
+
+  switch (event.name) {
+    case "AuctionCreated": {
+      const currency = snapshot.currencies[event.args.currency.toLowerCase()];
+      // Una subasta nueva del mismo NFT reemplaza a la anterior
+      snapshot.auctions[tokenId] = {
+        tokenId: Number(tokenId),
+        seller: event.args.seller,
+        kind: Number(event.args.kind) === 0 ? "english" : "dutch",
+        currency: currency.address,
+        symbol: currency.symbol,
+        decimals: currency.decimals,
+        startPrice: formatUnits(event.args.startPrice, currency.decimals),
+        endPrice: formatUnits(event.args.endPrice, currency.decimals),
+        startTime: Number(event.args.startTime),
+        endTime: Number(event.args.endTime),
+        highestBidder: ZeroAddress,
+        highestBid: "0",
+        bids: [],
+        status: "active",
+        uri: "",
+      };
+      return;
+    }
+    case "BidPlaced": {
+      const amount = formatUnits(event.args.amount, auction.decimals);
+      auction.highestBidder = event.args.bidder;
+      auction.highestBid = amount;
+      auction.bids.push({ bidder: event.args.bidder, amount, blockNumber });
+      return;
+    }
+    case "AuctionExtended":
+      auction.endTime = Number(event.args.endTime);
+      return;
+    case "AuctionSettled": {
+      auction.status = "settled";
+      auction.highestBidder = event.args.winner;
+      auction.highestBid = formatUnits(event.args.price, auction.decimals);
+      // El ganador queda como último comprador, igual que en una venta
+      const item = snapshot.items[tokenId];
+      if (item && event.args.winner !== ZeroAddress) {
+        item.isSold = true;
+        item.buyer = event.args.winner;
+      }
+      return;
+    }
+    case "AuctionCanceled":
+      auction.status = "canceled";
+      return;
+  }
+}
+
+// Aplica un evento de oferta. Al aceptarse, el comprador queda como último
+// comprador del NFT
+function applyOfferEvent(snapshot: MarketplaceSnapshot, event: LogDescription) {
+  const offerId = event.args.offerId.toString();
+  const offer = snapshot.offers[offerId];
+
+  switch (event.name) {
+    case "OfferCreated": {
+      const currency = snapshot.currencies[event.args.currency.toLowerCase()];
+      snapshot.offers[offerId] = {
+        offerId: Number(offerId),
+        buyer: event.args.buyer,
+        tokenId: Number(event.args.tokenId),
+        collection: event.args.collection,
+        amount: formatUnits(event.args.amount, currency.decimals),
+        currency: currency.address,
+        symbol: currency.symbol,
+        decimals: currency.decimals,
+        expiresAt: Number(event.args.expiresAt),
+        status: "active",
+        seller: ZeroAddress,
+      };
+      return;
+    }
+    case "OfferAccepted": {
+      offer.status = "accepted";
+      offer.tokenId = Number(event.args.tokenId);
+      offer.seller = event.args.seller;
+      const item = snapshot.items[offer.tokenId];
+      if (item) {
+        item.isSold = true;
+        item.buyer = offer.buyer;
+      }
+      return;
+    }
+    case "OfferCanceled":
+      offer.status = "canceled";
+      return;
+  }
+}
+
+// Aplica un evento al snapshot, devuelve el tokenId si es un NFT nuevo
+function applyEvent(
+  snapshot: MarketplaceSnapshot,
+  event: LogDescription,
+  blockNumber: number
+): string | null {
+  if (event.name === "PaymentTokenUpdated") {
+    snapshot.currencies[event.args.token.toLowerCase()].allowed =
+      event.args.allowed;
+    return null;
+  }
+  if (event.name.startsWith("Auction") || event.name === "BidPlaced") {
+    applyAuctionEvent(snapshot, event, blockNumber);
+    return null;
+  }
+  if (event.name.startsWith("Offer")) {
+    applyOfferEvent(snapshot, event);
+    return null;
+  }
+
+  const tokenId = event.args.tokenId.toString();
+  const item = snapshot.items[tokenId];
+
+  switch (event.name) {
+    case "ItemListed": {
+      const currency = snapshot.currencies[event.args.currency.toLowerCase()];
+      const listing = {
+        owner: event.args.owner,
+        price: formatUnits(event.args.price, currency.decimals),
+        currency: currency.address,
+        symbol: currency.symbol,
+        decimals: currency.decimals,
+        isSold: false,
+        isListed: true,
+      };
+      // Reventa de un NFT ya conocido, se conserva el último comprador
+      if (item) {
+        Object.assign(item, listing);
+        return null;
+      }
+      snapshot.items[tokenId] = {
+        ...listing,
+        tokenId: Number(tokenId),
+        buyer: ZeroAddress,
+        uri: "",
+        holder: event.args.owner,
+        hidden: false,
+      };
+      return tokenId;
+    }
+    case "VoucherRedeemed": {
+      // NFT minteado y vendido en la misma transacción, sin ItemListed
+      const currency = snapshot.currencies[event.args.currency.toLowerCase()];
+      snapshot.items[tokenId] = {
+        tokenId: Number(tokenId),
+        owner: event.args.creator,
+        buyer: event.args.buyer,
+        price: formatUnits(event.args.price, currency.decimals),
+        currency: currency.address,
+        symbol: currency.symbol,
+        decimals: currency.decimals,
+        isSold: true,
+        isListed: false,
+        uri: "",
+        holder: event.args.buyer,
+        hidden: false,
+      };
+      return tokenId;
+    }
+    case "ItemSold":
+      if (item) {
+        item.isSold = true;
+        item.isListed = false;
+        item.buyer = event.args.buyer;
+      }
+      return null;
+    case "OrderFilled":
+      // Venta con una orden firmada: el precio y la moneda son los de la orden
+      if (item) {
+        const currency = snapshot.currencies[event.args.currency.toLowerCase()];
+        Object.assign(item, {
+          price: formatUnits(event.args.price, currency.decimals),
+          currency: currency.address,
+          symbol: currency.symbol,
+          decimals: currency.decimals,
+          isSold: true,
+          buyer: event.args.buyer,
+        });
+      }
+      return null;
+    case "ListingCanceled":
+      if (item) {
+        item.isListed = false;
+      }
+      return null;
+    case "PriceUpdated":
+      if (item) {
+        item.price = formatUnits(event.args.price, item.decimals);
+      }
+      return null;
+    case "TokenHiddenUpdated":
+      if (item) {
+        item.hidden = event.args.hidden;
+      }
+      return null;
+    case "Transfer":
+      // El Transfer del minteo llega antes que ItemListed, que ya fija el dueño
+      if (item) {
+        item.holder = event.args.to;
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Actualiza el snapshot guardado con los eventos de los bloques nuevos.
+ * Solo se consulta tokenURI de los NFTs que aparecen por primera vez. La
+ * caché llega hasta `confirmations` bloques antes del último: los eventos
+ * más nuevos se incluyen en el snapshot devuelto pero se vuelven a leer en
+ * la próxima carga, por si un reorg los descartó
+ */
+export async function syncMarketplace(
+  provider: Provider,
+  address: string,
+  cache: SnapshotCache,
+  options: SyncOptions = {}
+): Promise<MarketplaceSnapshot> {
+  const { chainId } = await provider.getNetwork();
+  const key = `${chainId}:${address.toLowerCase()}`;
+  const latestBlock = await provider.getBlockNumber();
+  const startBlock = options.startBlock ?? 0;
+  const confirmedBlock =
+    latestBlock - (options.confirmations ?? DEFAULT_CONFIRMATIONS);
+
+  let snapshot = await cache.load(key);
+  // Una caché por delante de la cadena viene de un nodo local reiniciado
+  if (
+    !snapshot ||
+    snapshot.version !== SNAPSHOT_VERSION ||
+    snapshot.lastBlock > latestBlock
+  ) {
+    snapshot = {
+      version: SNAPSHOT_VERSION,
+      lastBlock: startBlock - 1,
+      items: {},
+      currencies: { [ZeroAddress]: ETH_CURRENCY },
+      auctions: {},
+      offers: {},
+    };
+  }
+
+  const contract = new Contract(address, MARKETPLACE_EVENTS, provider);
+  const topics: string[] = [];
+  MARKETPLACE_EVENTS.forEachEvent((event) => topics.push(event.topicHash));
+
+  let batchSize = options.batchSize ?? 5000;
+  let fromBlock = snapshot.lastBlock + 1;
+
+  while (fromBlock <= latestBlock) {
+    // Un lote no mezcla bloques confirmados con bloques sin confirmar
+    const toBlock = Math.min(
+      fromBlock + batchSize - 1,
+      fromBlock <= confirmedBlock ? confirmedBlock : latestBlock
+    );
+
+    let logs: Log[];
+    try {
+      logs = await provider.getLogs({
+        address,
+        fromBlock,
+        toBlock,
+        topics: [topics],
+      });
+    } catch (err) {
+      // Muchos RPC limitan el rango de getLogs, se reintenta con la mitad
+      if (batchSize === 1) throw err;
+      batchSize = Math.ceil(batchSize / 2);
+      continue;
+    }
+
+    const parsed = logs.map((log) => ({
+      event: MARKETPLACE_EVENTS.parseLog(log),
+      blockNumber: log.blockNumber,
+    }));
+    const events = parsed
+      .map(({ event }) => event)
+      .filter((event) => event !== null);
+
+    // Los precios se formatean con los decimales de su moneda
+    await loadCurrencies(provider, snapshot, events);
+    const newTokens = parsed
+      .map(({ event, blockNumber }) =>
+        event ? applyEvent(snapshot, event, blockNumber) : null
+      )
+      .filter((tokenId) => tokenId !== null);
+
+    // Los tokenURI de todo el lote se piden juntos con Multicall3
+    const uris = await multicall(
+      provider,
+      newTokens.map((tokenId) => ({
+        contract,
+        method: "tokenURI",
+        args: [tokenId],
+      }))
+    );
+    uris.forEach((result, i) => {
+      if (result.success) {
+        snapshot.items[newTokens[i]].uri = result.value as string;
+      } else {
+        console.warn(`Error cargando NFT ${newTokens[i]}`, result.error);
+      }
+    });
+
+    // Se guarda cada lote confirmado para retomar desde aquí si la carga se
+    // interrumpe
+    snapshot.lastBlock = toBlock;
+    if (toBlock <= confirmedBlock) {
+      await cache.save(key, snapshot);
+    }
+    options.onProgress?.(toBlock, latestBlock);
+    fromBlock = toBlock + 1;
+  }
+
+  return snapshot;
+}
+
+// NFTs del snapshot ordenados por tokenId
+export function getSnapshotItems(snapshot: MarketplaceSnapshot): NFTItem[] {
+  return Object.values(snapshot.items).sort((a, b) => a.tokenId - b.tokenId);
+}
+
+// Subastas del snapshot, las más nuevas primero, con la URI de su NFT
+export function getSnapshotAuctions(
+  snapshot: MarketplaceSnapshot
+): AuctionItem[] {
+  return Object.values(snapshot.auctions)
+    .map((auction) => ({
+      ...auction,
+      uri: snapshot.items[auction.tokenId]?.uri ?? "",
+    }))
+    .sort((a, b) => b.startTime - a.startTime);
+}
+
+// Ofertas del snapshot, las más nuevas primero
+export function getSnapshotOffers(snapshot: MarketplaceSnapshot): OfferItem[] {
+  return Object.values(snapshot.offers).sort((a, b) => b.offerId - a.offerId);
+}
+
+// Monedas vistas por el indexador, ETH primero
+export function getSnapshotCurrencies(
+  snapshot: MarketplaceSnapshot
+): PaymentCurrency[] {
+  return Object.values(snapshot.currencies);
+}
@@ -1,7 +1,57 @@
-import { Contract, BrowserProvider, formatEther, parseEther } from "ethers";
+import {
+  Contract,
+  BrowserProvider,
+  JsonRpcSigner,
+  ZeroAddress,
+  formatUnits,
+  parseEther,
+  parseUnits,
+} from "ethers";
 import abi from "../abi.json";
+import {
+  getSnapshotAuctions,
+  getSnapshotCurrencies,
+  getSnapshotItems,
+  getSnapshotOffers,
+  syncMarketplace,
+} from "./indexer";
+import type { MarketplaceSnapshot, PaymentCurrency } from "./indexer";
+import { readMarketplaceAccess, readPendingWithdrawals } from "./account";
+import type {
+  MarketplaceAccess,
+  MarketplaceRole,
+  PendingWithdrawal,
+} from "./account";
+import { indexedDbCache } from "./indexedDbCache";
+import {
+  buildOrder,
+  parseOrder,
+  serializeOrder,
+  signOrder,
+  validateOrder,
+} from "./orders";
+import type { OrderStatus, SellOrder, SignedOrder } from "./orders";
+import {
+  filterRedeemable,
+  hashVoucher,
+  parseVouchers,
+  serializeVouchers,
+  signVoucherBatch,
+} from "./vouchers";
+import type { SignedVoucher } from "./vouchers";
 
 const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS;
+const DEPLOY_BLOCK = Number(import.meta.env.VITE_DEPLOY_BLOCK ?? 0);
+const INITIAL_ROYALTY_BPS = 500; // 5% para el creador del batch inicial
+const MAX_BATCH_SIZE = 50; // Igual que el contrato
+
+// Lote de vouchers publicado, por defecto public/vouchers.json
+const VOUCHERS_URL = import.meta.env.VITE_VOUCHERS_URL ?? "/vouchers.json";
+
+const ERC20_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
 
 declare global {
   interface Window {
@@ -16,13 +66,112 @@ const getContract = async () => {
   return new Contract(CONTRACT_ADDRESS, abi, signer);
 };
 
+export type {
+  MarketplaceAccess,
+  MarketplaceRole,
+  PendingWithdrawal,
+  PaymentCurrency,
+  OrderStatus,
+  SellOrder,
+  SignedOrder,
+};
+export { parseOrder, serializeOrder };
+
+// Reparto del precio de una venta, en unidades de su moneda
+export interface SaleQuote {
+  sellerAmount: string;
+  royaltyReceiver: string; // Creador del NFT
+  royaltyAmount: string;
+  platformFee: string;
+}
+
 export interface NFTItem {
   tokenId: number;
   owner: string;
-  buyer: string;
-  price: string;
+  buyer: string; // Último comprador, se mantiene si lo vuelve a listar
+  price: string; // En unidades de la moneda de la venta
+  currency: string; // ZeroAddress para ETH o la dirección del ERC20
+  symbol: string;
+  decimals: number;
   isSold: boolean;
+  isListed: boolean; // Tiene una venta activa
+  uri: string;
+  holder: string; // Dueño actual del NFT según los eventos Transfer
+  hidden: boolean; // Oculto por un curador, no se muestra en la tienda
+}
+
+// Puja de una subasta inglesa, del evento BidPlaced
+export interface AuctionBid {
+  bidder: string;
+  amount: string;
+  blockNumber: number;
+}
+
+export type AuctionKind = "english" | "dutch";
+
+export interface AuctionItem {
+  tokenId: number;
+  seller: string;
+  kind: AuctionKind;
+  currency: string;
+  symbol: string;
+  decimals: number;
+  startPrice: string; // Inglesa: puja mínima. Holandesa: precio inicial
+  endPrice: string; // Holandesa: precio al cerrar
+  startTime: number; // Segundos unix
+  endTime: number; // Se extiende con las pujas de último momento
+  highestBidder: string; // En una holandesa vendida, el comprador
+  highestBid: string;
+  bids: AuctionBid[];
+  status: "active" | "settled" | "canceled";
+  uri: string;
+}
+
+// Condiciones de una subasta nueva
+export interface AuctionTerms {
+  kind: AuctionKind;
+  startPrice: string;
+  endPrice: string; // Solo holandesa
+  currency: PaymentCurrency;
+  duration: number; // Segundos
+}
+
+// Oferta con el monto en custodia del contrato
+export interface OfferItem {
+  offerId: number;
+  buyer: string;
+  tokenId: number; // En una de colección, el NFT entregado al aceptarla
+  collection: boolean; // La acepta el dueño de cualquier NFT
+  amount: string;
+  currency: string;
+  symbol: string;
+  decimals: number;
+  expiresAt: number; // Segundos unix
+  status: "active" | "accepted" | "canceled";
+  seller: string; // Quien la aceptó
+}
+
+// NFT sin mintear a la venta con un voucher firmado por su creador
+export interface VoucherItem {
+  voucherHash: string;
+  creator: string;
   uri: string;
+  price: string;
+  currency: string;
+  symbol: string;
+  decimals: number;
+  royaltyBps: number;
+  deadline: number; // Segundos unix
+  signed: SignedVoucher;
+}
+
+// Todo lo que muestra la app, leído de un mismo snapshot
+export interface MarketplaceState {
+  items: NFTItem[];
+  auctions: AuctionItem[];
+  offers: OfferItem[];
+  vouchers: VoucherItem[];
+  currencies: PaymentCurrency[]; // Monedas vistas alguna vez, ETH primero
 }
 
 // Solicita conexión de la wallet al usuario
@@ -33,76 +182,488 @@ export async function connectWallet(): Promise<string> {
   return address;
 }
 
-// Obtiene todas las NFTs listadas desde el contrato
-export async function getAllListings(): Promise<NFTItem[]> {
-  const provider = new BrowserProvider(window.ethereum);
-  const contract = new Contract(CONTRACT_ADDRESS, abi, provider);
-  const items: NFTItem[] = [];
-
+// Sincroniza los eventos del contrato desde la última carga
+const syncSnapshot = async (provider: BrowserProvider) => {
   const code = await provider.getCode(CONTRACT_ADDRESS);
   if (code === "0x") {
     throw new Error("❌ No hay contrato en esta dirección.");
   }
 
-  const total = await contract.tokenCounter();
-
-  for (let i = 0; i < Number(total); i++) {
-    try {
-      const [owner, buyer, price, isSold] = await contract.getListing(i);
-      const uri = await contract.tokenURI(i);
-      items.push({
-        tokenId: i,
-        owner,
-        buyer,
-        price: formatEther(price),
-        isSold,
-        uri,
-      });
-    } catch (e) {
-      console.warn(`Error cargando NFT ${i}`, e);
-      continue;
+  return syncMarketplace(provider, CONTRACT_ADDRESS, indexedDbCache, {
+    startBlock: DEPLOY_BLOCK,
+  });
+};
+
+// Sincroniza los eventos una sola vez y arma con ese snapshot todo lo que
+// muestra la app. Solo se consultan los bloques posteriores a la última
+// sincronización
+export async function loadMarketplaceState(): Promise<MarketplaceState> {
+  const provider = new BrowserProvider(window.ethereum);
+  const snapshot = await syncSnapshot(provider);
+  return {
+    items: getSnapshotItems(snapshot),
+    auctions: getSnapshotAuctions(snapshot),
+    offers: getSnapshotOffers(snapshot),
+    vouchers: await loadVouchers(provider, snapshot),
+    currencies: getSnapshotCurrencies(snapshot),
+  };
+}
+
+// Consulta cuánto del precio recibe el vendedor, el creador y la plataforma
+export async function getSaleQuote(nft: NFTItem): Promise<SaleQuote> {
+  const provider = new BrowserProvider(window.ethereum);
+  const contract = new Contract(CONTRACT_ADDRESS, abi, provider);
+  const [sellerAmount, royaltyReceiver, royaltyAmount, platformFee] =
+    await contract.quoteSale(nft.tokenId);
+
+  return {
+    sellerAmount: formatUnits(sellerAmount, nft.decimals),
+    royaltyReceiver,
+    royaltyAmount: formatUnits(royaltyAmount, nft.decimals),
+    platformFee: formatUnits(platformFee, nft.decimals),
+  };
+}
+
+// Aprueba al marketplace a cobrar `amount` de un ERC20 si la allowance
+// actual no alcanza
+const approveIfNeeded = async (
+  signer: JsonRpcSigner,
+  currency: string,
+  amount: bigint
+) => {
+  const token = new Contract(currency, ERC20_ABI, signer);
+  const allowance = await token.allowance(
+    await signer.getAddress(),
+    CONTRACT_ADDRESS
+  );
+  if (allowance < amount) {
+    const approveTx = await token.approve(CONTRACT_ADDRESS, amount);
+    await approveTx.wait();
+  }
+};
+
+// Ejecuta la compra de un NFT. En ERC20 primero se aprueba el precio si
+// la allowance actual no alcanza
+export async function purchaseNFT(nft: NFTItem) {
+  const provider = new BrowserProvider(window.ethereum);
+  const signer = await provider.getSigner();
+  const contract = new Contract(CONTRACT_ADDRESS, abi, signer);
+  const price = parseUnits(nft.price, nft.decimals);
+
+  if (nft.currency === ZeroAddress) {
+    const tx = await contract.buy(nft.tokenId, { value: price });
+    await tx.wait();
+    return;
+  }
+
+  await approveIfNeeded(signer, nft.currency, price);
+  const tx = await contract.buy(nft.tokenId);
+  await tx.wait();
+}
+
+// Compra varios NFTs en una transacción. Los que se vendieron mientras
+// tanto se saltean y su ETH queda para retirar. Devuelve cuántos se compraron
+export async function purchaseNFTs(nfts: NFTItem[]): Promise<number> {
+  const provider = new BrowserProvider(window.ethereum);
+  const signer = await provider.getSigner();
+  const contract = new Contract(CONTRACT_ADDRESS, abi, signer);
+
+  // Total a pagar en cada moneda
+  const totals = new Map<string, bigint>();
+  for (const nft of nfts) {
+    totals.set(
+      nft.currency,
+      (totals.get(nft.currency) ?? 0n) + parseUnits(nft.price, nft.decimals)
+    );
+  }
+  for (const [currency, amount] of totals) {
+    if (currency !== ZeroAddress) {
+      await approveIfNeeded(signer, currency, amount);
     }
   }
 
-  return items;
+  const tx = await contract.batchBuy(
+    nfts.map((nft) => nft.tokenId),
+    false,
+    { value: totals.get(ZeroAddress) ?? 0n }
+  );
+  const receipt = await tx.wait();
+  return receipt.logs.filter(
+    (log: { topics: string[] }) =>
+      log.topics[0] === contract.interface.getEvent("ItemSold")!.topicHash
+  ).length;
 }
 
-// Ejecuta la compra de un NFT
-export async function purchaseNFT(tokenId: number, price: string) {
+// Subasta un NFT propio. El NFT queda en el contrato hasta el cierre
+export async function createAuction(tokenId: number, terms: AuctionTerms) {
   const contract = await getContract();
-  const tx = await contract.buy(tokenId, {
-    value: parseEther(price),
+  const { decimals, address } = terms.currency;
+  const startPrice = parseUnits(terms.startPrice, decimals);
+
+  const tx =
+    terms.kind === "english"
+      ? await contract.createEnglishAuction(
+          tokenId,
+          startPrice,
+          address,
+          terms.duration
+        )
+      : await contract.createDutchAuction(
+          tokenId,
+          startPrice,
+          parseUnits(terms.endPrice, decimals),
+          address,
+          terms.duration
+        );
+  await tx.wait();
+}
+
+// Puja en una subasta inglesa, aprobando antes el monto si es en ERC20
+export async function placeBid(auction: AuctionItem, amount: string) {
+  const provider = new BrowserProvider(window.ethereum);
+  const signer = await provider.getSigner();
+  const contract = new Contract(CONTRACT_ADDRESS, abi, signer);
+  const value = parseUnits(amount, auction.decimals);
+
+  if (auction.currency === ZeroAddress) {
+    const tx = await contract.bid(auction.tokenId, value, { value });
+    await tx.wait();
+    return;
+  }
+
+  await approveIfNeeded(signer, auction.currency, value);
+  const tx = await contract.bid(auction.tokenId, value);
+  await tx.wait();
+}
+
+// Compra en una subasta holandesa. Se ofrece el precio del último bloque;
+// si baja hasta que se mina, la diferencia queda para retirar
+export async function buyDutchAuction(auction: AuctionItem) {
+  const provider = new BrowserProvider(window.ethereum);
+  const signer = await provider.getSigner();
+  const contract = new Contract(CONTRACT_ADDRESS, abi, signer);
+  const maxPrice: bigint = await contract.getDutchPrice(auction.tokenId);
+
+  if (auction.currency === ZeroAddress) {
+    const tx = await contract.buyDutch(auction.tokenId, maxPrice, {
+      value: maxPrice,
+    });
+    await tx.wait();
+    return;
+  }
+
+  await approveIfNeeded(signer, auction.currency, maxPrice);
+  const tx = await contract.buyDutch(auction.tokenId, maxPrice);
+  await tx.wait();
+}
+
+// Cierra una subasta vencida, entregando el NFT al ganador o al vendedor
+export async function settleAuction(tokenId: number) {
+  const contract = await getContract();
+  const tx = await contract.settleAuction(tokenId);
+  await tx.wait();
+}
+
+// El vendedor recupera el NFT de una subasta sin pujas
+export async function cancelAuction(tokenId: number) {
+  const contract = await getContract();
+  const tx = await contract.cancelAuction(tokenId);
+  await tx.wait();
+}
+
+// Pone a la venta un NFT propio, por ejemplo uno comprado
+export async function listNFT(
+  tokenId: number,
+  price: string,
+  currency: PaymentCurrency
+) {
+  const contract = await getContract();
+  const tx = await contract.list(
+    tokenId,
+    parseUnits(price, currency.decimals),
+    currency.address
+  );
+  await tx.wait();
+}
+
+// Retira un NFT de la venta
+export async function cancelListing(tokenId: number) {
+  const contract = await getContract();
+  const tx = await contract.cancelListing(tokenId);
+  await tx.wait();
+}
+
+// Cambia el precio de un NFT a la venta, en la misma moneda
+export async function updateListingPrice(nft: NFTItem, price: string) {
+  const contract = await getContract();
+  const tx = await contract.updatePrice(
+    nft.tokenId,
+    parseUnits(price, nft.decimals)
+  );
+  await tx.wait();
+}
+
+// Ofrece comprar un NFT o, con tokenId null, cualquier NFT de la colección.
+// El monto queda en el contrato hasta que se acepta o se cancela
+export async function makeOffer(
+  tokenId: number | null,
+  amount: string,
+  currency: PaymentCurrency,
+  expiresAt: number
+) {
+  const provider = new BrowserProvider(window.ethereum);
+  const signer = await provider.getSigner();
+  const contract = new Contract(CONTRACT_ADDRESS, abi, signer);
+  const value = parseUnits(amount, currency.decimals);
+  const isEth = currency.address === ZeroAddress;
+
+  if (!isEth) {
+    await approveIfNeeded(signer, currency.address, value);
+  }
+  const overrides = isEth ? { value } : {};
+  const tx =
+    tokenId === null
+      ? await contract.makeCollectionOffer(
+          value,
+          currency.address,
+          expiresAt,
+          overrides
+        )
+      : await contract.makeOffer(
+          tokenId,
+          value,
+          currency.address,
+          expiresAt,
+          overrides
+        );
+  await tx.wait();
+}
+
+// Vende `tokenId` al autor de la oferta
+export async function acceptOffer(offerId: number, tokenId: number) {
+  const contract = await getContract();
+  const tx = await contract.acceptOffer(offerId, tokenId);
+  await tx.wait();
+}
+
+// Cancela una oferta; el monto queda para retirar con withdrawFunds
+export async function cancelOffer(offerId: number) {
+  const contract = await getContract();
+  const tx = await contract.cancelOffer(offerId);
+  await tx.wait();
+}
+
+// Firma una orden de venta de un NFT propio, sin gas. La orden se comparte
+// como JSON con serializeOrder y cualquiera la puede completar con fillSellOrder
+export async function signSellOrder(
+  tokenId: number,
+  price: string,
+  currency: PaymentCurrency,
+  expiresAt: number
+): Promise<SignedOrder> {
+  const provider = new BrowserProvider(window.ethereum);
+  const signer = await provider.getSigner();
+  const order = await buildOrder(signer, CONTRACT_ADDRESS, {
+    seller: await signer.getAddress(),
+    tokenId,
+    price: parseUnits(price, currency.decimals),
+    currency: currency.address,
+    expiresAt,
   });
+  return signOrder(signer, CONTRACT_ADDRESS, order);
+}
+
+// Revisa firma, vencimiento y estado en el contrato antes de comprar
+export async function validateSellOrder(
+  signed: SignedOrder
+): Promise<OrderStatus> {
+  return validateOrder(new BrowserProvider(window.ethereum), signed);
+}
+
+// Compra un NFT con una orden firmada, aprobando antes el precio si es en ERC20
+export async function fillSellOrder({ order, signature }: SignedOrder) {
+  const provider = new BrowserProvider(window.ethereum);
+  const signer = await provider.getSigner();
+  const contract = new Contract(CONTRACT_ADDRESS, abi, signer);
+
+  if (order.currency === ZeroAddress) {
+    const tx = await contract.fillOrder(order, signature, {
+      value: order.price,
+    });
+    await tx.wait();
+    return;
+  }
+
+  await approveIfNeeded(signer, order.currency, order.price);
+  const tx = await contract.fillOrder(order, signature);
   await tx.wait();
 }
 
-// Genera un batch inicial de NFTs listados con imágenes aleatorias
-export async function mintInitialBatch(count: number = 10) {
+// Invalida una orden firmada por la cuenta conectada
+export async function cancelSellOrder(order: SellOrder) {
+  const contract = await getContract();
+  const tx = await contract.cancelOrder(order);
+  await tx.wait();
+}
+
+// Invalida todas las órdenes firmadas hasta ahora por la cuenta conectada
+export async function cancelAllSellOrders() {
   const contract = await getContract();
+  const tx = await contract.incrementOrderCounter();
+  await tx.wait();
+}
 
-  for (let i = 1; i <= count; i++) {
-    const metadataURI = `ipfs://${import.meta.env.VITE_METADATA_CID}/${i}.json`;
+// Mintea y lista `count` NFTs del CID de metadatos a 0.01 ETH, con una
+// transacción por cada MAX_BATCH_SIZE NFTs
+export async function mintInitialBatch(count: number = 10) {
+  const contract = await getContract();
 
-    try {
-      const tx = await contract.mintAndList(metadataURI, parseEther("0.01"));
-      await tx.wait();
-    } catch (err) {
-      console.error(`❌ Error al mintear NFT #${i}:`, err);
+  for (let start = 1; start <= count; start += MAX_BATCH_SIZE) {
+    const end = Math.min(start + MAX_BATCH_SIZE - 1, count);
+    const uris = [];
+    for (let i = start; i <= end; i++) {
+      uris.push(`ipfs://${import.meta.env.VITE_METADATA_CID}/${i}.json`);
     }
+
+    const tx = await contract.batchMintAndList(
+      uris,
+      uris.map(() => parseEther("0.01")),
+      ZeroAddress,
+      INITIAL_ROYALTY_BPS,
+      true
+    );
+    await tx.wait();
   }
 }
 
-// Permite al usuario retirar fondos pendientes
-export async function withdrawFunds(): Promise<void> {
+// Firma un voucher por cada metadato de `cid` en lugar de mintearlos.
+// Devuelve el JSON a publicar en VITE_VOUCHERS_URL
+export async function createMintVouchers(
+  cid: string,
+  count: number,
+  price: string,
+  currency: PaymentCurrency,
+  royaltyBps: number,
+  deadline: number
+): Promise<string> {
+  const provider = new BrowserProvider(window.ethereum);
+  const signer = await provider.getSigner();
+  const vouchers = await signVoucherBatch(signer, CONTRACT_ADDRESS, {
+    cid,
+    count,
+    price: parseUnits(price, currency.decimals),
+    currency: currency.address,
+    royaltyBps: BigInt(royaltyBps),
+    deadline: BigInt(deadline),
+  });
+  return serializeVouchers(vouchers);
+}
+
+// Vouchers publicados que todavía se pueden canjear, con las monedas del
+// snapshot de loadMarketplaceState
+const loadVouchers = async (
+  provider: BrowserProvider,
+  snapshot: MarketplaceSnapshot
+): Promise<VoucherItem[]> => {
+  const res = await fetch(VOUCHERS_URL);
+  if (!res.ok) return []; // Todavía no se publicó ningún lote
+
+  const vouchers = await filterRedeemable(
+    provider,
+    CONTRACT_ADDRESS,
+    parseVouchers(await res.text())
+  );
+
+  return vouchers.flatMap((signed) => {
+    const { voucher } = signed;
+    const currency = snapshot.currencies[voucher.currency.toLowerCase()];
+    if (!currency) return []; // Moneda nunca habilitada en este contrato
+    return [
+      {
+        voucherHash: hashVoucher(signed),
+        creator: voucher.creator,
+        uri: voucher.uri,
+        price: formatUnits(voucher.price, currency.decimals),
+        currency: currency.address,
+        symbol: currency.symbol,
+        decimals: currency.decimals,
+        royaltyBps: Number(voucher.royaltyBps),
+        deadline: Number(voucher.deadline),
+        signed,
+      },
+    ];
+  });
+};
+
+// Mintea y compra el NFT de un voucher en una sola transacción. En ERC20
+// primero se aprueba el precio si la allowance actual no alcanza
+export async function redeemMintVoucher({ signed }: VoucherItem) {
+  const provider = new BrowserProvider(window.ethereum);
+  const signer = await provider.getSigner();
+  const contract = new Contract(CONTRACT_ADDRESS, abi, signer);
+  const { voucher, signature } = signed;
+
+  if (voucher.currency === ZeroAddress) {
+    const tx = await contract.redeemVoucher(voucher, signature, {
+      value: voucher.price,
+    });
+    await tx.wait();
+    return;
+  }
+
+  await approveIfNeeded(signer, voucher.currency, voucher.price);
+  const tx = await contract.redeemVoucher(voucher, signature);
+  await tx.wait();
+}
+
+// Invalida un voucher propio que todavía no se canjeó
+export async function cancelMintVoucher({ signed }: VoucherItem) {
   const contract = await getContract();
-  const tx = await contract.withdraw();
+  const tx = await contract.cancelVoucher(signed.voucher);
   await tx.wait();
 }
 
-// Consulta el saldo pendiente de retiro para una cuenta
-export async function getPendingWithdrawal(account: string): Promise<string> {
+// Consulta con hasRole los roles de una cuenta y si el marketplace está en
+// pausa, todo en una sola llamada
+export async function getMarketplaceAccess(
+  account: string
+): Promise<MarketplaceAccess> {
   const provider = new BrowserProvider(window.ethereum);
-  const contract = new Contract(CONTRACT_ADDRESS, abi, provider);
-  const amount = await contract.pendingWithdrawals(account);
-  return formatEther(amount);
+  return readMarketplaceAccess(provider, CONTRACT_ADDRESS, account);
+}
+
+// Oculta o vuelve a mostrar NFTs en el marketplace (rol de curador)
+export async function setNFTsHidden(tokenIds: number[], hidden: boolean) {
+  const contract = await getContract();
+  const tx = await contract.setTokensHidden(tokenIds, hidden);
+  await tx.wait();
+}
+
+// Frena o reanuda minteos y ventas (rol de pauser)
+export async function setMarketplacePaused(paused: boolean) {
+  const contract = await getContract();
+  const tx = paused ? await contract.pause() : await contract.unpause();
+  await tx.wait();
+}
+
+// Permite al usuario retirar los fondos pendientes en una moneda
+export async function withdrawFunds(currency: string): Promise<void> {
+  const contract = await getContract();
+  const tx = await contract.withdraw(currency);
+  await tx.wait();
+}
+
+// Consulta los saldos pendientes de retiro de una cuenta, en una sola
+// consulta para las monedas de `loadMarketplaceState`
+export async function getPendingWithdrawals(
+  account: string,
+  currencies: PaymentCurrency[]
+): Promise<PendingWithdrawal[]> {
+  const provider = new BrowserProvider(window.ethereum);
+  return readPendingWithdrawals(
+    provider,
+    CONTRACT_ADDRESS,
+    account,
+    currencies
+  );
 }
@@ -0,0 +1,115 @@
+import { Contract, isError } from "ethers";
+import type { BaseContract, ContractRunner } from "ethers";
+
+// Multicall3 tiene la misma dirección en Ephemery y casi todas las redes públicas
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+// aggregate3 es payable, declararla view permite ejecutarla con eth_call
+const MULTICALL3_ABI = [
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) view returns (tuple(bool success, bytes returnData)[] returnData)",
+];
+
+// Lectura a agrupar: función view de un contrato y sus argumentos
+export interface ContractCall {
+  contract: BaseContract;
+  method: string;
+  args?: unknown[];
+}
+
+// Resultado de una lectura. `error` se puede pasar a decodeMarketplaceError
+export type CallResult =
+  | { success: true; value: unknown }
+  | { success: false; error: unknown };
+
+export interface MulticallOptions {
+  address?: string; // Contrato Multicall3
+  batchSize?: number; // Lecturas por eth_call
+}
+
+// Decodifica igual que Contract: el valor directo si la función devuelve uno solo
+function decodeResult(call: ContractCall, data: string) {
+  const fragment = call.contract.interface.getFunction(call.method)!;
+  const result = call.contract.interface.decodeFunctionResult(fragment, data);
+  return fragment.outputs.length === 1 ? result[0] : result;
+}
+
+// Un eth_call por lectura, para redes sin Multicall3
+async function callEach(
+  runner: ContractRunner,
+  calls: ContractCall[]
+): Promise<CallResult[]> {
+  return Promise.all(
+    calls.map(async (call): Promise<CallResult> => {
+      try {
+        const value = await call.contract
+          .connect(runner)
+          .getFunction(call.method)
+          .staticCall(...(call.args ?? []));
+        return { success: true, value };
+      } catch (error) {
+        return { success: false, error };
+      }
+    })
+  );
+}
+
+/**
+ * Ejecuta lecturas a través de Multicall3, `batchSize` por consulta. Si una
+ * lectura revierte solo falla su resultado. Sin Multicall3 en `address` se
+ * hace una consulta por lectura
+ */
+export async function multicall(
+  runner: ContractRunner,
+  calls: ContractCall[],
+  options: MulticallOptions = {}
+): Promise<CallResult[]> {
+  const { address = MULTICALL3_ADDRESS, batchSize = 100 } = options;
+  const multicall3 = new Contract(address, MULTICALL3_ABI, runner);
+  const results: CallResult[] = [];
+
+  for (let start = 0; start < calls.length; start += batchSize) {
+    const batch = calls.slice(start, start + batchSize);
+    const requests = await Promise.all(
+      batch.map(async (call) => ({
+        target: await call.contract.getAddress(),
+        allowFailure: true,
+        callData: call.contract.interface.encodeFunctionData(
+          call.method,
+          call.args ?? []
+        ),
+      }))
+    );
+
+    let responses: { success: boolean; returnData: string }[];
+    try {
+      responses = await multicall3.aggregate3(requests);
+    } catch (error) {
+      // Una dirección sin código devuelve datos vacíos en lugar de resultados
+      if (isError(error, "BAD_DATA")) {
+        return callEach(runner, calls);
+      }
+      throw error;
+    }
+
+    batch.forEach((call, i) => {
+      const { success, returnData } = responses[i];
+      if (!success) {
+        // Guarda los datos del revert donde los dejan los errores del provider
+        results.push({
+          success: false,
+          error: Object.assign(new Error(`${call.method} revirtió`), {
+            data: returnData,
+          }),
+        });
+        return;
+      }
+      try {
+        results.push({ success: true, value: decodeResult(call, returnData) });
+      } catch (error) {
+        results.push({ success: false, error });
+      }
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,224 @@
+import {
+  Contract,
+  Interface,
+  TypedDataEncoder,
+  ZeroAddress,
+  verifyTypedData,
+} from "ethers";
+import type { Provider, Signer, TypedDataDomain } from "ethers";
+import { multicall } from "./multicall";
+import type { MulticallOptions } from "./multicall";
+
+// Sin abi.json para poder usarlo también desde los scripts de Node
+const ORDER_ABI = new Interface([
+  "function orderCounters(address seller) view returns (uint256)",
+  "function closedOrders(bytes32 orderHash) view returns (bool)",
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function allowedPaymentTokens(address token) view returns (bool)",
+]);
+
+// Mismo nombre y versión que el constructor EIP712 del contrato
+const DOMAIN_NAME = "NFTMarket";
+const DOMAIN_VERSION = "1";
+
+const SELL_ORDER_TYPES = {
+  SellOrder: [
+    { name: "seller", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "price", type: "uint96" },
+    { name: "currency", type: "address" },
+    { name: "expiresAt", type: "uint64" },
+    { name: "counter", type: "uint256" },
+  ],
+};
+
+// Orden de venta tal como la firma el vendedor. Montos en unidades mínimas
+export interface SellOrder {
+  seller: string;
+  tokenId: bigint;
+  price: bigint;
+  currency: string; // ZeroAddress para ETH o la dirección del ERC20
+  expiresAt: bigint; // Segundos unix
+  counter: bigint; // orderCounters del vendedor al firmar
+}
+
+export interface SignedOrder {
+  order: SellOrder;
+  signature: string;
+  chainId: bigint;
+  verifyingContract: string;
+}
+
+// Resultado de validar una orden antes de completarla
+export type OrderStatus =
+  | "valid"
+  | "invalid-signature"
+  | "expired"
+  | "closed" // Completada, cancelada o con un counter viejo
+  | "not-owner" // El vendedor ya no tiene el NFT
+  | "currency-not-allowed";
+
+/**
+ * Lugar donde se publican las órdenes firmadas. Por ahora un archivo local
+ * (scripts/fileOrderBook.ts); la idea es reemplazarlo por un servicio
+ */
+export interface OrderBook {
+  add(signed: SignedOrder): Promise<string>; // Devuelve el hash de la orden
+  get(orderHash: string): Promise<SignedOrder | null>;
+  list(): Promise<SignedOrder[]>;
+  remove(orderHash: string): Promise<void>;
+}
+
+// Dominio EIP-712 del marketplace, compartido con los vouchers de minteo
+export const getMarketplaceDomain = (
+  chainId: bigint,
+  verifyingContract: string
+): TypedDataDomain => ({
+  name: DOMAIN_NAME,
+  version: DOMAIN_VERSION,
+  chainId,
+  verifyingContract,
+});
+
+// Arma una orden con el counter vigente del vendedor
+export async function buildOrder(
+  runner: Provider | Signer,
+  marketplaceAddress: string,
+  terms: {
+    seller: string;
+    tokenId: bigint | number;
+    price: bigint;
+    currency?: string;
+    expiresAt: bigint | number;
+  }
+): Promise<SellOrder> {
+  const marketplace = new Contract(marketplaceAddress, ORDER_ABI, runner);
+  return {
+    seller: terms.seller,
+    tokenId: BigInt(terms.tokenId),
+    price: terms.price,
+    currency: terms.currency ?? ZeroAddress,
+    expiresAt: BigInt(terms.expiresAt),
+    counter: await marketplace.orderCounters(terms.seller),
+  };
+}
+
+// Firma la orden con la wallet del vendedor, sin enviar transacciones
+export async function signOrder(
+  signer: Signer,
+  marketplaceAddress: string,
+  order: SellOrder
+): Promise<SignedOrder> {
+  const { chainId } = await signer.provider!.getNetwork();
+  const domain = getMarketplaceDomain(chainId, marketplaceAddress);
+  const signature = await signer.signTypedData(domain, SELL_ORDER_TYPES, order);
+  return { order, signature, chainId, verifyingContract: marketplaceAddress };
+}
+
+// Hash EIP-712 de la orden, el mismo que devuelve hashOrder en el contrato
+export function hashOrder({
+  order,
+  chainId,
+  verifyingContract,
+}: SignedOrder): string {
+  return TypedDataEncoder.hash(
+    getMarketplaceDomain(chainId, verifyingContract),
+    SELL_ORDER_TYPES,
+    order
+  );
+}
+
+// JSON de la orden, con los números como strings
+export function serializeOrder(signed: SignedOrder): string {
+  const { order } = signed;
+  return JSON.stringify({
+    order: {
+      ...order,
+      tokenId: order.tokenId.toString(),
+      price: order.price.toString(),
+      expiresAt: order.expiresAt.toString(),
+      counter: order.counter.toString(),
+    },
+    signature: signed.signature,
+    chainId: signed.chainId.toString(),
+    verifyingContract: signed.verifyingContract,
+  });
+}
+
+// Inverso de serializeOrder
+export function parseOrder(json: string): SignedOrder {
+  const { order, signature, chainId, verifyingContract } = JSON.parse(json);
+  return {
+    order: {
+      seller: order.seller,
+      tokenId: BigInt(order.tokenId),
+      price: BigInt(order.price),
+      currency: order.currency,
+      expiresAt: BigInt(order.expiresAt),
+      counter: BigInt(order.counter),
+    },
+    signature,
+    chainId: BigInt(chainId),
+    verifyingContract,
+  };
+}
+
+/**
+ * Verifica la firma y consulta en una sola llamada si la orden todavía se
+ * puede completar. Sirve para filtrar el libro de órdenes sin gastar gas
+ */
+export async function validateOrder(
+  provider: Provider,
+  signed: SignedOrder,
+  options: MulticallOptions = {}
+): Promise<OrderStatus> {
+  const { order, chainId, verifyingContract } = signed;
+  const signer = verifyTypedData(
+    getMarketplaceDomain(chainId, verifyingContract),
+    SELL_ORDER_TYPES,
+    order,
+    signed.signature
+  );
+  if (signer.toLowerCase() !== order.seller.toLowerCase()) {
+    return "invalid-signature";
+  }
+
+  const block = await provider.getBlock("latest");
+  if (BigInt(block!.timestamp) >= order.expiresAt) return "expired";
+
+  const marketplace = new Contract(verifyingContract, ORDER_ABI, provider);
+  const [counter, closed, owner, allowed] = await multicall(
+    provider,
+    [
+      { contract: marketplace, method: "orderCounters", args: [order.seller] },
+      {
+        contract: marketplace,
+        method: "closedOrders",
+        args: [hashOrder(signed)],
+      },
+      { contract: marketplace, method: "ownerOf", args: [order.tokenId] },
+      {
+        contract: marketplace,
+        method: "allowedPaymentTokens",
+        args: [order.currency],
+      },
+    ],
+    options
+  );
+
+  if (!counter.success || !closed.success) {
+    throw new Error("❌ No se pudo consultar el estado de la orden.");
+  }
+  if (closed.value || counter.value !== order.counter) return "closed";
+  // ownerOf revierte si el NFT no existe
+  if (
+    !owner.success ||
+    (owner.value as string).toLowerCase() !== order.seller.toLowerCase()
+  ) {
+    return "not-owner";
+  }
+  if (order.currency !== ZeroAddress && !(allowed.success && allowed.value)) {
+    return "currency-not-allowed";
+  }
+  return "valid";
+}
@@ -0,0 +1,183 @@
+import { Contract, Interface, TypedDataEncoder } from "ethers";
+import type { Provider, Signer } from "ethers";
+import { multicall } from "./multicall";
+import type { MulticallOptions } from "./multicall";
+import { getMarketplaceDomain } from "./orders";
+
+// Sin abi.json para poder usarlo también desde los scripts de Node
+const VOUCHER_ABI = new Interface([
+  "function redeemedVouchers(bytes32 voucherHash) view returns (bool)",
+]);
+
+const MINT_VOUCHER_TYPES = {
+  MintVoucher: [
+    { name: "creator", type: "address" },
+    { name: "uri", type: "string" },
+    { name: "price", type: "uint96" },
+    { name: "currency", type: "address" },
+    { name: "royaltyBps", type: "uint96" },
+    { name: "deadline", type: "uint64" },
+  ],
+};
+
+// NFT todavía sin mintear que el creador pone a la venta firmando sus
+// condiciones. Montos en unidades mínimas
+export interface MintVoucher {
+  creator: string;
+  uri: string;
+  price: bigint;
+  currency: string; // ZeroAddress para ETH o la dirección del ERC20
+  royaltyBps: bigint; // Regalía del creador en ventas posteriores
+  deadline: bigint; // Segundos unix; después ya no se puede canjear
+}
+
+export interface SignedVoucher {
+  voucher: MintVoucher;
+  signature: string;
+  chainId: bigint;
+  verifyingContract: string;
+}
+
+// Voucher como queda en el JSON, con los números como strings
+interface SerializedVoucher {
+  voucher: Record<keyof MintVoucher, string>;
+  signature: string;
+  chainId: string;
+  verifyingContract: string;
+}
+
+// Condiciones comunes de un lote de vouchers
+export interface VoucherBatchTerms {
+  cid: string; // Carpeta de IPFS con 1.json, 2.json, ...
+  count: number;
+  price: bigint;
+  currency: string;
+  royaltyBps: bigint;
+  deadline: bigint;
+}
+
+// Firma un voucher con la wallet del creador, sin enviar transacciones
+export async function signVoucher(
+  signer: Signer,
+  marketplaceAddress: string,
+  voucher: MintVoucher
+): Promise<SignedVoucher> {
+  const { chainId } = await signer.provider!.getNetwork();
+  const signature = await signer.signTypedData(
+    getMarketplaceDomain(chainId, marketplaceAddress),
+    MINT_VOUCHER_TYPES,
+    voucher
+  );
+  return { voucher, signature, chainId, verifyingContract: marketplaceAddress };
+}
+
+// Un voucher por cada metadato del CID, con la misma numeración que
+// generateMetadata.js. Cada uno pide una firma a la wallet
+export async function signVoucherBatch(
+  signer: Signer,
+  marketplaceAddress: string,
+  terms: VoucherBatchTerms
+): Promise<SignedVoucher[]> {
+  const creator = await signer.getAddress();
+  const signed: SignedVoucher[] = [];
+  for (let i = 1; i <= terms.count; i++) {
+    signed.push(
+      await signVoucher(signer, marketplaceAddress, {
+        creator,
+        uri: `ipfs://${terms.cid}/${i}.json`,
+        price: terms.price,
+        currency: terms.currency,
+        royaltyBps: terms.royaltyBps,
+        deadline: terms.deadline,
+      })
+    );
+  }
+  return signed;
+}
+
+// Hash EIP-712 del voucher, el mismo que devuelve hashVoucher en el contrato
+export function hashVoucher({
+  voucher,
+  chainId,
+  verifyingContract,
+}: SignedVoucher): string {
+  return TypedDataEncoder.hash(
+    getMarketplaceDomain(chainId, verifyingContract),
+    MINT_VOUCHER_TYPES,
+    voucher
+  );
+}
+
+// JSON del lote, por ejemplo para publicarlo como public/vouchers.json
+export function serializeVouchers(vouchers: SignedVoucher[]): string {
+  return JSON.stringify(
+    vouchers.map(
+      ({
+        voucher,
+        signature,
+        chainId,
+        verifyingContract,
+      }): SerializedVoucher => ({
+        voucher: {
+          ...voucher,
+          price: voucher.price.toString(),
+          royaltyBps: voucher.royaltyBps.toString(),
+          deadline: voucher.deadline.toString(),
+        },
+        signature,
+        chainId: chainId.toString(),
+        verifyingContract,
+      })
+    ),
+    null,
+    2
+  );
+}
+
+// Inverso de serializeVouchers
+export function parseVouchers(json: string): SignedVoucher[] {
+  return (JSON.parse(json) as SerializedVoucher[]).map(
+    ({ voucher, signature, chainId, verifyingContract }) => ({
+      voucher: {
+        creator: voucher.creator,
+        uri: voucher.uri,
+        price: BigInt(voucher.price),
+        currency: voucher.currency,
+        royaltyBps: BigInt(voucher.royaltyBps),
+        deadline: BigInt(voucher.deadline),
+      },
+      signature,
+      chainId: BigInt(chainId),
+      verifyingContract,
+    })
+  );
+}
+
+// Descarta los vouchers vencidos y los ya canjeados o cancelados, en una
+// sola consulta para todo el lote
+export async function filterRedeemable(
+  provider: Provider,
+  marketplaceAddress: string,
+  vouchers: SignedVoucher[],
+  options: MulticallOptions = {}
+): Promise<SignedVoucher[]> {
+  const marketplace = new Contract(marketplaceAddress, VOUCHER_ABI, provider);
+  const results = await multicall(
+    provider,
+    vouchers.map((signed) => ({
+      contract: marketplace,
+      method: "redeemedVouchers",
+      args: [hashVoucher(signed)],
+    })),
+    options
+  );
+  const block = await provider.getBlock("latest");
+  return vouchers.filter(
+    (signed, i) =>
+      signed.verifyingContract.toLowerCase() ===
+        marketplaceAddress.toLowerCase() &&
+      BigInt(block!.timestamp) < signed.voucher.deadline &&
+      results[i].success &&
+      !results[i].value
+  );
+}
@@ -0,0 +1,479 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+const DAY = 24 * 60 * 60;
+const ANTI_SNIPING_WINDOW = 10 * 60;
+const ETH = ethers.ZeroAddress;
+const ROYALTY_BPS = 500n; // 5% para el creador
+const PLATFORM_FEE_BPS = 250n; // Comisión por defecto del contrato
+
+enum AuctionKind {
+  English,
+  Dutch,
+}
+
+describe("Subastas", function () {
+  // El creador mintea el NFT #0 y el vendedor se lo compra, así la subasta
+  // es una reventa con regalía para el creador
+  async function deployAuctionFixture() {
+    const [owner, creator, seller, bidder1, bidder2] =
+      await ethers.getSigners();
+
+    const Marketplace = await ethers.getContractFactory("Marketplace");
+    const marketplace = await Marketplace.deploy();
+    // Solo los minters pueden mintear
+    await marketplace.grantRole(
+      await marketplace.MINTER_ROLE(),
+      creator.address
+    );
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    const token = await MockERC20.deploy();
+    await marketplace.setPaymentToken(await token.getAddress(), true);
+    for (const bidder of [bidder1, bidder2]) {
+      await token.mint(bidder.address, ethers.parseEther("100"));
+      await token
+        .connect(bidder)
+        .approve(await marketplace.getAddress(), ethers.MaxUint256);
+    }
+
+    await marketplace
+      .connect(creator)
+      .mintAndList(
+        "ipfs://nft/0.json",
+        ethers.parseEther("1"),
+        ETH,
+        ROYALTY_BPS
+      );
+    await marketplace.connect(seller).buy(0, { value: ethers.parseEther("1") });
+
+    return { marketplace, token, owner, creator, seller, bidder1, bidder2 };
+  }
+
+  async function englishAuctionFixture() {
+    const fixture = await deployAuctionFixture();
+    await fixture.marketplace
+      .connect(fixture.seller)
+      .createEnglishAuction(0, ethers.parseEther("1"), ETH, DAY);
+    return fixture;
+  }
+
+  async function dutchAuctionFixture() {
+    const fixture = await deployAuctionFixture();
+    await fixture.marketplace
+      .connect(fixture.seller)
+      .createDutchAuction(
+        0,
+        ethers.parseEther("2"),
+        ethers.parseEther("1"),
+        ETH,
+        DAY
+      );
+    return fixture;
+  }
+
+  // Saldos por retirar en ETH de varias cuentas
+  async function pendingEth(
+    marketplace: Awaited<
+      ReturnType<typeof deployAuctionFixture>
+    >["marketplace"],
+    accounts: { address: string }[]
+  ) {
+    return Promise.all(
+      accounts.map((account) =>
+        marketplace.pendingWithdrawals(account.address, ETH)
+      )
+    );
+  }
+
+  describe("Creación", function () {
+    it("Debería dejar el NFT en el contrato mientras dura la subasta", async function () {
+      const { marketplace, seller } = await loadFixture(deployAuctionFixture);
+      const startTime = (await time.latest()) + 60;
+
+      await time.setNextBlockTimestamp(startTime);
+      await expect(
+        marketplace
+          .connect(seller)
+          .createEnglishAuction(0, ethers.parseEther("1"), ETH, DAY)
+      )
+        .to.emit(marketplace, "AuctionCreated")
+        .withArgs(
+          0,
+          seller.address,
+          AuctionKind.English,
+          ETH,
+          ethers.parseEther("1"),
+          0,
+          startTime,
+          startTime + DAY
+        );
+
+      expect(await marketplace.ownerOf(0)).to.equal(
+        await marketplace.getAddress()
+      );
+      const auction = await marketplace.auctions(0);
+      expect(auction.active).to.equal(true);
+      expect(auction.seller).to.equal(seller.address);
+    });
+
+    it("Debería rechazar NFTs ajenos o a la venta", async function () {
+      const { marketplace, creator, seller } = await loadFixture(
+        deployAuctionFixture
+      );
+
+      await expect(
+        marketplace
+          .connect(creator)
+          .createEnglishAuction(0, ethers.parseEther("1"), ETH, DAY)
+      )
+        .to.be.revertedWithCustomError(marketplace, "NotTokenOwner")
+        .withArgs(0, creator.address);
+
+      await marketplace.connect(seller).list(0, ethers.parseEther("3"), ETH);
+      await expect(
+        marketplace
+          .connect(seller)
+          .createEnglishAuction(0, ethers.parseEther("1"), ETH, DAY)
+      )
+        .to.be.revertedWithCustomError(marketplace, "AlreadyListed")
+        .withArgs(0);
+    });
+
+    it("Debería validar la duración y los precios", async function () {
+      const { marketplace, seller } = await loadFixture(deployAuctionFixture);
+
+      await expect(
+        marketplace
+          .connect(seller)
+          .createEnglishAuction(0, ethers.parseEther("1"), ETH, 60)
+      )
+        .to.be.revertedWithCustomError(marketplace, "InvalidDuration")
+        .withArgs(60);
+      await expect(
+        marketplace
+          .connect(seller)
+          .createEnglishAuction(0, ethers.parseEther("1"), ETH, 31 * DAY)
+      ).to.be.revertedWithCustomError(marketplace, "InvalidDuration");
+      await expect(
+        marketplace.connect(seller).createEnglishAuction(0, 0, ETH, DAY)
+      ).to.be.revertedWithCustomError(marketplace, "InvalidPrice");
+      // El precio final de una holandesa debe ser menor al inicial
+      await expect(
+        marketplace
+          .connect(seller)
+          .createDutchAuction(
+            0,
+            ethers.parseEther("1"),
+            ethers.parseEther("1"),
+            ETH,
+            DAY
+          )
+      ).to.be.revertedWithCustomError(marketplace, "InvalidPrice");
+    });
+  });
+
+  describe("Subasta inglesa", function () {
+    it("Debería exigir la puja mínima y el incremento", async function () {
+      const { marketplace, bidder1, bidder2 } = await loadFixture(
+        englishAuctionFixture
+      );
+      const low = ethers.parseEther("0.5");
+
+      await expect(marketplace.connect(bidder1).bid(0, low, { value: low }))
+        .to.be.revertedWithCustomError(marketplace, "BidTooLow")
+        .withArgs(0, ethers.parseEther("1"), low);
+
+      const first = ethers.parseEther("1");
+      await marketplace.connect(bidder1).bid(0, first, { value: first });
+
+      // La siguiente puja debe superar a la anterior en 5%
+      expect(await marketplace.minimumBid(0)).to.equal(
+        ethers.parseEther("1.05")
+      );
+      const tooLow = ethers.parseEther("1.04");
+      await expect(
+        marketplace.connect(bidder2).bid(0, tooLow, { value: tooLow })
+      )
+        .to.be.revertedWithCustomError(marketplace, "BidTooLow")
+        .withArgs(0, ethers.parseEther("1.05"), tooLow);
+    });
+
+    it("Debería rechazar un valor distinto al de la puja", async function () {
+      const { marketplace, bidder1 } = await loadFixture(englishAuctionFixture);
+      const amount = ethers.parseEther("1");
+
+      await expect(
+        marketplace
+          .connect(bidder1)
+          .bid(0, amount, { value: ethers.parseEther("0.9") })
+      )
+        .to.be.revertedWithCustomError(marketplace, "IncorrectPrice")
+        .withArgs(0, amount, ethers.parseEther("0.9"));
+    });
+
+    it("Debería dejar la puja superada para retirar", async function () {
+      const { marketplace, bidder1, bidder2 } = await loadFixture(
+        englishAuctionFixture
+      );
+      const first = ethers.parseEther("1");
+      const second = ethers.parseEther("1.5");
+
+      await marketplace.connect(bidder1).bid(0, first, { value: first });
+      await expect(
+        marketplace.connect(bidder2).bid(0, second, { value: second })
+      )
+        .to.emit(marketplace, "BidPlaced")
+        .withArgs(0, bidder2.address, second);
+
+      expect(
+        await marketplace.pendingWithdrawals(bidder1.address, ETH)
+      ).to.equal(first);
+      await expect(
+        marketplace.connect(bidder1).withdraw(ETH)
+      ).to.changeEtherBalances([marketplace, bidder1], [-first, first]);
+
+      const auction = await marketplace.auctions(0);
+      expect(auction.highestBidder).to.equal(bidder2.address);
+      expect(auction.highestBid).to.equal(second);
+    });
+
+    it("Debería extender el cierre con pujas de último momento", async function () {
+      const { marketplace, bidder1, bidder2 } = await loadFixture(
+        englishAuctionFixture
+      );
+      const { endTime } = await marketplace.auctions(0);
+      const amount = ethers.parseEther("1");
+
+      // Lejos del cierre no se extiende
+      await expect(
+        marketplace.connect(bidder1).bid(0, amount, { value: amount })
+      ).not.to.emit(marketplace, "AuctionExtended");
+
+      const lateBid = Number(endTime) - 60;
+      await time.setNextBlockTimestamp(lateBid);
+      const second = ethers.parseEther("2");
+      await expect(
+        marketplace.connect(bidder2).bid(0, second, { value: second })
+      )
+        .to.emit(marketplace, "AuctionExtended")
+        .withArgs(0, lateBid + ANTI_SNIPING_WINDOW);
+
+      // El cierre original ya no termina la subasta
+      await time.increaseTo(endTime);
+      await expect(marketplace.settleAuction(0)).to.be.revertedWithCustomError(
+        marketplace,
+        "AuctionNotEnded"
+      );
+    });
+
+    it("Debería rechazar pujas después del cierre y cierres anticipados", async function () {
+      const { marketplace, bidder1 } = await loadFixture(englishAuctionFixture);
+      const { endTime } = await marketplace.auctions(0);
+      const amount = ethers.parseEther("1");
+
+      await expect(marketplace.settleAuction(0))
+        .to.be.revertedWithCustomError(marketplace, "AuctionNotEnded")
+        .withArgs(0, endTime);
+
+      await time.increaseTo(endTime);
+      await expect(
+        marketplace.connect(bidder1).bid(0, amount, { value: amount })
+      )
+        .to.be.revertedWithCustomError(marketplace, "AuctionEnded")
+        .withArgs(0, endTime);
+    });
+
+    it("Debería entregar el NFT al ganador y repartir el precio", async function () {
+      const { marketplace, owner, creator, seller, bidder1, bidder2 } =
+        await loadFixture(englishAuctionFixture);
+      const first = ethers.parseEther("1");
+      const winning = ethers.parseEther("2");
+
+      await marketplace.connect(bidder1).bid(0, first, { value: first });
+      await marketplace.connect(bidder2).bid(0, winning, { value: winning });
+      await time.increase(DAY);
+
+      const before = await pendingEth(marketplace, [owner, creator, seller]);
+      // Cualquiera puede cerrar la subasta vencida
+      await expect(marketplace.connect(bidder1).settleAuction(0))
+        .to.emit(marketplace, "AuctionSettled")
+        .withArgs(0, bidder2.address, winning);
+
+      const after = await pendingEth(marketplace, [owner, creator, seller]);
+      const platformFee = (winning * PLATFORM_FEE_BPS) / 10000n;
+      const royalty = (winning * ROYALTY_BPS) / 10000n;
+      expect(after[0] - before[0]).to.equal(platformFee);
+      expect(after[1] - before[1]).to.equal(royalty);
+      expect(after[2] - before[2]).to.equal(winning - platformFee - royalty);
+
+      expect(await marketplace.ownerOf(0)).to.equal(bidder2.address);
+      expect((await marketplace.auctions(0)).active).to.equal(false);
+      await expect(marketplace.settleAuction(0)).to.be.revertedWithCustomError(
+        marketplace,
+        "AuctionNotActive"
+      );
+    });
+
+    it("Debería devolver el NFT al vendedor si nadie pujó", async function () {
+      const { marketplace, seller } = await loadFixture(englishAuctionFixture);
+      await time.increase(DAY);
+
+      await expect(marketplace.settleAuction(0))
+        .to.emit(marketplace, "AuctionSettled")
+        .withArgs(0, ETH, 0);
+      expect(await marketplace.ownerOf(0)).to.equal(seller.address);
+    });
+
+    it("Debería permitir cancelar solo sin pujas", async function () {
+      const { marketplace, seller, bidder1 } = await loadFixture(
+        englishAuctionFixture
+      );
+
+      await expect(marketplace.connect(bidder1).cancelAuction(0))
+        .to.be.revertedWithCustomError(marketplace, "NotTokenOwner")
+        .withArgs(0, bidder1.address);
+
+      await expect(marketplace.connect(seller).cancelAuction(0))
+        .to.emit(marketplace, "AuctionCanceled")
+        .withArgs(0);
+      expect(await marketplace.ownerOf(0)).to.equal(seller.address);
+
+      await marketplace
+        .connect(seller)
+        .createEnglishAuction(0, ethers.parseEther("1"), ETH, DAY);
+      const amount = ethers.parseEther("1");
+      await marketplace.connect(bidder1).bid(0, amount, { value: amount });
+      await expect(marketplace.connect(seller).cancelAuction(0))
+        .to.be.revertedWithCustomError(marketplace, "AuctionHasBids")
+        .withArgs(0);
+    });
+
+    it("Debería cobrar y devolver las pujas en ERC20", async function () {
+      const { marketplace, token, seller, bidder1, bidder2 } =
+        await loadFixture(deployAuctionFixture);
+      const tokenAddress = await token.getAddress();
+      await marketplace
+        .connect(seller)
+        .createEnglishAuction(0, ethers.parseEther("10"), tokenAddress, DAY);
+
+      // Una puja en token no lleva ETH
+      await expect(
+        marketplace
+          .connect(bidder1)
+          .bid(0, ethers.parseEther("10"), { value: 1 })
+      )
+        .to.be.revertedWithCustomError(marketplace, "IncorrectPrice")
+        .withArgs(0, 0, 1);
+
+      await expect(
+        marketplace.connect(bidder1).bid(0, ethers.parseEther("10"))
+      ).to.changeTokenBalances(
+        token,
+        [bidder1, marketplace],
+        [ethers.parseEther("-10"), ethers.parseEther("10")]
+      );
+      await marketplace.connect(bidder2).bid(0, ethers.parseEther("20"));
+
+      expect(
+        await marketplace.pendingWithdrawals(bidder1.address, tokenAddress)
+      ).to.equal(ethers.parseEther("10"));
+      await expect(
+        marketplace.connect(bidder1).withdraw(tokenAddress)
+      ).to.changeTokenBalance(token, bidder1, ethers.parseEther("10"));
+
+      await time.increase(DAY);
+      await marketplace.settleAuction(0);
+      expect(await marketplace.ownerOf(0)).to.equal(bidder2.address);
+    });
+  });
+
+  describe("Subasta holandesa", function () {
+    it("Debería bajar el precio linealmente hasta el precio final", async function () {
+      const { marketplace } = await loadFixture(dutchAuctionFixture);
+      const { startTime, endTime } = await marketplace.auctions(0);
+
+      await time.increaseTo(startTime + BigInt(DAY / 4));
+      expect(await marketplace.getDutchPrice(0)).to.equal(
+        ethers.parseEther("1.75")
+      );
+
+      await time.increaseTo(endTime + 1n);
+      expect(await marketplace.getDutchPrice(0)).to.equal(
+        ethers.parseEther("1")
+      );
+    });
+
+    it("Debería vender al precio actual y dejar el excedente para retirar", async function () {
+      const { marketplace, owner, creator, seller, bidder1 } =
+        await loadFixture(dutchAuctionFixture);
+      const { startTime } = await marketplace.auctions(0);
+      const maxPrice = ethers.parseEther("2");
+      const price = ethers.parseEther("1.5");
+
+      const before = await pendingEth(marketplace, [owner, creator, seller]);
+      await time.setNextBlockTimestamp(startTime + BigInt(DAY / 2));
+      await expect(
+        marketplace.connect(bidder1).buyDutch(0, maxPrice, { value: maxPrice })
+      )
+        .to.emit(marketplace, "AuctionSettled")
+        .withArgs(0, bidder1.address, price);
+
+      expect(await marketplace.ownerOf(0)).to.equal(bidder1.address);
+      expect(
+        await marketplace.pendingWithdrawals(bidder1.address, ETH)
+      ).to.equal(maxPrice - price);
+
+      const after = await pendingEth(marketplace, [owner, creator, seller]);
+      const platformFee = (price * PLATFORM_FEE_BPS) / 10000n;
+      const royalty = (price * ROYALTY_BPS) / 10000n;
+      expect(after[0] - before[0]).to.equal(platformFee);
+      expect(after[1] - before[1]).to.equal(royalty);
+      expect(after[2] - before[2]).to.equal(price - platformFee - royalty);
+
+      await expect(
+        marketplace.connect(bidder1).buyDutch(0, maxPrice, { value: maxPrice })
+      ).to.be.revertedWithCustomError(marketplace, "AuctionNotActive");
+    });
+
+    it("Debería rechazar un máximo menor al precio actual", async function () {
+      const { marketplace, bidder1 } = await loadFixture(dutchAuctionFixture);
+      const { startTime } = await marketplace.auctions(0);
+      const maxPrice = ethers.parseEther("1.2");
+
+      await time.setNextBlockTimestamp(startTime + BigInt(DAY / 2));
+      await expect(
+        marketplace.connect(bidder1).buyDutch(0, maxPrice, { value: maxPrice })
+      )
+        .to.be.revertedWithCustomError(marketplace, "BidTooLow")
+        .withArgs(0, ethers.parseEther("1.5"), maxPrice);
+    });
+
+    it("Debería distinguir pujas de compras según el tipo de subasta", async function () {
+      const { marketplace, bidder1 } = await loadFixture(dutchAuctionFixture);
+      const amount = ethers.parseEther("2");
+
+      await expect(
+        marketplace.connect(bidder1).bid(0, amount, { value: amount })
+      )
+        .to.be.revertedWithCustomError(marketplace, "WrongAuctionKind")
+        .withArgs(0);
+    });
+
+    it("Debería devolver el NFT si nadie compró antes del cierre", async function () {
+      const { marketplace, seller, bidder1 } = await loadFixture(
+        dutchAuctionFixture
+      );
+      await time.increase(DAY);
+      const amount = ethers.parseEther("1");
+
+      await expect(
+        marketplace.connect(bidder1).buyDutch(0, amount, { value: amount })
+      ).to.be.revertedWithCustomError(marketplace, "AuctionEnded");
+
+      await marketplace.settleAuction(0);
+      expect(await marketplace.ownerOf(0)).to.equal(seller.address);
+    });
+  });
+});
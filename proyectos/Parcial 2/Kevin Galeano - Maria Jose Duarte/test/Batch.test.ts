@@ -0,0 +1,311 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import type { ContractTransactionResponse } from "ethers";
+
+const ETH = ethers.ZeroAddress;
+const ROYALTY_BPS = 500n; // 5% para el creador
+const PRICE = ethers.parseEther("1");
+const BENCHMARK_SIZE = 10; // Igual que el lote inicial de la interfaz
+
+const uris = (count: number) =>
+  Array.from({ length: count }, (_, i) => `ipfs://nft/${i + 1}.json`);
+
+// Gas consumido por una transacción ya enviada
+const gasUsed = async (tx: Promise<ContractTransactionResponse>) =>
+  (await (await tx).wait())!.gasUsed;
+
+describe("Operaciones en lote", function () {
+  async function deployBatchFixture() {
+    const [owner, creator, buyer, other] = await ethers.getSigners();
+
+    const Marketplace = await ethers.getContractFactory("Marketplace");
+    const marketplace = await Marketplace.deploy();
+    // Solo los minters pueden mintear
+    await marketplace.grantRole(
+      await marketplace.MINTER_ROLE(),
+      creator.address
+    );
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    const token = await MockERC20.deploy();
+    await marketplace.setPaymentToken(await token.getAddress(), true);
+    await token.mint(buyer.address, ethers.parseEther("100"));
+    await token
+      .connect(buyer)
+      .approve(await marketplace.getAddress(), ethers.MaxUint256);
+
+    return { marketplace, token, owner, creator, buyer, other };
+  }
+
+  // Además, el creador lista los NFTs #0 a #2 en ETH
+  async function deployListedFixture() {
+    const fixture = await deployBatchFixture();
+    await fixture.marketplace
+      .connect(fixture.creator)
+      .batchMintAndList(uris(3), [PRICE, PRICE, PRICE], ETH, ROYALTY_BPS, true);
+    return fixture;
+  }
+
+  describe("batchMintAndList", function () {
+    it("Debería mintear y listar todo el lote en una transacción", async function () {
+      const { marketplace, creator } = await loadFixture(deployBatchFixture);
+      const prices = [PRICE, PRICE * 2n, PRICE * 3n];
+
+      const tx = marketplace
+        .connect(creator)
+        .batchMintAndList(uris(3), prices, ETH, ROYALTY_BPS, true);
+
+      for (let tokenId = 0; tokenId < 3; tokenId++) {
+        await expect(tx)
+          .to.emit(marketplace, "ItemListed")
+          .withArgs(tokenId, creator.address, prices[tokenId], ETH);
+      }
+      expect(await marketplace.tokenCounter()).to.equal(3);
+      expect(await marketplace.tokenURI(2)).to.equal("ipfs://nft/3.json");
+      expect(await marketplace.ownerOf(1)).to.equal(creator.address);
+      const [receiver] = await marketplace.royaltyInfo(1, PRICE);
+      expect(receiver).to.equal(creator.address);
+    });
+
+    it("Debería revertir el lote atómico con un precio inválido", async function () {
+      const { marketplace, creator } = await loadFixture(deployBatchFixture);
+
+      await expect(
+        marketplace
+          .connect(creator)
+          .batchMintAndList(uris(3), [PRICE, 0, PRICE], ETH, ROYALTY_BPS, true)
+      ).to.be.revertedWithCustomError(marketplace, "InvalidPrice");
+      expect(await marketplace.tokenCounter()).to.equal(0);
+    });
+
+    it("Debería saltear los precios inválidos en modo parcial", async function () {
+      const { marketplace, creator } = await loadFixture(deployBatchFixture);
+
+      const tx = marketplace
+        .connect(creator)
+        .batchMintAndList(uris(3), [PRICE, 0, PRICE], ETH, ROYALTY_BPS, false);
+
+      await expect(tx)
+        .to.emit(marketplace, "BatchItemSkipped")
+        .withArgs(1, marketplace.interface.getError("InvalidPrice")!.selector);
+      expect(await marketplace.tokenCounter()).to.equal(2);
+      // El NFT #1 es el tercero del lote
+      expect(await marketplace.tokenURI(1)).to.equal("ipfs://nft/3.json");
+    });
+
+    it("Debería rechazar lotes vacíos, demasiado grandes o desparejos", async function () {
+      const { marketplace, creator } = await loadFixture(deployBatchFixture);
+      const maxBatchSize = Number(await marketplace.MAX_BATCH_SIZE());
+      const tooMany = maxBatchSize + 1;
+
+      await expect(
+        marketplace
+          .connect(creator)
+          .batchMintAndList([], [], ETH, ROYALTY_BPS, true)
+      )
+        .to.be.revertedWithCustomError(marketplace, "InvalidBatchSize")
+        .withArgs(0);
+      await expect(
+        marketplace
+          .connect(creator)
+          .batchMintAndList(
+            uris(tooMany),
+            Array(tooMany).fill(PRICE),
+            ETH,
+            ROYALTY_BPS,
+            true
+          )
+      )
+        .to.be.revertedWithCustomError(marketplace, "InvalidBatchSize")
+        .withArgs(tooMany);
+      await expect(
+        marketplace
+          .connect(creator)
+          .batchMintAndList(uris(2), [PRICE], ETH, ROYALTY_BPS, true)
+      )
+        .to.be.revertedWithCustomError(marketplace, "BatchLengthMismatch")
+        .withArgs(2, 1);
+    });
+  });
+
+  describe("batchBuy", function () {
+    it("Debería comprar todo el lote en una transacción", async function () {
+      const { marketplace, buyer } = await loadFixture(deployListedFixture);
+      const total = PRICE * 3n;
+
+      const tx = marketplace
+        .connect(buyer)
+        .batchBuy([0, 1, 2], true, { value: total });
+
+      await expect(tx)
+        .to.emit(marketplace, "ItemSold")
+        .withArgs(2, buyer.address, PRICE);
+      await expect(tx).to.changeEtherBalances(
+        [buyer, marketplace],
+        [-total, total]
+      );
+      for (const tokenId of [0, 1, 2]) {
+        expect(await marketplace.ownerOf(tokenId)).to.equal(buyer.address);
+      }
+    });
+
+    it("Debería cobrar con transferFrom las ventas en ERC20 del lote", async function () {
+      const { marketplace, token, creator, buyer } = await loadFixture(
+        deployListedFixture
+      );
+      await marketplace
+        .connect(creator)
+        .mintAndList(
+          "ipfs://nft/4.json",
+          ethers.parseEther("5"),
+          await token.getAddress(),
+          ROYALTY_BPS
+        );
+
+      await expect(
+        marketplace.connect(buyer).batchBuy([0, 3], true, { value: PRICE })
+      ).to.changeTokenBalances(
+        token,
+        [buyer, marketplace],
+        [-ethers.parseEther("5"), ethers.parseEther("5")]
+      );
+      expect(await marketplace.ownerOf(3)).to.equal(buyer.address);
+    });
+
+    it("Debería revertir el lote atómico si un NFT ya no está a la venta", async function () {
+      const { marketplace, buyer, other } = await loadFixture(
+        deployListedFixture
+      );
+      await marketplace.connect(other).buy(1, { value: PRICE });
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .batchBuy([0, 1, 2], true, { value: PRICE * 3n })
+      )
+        .to.be.revertedWithCustomError(marketplace, "NotListed")
+        .withArgs(1);
+      expect(await marketplace.ownerOf(0)).to.not.equal(buyer.address);
+    });
+
+    it("Debería revertir el lote atómico con un pago incorrecto", async function () {
+      const { marketplace, buyer } = await loadFixture(deployListedFixture);
+
+      await expect(
+        marketplace.connect(buyer).batchBuy([0, 1], true, { value: PRICE })
+      )
+        .to.be.revertedWithCustomError(marketplace, "IncorrectBatchValue")
+        .withArgs(PRICE * 2n, PRICE);
+    });
+
+    it("Debería saltear los NFTs vendidos y dejar el ETH sobrante para retirar", async function () {
+      const { marketplace, buyer, other } = await loadFixture(
+        deployListedFixture
+      );
+      await marketplace.connect(other).buy(1, { value: PRICE });
+
+      const tx = marketplace
+        .connect(buyer)
+        .batchBuy([0, 1, 2], false, { value: PRICE * 3n });
+
+      await expect(tx)
+        .to.emit(marketplace, "BatchItemSkipped")
+        .withArgs(1, marketplace.interface.getError("NotListed")!.selector);
+      expect(await marketplace.ownerOf(0)).to.equal(buyer.address);
+      expect(await marketplace.ownerOf(2)).to.equal(buyer.address);
+      expect(await marketplace.pendingWithdrawals(buyer.address, ETH)).to.equal(
+        PRICE
+      );
+    });
+
+    it("Debería saltear los NFTs que el ETH enviado no alcanza a pagar", async function () {
+      const { marketplace, creator, buyer } = await loadFixture(
+        deployListedFixture
+      );
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .batchBuy([0, 1, 2], false, { value: PRICE * 2n })
+      )
+        .to.emit(marketplace, "BatchItemSkipped")
+        .withArgs(
+          2,
+          marketplace.interface.getError("IncorrectBatchValue")!.selector
+        );
+      expect(await marketplace.ownerOf(1)).to.equal(buyer.address);
+      expect(await marketplace.ownerOf(2)).to.equal(creator.address);
+    });
+  });
+
+  // Compara el gas de un lote contra una transacción por NFT
+  describe("Benchmarks de gas", function () {
+    it(`Debería mintear ${BENCHMARK_SIZE} NFTs con menos gas que el bucle`, async function () {
+      const { marketplace, creator } = await loadFixture(deployBatchFixture);
+      const batchUris = uris(BENCHMARK_SIZE);
+
+      let loopGas = 0n;
+      for (const uri of batchUris) {
+        loopGas += await gasUsed(
+          marketplace.connect(creator).mintAndList(uri, PRICE, ETH, ROYALTY_BPS)
+        );
+      }
+      const batchGas = await gasUsed(
+        marketplace
+          .connect(creator)
+          .batchMintAndList(
+            batchUris,
+            Array(BENCHMARK_SIZE).fill(PRICE),
+            ETH,
+            ROYALTY_BPS,
+            true
+          )
+      );
+
+      console.log(
+        `      mintAndList x${BENCHMARK_SIZE}: ${loopGas} gas, ` +
+          `batchMintAndList: ${batchGas} gas ` +
+          `(${(10000n - (batchGas * 10000n) / loopGas) / 100n}% menos)`
+      );
+      expect(batchGas).to.be.lessThan(loopGas);
+    });
+
+    it(`Debería comprar ${BENCHMARK_SIZE} NFTs con menos gas que el bucle`, async function () {
+      const { marketplace, creator, buyer } = await loadFixture(
+        deployBatchFixture
+      );
+      await marketplace
+        .connect(creator)
+        .batchMintAndList(
+          uris(BENCHMARK_SIZE * 2),
+          Array(BENCHMARK_SIZE * 2).fill(PRICE),
+          ETH,
+          ROYALTY_BPS,
+          true
+        );
+      const tokenIds = Array.from({ length: BENCHMARK_SIZE }, (_, i) => i);
+
+      let loopGas = 0n;
+      for (const tokenId of tokenIds) {
+        loopGas += await gasUsed(
+          marketplace.connect(buyer).buy(tokenId, { value: PRICE })
+        );
+      }
+      const batchGas = await gasUsed(
+        marketplace.connect(buyer).batchBuy(
+          tokenIds.map((tokenId) => tokenId + BENCHMARK_SIZE),
+          true,
+          { value: PRICE * BigInt(BENCHMARK_SIZE) }
+        )
+      );
+
+      console.log(
+        `      buy x${BENCHMARK_SIZE}: ${loopGas} gas, ` +
+          `batchBuy: ${batchGas} gas ` +
+          `(${(10000n - (batchGas * 10000n) / loopGas) / 100n}% menos)`
+      );
+      expect(batchGas).to.be.lessThan(loopGas);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  MARKETPLACE_ERRORS,
+  MARKETPLACE_MESSAGES,
+  decodeMarketplaceError,
+} from "../src/utils/errors";
+
+const ETH = ethers.ZeroAddress;
+const ROYALTY_BPS = 500n; // 5% para el creador
+const PRICE = ethers.parseEther("1");
+const DEPLOY_ERRORS = ["InvalidShortString", "StringTooLong"];
+
+// Devuelve el error con el que revierte la transacción
+async function catchError(tx: Promise<unknown>): Promise<unknown> {
+  try {
+    await tx;
+  } catch (error) {
+    return error;
+  }
+  throw new Error("La transacción no revirtió");
+}
+
+describe("Errores del marketplace", function () {
+  // El creador mintea y lista el NFT #0 en ETH
+  async function deployErrorsFixture() {
+    const [owner, creator, buyer] = await ethers.getSigners();
+
+    const Marketplace = await ethers.getContractFactory("Marketplace");
+    const marketplace = await Marketplace.deploy();
+    // Solo los minters pueden mintear
+    await marketplace.grantRole(
+      await marketplace.MINTER_ROLE(),
+      creator.address
+    );
+
+    await marketplace
+      .connect(creator)
+      .mintAndList("ipfs://nft/0.json", PRICE, ETH, ROYALTY_BPS);
+
+    return { marketplace, owner, creator, buyer };
+  }
+
+  it("Debería conocer cada error del contrato", async function () {
+    const { marketplace } = await loadFixture(deployErrorsFixture);
+
+    marketplace.interface.forEachError((fragment) => {
+      // Los de ShortStrings solo pueden fallar al desplegar (dominio EIP-712)
+      if (DEPLOY_ERRORS.includes(fragment.name)) {
+        return;
+      }
+      expect(
+        MARKETPLACE_ERRORS.getError(fragment.selector)?.format(),
+        fragment.name
+      ).to.equal(fragment.format());
+      expect(MARKETPLACE_MESSAGES, fragment.name).to.have.property(
+        fragment.name
+      );
+    });
+  });
+
+  it("Debería decodificar los errores con sus argumentos", async function () {
+    const { marketplace, buyer } = await loadFixture(deployErrorsFixture);
+
+    const decoded = decodeMarketplaceError(
+      await catchError(marketplace.connect(buyer).buy(0, { value: 1n }))
+    );
+
+    expect(decoded.name).to.equal("IncorrectPrice");
+    expect(decoded.args).to.deep.equal([0n, PRICE, 1n]);
+    expect(decoded.message).to.equal("El NFT #0 cuesta 1.0 ETH.");
+  });
+
+  it("Debería describir las ventas cerradas y los límites de comisión", async function () {
+    const { marketplace, creator, buyer } = await loadFixture(
+      deployErrorsFixture
+    );
+    await marketplace.connect(buyer).buy(0, { value: PRICE });
+
+    expect(
+      decodeMarketplaceError(
+        await catchError(marketplace.connect(creator).cancelListing(0))
+      ).message
+    ).to.equal("El NFT #0 no está a la venta.");
+    expect(
+      decodeMarketplaceError(await catchError(marketplace.setPlatformFee(1001)))
+        .message
+    ).to.equal("La comisión de 10.01% supera el máximo permitido.");
+  });
+
+  it("Debería traducir los errores de AccessControl y Pausable", async function () {
+    const { marketplace, buyer } = await loadFixture(deployErrorsFixture);
+
+    const denied = decodeMarketplaceError(
+      await catchError(marketplace.connect(buyer).pause())
+    );
+    expect(denied.name).to.equal("Error");
+    expect(denied.message).to.equal(
+      "Tu cuenta no tiene el rol necesario para esta acción."
+    );
+
+    await marketplace.pause();
+    expect(
+      decodeMarketplaceError(
+        await catchError(marketplace.connect(buyer).buy(0, { value: PRICE }))
+      ).message
+    ).to.equal("El marketplace está en pausa.");
+  });
+
+  it("Debería usar el mensaje por defecto sin datos del revert", async function () {
+    expect(
+      decodeMarketplaceError(new Error("red caída"), "No se pudo comprar")
+    ).to.deep.equal({
+      name: "Unknown",
+      args: [],
+      message: "No se pudo comprar",
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  loadFixture,
+  mine,
+  takeSnapshot,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { getSnapshotItems, syncMarketplace } from "../src/utils/indexer";
+import type {
+  MarketplaceSnapshot,
+  SnapshotCache,
+  SyncOptions,
+} from "../src/utils/indexer";
+
+const ETH = ethers.ZeroAddress;
+const ROYALTY_BPS = 500n; // 5% para el creador
+const PRICE = ethers.parseEther("1");
+
+// Caché en memoria que, como la de archivos, guarda una copia en JSON
+function memoryCache() {
+  const snapshots = new Map<string, string>();
+  const cache = {
+    async load(key: string) {
+      const json = snapshots.get(key);
+      return json ? (JSON.parse(json) as MarketplaceSnapshot) : null;
+    },
+    async save(key: string, snapshot: MarketplaceSnapshot) {
+      snapshots.set(key, JSON.stringify(snapshot));
+    },
+    // Único snapshot guardado
+    async saved() {
+      const [json] = Array.from(snapshots.values());
+      return JSON.parse(json) as MarketplaceSnapshot;
+    },
+  };
+  return cache satisfies SnapshotCache;
+}
+
+describe("Indexador", function () {
+  // El creador mintea y lista los NFTs #0 y #1 en ETH
+  async function deployIndexerFixture() {
+    const [owner, creator, buyer] = await ethers.getSigners();
+
+    const Marketplace = await ethers.getContractFactory("Marketplace");
+    const marketplace = await Marketplace.deploy();
+    const address = await marketplace.getAddress();
+    const startBlock = await ethers.provider.getBlockNumber();
+    // Solo los minters pueden mintear
+    await marketplace.grantRole(
+      await marketplace.MINTER_ROLE(),
+      creator.address
+    );
+
+    for (const uri of ["ipfs://nft/0.json", "ipfs://nft/1.json"]) {
+      await marketplace
+        .connect(creator)
+        .mintAndList(uri, PRICE, ETH, ROYALTY_BPS);
+    }
+
+    return { marketplace, address, startBlock, owner, creator, buyer };
+  }
+
+  // Sincroniza con un lote por bloque y devuelve cuántos bloques leyó
+  async function sync(
+    address: string,
+    cache: SnapshotCache,
+    options: SyncOptions
+  ) {
+    let blocks = 0;
+    const snapshot = await syncMarketplace(ethers.provider, address, cache, {
+      ...options,
+      batchSize: 1,
+      onProgress: () => blocks++,
+    });
+    return { snapshot, blocks };
+  }
+
+  it("Debería retomar la sincronización desde la caché", async function () {
+    const { marketplace, address, startBlock, creator, buyer } =
+      await loadFixture(deployIndexerFixture);
+    const cache = memoryCache();
+
+    const first = await sync(address, cache, { startBlock, confirmations: 0 });
+    expect(first.blocks).to.equal(
+      (await ethers.provider.getBlockNumber()) - startBlock + 1
+    );
+    expect(first.snapshot.lastBlock).to.equal(
+      await ethers.provider.getBlockNumber()
+    );
+    expect(
+      getSnapshotItems(first.snapshot).map((item) => item.uri)
+    ).to.deep.equal(["ipfs://nft/0.json", "ipfs://nft/1.json"]);
+
+    // Dos bloques nuevos: una compra y un NFT nuevo
+    await marketplace.connect(buyer).buy(0, { value: PRICE });
+    await marketplace
+      .connect(creator)
+      .mintAndList("ipfs://nft/2.json", PRICE, ETH, ROYALTY_BPS);
+
+    const second = await sync(address, cache, { startBlock, confirmations: 0 });
+    expect(second.blocks).to.equal(2);
+    const items = getSnapshotItems(second.snapshot);
+    expect(items).to.have.length(3);
+    expect(items[0]).to.include({
+      isSold: true,
+      isListed: false,
+      buyer: buyer.address,
+      holder: buyer.address,
+    });
+    expect(items[2]).to.include({
+      uri: "ipfs://nft/2.json",
+      owner: creator.address,
+      isListed: true,
+    });
+    expect(await cache.saved()).to.deep.equal(second.snapshot);
+  });
+
+  it("Debería guardar en la caché solo los bloques confirmados", async function () {
+    const { marketplace, address, startBlock, buyer } = await loadFixture(
+      deployIndexerFixture
+    );
+    const cache = memoryCache();
+    await marketplace.connect(buyer).buy(0, { value: PRICE });
+    const latestBlock = await ethers.provider.getBlockNumber();
+
+    // La compra está en el último bloque: se devuelve pero no se guarda
+    const first = await sync(address, cache, { startBlock, confirmations: 2 });
+    expect(first.snapshot.lastBlock).to.equal(latestBlock);
+    expect(first.snapshot.items["0"].isSold).to.equal(true);
+    const saved = await cache.saved();
+    expect(saved.lastBlock).to.equal(latestBlock - 2);
+    expect(saved.items["0"].isSold).to.equal(false);
+
+    // Sin bloques nuevos se vuelven a leer los dos sin confirmar
+    const second = await sync(address, cache, { startBlock, confirmations: 2 });
+    expect(second.blocks).to.equal(2);
+    expect(second.snapshot).to.deep.equal(first.snapshot);
+
+    // Con dos bloques más la compra ya está confirmada
+    await mine(2);
+    await sync(address, cache, { startBlock, confirmations: 2 });
+    expect((await cache.saved()).items["0"].isSold).to.equal(true);
+  });
+
+  it("Debería descartar un evento sin confirmar que un reorg quitó", async function () {
+    const { marketplace, address, startBlock, creator, buyer } =
+      await loadFixture(deployIndexerFixture);
+    const cache = memoryCache();
+    await sync(address, cache, { startBlock, confirmations: 2 });
+
+    const beforeSale = await takeSnapshot();
+    await marketplace.connect(buyer).buy(0, { value: PRICE });
+    const withSale = await sync(address, cache, {
+      startBlock,
+      confirmations: 2,
+    });
+    expect(withSale.snapshot.items["0"].isSold).to.equal(true);
+
+    // El bloque de la compra se reemplaza por otro sin la compra
+    await beforeSale.restore();
+    await mine(1);
+    const afterReorg = await sync(address, cache, {
+      startBlock,
+      confirmations: 2,
+    });
+    expect(afterReorg.snapshot.items["0"]).to.include({
+      isSold: false,
+      isListed: true,
+      holder: creator.address,
+    });
+  });
+
+  it("Debería empezar de cero si la caché está por delante de la cadena", async function () {
+    const { address, startBlock } = await loadFixture(deployIndexerFixture);
+    const cache = memoryCache();
+    const first = await sync(address, cache, { startBlock, confirmations: 0 });
+    const saved = await cache.saved();
+
+    // Una caché de un nodo local que se reinició
+    const key = `31337:${address.toLowerCase()}`;
+    await cache.save(key, { ...saved, lastBlock: saved.lastBlock + 100 });
+    const second = await sync(address, cache, { startBlock, confirmations: 0 });
+    expect(second.blocks).to.equal(first.blocks);
+    expect(second.snapshot).to.deep.equal(first.snapshot);
+  });
+});
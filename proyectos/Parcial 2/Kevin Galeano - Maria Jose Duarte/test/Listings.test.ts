@@ -0,0 +1,211 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+const ETH = ethers.ZeroAddress;
+const ROYALTY_BPS = 500n; // 5% para el creador
+const PRICE = ethers.parseEther("1");
+
+describe("Ventas", function () {
+  // El creador mintea y lista el NFT #0 en ETH
+  async function deployListingsFixture() {
+    const [owner, creator, buyer, other] = await ethers.getSigners();
+
+    const Marketplace = await ethers.getContractFactory("Marketplace");
+    const marketplace = await Marketplace.deploy();
+    // Solo los minters pueden mintear
+    await marketplace.grantRole(
+      await marketplace.MINTER_ROLE(),
+      creator.address
+    );
+
+    await marketplace
+      .connect(creator)
+      .mintAndList("ipfs://nft/0.json", PRICE, ETH, ROYALTY_BPS);
+
+    return { marketplace, owner, creator, buyer, other };
+  }
+
+  describe("Listar", function () {
+    it("Debería dejar a la venta el NFT recién minteado", async function () {
+      const { marketplace, creator } = await loadFixture(deployListingsFixture);
+
+      expect(await marketplace.ownerOf(0)).to.equal(creator.address);
+      expect(await marketplace.getListing(0)).to.deep.equal([
+        creator.address,
+        ethers.ZeroAddress,
+        PRICE,
+        false,
+        ETH,
+      ]);
+    });
+
+    it("Debería permitir revender un NFT comprado", async function () {
+      const { marketplace, buyer, other } = await loadFixture(
+        deployListingsFixture
+      );
+      const resalePrice = ethers.parseEther("2");
+      await marketplace.connect(buyer).buy(0, { value: PRICE });
+
+      await expect(marketplace.connect(buyer).list(0, resalePrice, ETH))
+        .to.emit(marketplace, "ItemListed")
+        .withArgs(0, buyer.address, resalePrice, ETH);
+
+      await marketplace.connect(other).buy(0, { value: resalePrice });
+      expect(await marketplace.ownerOf(0)).to.equal(other.address);
+      const [seller, lastBuyer, price, isSold] = await marketplace.getListing(
+        0
+      );
+      expect(seller).to.equal(buyer.address);
+      expect(lastBuyer).to.equal(other.address);
+      expect(price).to.equal(resalePrice);
+      expect(isSold).to.equal(true);
+    });
+
+    it("Debería rechazar listar un NFT ajeno, ya listado o sin precio", async function () {
+      const { marketplace, creator, other } = await loadFixture(
+        deployListingsFixture
+      );
+
+      await expect(marketplace.connect(other).list(0, PRICE, ETH))
+        .to.be.revertedWithCustomError(marketplace, "NotTokenOwner")
+        .withArgs(0, other.address);
+      await expect(marketplace.connect(creator).list(0, PRICE, ETH))
+        .to.be.revertedWithCustomError(marketplace, "AlreadyListed")
+        .withArgs(0);
+      await expect(
+        marketplace.connect(creator).list(0, 0, ETH)
+      ).to.be.revertedWithCustomError(marketplace, "InvalidPrice");
+    });
+
+    it("Debería rechazar comprar dos veces la misma venta", async function () {
+      const { marketplace, buyer, other } = await loadFixture(
+        deployListingsFixture
+      );
+      await marketplace.connect(buyer).buy(0, { value: PRICE });
+
+      await expect(marketplace.connect(other).buy(0, { value: PRICE }))
+        .to.be.revertedWithCustomError(marketplace, "AlreadySold")
+        .withArgs(0);
+    });
+  });
+
+  describe("Cambiar precio", function () {
+    it("Debería cobrar el precio nuevo", async function () {
+      const { marketplace, creator, buyer } = await loadFixture(
+        deployListingsFixture
+      );
+      const newPrice = ethers.parseEther("3");
+
+      await expect(marketplace.connect(creator).updatePrice(0, newPrice))
+        .to.emit(marketplace, "PriceUpdated")
+        .withArgs(0, newPrice);
+
+      await expect(marketplace.connect(buyer).buy(0, { value: PRICE }))
+        .to.be.revertedWithCustomError(marketplace, "IncorrectPrice")
+        .withArgs(0, newPrice, PRICE);
+      await expect(
+        marketplace.connect(buyer).buy(0, { value: newPrice })
+      ).to.changeEtherBalances([buyer, marketplace], [-newPrice, newPrice]);
+    });
+
+    it("Debería permitir cambiar el precio solo al vendedor", async function () {
+      const { marketplace, creator, other } = await loadFixture(
+        deployListingsFixture
+      );
+
+      await expect(marketplace.connect(other).updatePrice(0, PRICE))
+        .to.be.revertedWithCustomError(marketplace, "NotTokenOwner")
+        .withArgs(0, other.address);
+      await expect(
+        marketplace.connect(creator).updatePrice(0, 0)
+      ).to.be.revertedWithCustomError(marketplace, "InvalidPrice");
+    });
+
+    it("Debería rechazar cambiar el precio de una venta cerrada", async function () {
+      const { marketplace, creator, buyer } = await loadFixture(
+        deployListingsFixture
+      );
+      await marketplace.connect(buyer).buy(0, { value: PRICE });
+
+      await expect(marketplace.connect(creator).updatePrice(0, PRICE))
+        .to.be.revertedWithCustomError(marketplace, "NotListed")
+        .withArgs(0);
+    });
+  });
+
+  describe("Cancelar", function () {
+    it("Debería retirar el NFT de la venta", async function () {
+      const { marketplace, creator, buyer } = await loadFixture(
+        deployListingsFixture
+      );
+
+      await expect(marketplace.connect(creator).cancelListing(0))
+        .to.emit(marketplace, "ListingCanceled")
+        .withArgs(0);
+
+      expect(await marketplace.ownerOf(0)).to.equal(creator.address);
+      await expect(marketplace.connect(buyer).buy(0, { value: PRICE }))
+        .to.be.revertedWithCustomError(marketplace, "NotListed")
+        .withArgs(0);
+      await expect(marketplace.connect(creator).cancelListing(0))
+        .to.be.revertedWithCustomError(marketplace, "NotListed")
+        .withArgs(0);
+
+      // El dueño la puede volver a publicar
+      await marketplace.connect(creator).list(0, PRICE, ETH);
+      await marketplace.connect(buyer).buy(0, { value: PRICE });
+      expect(await marketplace.ownerOf(0)).to.equal(buyer.address);
+    });
+
+    it("Debería permitir cancelar solo al vendedor", async function () {
+      const { marketplace, other } = await loadFixture(deployListingsFixture);
+
+      await expect(marketplace.connect(other).cancelListing(0))
+        .to.be.revertedWithCustomError(marketplace, "NotTokenOwner")
+        .withArgs(0, other.address);
+    });
+  });
+
+  describe("Transferencias", function () {
+    it("Debería invalidar la venta si el NFT se transfiere fuera del marketplace", async function () {
+      const { marketplace, creator, buyer, other } = await loadFixture(
+        deployListingsFixture
+      );
+
+      await expect(
+        marketplace
+          .connect(creator)
+          .transferFrom(creator.address, other.address, 0)
+      )
+        .to.emit(marketplace, "ListingCanceled")
+        .withArgs(0);
+
+      await expect(marketplace.connect(buyer).buy(0, { value: PRICE }))
+        .to.be.revertedWithCustomError(marketplace, "NotListed")
+        .withArgs(0);
+      await expect(marketplace.connect(creator).updatePrice(0, PRICE))
+        .to.be.revertedWithCustomError(marketplace, "NotListed")
+        .withArgs(0);
+
+      // El nuevo dueño puede ponerlo a la venta
+      await marketplace.connect(other).list(0, PRICE, ETH);
+      await marketplace.connect(buyer).buy(0, { value: PRICE });
+      expect(await marketplace.ownerOf(0)).to.equal(buyer.address);
+    });
+
+    it("Debería mantener la venta cerrada al transferir el NFT comprado", async function () {
+      const { marketplace, buyer, other } = await loadFixture(
+        deployListingsFixture
+      );
+      await marketplace.connect(buyer).buy(0, { value: PRICE });
+
+      await expect(
+        marketplace.connect(buyer).transferFrom(buyer.address, other.address, 0)
+      ).to.not.emit(marketplace, "ListingCanceled");
+      const [, lastBuyer, , isSold] = await marketplace.getListing(0);
+      expect(lastBuyer).to.equal(buyer.address);
+      expect(isSold).to.equal(true);
+    });
+  });
+});
@@ -0,0 +1,359 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import type { ContractRunner, TransactionRequest } from "ethers";
+import {
+  readMarketplaceAccess,
+  readPendingWithdrawals,
+} from "../src/utils/account";
+import { decodeMarketplaceError } from "../src/utils/errors";
+import type { PaymentCurrency } from "../src/utils/indexer";
+import { multicall } from "../src/utils/multicall";
+import type { ContractCall } from "../src/utils/multicall";
+
+const ETH = ethers.ZeroAddress;
+const ROYALTY_BPS = 500n; // 5% para el creador
+const PLATFORM_FEE_BPS = 250n; // Comisión por defecto del contrato
+const PRICE = ethers.parseEther("1"); // NFT #0, en ETH
+const TOKEN_PRICE = ethers.parseEther("10"); // NFT #1, en el ERC20
+
+const fee = (price: bigint) => (price * PLATFORM_FEE_BPS) / 10000n;
+
+describe("Multicall", function () {
+  // El creador vende el NFT #0 en ETH y el #1 en un ERC20: tiene saldo por
+  // retirar en las dos monedas
+  async function deployMulticallFixture() {
+    const [owner, creator, buyer] = await ethers.getSigners();
+
+    const Marketplace = await ethers.getContractFactory("Marketplace");
+    const marketplace = await Marketplace.deploy();
+    const marketplaceAddress = await marketplace.getAddress();
+    const Multicall3 = await ethers.getContractFactory("Multicall3");
+    const multicall3 = await Multicall3.deploy();
+    // Solo los minters pueden mintear
+    await marketplace.grantRole(
+      await marketplace.MINTER_ROLE(),
+      creator.address
+    );
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    const token = await MockERC20.deploy();
+    const tokenAddress = await token.getAddress();
+    await marketplace.setPaymentToken(tokenAddress, true);
+    await token.mint(buyer.address, TOKEN_PRICE);
+    await token.connect(buyer).approve(marketplaceAddress, TOKEN_PRICE);
+
+    await marketplace
+      .connect(creator)
+      .mintAndList("ipfs://nft/0.json", PRICE, ETH, ROYALTY_BPS);
+    await marketplace
+      .connect(creator)
+      .mintAndList("ipfs://nft/1.json", TOKEN_PRICE, tokenAddress, ROYALTY_BPS);
+    await marketplace.connect(buyer).buy(0, { value: PRICE });
+    await marketplace.connect(buyer).buy(1);
+
+    // Como las devuelve el indexer: ETH primero y después los ERC20
+    const currencies: PaymentCurrency[] = [
+      { address: ETH, symbol: "ETH", decimals: 18, allowed: true },
+      { address: tokenAddress, symbol: "mDAI", decimals: 18, allowed: true },
+    ];
+
+    return {
+      marketplace,
+      marketplaceAddress,
+      multicall3: await multicall3.getAddress(),
+      tokenAddress,
+      currencies,
+      owner,
+      creator,
+      buyer,
+    };
+  }
+
+  // Provider que cuenta los eth_call que envía
+  function countingRunner() {
+    const runner = {
+      provider: ethers.provider,
+      requests: 0,
+      call(tx: TransactionRequest) {
+        runner.requests++;
+        return ethers.provider.call(tx);
+      },
+    };
+    return runner satisfies ContractRunner;
+  }
+
+  function creatorCalls(
+    fixture: Awaited<ReturnType<typeof deployMulticallFixture>>
+  ): ContractCall[] {
+    const { marketplace, tokenAddress, creator } = fixture;
+    return [
+      { contract: marketplace, method: "ownerOf", args: [0] },
+      {
+        contract: marketplace,
+        method: "pendingWithdrawals",
+        args: [creator.address, tokenAddress],
+      },
+      { contract: marketplace, method: "getListing", args: [1] },
+      { contract: marketplace, method: "platformFeeBps" },
+    ];
+  }
+
+  describe("Lecturas agrupadas", function () {
+    it("Debería devolver lo mismo que las llamadas sueltas en una consulta", async function () {
+      const fixture = await loadFixture(deployMulticallFixture);
+      const { marketplace, multicall3, buyer } = fixture;
+      const runner = countingRunner();
+
+      const results = await multicall(runner, creatorCalls(fixture), {
+        address: multicall3,
+      });
+
+      expect(runner.requests).to.equal(1);
+      const [owner, pending, listing, feeBps] = results.map((result) =>
+        result.success ? result.value : result.error
+      );
+      expect(owner).to.equal(buyer.address);
+      expect(pending).to.equal(TOKEN_PRICE - fee(TOKEN_PRICE));
+      expect(listing).to.deep.equal(await marketplace.getListing(1));
+      expect(feeBps).to.equal(PLATFORM_FEE_BPS);
+    });
+
+    it("Debería repartir las lecturas en lotes", async function () {
+      const fixture = await loadFixture(deployMulticallFixture);
+      const runner = countingRunner();
+
+      const results = await multicall(runner, creatorCalls(fixture), {
+        address: fixture.multicall3,
+        batchSize: 3,
+      });
+
+      expect(runner.requests).to.equal(2);
+      expect(results.every((result) => result.success)).to.equal(true);
+    });
+
+    it("Debería fallar solo las lecturas que revierten", async function () {
+      const { marketplace, multicall3, buyer } = await loadFixture(
+        deployMulticallFixture
+      );
+
+      const [owner, missing] = await multicall(
+        ethers.provider,
+        [
+          { contract: marketplace, method: "ownerOf", args: [1] },
+          { contract: marketplace, method: "ownerOf", args: [99] },
+        ],
+        { address: multicall3 }
+      );
+
+      expect(owner).to.deep.equal({ success: true, value: buyer.address });
+      expect(missing.success).to.equal(false);
+      if (!missing.success) {
+        const decoded = decodeMarketplaceError(missing.error);
+        expect(decoded.name).to.equal("Error");
+        expect(decoded.message).to.equal("ERC721: invalid token ID");
+      }
+    });
+
+    it("Debería hacer una consulta por lectura sin Multicall3", async function () {
+      const fixture = await loadFixture(deployMulticallFixture);
+      const { marketplace, owner, buyer } = fixture;
+      const runner = countingRunner();
+
+      // No hay contrato en la dirección del owner
+      const results = await multicall(
+        runner,
+        [
+          ...creatorCalls(fixture),
+          { contract: marketplace, method: "ownerOf", args: [99] },
+        ],
+        { address: owner.address }
+      );
+
+      // La consulta fallida más una por lectura
+      expect(runner.requests).to.equal(6);
+      expect(results[0]).to.deep.equal({ success: true, value: buyer.address });
+      expect(results[4].success).to.equal(false);
+      if (!results[4].success) {
+        expect(decodeMarketplaceError(results[4].error).message).to.equal(
+          "ERC721: invalid token ID"
+        );
+      }
+    });
+  });
+
+  describe("Permisos de la cuenta", function () {
+    it("Debería leer los roles y la pausa en una consulta", async function () {
+      const { marketplace, marketplaceAddress, multicall3, owner, creator } =
+        await loadFixture(deployMulticallFixture);
+      await marketplace.pause();
+      const runner = countingRunner();
+
+      const access = await readMarketplaceAccess(
+        runner,
+        marketplaceAddress,
+        creator.address,
+        { address: multicall3 }
+      );
+
+      expect(runner.requests).to.equal(1);
+      expect(access).to.deep.equal({
+        roles: { admin: false, minter: true, curator: false, pauser: false },
+        paused: true,
+      });
+      expect(
+        await readMarketplaceAccess(runner, marketplaceAddress, owner.address, {
+          address: multicall3,
+        })
+      ).to.deep.equal({
+        roles: { admin: true, minter: true, curator: true, pauser: true },
+        paused: true,
+      });
+    });
+
+    it("Debería contar una lectura fallida como rol no otorgado", async function () {
+      const { tokenAddress, multicall3, owner } = await loadFixture(
+        deployMulticallFixture
+      );
+      const none = {
+        roles: { admin: false, minter: false, curator: false, pauser: false },
+        paused: false,
+      };
+
+      // El ERC20 no tiene hasRole ni paused: revierten todas las lecturas
+      expect(
+        await readMarketplaceAccess(
+          ethers.provider,
+          tokenAddress,
+          owner.address,
+          { address: multicall3 }
+        )
+      ).to.deep.equal(none);
+      expect(
+        await readMarketplaceAccess(
+          ethers.provider,
+          tokenAddress,
+          owner.address,
+          { address: owner.address }
+        )
+      ).to.deep.equal(none);
+    });
+
+    it("Debería leer lo mismo sin Multicall3", async function () {
+      const { marketplaceAddress, multicall3, owner, creator } =
+        await loadFixture(deployMulticallFixture);
+      const runner = countingRunner();
+
+      const access = await readMarketplaceAccess(
+        runner,
+        marketplaceAddress,
+        creator.address,
+        { address: owner.address }
+      );
+
+      // La consulta fallida más una por rol y otra por la pausa
+      expect(runner.requests).to.equal(6);
+      expect(access).to.deep.equal(
+        await readMarketplaceAccess(
+          ethers.provider,
+          marketplaceAddress,
+          creator.address,
+          { address: multicall3 }
+        )
+      );
+    });
+  });
+
+  describe("Saldos por retirar", function () {
+    it("Debería leer el saldo de cada moneda en una consulta", async function () {
+      const { marketplaceAddress, multicall3, currencies, creator } =
+        await loadFixture(deployMulticallFixture);
+      const runner = countingRunner();
+
+      const pending = await readPendingWithdrawals(
+        runner,
+        marketplaceAddress,
+        creator.address,
+        currencies,
+        { address: multicall3 }
+      );
+
+      expect(runner.requests).to.equal(1);
+      expect(pending).to.deep.equal([
+        {
+          currency: currencies[0],
+          amount: ethers.formatEther(PRICE - fee(PRICE)),
+        },
+        {
+          currency: currencies[1],
+          amount: ethers.formatEther(TOKEN_PRICE - fee(TOKEN_PRICE)),
+        },
+      ]);
+    });
+
+    it("Debería omitir las monedas sin saldo", async function () {
+      const { marketplace, marketplaceAddress, multicall3, currencies, owner } =
+        await loadFixture(deployMulticallFixture);
+      await marketplace.withdraw(ETH);
+
+      expect(
+        await readPendingWithdrawals(
+          ethers.provider,
+          marketplaceAddress,
+          owner.address,
+          currencies,
+          { address: multicall3 }
+        )
+      ).to.deep.equal([
+        {
+          currency: currencies[1],
+          amount: ethers.formatEther(fee(TOKEN_PRICE)),
+        },
+      ]);
+    });
+
+    it("Debería contar un saldo que no se pudo leer como 0", async function () {
+      const { tokenAddress, multicall3, currencies, owner, creator } =
+        await loadFixture(deployMulticallFixture);
+
+      // El ERC20 no tiene pendingWithdrawals: revierten todas las lecturas
+      for (const address of [multicall3, owner.address]) {
+        expect(
+          await readPendingWithdrawals(
+            ethers.provider,
+            tokenAddress,
+            creator.address,
+            currencies,
+            { address }
+          )
+        ).to.deep.equal([]);
+      }
+    });
+
+    it("Debería leer lo mismo sin Multicall3", async function () {
+      const { marketplaceAddress, multicall3, currencies, owner, creator } =
+        await loadFixture(deployMulticallFixture);
+      const runner = countingRunner();
+
+      const pending = await readPendingWithdrawals(
+        runner,
+        marketplaceAddress,
+        creator.address,
+        currencies,
+        { address: owner.address }
+      );
+
+      // La consulta fallida más una por moneda
+      expect(runner.requests).to.equal(3);
+      expect(pending).to.deep.equal(
+        await readPendingWithdrawals(
+          ethers.provider,
+          marketplaceAddress,
+          creator.address,
+          currencies,
+          { address: multicall3 }
+        )
+      );
+    });
+  });
+});
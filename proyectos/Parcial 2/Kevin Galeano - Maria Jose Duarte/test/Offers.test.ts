@@ -0,0 +1,260 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+const DAY = 24 * 60 * 60;
+const ETH = ethers.ZeroAddress;
+const ROYALTY_BPS = 500n; // 5% para el creador
+const PLATFORM_FEE_BPS = 250n; // Comisión por defecto del contrato
+
+describe("Ofertas", function () {
+  // El creador mintea los NFTs #0 y #1; el #0 lo compra el holder, así
+  // las ofertas también llegan a NFTs vendidos que ya no están a la venta
+  async function deployOffersFixture() {
+    const [owner, creator, holder, buyer, other] = await ethers.getSigners();
+
+    const Marketplace = await ethers.getContractFactory("Marketplace");
+    const marketplace = await Marketplace.deploy();
+    // Solo los minters pueden mintear
+    await marketplace.grantRole(
+      await marketplace.MINTER_ROLE(),
+      creator.address
+    );
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    const token = await MockERC20.deploy();
+    await marketplace.setPaymentToken(await token.getAddress(), true);
+    await token.mint(buyer.address, ethers.parseEther("100"));
+    await token
+      .connect(buyer)
+      .approve(await marketplace.getAddress(), ethers.MaxUint256);
+
+    for (const uri of ["ipfs://nft/0.json", "ipfs://nft/1.json"]) {
+      await marketplace
+        .connect(creator)
+        .mintAndList(uri, ethers.parseEther("1"), ETH, ROYALTY_BPS);
+    }
+    await marketplace.connect(holder).buy(0, { value: ethers.parseEther("1") });
+
+    const expiresAt = (await time.latest()) + DAY;
+    return {
+      marketplace,
+      token,
+      owner,
+      creator,
+      holder,
+      buyer,
+      other,
+      expiresAt,
+    };
+  }
+
+  describe("Crear", function () {
+    it("Debería dejar el monto en custodia", async function () {
+      const { marketplace, buyer, expiresAt } = await loadFixture(
+        deployOffersFixture
+      );
+      const amount = ethers.parseEther("2");
+
+      const tx = marketplace
+        .connect(buyer)
+        .makeOffer(0, amount, ETH, expiresAt, { value: amount });
+
+      await expect(tx)
+        .to.emit(marketplace, "OfferCreated")
+        .withArgs(0, buyer.address, 0, false, amount, ETH, expiresAt);
+      await expect(tx).to.changeEtherBalances(
+        [buyer, marketplace],
+        [-amount, amount]
+      );
+
+      const offer = await marketplace.offers(0);
+      expect(offer.active).to.equal(true);
+      expect(await marketplace.offerCounter()).to.equal(1);
+    });
+
+    it("Debería cobrar las ofertas en ERC20 con transferFrom", async function () {
+      const { marketplace, token, buyer, expiresAt } = await loadFixture(
+        deployOffersFixture
+      );
+      const amount = ethers.parseEther("5");
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .makeCollectionOffer(amount, await token.getAddress(), expiresAt)
+      ).to.changeTokenBalances(token, [buyer, marketplace], [-amount, amount]);
+    });
+
+    it("Debería validar monto, moneda, vencimiento y NFT", async function () {
+      const { marketplace, buyer, other, expiresAt } = await loadFixture(
+        deployOffersFixture
+      );
+      const amount = ethers.parseEther("1");
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .makeOffer(0, amount, ETH, expiresAt, { value: amount / 2n })
+      )
+        .to.be.revertedWithCustomError(marketplace, "IncorrectOfferValue")
+        .withArgs(amount, amount / 2n);
+      await expect(
+        marketplace.connect(buyer).makeOffer(0, 0, ETH, expiresAt)
+      ).to.be.revertedWithCustomError(marketplace, "InvalidPrice");
+      await expect(
+        marketplace
+          .connect(buyer)
+          .makeCollectionOffer(amount, other.address, expiresAt)
+      )
+        .to.be.revertedWithCustomError(marketplace, "PaymentTokenNotAllowed")
+        .withArgs(other.address);
+
+      const past = await time.latest();
+      await expect(
+        marketplace
+          .connect(buyer)
+          .makeOffer(0, amount, ETH, past, { value: amount })
+      )
+        .to.be.revertedWithCustomError(marketplace, "InvalidExpiration")
+        .withArgs(past);
+      await expect(
+        marketplace
+          .connect(buyer)
+          .makeOffer(99, amount, ETH, expiresAt, { value: amount })
+      ).to.be.revertedWith("ERC721: invalid token ID");
+    });
+  });
+
+  describe("Aceptar", function () {
+    it("Debería vender un NFT vendido antes y repartir el monto", async function () {
+      const { marketplace, owner, creator, holder, buyer, expiresAt } =
+        await loadFixture(deployOffersFixture);
+      const amount = ethers.parseEther("2");
+      await marketplace
+        .connect(buyer)
+        .makeOffer(0, amount, ETH, expiresAt, { value: amount });
+
+      const pending = (account: { address: string }) =>
+        marketplace.pendingWithdrawals(account.address, ETH);
+      const before = await Promise.all([owner, creator, holder].map(pending));
+
+      await expect(marketplace.connect(holder).acceptOffer(0, 0))
+        .to.emit(marketplace, "OfferAccepted")
+        .withArgs(0, 0, holder.address);
+      expect(await marketplace.ownerOf(0)).to.equal(buyer.address);
+
+      const after = await Promise.all([owner, creator, holder].map(pending));
+      const platformFee = (amount * PLATFORM_FEE_BPS) / 10000n;
+      const royalty = (amount * ROYALTY_BPS) / 10000n;
+      expect(after[0] - before[0]).to.equal(platformFee);
+      expect(after[1] - before[1]).to.equal(royalty);
+      expect(after[2] - before[2]).to.equal(amount - platformFee - royalty);
+
+      await expect(marketplace.connect(buyer).acceptOffer(0, 0))
+        .to.be.revertedWithCustomError(marketplace, "OfferNotActive")
+        .withArgs(0);
+    });
+
+    it("Debería cancelar la venta activa del NFT aceptado", async function () {
+      const { marketplace, creator, buyer, expiresAt } = await loadFixture(
+        deployOffersFixture
+      );
+      const amount = ethers.parseEther("0.5");
+      await marketplace
+        .connect(buyer)
+        .makeOffer(1, amount, ETH, expiresAt, { value: amount });
+
+      await expect(marketplace.connect(creator).acceptOffer(0, 1))
+        .to.emit(marketplace, "ListingCanceled")
+        .withArgs(1);
+      await expect(
+        marketplace.buy(1, { value: ethers.parseEther("1") })
+      ).to.be.revertedWithCustomError(marketplace, "NotListed");
+    });
+
+    it("Debería aceptar una oferta de colección con cualquier NFT", async function () {
+      const { marketplace, creator, holder, buyer, expiresAt } =
+        await loadFixture(deployOffersFixture);
+      const amount = ethers.parseEther("1");
+      await marketplace
+        .connect(buyer)
+        .makeCollectionOffer(amount, ETH, expiresAt, { value: amount });
+
+      // Solo el dueño del NFT que se entrega
+      await expect(marketplace.connect(creator).acceptOffer(0, 0))
+        .to.be.revertedWithCustomError(marketplace, "NotTokenOwner")
+        .withArgs(0, creator.address);
+
+      await marketplace.connect(holder).acceptOffer(0, 0);
+      expect(await marketplace.ownerOf(0)).to.equal(buyer.address);
+      expect((await marketplace.offers(0)).tokenId).to.equal(0);
+    });
+
+    it("Debería rechazar otro NFT o una oferta vencida", async function () {
+      const { marketplace, creator, buyer, expiresAt } = await loadFixture(
+        deployOffersFixture
+      );
+      const amount = ethers.parseEther("1");
+      await marketplace
+        .connect(buyer)
+        .makeOffer(0, amount, ETH, expiresAt, { value: amount });
+
+      await expect(marketplace.connect(creator).acceptOffer(0, 1))
+        .to.be.revertedWithCustomError(marketplace, "OfferTokenMismatch")
+        .withArgs(0, 1);
+
+      await time.increaseTo(expiresAt);
+      await expect(marketplace.connect(creator).acceptOffer(0, 0))
+        .to.be.revertedWithCustomError(marketplace, "OfferExpired")
+        .withArgs(0, expiresAt);
+    });
+  });
+
+  describe("Cancelar", function () {
+    it("Debería devolver el monto por pendingWithdrawals", async function () {
+      const { marketplace, token, buyer, expiresAt } = await loadFixture(
+        deployOffersFixture
+      );
+      const tokenAddress = await token.getAddress();
+      const amount = ethers.parseEther("3");
+      await marketplace
+        .connect(buyer)
+        .makeOffer(0, amount, tokenAddress, expiresAt);
+
+      await expect(marketplace.connect(buyer).cancelOffer(0))
+        .to.emit(marketplace, "OfferCanceled")
+        .withArgs(0);
+      expect(
+        await marketplace.pendingWithdrawals(buyer.address, tokenAddress)
+      ).to.equal(amount);
+      await expect(
+        marketplace.connect(buyer).withdraw(tokenAddress)
+      ).to.changeTokenBalance(token, buyer, amount);
+
+      await expect(marketplace.connect(buyer).cancelOffer(0))
+        .to.be.revertedWithCustomError(marketplace, "OfferNotActive")
+        .withArgs(0);
+    });
+
+    it("Debería dejar que cualquiera libere una oferta vencida", async function () {
+      const { marketplace, buyer, other, expiresAt } = await loadFixture(
+        deployOffersFixture
+      );
+      const amount = ethers.parseEther("1");
+      await marketplace
+        .connect(buyer)
+        .makeCollectionOffer(amount, ETH, expiresAt, { value: amount });
+
+      await expect(marketplace.connect(other).cancelOffer(0))
+        .to.be.revertedWithCustomError(marketplace, "NotOfferMaker")
+        .withArgs(0, other.address);
+
+      await time.increaseTo(expiresAt);
+      await marketplace.connect(other).cancelOffer(0);
+      expect(await marketplace.pendingWithdrawals(buyer.address, ETH)).to.equal(
+        amount
+      );
+    });
+  });
+});
@@ -0,0 +1,368 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  buildOrder,
+  hashOrder,
+  parseOrder,
+  serializeOrder,
+  signOrder,
+  validateOrder,
+} from "../src/utils/orders";
+
+const DAY = 24 * 60 * 60;
+const ETH = ethers.ZeroAddress;
+const ROYALTY_BPS = 500n; // 5% para el creador
+const PLATFORM_FEE_BPS = 250n; // Comisión por defecto del contrato
+
+describe("Órdenes firmadas", function () {
+  // El creador mintea los NFTs #0 y #1; el #0 lo compra el holder, que lo
+  // vende después con órdenes firmadas fuera de la cadena
+  async function deployOrdersFixture() {
+    const [owner, creator, holder, buyer, other] = await ethers.getSigners();
+
+    const Marketplace = await ethers.getContractFactory("Marketplace");
+    const marketplace = await Marketplace.deploy();
+    // Solo los minters pueden mintear
+    await marketplace.grantRole(
+      await marketplace.MINTER_ROLE(),
+      creator.address
+    );
+    const marketplaceAddress = await marketplace.getAddress();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    const token = await MockERC20.deploy();
+    await marketplace.setPaymentToken(await token.getAddress(), true);
+    await token.mint(buyer.address, ethers.parseEther("100"));
+    await token.connect(buyer).approve(marketplaceAddress, ethers.MaxUint256);
+
+    for (const uri of ["ipfs://nft/0.json", "ipfs://nft/1.json"]) {
+      await marketplace
+        .connect(creator)
+        .mintAndList(uri, ethers.parseEther("1"), ETH, ROYALTY_BPS);
+    }
+    await marketplace.connect(holder).buy(0, { value: ethers.parseEther("1") });
+
+    const expiresAt = (await time.latest()) + DAY;
+
+    // Orden del NFT #0 firmada por `signer`, en nombre del holder
+    const sign = async (
+      terms: { tokenId?: number; price?: bigint; currency?: string } = {},
+      signer: HardhatEthersSigner = holder
+    ) => {
+      const order = await buildOrder(ethers.provider, marketplaceAddress, {
+        seller: holder.address,
+        tokenId: terms.tokenId ?? 0,
+        price: terms.price ?? ethers.parseEther("2"),
+        currency: terms.currency,
+        expiresAt,
+      });
+      return signOrder(signer, marketplaceAddress, order);
+    };
+
+    return {
+      marketplace,
+      token,
+      owner,
+      creator,
+      holder,
+      buyer,
+      other,
+      expiresAt,
+      sign,
+    };
+  }
+
+  describe("Completar", function () {
+    it("Debería vender el NFT sin que el vendedor envíe transacciones", async function () {
+      const { marketplace, creator, holder, buyer, sign } = await loadFixture(
+        deployOrdersFixture
+      );
+      const signed = await sign();
+      const { order, signature } = signed;
+      const orderHash = hashOrder(signed);
+      const royalty = (order.price * ROYALTY_BPS) / 10000n;
+      const fee = (order.price * PLATFORM_FEE_BPS) / 10000n;
+
+      const tx = marketplace
+        .connect(buyer)
+        .fillOrder(order, signature, { value: order.price });
+
+      await expect(tx)
+        .to.emit(marketplace, "OrderFilled")
+        .withArgs(
+          orderHash,
+          0,
+          holder.address,
+          buyer.address,
+          order.price,
+          ETH
+        );
+      await expect(tx).to.changeEtherBalances(
+        [buyer, marketplace],
+        [-order.price, order.price]
+      );
+
+      expect(await marketplace.ownerOf(0)).to.equal(buyer.address);
+      expect(await marketplace.closedOrders(orderHash)).to.equal(true);
+      expect(
+        await marketplace.pendingWithdrawals(holder.address, ETH)
+      ).to.equal(order.price - royalty - fee);
+      // El creador ya tenía la venta inicial del NFT #0
+      expect(
+        await marketplace.pendingWithdrawals(creator.address, ETH)
+      ).to.equal(
+        ethers.parseEther("1") -
+          (ethers.parseEther("1") * PLATFORM_FEE_BPS) / 10000n +
+          royalty
+      );
+    });
+
+    it("Debería cobrar las órdenes en ERC20 con transferFrom", async function () {
+      const { marketplace, token, buyer, sign } = await loadFixture(
+        deployOrdersFixture
+      );
+      const price = ethers.parseEther("10");
+      const { order, signature } = await sign({
+        price,
+        currency: await token.getAddress(),
+      });
+
+      await expect(
+        marketplace.connect(buyer).fillOrder(order, signature)
+      ).to.changeTokenBalances(token, [buyer, marketplace], [-price, price]);
+      expect(await marketplace.ownerOf(0)).to.equal(buyer.address);
+    });
+
+    it("Debería cancelar la venta listada del NFT", async function () {
+      const { marketplace, creator, buyer, expiresAt } = await loadFixture(
+        deployOrdersFixture
+      );
+      const marketplaceAddress = await marketplace.getAddress();
+      const order = await buildOrder(ethers.provider, marketplaceAddress, {
+        seller: creator.address,
+        tokenId: 1,
+        price: ethers.parseEther("3"),
+        expiresAt,
+      });
+      const { signature } = await signOrder(creator, marketplaceAddress, order);
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .fillOrder(order, signature, { value: order.price })
+      )
+        .to.emit(marketplace, "ListingCanceled")
+        .withArgs(1);
+    });
+
+    it("Debería rechazar el pago incorrecto", async function () {
+      const { marketplace, buyer, sign } = await loadFixture(
+        deployOrdersFixture
+      );
+      const { order, signature } = await sign();
+
+      await expect(
+        marketplace.connect(buyer).fillOrder(order, signature, { value: 1n })
+      )
+        .to.be.revertedWithCustomError(marketplace, "IncorrectPrice")
+        .withArgs(0, order.price, 1n);
+    });
+  });
+
+  describe("Firma", function () {
+    it("Debería calcular el mismo hash que el contrato", async function () {
+      const { marketplace, sign } = await loadFixture(deployOrdersFixture);
+      const signed = await sign();
+
+      expect(await marketplace.hashOrder(signed.order)).to.equal(
+        hashOrder(signed)
+      );
+    });
+
+    it("Debería rechazar la firma de otra cuenta", async function () {
+      const { marketplace, buyer, other, sign } = await loadFixture(
+        deployOrdersFixture
+      );
+      const { order, signature } = await sign({}, other);
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .fillOrder(order, signature, { value: order.price })
+      ).to.be.revertedWithCustomError(marketplace, "InvalidSignature");
+    });
+
+    it("Debería rechazar una orden con el precio alterado", async function () {
+      const { marketplace, buyer, sign } = await loadFixture(
+        deployOrdersFixture
+      );
+      const { order, signature } = await sign();
+      const tampered = { ...order, price: 1n };
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .fillOrder(tampered, signature, { value: tampered.price })
+      ).to.be.revertedWithCustomError(marketplace, "InvalidSignature");
+    });
+  });
+
+  describe("Validez", function () {
+    it("Debería rechazar una orden vencida", async function () {
+      const { marketplace, buyer, expiresAt, sign } = await loadFixture(
+        deployOrdersFixture
+      );
+      const signed = await sign();
+      await time.increaseTo(expiresAt);
+
+      await expect(
+        marketplace.connect(buyer).fillOrder(signed.order, signed.signature, {
+          value: signed.order.price,
+        })
+      )
+        .to.be.revertedWithCustomError(marketplace, "OrderExpired")
+        .withArgs(hashOrder(signed), expiresAt);
+    });
+
+    it("Debería rechazar completar dos veces la misma orden", async function () {
+      const { marketplace, holder, buyer, sign } = await loadFixture(
+        deployOrdersFixture
+      );
+      const signed = await sign();
+      const { order, signature } = signed;
+      await marketplace
+        .connect(buyer)
+        .fillOrder(order, signature, { value: order.price });
+      // El vendedor recupera el NFT, la orden vieja no debe volver a servir
+      await marketplace
+        .connect(buyer)
+        .transferFrom(buyer.address, holder.address, 0);
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .fillOrder(order, signature, { value: order.price })
+      )
+        .to.be.revertedWithCustomError(marketplace, "OrderClosed")
+        .withArgs(hashOrder(signed));
+    });
+
+    it("Debería rechazar la orden si el vendedor ya no tiene el NFT", async function () {
+      const { marketplace, holder, buyer, other, sign } = await loadFixture(
+        deployOrdersFixture
+      );
+      const { order, signature } = await sign();
+      await marketplace
+        .connect(holder)
+        .transferFrom(holder.address, other.address, 0);
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .fillOrder(order, signature, { value: order.price })
+      )
+        .to.be.revertedWithCustomError(marketplace, "NotTokenOwner")
+        .withArgs(0, holder.address);
+    });
+  });
+
+  describe("Cancelar", function () {
+    it("Debería invalidar una orden cancelada por el vendedor", async function () {
+      const { marketplace, holder, buyer, sign } = await loadFixture(
+        deployOrdersFixture
+      );
+      const signed = await sign();
+      const orderHash = hashOrder(signed);
+
+      await expect(marketplace.connect(holder).cancelOrder(signed.order))
+        .to.emit(marketplace, "OrderCanceled")
+        .withArgs(orderHash);
+      await expect(
+        marketplace.connect(buyer).fillOrder(signed.order, signed.signature, {
+          value: signed.order.price,
+        })
+      )
+        .to.be.revertedWithCustomError(marketplace, "OrderClosed")
+        .withArgs(orderHash);
+    });
+
+    it("Debería permitir cancelar solo al vendedor", async function () {
+      const { marketplace, other, sign } = await loadFixture(
+        deployOrdersFixture
+      );
+      const signed = await sign();
+
+      await expect(marketplace.connect(other).cancelOrder(signed.order))
+        .to.be.revertedWithCustomError(marketplace, "NotOrderSeller")
+        .withArgs(hashOrder(signed), other.address);
+    });
+
+    it("Debería invalidar todas las órdenes al subir el contador", async function () {
+      const { marketplace, holder, buyer, sign } = await loadFixture(
+        deployOrdersFixture
+      );
+      const first = await sign();
+      const second = await sign({ price: ethers.parseEther("5") });
+
+      await expect(marketplace.connect(holder).incrementOrderCounter())
+        .to.emit(marketplace, "OrderCounterIncremented")
+        .withArgs(holder.address, 1);
+
+      for (const { order, signature } of [first, second]) {
+        await expect(
+          marketplace
+            .connect(buyer)
+            .fillOrder(order, signature, { value: order.price })
+        ).to.be.revertedWithCustomError(marketplace, "OrderClosed");
+      }
+
+      // Las órdenes firmadas después usan el contador nuevo
+      const fresh = await sign();
+      expect(fresh.order.counter).to.equal(1);
+      await marketplace
+        .connect(buyer)
+        .fillOrder(fresh.order, fresh.signature, { value: fresh.order.price });
+      expect(await marketplace.ownerOf(0)).to.equal(buyer.address);
+    });
+  });
+
+  describe("Utilidades", function () {
+    it("Debería recuperar la misma orden desde JSON", async function () {
+      const { sign } = await loadFixture(deployOrdersFixture);
+      const signed = await sign();
+
+      const parsed = parseOrder(serializeOrder(signed));
+
+      expect(parsed).to.deep.equal(signed);
+      expect(hashOrder(parsed)).to.equal(hashOrder(signed));
+    });
+
+    it("Debería informar el estado de la orden sin enviar transacciones", async function () {
+      const { marketplace, holder, other, sign } = await loadFixture(
+        deployOrdersFixture
+      );
+      const signed = await sign();
+      const forged = await sign({}, other);
+
+      expect(await validateOrder(ethers.provider, signed)).to.equal("valid");
+      expect(await validateOrder(ethers.provider, forged)).to.equal(
+        "invalid-signature"
+      );
+
+      await marketplace
+        .connect(holder)
+        .transferFrom(holder.address, other.address, 0);
+      expect(await validateOrder(ethers.provider, signed)).to.equal(
+        "not-owner"
+      );
+
+      await marketplace.connect(holder).cancelOrder(signed.order);
+      expect(await validateOrder(ethers.provider, signed)).to.equal("closed");
+
+      await time.increaseTo(signed.order.expiresAt);
+      expect(await validateOrder(ethers.provider, signed)).to.equal("expired");
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+const ETH = ethers.ZeroAddress;
+const ROYALTY_BPS = 500n; // 5% para el creador
+const PLATFORM_FEE_BPS = 250n; // Comisión por defecto del contrato
+const PRICE = ethers.parseEther("1"); // NFT #1, en ETH
+const TOKEN_PRICE = ethers.parseEther("10"); // NFT #0, en el ERC20
+
+const fee = (price: bigint) => (price * PLATFORM_FEE_BPS) / 10000n;
+
+describe("Pagos en ERC20", function () {
+  // El creador lista el NFT #0 en un ERC20 habilitado y el #1 en ETH. El
+  // comprador tiene tokens pero todavía no aprobó al marketplace
+  async function deployPaymentsFixture() {
+    const [owner, creator, buyer] = await ethers.getSigners();
+
+    const Marketplace = await ethers.getContractFactory("Marketplace");
+    const marketplace = await Marketplace.deploy();
+    // Solo los minters pueden mintear
+    await marketplace.grantRole(
+      await marketplace.MINTER_ROLE(),
+      creator.address
+    );
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    const token = await MockERC20.deploy();
+    const tokenAddress = await token.getAddress();
+    await marketplace.setPaymentToken(tokenAddress, true);
+    await token.mint(buyer.address, ethers.parseEther("100"));
+
+    await marketplace
+      .connect(creator)
+      .mintAndList("ipfs://nft/0.json", TOKEN_PRICE, tokenAddress, ROYALTY_BPS);
+    await marketplace
+      .connect(creator)
+      .mintAndList("ipfs://nft/1.json", PRICE, ETH, ROYALTY_BPS);
+
+    return {
+      marketplace,
+      token,
+      tokenAddress,
+      owner,
+      creator,
+      buyer,
+    };
+  }
+
+  describe("Monedas aceptadas", function () {
+    it("Debería permitir habilitar y quitar solo ERC20", async function () {
+      const { marketplace, tokenAddress } = await loadFixture(
+        deployPaymentsFixture
+      );
+
+      await expect(marketplace.setPaymentToken(tokenAddress, false))
+        .to.emit(marketplace, "PaymentTokenUpdated")
+        .withArgs(tokenAddress, false);
+      expect(await marketplace.allowedPaymentTokens(tokenAddress)).to.equal(
+        false
+      );
+      await expect(marketplace.setPaymentToken(ETH, true))
+        .to.be.revertedWithCustomError(marketplace, "PaymentTokenNotAllowed")
+        .withArgs(ETH);
+    });
+
+    it("Debería rechazar ventas en una moneda no habilitada", async function () {
+      const { marketplace, creator, buyer } = await loadFixture(
+        deployPaymentsFixture
+      );
+      const MockERC20 = await ethers.getContractFactory("MockERC20");
+      const unlisted = await (await MockERC20.deploy()).getAddress();
+
+      await expect(
+        marketplace
+          .connect(creator)
+          .mintAndList("ipfs://nft/2.json", PRICE, unlisted, ROYALTY_BPS)
+      )
+        .to.be.revertedWithCustomError(marketplace, "PaymentTokenNotAllowed")
+        .withArgs(unlisted);
+
+      await marketplace.connect(buyer).buy(1, { value: PRICE });
+      await expect(marketplace.connect(buyer).list(1, PRICE, unlisted))
+        .to.be.revertedWithCustomError(marketplace, "PaymentTokenNotAllowed")
+        .withArgs(unlisted);
+    });
+
+    it("Debería mantener las ventas publicadas en una moneda que se quita", async function () {
+      const { marketplace, token, tokenAddress, creator, buyer } =
+        await loadFixture(deployPaymentsFixture);
+      await marketplace.setPaymentToken(tokenAddress, false);
+
+      await expect(
+        marketplace
+          .connect(creator)
+          .mintAndList(
+            "ipfs://nft/2.json",
+            TOKEN_PRICE,
+            tokenAddress,
+            ROYALTY_BPS
+          )
+      ).to.be.revertedWithCustomError(marketplace, "PaymentTokenNotAllowed");
+
+      await token
+        .connect(buyer)
+        .approve(await marketplace.getAddress(), TOKEN_PRICE);
+      await marketplace.connect(buyer).buy(0);
+      expect(await marketplace.ownerOf(0)).to.equal(buyer.address);
+    });
+  });
+
+  describe("Compra a precio fijo", function () {
+    it("Debería cobrar el precio con transferFrom después de aprobarlo", async function () {
+      const { marketplace, token, buyer } = await loadFixture(
+        deployPaymentsFixture
+      );
+      const marketplaceAddress = await marketplace.getAddress();
+
+      // Igual que purchaseNFT: primero se aprueba el precio y después se compra
+      await token.connect(buyer).approve(marketplaceAddress, TOKEN_PRICE);
+      const tx = marketplace.connect(buyer).buy(0);
+
+      await expect(tx)
+        .to.emit(marketplace, "ItemSold")
+        .withArgs(0, buyer.address, TOKEN_PRICE);
+      await expect(tx).to.changeTokenBalances(
+        token,
+        [buyer, marketplace],
+        [-TOKEN_PRICE, TOKEN_PRICE]
+      );
+
+      expect(await marketplace.ownerOf(0)).to.equal(buyer.address);
+      expect(await token.allowance(buyer.address, marketplaceAddress)).to.equal(
+        0
+      );
+    });
+
+    it("Debería revertir si el comprador no aprobó el precio", async function () {
+      const { marketplace, token, buyer } = await loadFixture(
+        deployPaymentsFixture
+      );
+
+      await expect(marketplace.connect(buyer).buy(0)).to.be.revertedWith(
+        "ERC20: insufficient allowance"
+      );
+
+      await token
+        .connect(buyer)
+        .approve(await marketplace.getAddress(), TOKEN_PRICE - 1n);
+      await expect(marketplace.connect(buyer).buy(0)).to.be.revertedWith(
+        "ERC20: insufficient allowance"
+      );
+    });
+
+    it("Debería rechazar ETH en una venta en ERC20", async function () {
+      const { marketplace, token, buyer } = await loadFixture(
+        deployPaymentsFixture
+      );
+      await token
+        .connect(buyer)
+        .approve(await marketplace.getAddress(), TOKEN_PRICE);
+
+      await expect(marketplace.connect(buyer).buy(0, { value: TOKEN_PRICE }))
+        .to.be.revertedWithCustomError(marketplace, "IncorrectPrice")
+        .withArgs(0, 0, TOKEN_PRICE);
+      // Y una venta en ETH no se paga sin ETH
+      await expect(marketplace.connect(buyer).buy(1))
+        .to.be.revertedWithCustomError(marketplace, "IncorrectPrice")
+        .withArgs(1, PRICE, 0);
+    });
+  });
+
+  describe("Saldos por moneda", function () {
+    it("Debería acumular y retirar el saldo de cada moneda por separado", async function () {
+      const { marketplace, token, tokenAddress, owner, creator, buyer } =
+        await loadFixture(deployPaymentsFixture);
+      await token
+        .connect(buyer)
+        .approve(await marketplace.getAddress(), TOKEN_PRICE);
+      await marketplace.connect(buyer).buy(0);
+      await marketplace.connect(buyer).buy(1, { value: PRICE });
+
+      // El creador es también el vendedor: cobra el precio menos la comisión
+      expect(
+        await marketplace.pendingWithdrawals(creator.address, tokenAddress)
+      ).to.equal(TOKEN_PRICE - fee(TOKEN_PRICE));
+      expect(
+        await marketplace.pendingWithdrawals(creator.address, ETH)
+      ).to.equal(PRICE - fee(PRICE));
+      expect(
+        await marketplace.pendingWithdrawals(owner.address, tokenAddress)
+      ).to.equal(fee(TOKEN_PRICE));
+      expect(await marketplace.pendingWithdrawals(owner.address, ETH)).to.equal(
+        fee(PRICE)
+      );
+
+      // Retirar en el token no toca el saldo en ETH
+      await expect(
+        marketplace.connect(creator).withdraw(tokenAddress)
+      ).to.changeTokenBalance(token, creator, TOKEN_PRICE - fee(TOKEN_PRICE));
+      expect(
+        await marketplace.pendingWithdrawals(creator.address, tokenAddress)
+      ).to.equal(0);
+      expect(
+        await marketplace.pendingWithdrawals(creator.address, ETH)
+      ).to.equal(PRICE - fee(PRICE));
+      await expect(marketplace.connect(creator).withdraw(tokenAddress))
+        .to.be.revertedWithCustomError(marketplace, "NoFundsToWithdraw")
+        .withArgs(creator.address);
+
+      await expect(
+        marketplace.connect(creator).withdraw(ETH)
+      ).to.changeEtherBalance(creator, PRICE - fee(PRICE));
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { signVoucher } from "../src/utils/vouchers";
+
+const ETH = ethers.ZeroAddress;
+const ROYALTY_BPS = 500n; // 5% para el creador
+const PRICE = ethers.parseEther("1");
+const PLATFORM_FEE_BPS = 250n; // Comisión por defecto del contrato
+
+// Motivo del revert de AccessControl cuando falta un rol
+const missingRole = (account: string, role: string) =>
+  `AccessControl: account ${account.toLowerCase()} is missing role ${role}`;
+
+describe("Roles y curación", function () {
+  // El owner despliega y recibe todos los roles; cada otra cuenta tiene uno
+  // solo. El minter lista los NFTs #0 y #1 en ETH
+  async function deployRolesFixture() {
+    const [owner, minter, curator, pauser, buyer, other] =
+      await ethers.getSigners();
+
+    const Marketplace = await ethers.getContractFactory("Marketplace");
+    const marketplace = await Marketplace.deploy();
+
+    const roles = {
+      admin: await marketplace.DEFAULT_ADMIN_ROLE(),
+      minter: await marketplace.MINTER_ROLE(),
+      curator: await marketplace.CURATOR_ROLE(),
+      pauser: await marketplace.PAUSER_ROLE(),
+    };
+    await marketplace.grantRole(roles.minter, minter.address);
+    await marketplace.grantRole(roles.curator, curator.address);
+    await marketplace.grantRole(roles.pauser, pauser.address);
+
+    for (const uri of ["ipfs://nft/0.json", "ipfs://nft/1.json"]) {
+      await marketplace
+        .connect(minter)
+        .mintAndList(uri, PRICE, ETH, ROYALTY_BPS);
+    }
+
+    return {
+      marketplace,
+      roles,
+      owner,
+      minter,
+      curator,
+      pauser,
+      buyer,
+      other,
+    };
+  }
+
+  describe("Administrador", function () {
+    it("Debería darle todos los roles a quien despliega", async function () {
+      const { marketplace, roles, owner } = await loadFixture(
+        deployRolesFixture
+      );
+
+      for (const role of Object.values(roles)) {
+        expect(await marketplace.hasRole(role, owner.address)).to.equal(true);
+      }
+      expect(await marketplace.feeRecipient()).to.equal(owner.address);
+    });
+
+    it("Debería permitir administrar roles y comisión solo al admin", async function () {
+      const { marketplace, roles, curator, other } = await loadFixture(
+        deployRolesFixture
+      );
+
+      await expect(
+        marketplace.connect(curator).grantRole(roles.minter, other.address)
+      ).to.be.revertedWith(missingRole(curator.address, roles.admin));
+      await expect(
+        marketplace.connect(curator).setPlatformFee(100)
+      ).to.be.revertedWith(missingRole(curator.address, roles.admin));
+      await expect(
+        marketplace.connect(curator).setFeeRecipient(curator.address)
+      ).to.be.revertedWith(missingRole(curator.address, roles.admin));
+    });
+
+    it("Debería acreditar la comisión a la nueva cuenta receptora", async function () {
+      const { marketplace, owner, buyer, other } = await loadFixture(
+        deployRolesFixture
+      );
+
+      await expect(marketplace.setFeeRecipient(other.address))
+        .to.emit(marketplace, "FeeRecipientUpdated")
+        .withArgs(other.address);
+      await marketplace.connect(buyer).buy(0, { value: PRICE });
+
+      expect(await marketplace.pendingWithdrawals(other.address, ETH)).to.equal(
+        (PRICE * PLATFORM_FEE_BPS) / 10000n
+      );
+      expect(await marketplace.pendingWithdrawals(owner.address, ETH)).to.equal(
+        0
+      );
+      await expect(
+        marketplace.setFeeRecipient(ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(marketplace, "InvalidFeeRecipient");
+    });
+  });
+
+  describe("Minter", function () {
+    it("Debería rechazar mintear sin el rol de minter", async function () {
+      const { marketplace, roles, other } = await loadFixture(
+        deployRolesFixture
+      );
+
+      await expect(
+        marketplace
+          .connect(other)
+          .mintAndList("ipfs://nft/2.json", PRICE, ETH, ROYALTY_BPS)
+      ).to.be.revertedWith(missingRole(other.address, roles.minter));
+      await expect(
+        marketplace
+          .connect(other)
+          .batchMintAndList(["ipfs://nft/2.json"], [PRICE], ETH, 0, true)
+      ).to.be.revertedWith(missingRole(other.address, roles.minter));
+    });
+
+    it("Debería rechazar los vouchers de un creador sin el rol de minter", async function () {
+      const { marketplace, roles, minter, buyer } = await loadFixture(
+        deployRolesFixture
+      );
+      const { voucher, signature } = await signVoucher(
+        minter,
+        await marketplace.getAddress(),
+        {
+          creator: minter.address,
+          uri: "ipfs://nft/2.json",
+          price: PRICE,
+          currency: ETH,
+          royaltyBps: ROYALTY_BPS,
+          deadline: BigInt((await time.latest()) + 3600),
+        }
+      );
+      await marketplace.revokeRole(roles.minter, minter.address);
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .redeemVoucher(voucher, signature, { value: PRICE })
+      ).to.be.revertedWith(missingRole(minter.address, roles.minter));
+    });
+  });
+
+  describe("Curador", function () {
+    it("Debería permitir curar solo al curador", async function () {
+      const { marketplace, roles, minter } = await loadFixture(
+        deployRolesFixture
+      );
+
+      await expect(
+        marketplace.connect(minter).setTokensHidden([0], true)
+      ).to.be.revertedWith(missingRole(minter.address, roles.curator));
+      await expect(
+        marketplace.connect(minter).setPaymentToken(minter.address, true)
+      ).to.be.revertedWith(missingRole(minter.address, roles.curator));
+    });
+
+    it("Debería impedir comprar un NFT oculto hasta que se vuelva a mostrar", async function () {
+      const { marketplace, curator, buyer } = await loadFixture(
+        deployRolesFixture
+      );
+
+      await expect(marketplace.connect(curator).setTokensHidden([0], true))
+        .to.emit(marketplace, "TokenHiddenUpdated")
+        .withArgs(0, true);
+      await expect(marketplace.connect(buyer).buy(0, { value: PRICE }))
+        .to.be.revertedWithCustomError(marketplace, "TokenHidden")
+        .withArgs(0);
+
+      await marketplace.connect(curator).setTokensHidden([0], false);
+      await marketplace.connect(buyer).buy(0, { value: PRICE });
+      expect(await marketplace.ownerOf(0)).to.equal(buyer.address);
+    });
+
+    it("Debería impedir ventas, subastas y ofertas nuevas de un NFT oculto", async function () {
+      const { marketplace, minter, curator, buyer } = await loadFixture(
+        deployRolesFixture
+      );
+      await marketplace.connect(minter).cancelListing(0);
+      await marketplace.connect(curator).setTokensHidden([0], true);
+
+      await expect(
+        marketplace.connect(minter).list(0, PRICE, ETH)
+      ).to.be.revertedWithCustomError(marketplace, "TokenHidden");
+      await expect(
+        marketplace.connect(minter).createEnglishAuction(0, PRICE, ETH, 3600)
+      ).to.be.revertedWithCustomError(marketplace, "TokenHidden");
+      await expect(
+        marketplace
+          .connect(buyer)
+          .makeOffer(0, PRICE, ETH, (await time.latest()) + 3600, {
+            value: PRICE,
+          })
+      ).to.be.revertedWithCustomError(marketplace, "TokenHidden");
+    });
+
+    it("Debería saltear los NFTs ocultos en una compra en lote", async function () {
+      const { marketplace, minter, curator, buyer } = await loadFixture(
+        deployRolesFixture
+      );
+      await marketplace.connect(curator).setTokensHidden([1], true);
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .batchBuy([0, 1], false, { value: PRICE * 2n })
+      )
+        .to.emit(marketplace, "BatchItemSkipped")
+        .withArgs(1, marketplace.interface.getError("TokenHidden")!.selector);
+      expect(await marketplace.ownerOf(1)).to.equal(minter.address);
+      expect(await marketplace.pendingWithdrawals(buyer.address, ETH)).to.equal(
+        PRICE
+      );
+    });
+
+    it("Debería permitir retirar de la venta un NFT oculto", async function () {
+      const { marketplace, minter, curator } = await loadFixture(
+        deployRolesFixture
+      );
+      await marketplace.connect(curator).setTokensHidden([0], true);
+
+      await expect(marketplace.connect(minter).cancelListing(0))
+        .to.emit(marketplace, "ListingCanceled")
+        .withArgs(0);
+    });
+
+    it("Debería rechazar ocultar un NFT que no existe", async function () {
+      const { marketplace, curator } = await loadFixture(deployRolesFixture);
+
+      await expect(
+        marketplace.connect(curator).setTokensHidden([99], true)
+      ).to.be.revertedWith("ERC721: invalid token ID");
+    });
+  });
+
+  describe("Pausa", function () {
+    it("Debería permitir pausar solo al pauser", async function () {
+      const { marketplace, roles, curator } = await loadFixture(
+        deployRolesFixture
+      );
+
+      await expect(marketplace.connect(curator).pause()).to.be.revertedWith(
+        missingRole(curator.address, roles.pauser)
+      );
+    });
+
+    it("Debería frenar minteos y compras mientras está en pausa", async function () {
+      const { marketplace, minter, pauser, buyer } = await loadFixture(
+        deployRolesFixture
+      );
+
+      await expect(marketplace.connect(pauser).pause())
+        .to.emit(marketplace, "Paused")
+        .withArgs(pauser.address);
+      await expect(
+        marketplace
+          .connect(minter)
+          .mintAndList("ipfs://nft/2.json", PRICE, ETH, ROYALTY_BPS)
+      ).to.be.revertedWith("Pausable: paused");
+      await expect(
+        marketplace.connect(buyer).buy(0, { value: PRICE })
+      ).to.be.revertedWith("Pausable: paused");
+      await expect(
+        marketplace.connect(buyer).batchBuy([0], true, { value: PRICE })
+      ).to.be.revertedWith("Pausable: paused");
+
+      await marketplace.connect(pauser).unpause();
+      await marketplace.connect(buyer).buy(0, { value: PRICE });
+      expect(await marketplace.ownerOf(0)).to.equal(buyer.address);
+    });
+
+    it("Debería permitir cancelar y retirar fondos en pausa", async function () {
+      const { marketplace, minter, pauser, buyer } = await loadFixture(
+        deployRolesFixture
+      );
+      await marketplace.connect(buyer).buy(0, { value: PRICE });
+      await marketplace.connect(pauser).pause();
+
+      await expect(marketplace.connect(minter).cancelListing(1))
+        .to.emit(marketplace, "ListingCanceled")
+        .withArgs(1);
+      await expect(
+        marketplace.connect(minter).withdraw(ETH)
+      ).to.changeEtherBalance(
+        minter,
+        // Vendedor y creador: cobra el precio menos la comisión
+        PRICE - (PRICE * PLATFORM_FEE_BPS) / 10000n
+      );
+    });
+  });
+});
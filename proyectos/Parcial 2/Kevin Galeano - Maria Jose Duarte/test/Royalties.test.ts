@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+
+const ETH = ethers.ZeroAddress;
+const ROYALTY_BPS = 500n; // 5% para el creador
+const PLATFORM_FEE_BPS = 250n; // Comisión por defecto del contrato
+const PRICE = ethers.parseEther("1");
+const RESALE_PRICE = ethers.parseEther("4");
+const ERC2981_INTERFACE_ID = "0x2a55205a";
+
+const bps = (price: bigint, feeBps: bigint) => (price * feeBps) / 10000n;
+
+describe("Regalías y comisión", function () {
+  // El creador mintea el NFT #0, el coleccionista lo compra y lo vuelve a
+  // poner a la venta: en la reventa vendedor, creador y plataforma son
+  // cuentas distintas
+  async function deployResaleFixture() {
+    const [owner, creator, collector, buyer] = await ethers.getSigners();
+
+    const Marketplace = await ethers.getContractFactory("Marketplace");
+    const marketplace = await Marketplace.deploy();
+    // Solo los minters pueden mintear
+    await marketplace.grantRole(
+      await marketplace.MINTER_ROLE(),
+      creator.address
+    );
+
+    await marketplace
+      .connect(creator)
+      .mintAndList("ipfs://nft/0.json", PRICE, ETH, ROYALTY_BPS);
+    await marketplace.connect(collector).buy(0, { value: PRICE });
+    await marketplace.connect(collector).list(0, RESALE_PRICE, ETH);
+
+    return { marketplace, owner, creator, collector, buyer };
+  }
+
+  describe("Regalías", function () {
+    it("Debería registrar la regalía del creador al mintear", async function () {
+      const { marketplace, creator } = await loadFixture(deployResaleFixture);
+
+      expect(
+        await marketplace.supportsInterface(ERC2981_INTERFACE_ID)
+      ).to.equal(true);
+      const [receiver, royalty] = await marketplace.royaltyInfo(
+        0,
+        RESALE_PRICE
+      );
+      expect(receiver).to.equal(creator.address);
+      expect(royalty).to.equal(bps(RESALE_PRICE, ROYALTY_BPS));
+    });
+
+    it("Debería rechazar una regalía mayor al máximo", async function () {
+      const { marketplace, creator } = await loadFixture(deployResaleFixture);
+      const tooHigh = (await marketplace.MAX_ROYALTY_BPS()) + 1n;
+
+      await expect(
+        marketplace
+          .connect(creator)
+          .mintAndList("ipfs://nft/1.json", PRICE, ETH, tooHigh)
+      )
+        .to.be.revertedWithCustomError(marketplace, "InvalidRoyalty")
+        .withArgs(tooHigh);
+    });
+  });
+
+  describe("Reparto de una venta", function () {
+    it("Debería repartir una reventa entre vendedor, creador y plataforma", async function () {
+      const { marketplace, owner, creator, collector, buyer } =
+        await loadFixture(deployResaleFixture);
+      const royalty = bps(RESALE_PRICE, ROYALTY_BPS);
+      const platformFee = bps(RESALE_PRICE, PLATFORM_FEE_BPS);
+      const sellerAmount = RESALE_PRICE - royalty - platformFee;
+      const [creatorBefore, collectorBefore, ownerBefore] = await Promise.all(
+        [creator, collector, owner].map((account) =>
+          marketplace.pendingWithdrawals(account.address, ETH)
+        )
+      );
+
+      await expect(marketplace.connect(buyer).buy(0, { value: RESALE_PRICE }))
+        .to.emit(marketplace, "SaleProceeds")
+        .withArgs(0, sellerAmount, creator.address, royalty, platformFee);
+
+      expect(
+        await marketplace.pendingWithdrawals(collector.address, ETH)
+      ).to.equal(collectorBefore + sellerAmount);
+      expect(
+        await marketplace.pendingWithdrawals(creator.address, ETH)
+      ).to.equal(creatorBefore + royalty);
+      expect(await marketplace.pendingWithdrawals(owner.address, ETH)).to.equal(
+        ownerBefore + platformFee
+      );
+    });
+
+    it("Debería cotizar el mismo reparto que cobra la venta", async function () {
+      const { marketplace, creator, buyer } = await loadFixture(
+        deployResaleFixture
+      );
+      const royalty = bps(RESALE_PRICE, ROYALTY_BPS);
+      const platformFee = bps(RESALE_PRICE, PLATFORM_FEE_BPS);
+      const quote = await marketplace.quoteSale(0);
+
+      expect(quote).to.deep.equal([
+        RESALE_PRICE - royalty - platformFee,
+        creator.address,
+        royalty,
+        platformFee,
+      ]);
+      await expect(marketplace.connect(buyer).buy(0, { value: RESALE_PRICE }))
+        .to.emit(marketplace, "SaleProceeds")
+        .withArgs(0, ...quote);
+    });
+
+    it("Debería cotizar con el precio y la comisión vigentes", async function () {
+      const { marketplace, collector } = await loadFixture(deployResaleFixture);
+      const newPrice = ethers.parseEther("10");
+      await marketplace.connect(collector).updatePrice(0, newPrice);
+      await marketplace.setPlatformFee(100);
+
+      const [sellerAmount, , royalty, platformFee] =
+        await marketplace.quoteSale(0);
+      expect(royalty).to.equal(bps(newPrice, ROYALTY_BPS));
+      expect(platformFee).to.equal(bps(newPrice, 100n));
+      expect(sellerAmount).to.equal(newPrice - royalty - platformFee);
+    });
+  });
+
+  describe("Comisión de la plataforma", function () {
+    it("Debería limitar la comisión al máximo", async function () {
+      const { marketplace } = await loadFixture(deployResaleFixture);
+      const maxFee = await marketplace.MAX_PLATFORM_FEE_BPS();
+
+      await expect(marketplace.setPlatformFee(maxFee + 1n))
+        .to.be.revertedWithCustomError(marketplace, "InvalidPlatformFee")
+        .withArgs(maxFee + 1n);
+      await expect(marketplace.setPlatformFee(maxFee))
+        .to.emit(marketplace, "PlatformFeeUpdated")
+        .withArgs(maxFee);
+      expect(await marketplace.platformFeeBps()).to.equal(maxFee);
+    });
+
+    it("Debería cobrar la comisión nueva solo en las ventas siguientes", async function () {
+      const { marketplace, owner, collector, buyer } = await loadFixture(
+        deployResaleFixture
+      );
+      // La primera venta ya cobró la comisión por defecto
+      const ownerBefore = await marketplace.pendingWithdrawals(
+        owner.address,
+        ETH
+      );
+      expect(ownerBefore).to.equal(bps(PRICE, PLATFORM_FEE_BPS));
+
+      await marketplace.setPlatformFee(0);
+      await marketplace.connect(buyer).buy(0, { value: RESALE_PRICE });
+
+      expect(await marketplace.pendingWithdrawals(owner.address, ETH)).to.equal(
+        ownerBefore
+      );
+      expect(
+        await marketplace.pendingWithdrawals(collector.address, ETH)
+      ).to.equal(RESALE_PRICE - bps(RESALE_PRICE, ROYALTY_BPS));
+    });
+  });
+});
@@ -0,0 +1,361 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  filterRedeemable,
+  hashVoucher,
+  parseVouchers,
+  serializeVouchers,
+  signVoucher,
+  signVoucherBatch,
+} from "../src/utils/vouchers";
+
+const ETH = ethers.ZeroAddress;
+const ROYALTY_BPS = 500n; // 5% para el creador
+const PLATFORM_FEE_BPS = 250n; // Comisión por defecto del contrato
+const DAY = 24 * 60 * 60;
+
+describe("Vouchers de minteo", function () {
+  // El creador firma vouchers sin mintear nada; el comprador paga el
+  // minteo al canjearlos
+  async function deployVouchersFixture() {
+    const [owner, creator, buyer, other] = await ethers.getSigners();
+
+    const Marketplace = await ethers.getContractFactory("Marketplace");
+    const marketplace = await Marketplace.deploy();
+    // Solo los minters pueden mintear
+    await marketplace.grantRole(
+      await marketplace.MINTER_ROLE(),
+      creator.address
+    );
+    const marketplaceAddress = await marketplace.getAddress();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    const token = await MockERC20.deploy();
+    await marketplace.setPaymentToken(await token.getAddress(), true);
+    await token.mint(buyer.address, ethers.parseEther("100"));
+    await token.connect(buyer).approve(marketplaceAddress, ethers.MaxUint256);
+    const deadline = BigInt((await time.latest()) + DAY);
+
+    // Voucher de `ipfs://nft/1.json` firmado por `signer` en nombre del creador
+    const sign = async (
+      terms: { price?: bigint; currency?: string; royaltyBps?: bigint } = {},
+      signer: HardhatEthersSigner = creator
+    ) =>
+      signVoucher(signer, marketplaceAddress, {
+        creator: creator.address,
+        uri: "ipfs://nft/1.json",
+        price: terms.price ?? ethers.parseEther("1"),
+        currency: terms.currency ?? ETH,
+        royaltyBps: terms.royaltyBps ?? ROYALTY_BPS,
+        deadline,
+      });
+
+    return {
+      marketplace,
+      token,
+      owner,
+      creator,
+      buyer,
+      other,
+      deadline,
+      sign,
+    };
+  }
+
+  describe("Canjear", function () {
+    it("Debería mintear el NFT al creador y entregárselo al comprador", async function () {
+      const { marketplace, owner, creator, buyer, sign } = await loadFixture(
+        deployVouchersFixture
+      );
+      const signed = await sign();
+      const { voucher, signature } = signed;
+      const fee = (voucher.price * PLATFORM_FEE_BPS) / 10000n;
+
+      const tx = marketplace
+        .connect(buyer)
+        .redeemVoucher(voucher, signature, { value: voucher.price });
+
+      await expect(tx)
+        .to.emit(marketplace, "VoucherRedeemed")
+        .withArgs(
+          hashVoucher(signed),
+          0,
+          creator.address,
+          buyer.address,
+          voucher.price,
+          ETH
+        );
+      await expect(tx)
+        .to.emit(marketplace, "Transfer")
+        .withArgs(creator.address, buyer.address, 0);
+      await expect(tx).to.changeEtherBalances(
+        [buyer, marketplace],
+        [-voucher.price, voucher.price]
+      );
+
+      expect(await marketplace.ownerOf(0)).to.equal(buyer.address);
+      expect(await marketplace.tokenURI(0)).to.equal(voucher.uri);
+      expect(await marketplace.tokenCounter()).to.equal(1);
+      // En la venta primaria el creador cobra el precio y la regalía
+      expect(
+        await marketplace.pendingWithdrawals(creator.address, ETH)
+      ).to.equal(voucher.price - fee);
+      expect(await marketplace.pendingWithdrawals(owner.address, ETH)).to.equal(
+        fee
+      );
+
+      const [receiver, royalty] = await marketplace.royaltyInfo(
+        0,
+        ethers.parseEther("10")
+      );
+      expect(receiver).to.equal(creator.address);
+      expect(royalty).to.equal(ethers.parseEther("0.5"));
+    });
+
+    it("Debería cobrar los vouchers en ERC20 con transferFrom", async function () {
+      const { marketplace, token, buyer, sign } = await loadFixture(
+        deployVouchersFixture
+      );
+      const price = ethers.parseEther("10");
+      const { voucher, signature } = await sign({
+        price,
+        currency: await token.getAddress(),
+      });
+
+      await expect(
+        marketplace.connect(buyer).redeemVoucher(voucher, signature)
+      ).to.changeTokenBalances(token, [buyer, marketplace], [-price, price]);
+      expect(await marketplace.ownerOf(0)).to.equal(buyer.address);
+    });
+
+    it("Debería rechazar canjear dos veces el mismo voucher", async function () {
+      const { marketplace, buyer, other, sign } = await loadFixture(
+        deployVouchersFixture
+      );
+      const signed = await sign();
+      const { voucher, signature } = signed;
+      await marketplace
+        .connect(buyer)
+        .redeemVoucher(voucher, signature, { value: voucher.price });
+
+      await expect(
+        marketplace
+          .connect(other)
+          .redeemVoucher(voucher, signature, { value: voucher.price })
+      )
+        .to.be.revertedWithCustomError(marketplace, "VoucherAlreadyRedeemed")
+        .withArgs(hashVoucher(signed));
+    });
+
+    it("Debería rechazar el pago incorrecto", async function () {
+      const { marketplace, buyer, sign } = await loadFixture(
+        deployVouchersFixture
+      );
+      const { voucher, signature } = await sign();
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .redeemVoucher(voucher, signature, { value: 1n })
+      )
+        .to.be.revertedWithCustomError(marketplace, "IncorrectPrice")
+        .withArgs(0, voucher.price, 1n);
+    });
+
+    it("Debería rechazar una regalía mayor al máximo", async function () {
+      const { marketplace, buyer, sign } = await loadFixture(
+        deployVouchersFixture
+      );
+      const { voucher, signature } = await sign({ royaltyBps: 1001n });
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .redeemVoucher(voucher, signature, { value: voucher.price })
+      )
+        .to.be.revertedWithCustomError(marketplace, "InvalidRoyalty")
+        .withArgs(1001);
+    });
+
+    it("Debería rechazar un voucher vencido", async function () {
+      const { marketplace, buyer, deadline, sign } = await loadFixture(
+        deployVouchersFixture
+      );
+      const signed = await sign();
+      const { voucher, signature } = signed;
+      await time.increaseTo(deadline);
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .redeemVoucher(voucher, signature, { value: voucher.price })
+      )
+        .to.be.revertedWithCustomError(marketplace, "VoucherExpired")
+        .withArgs(hashVoucher(signed), deadline);
+    });
+  });
+
+  describe("Cancelar", function () {
+    it("Debería impedir canjear un voucher cancelado por el creador", async function () {
+      const { marketplace, creator, buyer, sign } = await loadFixture(
+        deployVouchersFixture
+      );
+      const signed = await sign();
+      const { voucher, signature } = signed;
+
+      await expect(marketplace.connect(creator).cancelVoucher(voucher))
+        .to.emit(marketplace, "VoucherCanceled")
+        .withArgs(hashVoucher(signed));
+      expect(await marketplace.redeemedVouchers(hashVoucher(signed))).to.equal(
+        true
+      );
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .redeemVoucher(voucher, signature, { value: voucher.price })
+      )
+        .to.be.revertedWithCustomError(marketplace, "VoucherAlreadyRedeemed")
+        .withArgs(hashVoucher(signed));
+    });
+
+    it("Debería permitir cancelar solo al creador", async function () {
+      const { marketplace, buyer, sign } = await loadFixture(
+        deployVouchersFixture
+      );
+      const signed = await sign();
+
+      await expect(marketplace.connect(buyer).cancelVoucher(signed.voucher))
+        .to.be.revertedWithCustomError(marketplace, "NotVoucherCreator")
+        .withArgs(hashVoucher(signed), buyer.address);
+    });
+
+    it("Debería rechazar cancelar un voucher ya canjeado", async function () {
+      const { marketplace, creator, buyer, sign } = await loadFixture(
+        deployVouchersFixture
+      );
+      const signed = await sign();
+      const { voucher, signature } = signed;
+      await marketplace
+        .connect(buyer)
+        .redeemVoucher(voucher, signature, { value: voucher.price });
+
+      await expect(marketplace.connect(creator).cancelVoucher(voucher))
+        .to.be.revertedWithCustomError(marketplace, "VoucherAlreadyRedeemed")
+        .withArgs(hashVoucher(signed));
+    });
+  });
+
+  describe("Firma", function () {
+    it("Debería calcular el mismo hash que el contrato", async function () {
+      const { marketplace, sign } = await loadFixture(deployVouchersFixture);
+      const signed = await sign();
+
+      expect(await marketplace.hashVoucher(signed.voucher)).to.equal(
+        hashVoucher(signed)
+      );
+    });
+
+    it("Debería rechazar la firma de otra cuenta", async function () {
+      const { marketplace, buyer, other, sign } = await loadFixture(
+        deployVouchersFixture
+      );
+      const { voucher, signature } = await sign({}, other);
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .redeemVoucher(voucher, signature, { value: voucher.price })
+      ).to.be.revertedWithCustomError(marketplace, "InvalidSignature");
+    });
+
+    it("Debería rechazar un voucher con el precio alterado", async function () {
+      const { marketplace, buyer, sign } = await loadFixture(
+        deployVouchersFixture
+      );
+      const { voucher, signature } = await sign();
+      const tampered = { ...voucher, price: 1n };
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .redeemVoucher(tampered, signature, { value: tampered.price })
+      ).to.be.revertedWithCustomError(marketplace, "InvalidSignature");
+    });
+  });
+
+  describe("Utilidades", function () {
+    it("Debería firmar un voucher por cada metadato del CID", async function () {
+      const { marketplace, creator, deadline } = await loadFixture(
+        deployVouchersFixture
+      );
+
+      const vouchers = await signVoucherBatch(
+        creator,
+        await marketplace.getAddress(),
+        {
+          cid: "bafycid",
+          count: 3,
+          price: ethers.parseEther("0.01"),
+          currency: ETH,
+          royaltyBps: ROYALTY_BPS,
+          deadline,
+        }
+      );
+
+      expect(vouchers.map(({ voucher }) => voucher.uri)).to.deep.equal([
+        "ipfs://bafycid/1.json",
+        "ipfs://bafycid/2.json",
+        "ipfs://bafycid/3.json",
+      ]);
+      expect(parseVouchers(serializeVouchers(vouchers))).to.deep.equal(
+        vouchers
+      );
+    });
+
+    it("Debería descartar los vouchers ya canjeados o cancelados", async function () {
+      const { marketplace, creator, buyer, deadline } = await loadFixture(
+        deployVouchersFixture
+      );
+      const marketplaceAddress = await marketplace.getAddress();
+      const vouchers = await signVoucherBatch(creator, marketplaceAddress, {
+        cid: "bafycid",
+        count: 3,
+        price: ethers.parseEther("0.01"),
+        currency: ETH,
+        royaltyBps: ROYALTY_BPS,
+        deadline,
+      });
+      const { voucher, signature } = vouchers[1];
+      await marketplace
+        .connect(buyer)
+        .redeemVoucher(voucher, signature, { value: voucher.price });
+      await marketplace.connect(creator).cancelVoucher(vouchers[2].voucher);
+
+      const redeemable = await filterRedeemable(
+        ethers.provider,
+        marketplaceAddress,
+        vouchers
+      );
+
+      expect(redeemable).to.deep.equal([vouchers[0]]);
+    });
+
+    it("Debería descartar los vouchers vencidos", async function () {
+      const { marketplace, sign } = await loadFixture(deployVouchersFixture);
+      const signed = await sign();
+      const marketplaceAddress = await marketplace.getAddress();
+      expect(
+        await filterRedeemable(ethers.provider, marketplaceAddress, [signed])
+      ).to.deep.equal([signed]);
+
+      // Desde el bloque con timestamp igual al deadline ya no se puede canjear
+      await time.increaseTo(signed.voucher.deadline);
+      expect(
+        await filterRedeemable(ethers.provider, marketplaceAddress, [signed])
+      ).to.deep.equal([]);
+    });
+  });
+});